@@ -0,0 +1,104 @@
+/**
+ * Mock scenario
+ * Drives the extension's API layer through a full session against the
+ * in-memory Real-Debrid stand-in: device sign-in, add magnet, select files
+ * by the default rules, wait for the download, unrestrict and stream.
+ * Exits non-zero on the first step that doesn't behave, so drift between
+ * lib/api and the mock shows up.
+ *
+ *   bun run mock:scenario
+ */
+
+import assert from "node:assert/strict";
+
+import {
+  addMagnet,
+  configureClient,
+  configureRetryPolicy,
+  getTorrentInfo,
+  getTranscodeLinks,
+  getUser,
+  listDownloads,
+  RealDebridApiError,
+  selectFiles,
+  unrestrictLink,
+} from "~lib/api";
+import { createMockRealDebrid } from "~lib/api/mock";
+import { completeDeviceAuthorization, requestDeviceCode } from "~lib/auth";
+import { applyFileSelectionRules, DEFAULT_FILE_SELECTION_RULES } from "~lib/file-rules";
+
+const MAGNET = "magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567&dn=Show.S01.1080p";
+
+function step(name: string): void {
+  console.log(`- ${name}`);
+}
+
+async function run(): Promise<void> {
+  const mock = createMockRealDebrid();
+  configureClient(mock.config);
+  // Keep backoff short; the mock answers instantly
+  configureRetryPolicy({ baseDelayMs: 1, maxDelayMs: 5 });
+
+  step("device sign-in");
+  const { device_code } = await requestDeviceCode();
+  assert.equal(await completeDeviceAuthorization(device_code), null, "pending before approval");
+  mock.authorizeDevice(device_code);
+  const auth = await completeDeviceAuthorization(device_code);
+  assert.ok(auth, "authorized after approval");
+  const token = auth.accessToken;
+  assert.equal((await getUser(token)).username, mock.fixtures.user.username);
+
+  step("add magnet");
+  const { id } = await addMagnet(token, MAGNET);
+  assert.equal((await getTorrentInfo(token, id)).status, "magnet_conversion");
+  mock.advance();
+  const waiting = await getTorrentInfo(token, id);
+  assert.equal(waiting.status, "waiting_files_selection");
+
+  step("select files by the default rules");
+  const { selectedIds, reasons } = applyFileSelectionRules(waiting.files, DEFAULT_FILE_SELECTION_RULES);
+  assert.deepEqual(selectedIds, [1, 2], `samples and .nfo skipped (${JSON.stringify(reasons)})`);
+  await selectFiles(token, id, selectedIds);
+  assert.equal((await getTorrentInfo(token, id)).status, "downloading");
+
+  step("download");
+  mock.advance(2);
+  const downloaded = await getTorrentInfo(token, id);
+  assert.equal(downloaded.status, "downloaded");
+  assert.equal(downloaded.links.length, selectedIds.length, "one link per selected file");
+
+  step("unrestrict links");
+  const files = [];
+  for (const link of downloaded.links) files.push(await unrestrictLink(token, { link }));
+  assert.deepEqual(
+    files.map((file) => file.filename),
+    ["Show.S01E01.1080p.mkv", "Show.S01E02.1080p.mkv"]
+  );
+  const history = await listDownloads(token);
+  assert.ok(files.every((file) => history.some((item) => item.id === file.id)), "unrestricted files in history");
+
+  step("stream");
+  const transcode = await getTranscodeLinks(token, files[0].id);
+  assert.ok(transcode.apple?.full, "HLS stream offered");
+
+  step("transient failures are retried, coded ones are not");
+  const countRequests = (path: string) => mock.state.requests.filter((r) => r.path === path).length;
+  const userRequests = countRequests("/user");
+  mock.failNext({ status: 503, pathPrefix: "/user" });
+  await getUser(token);
+  assert.equal(countRequests("/user") - userRequests, 2, "bare 503 retried once");
+  const unrestrictRequests = countRequests("/unrestrict/link");
+  mock.failNext({ status: 503, error: "hoster_unavailable", errorCode: 19, pathPrefix: "/unrestrict/link" });
+  await assert.rejects(
+    unrestrictLink(token, { link: downloaded.links[0] }),
+    (err) => err instanceof RealDebridApiError && err.code === 19
+  );
+  assert.equal(countRequests("/unrestrict/link") - unrestrictRequests, 1, "hoster_unavailable not retried");
+
+  console.log(`ok: ${mock.state.requests.length} requests`);
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
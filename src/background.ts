@@ -3,13 +3,19 @@ import {
   success,
   error,
   type MessageHandler,
+  type MessageResponse,
   type DetectedLink,
 } from "~lib/messaging";
-import { storage } from "~lib/storage";
+import { storage, getAccountName, type Account } from "~lib/storage";
 import {
-  type AuthData,
-  OAuthFlow,
+  OAuthError,
+  canRefreshToken,
+  completeDeviceAuthorization,
+  isTokenExpired,
+  refreshAuthData,
+  requestDeviceCode,
   type DeviceCodeResponse,
+  type OAuthFlowState,
 } from "~lib/auth";
 import {
   getUser,
@@ -24,6 +30,8 @@ import {
   getTraffic,
   getTrafficDetails,
   listTorrents,
+  listTorrentsPage,
+  iterateTorrentPages,
   getTorrentInfo,
   addMagnet,
   addTorrent,
@@ -31,40 +39,117 @@ import {
   deleteTorrent,
   getActiveCount,
   listDownloads,
+  listDownloadsPage,
   deleteDownload,
   getHostsRegex,
   getHostsDomains,
   getHostsStatus,
   RealDebridApiError,
+  describeError,
+  formatErrorText,
+  configureClient,
+  createRateLimiter,
+  getRateLimitStatus,
+  RATE_LIMIT,
+  RATE_WINDOW_MS,
 } from "~lib/api";
-import type { TorrentItem, TorrentStatus } from "~lib/api/torrents";
+import type { TorrentItem } from "~lib/api/torrents";
+import type { UnrestrictedLink } from "~lib/api/unrestrict";
+import type { CallOptions } from "~lib/api/client";
+import { createTorrentTracker, isActiveTorrentStatus } from "~lib/torrent-tracker";
+import { applyFileSelectionRules } from "~lib/file-rules";
+import { createAutoUnrestrictQueue, planAutoUnrestrict } from "~lib/auto-unrestrict";
+import {
+  createCompletionPipeline,
+  resolveCompletionSetting,
+  type CompletionAction,
+  type CompletionRun,
+  type DeliverableLink,
+} from "~lib/completion";
+import { buildDownloadPath, type DownloadRequest } from "~lib/download-paths";
+import { createTransferTracker, type Transfer } from "~lib/transfers";
+import { createDownloadQueue, type QueuedDownload, type QueueRequest } from "~lib/download-queue";
+import {
+  getPlaylistTitle,
+  isPlaylistFile,
+  sortPlaylist,
+  type PlaylistEntry,
+  type PlaylistFile,
+} from "~lib/playlist";
+import {
+  addAria2Download,
+  getAria2Version,
+  isAria2Configured,
+  type Aria2Download,
+  type Aria2SendResult,
+  type Aria2Settings,
+} from "~lib/aria2";
+import {
+  getStreamingStatus,
+  isStreamingSupportFresh,
+  type StreamingSupport,
+} from "~lib/streaming-support";
+import {
+  createJobRunner,
+  toJobProgress,
+  type BulkTorrentAction,
+  type BulkTorrentTarget,
+  type JobWorker,
+} from "~lib/jobs";
+import {
+  classifyPollActivity,
+  getNextPollDelay,
+  getPollIntervalBounds,
+  type PollIntervalBounds,
+} from "~lib/poll-scheduler";
+import {
+  LIVE_EVENT_TOPICS,
+  LIVE_PORT_NAME,
+  diffTorrentLists,
+  type LiveClientMessage,
+  type LiveEvent,
+  type LiveTopic,
+} from "~lib/live";
 
 const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent) ||
   typeof navigator.userAgent === "string" && navigator.userAgent.includes("Safari") && !navigator.userAgent.includes("Chrome");
 
 const POLLING_ALARM_NAME = "torrent-polling";
-const POLLING_INTERVAL_MINUTES = 0.5; // 30 seconds
+// chrome.alarms won't fire sooner than this
+const MIN_ALARM_DELAY_MS = 30 * 1000;
+// How long without input before the machine counts as idle
+const IDLE_DETECTION_SECONDS = 5 * 60;
+const POLLING_PAGE_SIZE = 100;
 const BADGE_COLOR = "#B7D995"; // Primary green for torrents
 const LINKS_BADGE_COLOR = "#9ED1EC";
 
-const knownTorrents = new Map<string, TorrentStatus>();
+// Last-known torrent states, persisted so transitions that happen while the
+// worker is asleep are still picked up on the next poll
+const torrentTracker = createTorrentTracker({
+  load: (accountId) => storage.getTorrentSnapshot(accountId),
+  save: (accountId, snapshot) => storage.setTorrentSnapshot(accountId, snapshot),
+});
 
-const ACTIVE_STATUSES: TorrentStatus[] = [
-  "magnet_conversion",
-  "queued",
-  "downloading",
-  "compressing",
-  "uploading",
-];
+// Active torrents for the active account as of the last poll
+let activeTorrentCount = 0;
+
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let pollInFlight = false;
+// Delay chosen after the last poll; the scheduler backs off from it
+let lastPollDelayMs: number | null = null;
+
+// Single API budget for the extension, persisted so restarts don't reset it
+configureClient({
+  rateLimiter: createRateLimiter({
+    limit: RATE_LIMIT,
+    windowMs: RATE_WINDOW_MS,
+    load: () => storage.getRateLimitWindow(),
+    save: (timestamps) => storage.setRateLimitWindow(timestamps),
+  }),
+});
 
 const detectedLinksByTab = new Map<number, DetectedLink[]>();
 
-function getActiveTorrentCount(): number {
-  return Array.from(knownTorrents.values()).filter((status) =>
-    ACTIVE_STATUSES.includes(status)
-  ).length;
-}
-
 async function updateBadgeForTab(tabId: number): Promise<void> {
   try {
     const links = detectedLinksByTab.get(tabId) || [];
@@ -75,7 +160,7 @@ async function updateBadgeForTab(tabId: number): Promise<void> {
       await chrome.action.setBadgeBackgroundColor({ color: LINKS_BADGE_COLOR, tabId });
     } else {
       // No detected links - fall back to torrent count (green badge)
-      const activeTorrents = getActiveTorrentCount();
+      const activeTorrents = activeTorrentCount;
       if (activeTorrents > 0) {
         await chrome.action.setBadgeText({ text: String(activeTorrents), tabId });
         await chrome.action.setBadgeBackgroundColor({ color: BADGE_COLOR, tabId });
@@ -90,13 +175,26 @@ async function updateBadgeForTab(tabId: number): Promise<void> {
 
 function clearTabLinks(tabId: number): void {
   detectedLinksByTab.delete(tabId);
+  autoUnrestrictQueue.cancelTab(tabId);
 }
 
-function isActiveTorrent(status: TorrentStatus): boolean {
-  return ACTIVE_STATUSES.includes(status);
-}
+// Resolves auto-scanned links in the background lane so the popup and
+// dashboard stay responsive
+const autoUnrestrictQueue = createAutoUnrestrictQueue({
+  unrestrict: (url) =>
+    callWithToken((token) => unrestrictLink(token, { link: url }, { priority: "background" })),
+  onResult: (tabId, url, state) => {
+    const links = detectedLinksByTab.get(tabId);
+    // The tab navigated or closed meanwhile
+    if (!links?.some((link) => link.url === url)) return;
+    const updated = links.map((link) => (link.url === url ? { ...link, autoUnrestrict: state } : link));
+    detectedLinksByTab.set(tabId, updated);
+    broadcastLive({ type: "DETECTED_LINKS", tabId, links: updated });
+  },
+});
 
 async function updateBadge(activeCount: number): Promise<void> {
+  activeTorrentCount = activeCount;
   try {
     if (activeCount > 0) {
       await chrome.action.setBadgeText({ text: String(activeCount) });
@@ -128,6 +226,24 @@ async function showTorrentCompletedNotification(torrent: TorrentItem): Promise<v
   }
 }
 
+torrentTracker.onTransition(async (transition) => {
+  if (transition.kind === "completed" && transition.torrent) {
+    await showTorrentCompletedNotification(transition.torrent);
+    // Runs in the background; polling shouldn't wait for downloads to start
+    runCompletionPipeline(transition.accountId, transition.torrent).catch((err) => {
+      console.error("Error running completion pipeline:", err);
+    });
+  }
+  // New torrents, and magnets that finished converting, wait for a file choice
+  if (
+    transition.to === "waiting_files_selection" &&
+    (transition.kind === "added" || transition.kind === "changed")
+  ) {
+    const outcome = await autoSelectTorrentFiles(transition.torrentId, transition.accountId);
+    if (outcome === "selected") startPolling();
+  }
+});
+
 try {
   chrome.notifications.onClicked.addListener((notificationId) => {
     if (notificationId.startsWith("torrent-completed-")) {
@@ -140,7 +256,331 @@ try {
 } catch (err) {
 }
 
+// ============================================
+// COMPLETION PIPELINE
+// ============================================
+
+const OFFSCREEN_DOCUMENT_PATH = "tabs/offscreen.html";
+
+let offscreenDocumentCreating: Promise<void> | null = null;
+
+async function ensureOffscreenDocument(): Promise<void> {
+  if (await chrome.offscreen.hasDocument()) return;
+  offscreenDocumentCreating ??= chrome.offscreen
+    .createDocument({
+      url: OFFSCREEN_DOCUMENT_PATH,
+      reasons: [chrome.offscreen.Reason.CLIPBOARD],
+      justification: "Copy links of completed torrents to the clipboard",
+    })
+    .finally(() => {
+      offscreenDocumentCreating = null;
+    });
+  await offscreenDocumentCreating;
+}
+
+/**
+ * Write text to the clipboard from the background
+ * Chrome's service worker has no DOM, so an offscreen document does the
+ * copying. Without the offscreen API only a background page (e.g. Firefox's)
+ * can copy itself; a service worker elsewhere (e.g. Safari's) can't copy.
+ */
+async function copyToClipboard(text: string): Promise<void> {
+  if (chrome.offscreen) {
+    await ensureOffscreenDocument();
+    const response = await chrome.runtime.sendMessage({
+      target: "offscreen",
+      type: "COPY_TO_CLIPBOARD",
+      text,
+    });
+    if (!response?.success) throw new Error("Couldn't copy to the clipboard");
+    return;
+  }
+
+  if (typeof document === "undefined") {
+    throw new Error("Copying to the clipboard isn't supported in this browser");
+  }
+
+  const textArea = document.createElement("textarea");
+  textArea.value = text;
+  document.body.appendChild(textArea);
+  textArea.select();
+  const copied = document.execCommand("copy");
+  document.body.removeChild(textArea);
+  if (!copied) throw new Error("Couldn't copy to the clipboard");
+}
+
+/**
+ * Send a link to the configured external downloader
+ * URLs with a {url} placeholder are requested with the link filled in;
+ * others receive the link as a JSON POST
+ */
+async function sendToExternalDownloader(link: DeliverableLink, template: string): Promise<void> {
+  if (!template) throw new Error("No external downloader configured");
+
+  const response = template.includes("{url}")
+    ? await fetch(
+        template
+          .replace(/\{url\}/g, encodeURIComponent(link.download))
+          .replace(/\{filename\}/g, encodeURIComponent(link.filename))
+      )
+    : await fetch(template, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: link.download, filename: link.filename }),
+      });
+
+  if (!response.ok) {
+    throw new Error(`External downloader responded with HTTP ${response.status}`);
+  }
+}
+
+async function deliverCompletedLinks(
+  action: CompletionAction,
+  links: DeliverableLink[],
+  run: CompletionRun
+): Promise<void> {
+  switch (action) {
+    case "download":
+      await downloadQueue.add(
+        links.map((link) => ({ ...link, torrent: run.filename, torrentId: run.torrentId })),
+        { accountId: run.accountId }
+      );
+      return;
+    case "copy":
+      await copyToClipboard(links.map((link) => link.download).join("\n"));
+      return;
+    case "aria2":
+      for (const link of links) {
+        await sendToAria2({ ...link, torrent: run.filename, torrentId: run.torrentId });
+      }
+      return;
+    case "external": {
+      const { externalDownloaderUrl } = await storage.getPreferences();
+      for (const link of links) await sendToExternalDownloader(link, externalDownloaderUrl);
+      return;
+    }
+  }
+}
+
+async function showCompletionRunNotification(run: CompletionRun): Promise<void> {
+  const failed = run.links.filter((link) => link.status === "failed").length;
+  // Browser downloads show up on their own
+  if (failed === 0 && run.action === "download") return;
+
+  try {
+    const preferences = await storage.getPreferences();
+    if (!preferences.notificationsEnabled) return;
+
+    const message = failed > 0
+      ? `${run.filename}: ${failed} of ${run.links.length} links failed. Retry from the dashboard.`
+      : run.action === "copy"
+        ? `Links for ${run.filename} copied to the clipboard`
+        : run.action === "aria2"
+          ? `Links for ${run.filename} sent to aria2`
+          : `Links for ${run.filename} sent to your downloader`;
+
+    await chrome.notifications.create(`completion-${run.id}`, {
+      type: "basic",
+      iconUrl: chrome.runtime.getURL("assets/icon.png"),
+      title: failed > 0 ? "Auto-download Failed" : "Auto-download Finished",
+      message,
+    });
+  } catch (err) {
+  }
+}
+
+const completionPipeline = createCompletionPipeline({
+  load: () => storage.getCompletionHistory(),
+  save: (runs) => storage.setCompletionHistory(runs),
+  unrestrict: (accountId, link) =>
+    callWithToken(
+      (token) => unrestrictLink(token, { link }, { priority: "background" }),
+      accountId
+    ),
+  deliver: deliverCompletedLinks,
+  onChange: (run) => {
+    if (run.status !== "running") showCompletionRunNotification(run);
+  },
+});
+
+/**
+ * Run the completion pipeline for a torrent if it's turned on for it
+ */
+async function runCompletionPipeline(accountId: string, torrent: TorrentItem): Promise<void> {
+  const preferences = await storage.getPreferences();
+  const overrides = await storage.getCompletionOverrides();
+  const setting = resolveCompletionSetting(preferences.completionAction, overrides[torrent.id]);
+
+  // The per-torrent choice has been used up either way
+  if (overrides[torrent.id]) await storage.setCompletionOverride(torrent.id, null);
+  if (setting === "none") return;
+
+  await completionPipeline.start(accountId, torrent, setting);
+}
+
+// ============================================
+// LIVE UPDATES (ports to open views)
+// ============================================
+
+interface LiveClient {
+  port: chrome.runtime.Port;
+  topics: Set<LiveTopic>;
+}
+
+const liveClients = new Set<LiveClient>();
+
+// Recent torrents for the active account as of the last poll, shared by
+// every open view
+let liveTorrents: {
+  accountId: string;
+  torrents: TorrentItem[];
+  totalCount: number;
+  at: number;
+} | null = null;
+
+function postLive(client: LiveClient, event: LiveEvent): void {
+  try {
+    client.port.postMessage(event);
+  } catch (err) {
+    // View closed mid-send; onDisconnect cleans up
+  }
+}
+
+function broadcastLive(event: LiveEvent): void {
+  const topic = LIVE_EVENT_TOPICS[event.type];
+  liveClients.forEach((client) => {
+    if (client.topics.has(topic)) postLive(client, event);
+  });
+}
+
+/**
+ * Record a poll's torrents and push the changes to open views
+ */
+function publishTorrents(
+  accountId: string,
+  torrents: TorrentItem[],
+  totalCount: number,
+  complete: boolean
+): void {
+  const at = Date.now();
+
+  if (!liveTorrents || liveTorrents.accountId !== accountId) {
+    liveTorrents = { accountId, torrents, totalCount, at };
+    broadcastLive({ type: "TORRENTS_SNAPSHOT", accountId, torrents, totalCount, at });
+    return;
+  }
+
+  const { added, updated, removed, merged } = diffTorrentLists(
+    liveTorrents.torrents,
+    torrents,
+    complete
+  );
+  const countChanged = totalCount !== liveTorrents.totalCount;
+  liveTorrents = { accountId, torrents: merged, totalCount, at };
+
+  if (added.length || updated.length || removed.length || countChanged) {
+    broadcastLive({ type: "TORRENTS_DELTA", accountId, added, updated, removed, totalCount, at });
+  }
+}
+
+/**
+ * Drop a deleted torrent from the shared list without waiting for a poll
+ */
+async function unpublishTorrent(accountId: string | undefined, torrentId: string): Promise<void> {
+  const resolvedId = accountId ?? (await storage.getActiveAccountId());
+  if (!liveTorrents || liveTorrents.accountId !== resolvedId) return;
+  if (!liveTorrents.torrents.some((t) => t.id === torrentId)) return;
+
+  const totalCount = Math.max(0, liveTorrents.totalCount - 1);
+  const at = Date.now();
+  liveTorrents = {
+    ...liveTorrents,
+    torrents: liveTorrents.torrents.filter((t) => t.id !== torrentId),
+    totalCount,
+  };
+  broadcastLive({
+    type: "TORRENTS_DELTA",
+    accountId: liveTorrents.accountId,
+    added: [],
+    updated: [],
+    removed: [torrentId],
+    totalCount,
+    at,
+  });
+}
+
+/**
+ * Send a newly subscribed view the current state, polling first if the
+ * shared torrent list is missing or older than the fastest poll interval
+ */
+async function sendInitialLiveState(client: LiveClient, topics: LiveTopic[]): Promise<void> {
+  const activeAccountId = await storage.getActiveAccountId();
+
+  if (topics.includes("auth")) {
+    const accounts = await storage.getAccounts();
+    postLive(client, {
+      type: "AUTH_CHANGED",
+      activeAccountId,
+      accountIds: accounts.map((a) => a.id),
+    });
+  }
+
+  if (topics.includes("torrents") && activeAccountId) {
+    const current = liveTorrents?.accountId === activeAccountId ? liveTorrents : null;
+    if (current) {
+      postLive(client, { type: "TORRENTS_SNAPSHOT", ...current });
+    }
+
+    const { minMs } = await getPollBounds();
+    if (!current || Date.now() - current.at > minMs) {
+      startPolling();
+    }
+  }
+
+  if (topics.includes("transfers")) {
+    const transfers = await transferTracker.refresh();
+    postLive(client, { type: "TRANSFERS_SNAPSHOT", transfers });
+    postLive(client, { type: "DOWNLOAD_QUEUE", queue: await downloadQueue.get() });
+    updateTransferSampler(transfers);
+  }
+
+  // Views reconnecting after a worker restart learn their job was interrupted
+  if (topics.includes("jobs")) {
+    for (const job of await jobRunner.list()) {
+      postLive(client, { type: "JOB_PROGRESS", job: toJobProgress(job) });
+    }
+  }
+}
+
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== LIVE_PORT_NAME) return;
+
+  const client: LiveClient = { port, topics: new Set() };
+  liveClients.add(client);
+
+  port.onMessage.addListener((message: LiveClientMessage) => {
+    if (message.type === "SUBSCRIBE") {
+      // Every subscribe replays the current state; a view that subscribes
+      // later on a shared port needs it too
+      client.topics = new Set(message.topics);
+      sendInitialLiveState(client, message.topics).catch((err) => {
+        console.error("Error sending live state:", err);
+      });
+    } else if (message.type === "REFRESH_TORRENTS") {
+      startPolling();
+    }
+  });
+
+  port.onDisconnect.addListener(() => {
+    liveClients.delete(client);
+  });
+});
+
 async function pollTorrents(): Promise<void> {
+  if (pollInFlight) return;
+  pollInFlight = true;
+
+  let bounds: PollIntervalBounds | null = null;
   try {
     const isAuthenticated = await storage.isAuthenticated();
     if (!isAuthenticated) {
@@ -148,47 +588,76 @@ async function pollTorrents(): Promise<void> {
       return;
     }
 
-    const token = await getValidToken();
-    const torrents = await listTorrents(token, { limit: 100 });
-
-    let activeCount = 0;
-    const currentTorrentIds = new Set<string>();
-
-    for (const torrent of torrents) {
-      currentTorrentIds.add(torrent.id);
-      const previousStatus = knownTorrents.get(torrent.id);
+    bounds = await getPollBounds();
+    if (await isPollingPaused()) {
+      // Keep a slow heartbeat; idle and online events resume sooner
+      await scheduleNextPoll(bounds.maxMs);
+      return;
+    }
 
-      // Check if torrent just completed
-      if (
-        previousStatus &&
-        previousStatus !== "downloaded" &&
-        torrent.status === "downloaded"
-      ) {
-        await showTorrentCompletedNotification(torrent);
+    // Polling follows the active account
+    const accountId = await storage.getActiveAccountId();
+    if (!accountId) return;
+    const previous = await torrentTracker.getSnapshot(accountId);
+    const knownActiveIds = await torrentTracker.getActiveIds(accountId);
+
+    // Torrents come newest first; stop paging once a page has nothing active
+    // and every torrent we last saw as active has been accounted for
+    const { torrents, totalCount, complete } = await callWithToken(async (token) => {
+      const seen: TorrentItem[] = [];
+      const pendingActive = new Set(knownActiveIds);
+      let totalCount = 0;
+      let complete = true;
+
+      for await (const page of iterateTorrentPages(
+        token,
+        { pageSize: POLLING_PAGE_SIZE },
+        { priority: "background" }
+      )) {
+        seen.push(...page.items);
+        totalCount = page.totalCount;
+        for (const torrent of page.items) pendingActive.delete(torrent.id);
+
+        const pageHasActive = page.items.some((t) => isActiveTorrentStatus(t.status));
+        if (page.hasMore && !pageHasActive && pendingActive.size === 0) {
+          complete = false;
+          break;
+        }
       }
 
-      // Update known status
-      knownTorrents.set(torrent.id, torrent.status);
+      await resolveConversionStatuses(token, seen, { priority: "background" });
+      return { torrents: seen, totalCount, complete };
+    }, accountId);
 
-      // Count active torrents
-      if (isActiveTorrent(torrent.status)) {
-        activeCount++;
-      }
+    // Switched accounts mid-poll; poll again soon for the new one
+    if (accountId !== (await storage.getActiveAccountId())) {
+      await scheduleNextPoll(bounds.minMs);
+      return;
     }
 
-    for (const id of knownTorrents.keys()) {
-      if (!currentTorrentIds.has(id)) {
-        knownTorrents.delete(id);
-      }
-    }
+    // Transitions (e.g. completion notifications) go out to tracker listeners
+    await torrentTracker.update(accountId, torrents, { complete });
+    publishTorrents(accountId, torrents, totalCount, complete);
 
+    const activeCount = torrents.filter((t) => isActiveTorrentStatus(t.status)).length;
     await updateBadge(activeCount);
 
-    if (activeCount === 0) {
+    const activity = classifyPollActivity(torrents, previous);
+    const delay = getNextPollDelay(activity, lastPollDelayMs, bounds);
+    if (delay === null) {
       await stopPolling();
+    } else {
+      await scheduleNextPoll(delay);
     }
   } catch (err) {
     console.error("Error polling torrents:", err);
+    // Back off and try again rather than going quiet
+    if (bounds) {
+      const delay = getNextPollDelay("stalled", lastPollDelayMs, bounds) ?? bounds.maxMs;
+      await scheduleNextPoll(delay).catch(() => undefined);
+    }
+  } finally {
+    pollInFlight = false;
   }
 }
 
@@ -196,303 +665,1163 @@ function hasAlarmsSupport(): boolean {
   return typeof chrome.alarms !== "undefined" && typeof chrome.alarms.create === "function";
 }
 
+function hasIdleSupport(): boolean {
+  return typeof chrome.idle !== "undefined" && typeof chrome.idle.queryState === "function";
+}
+
+/**
+ * Polling pauses while the browser is offline or the machine is idle or locked
+ */
+async function isPollingPaused(): Promise<boolean> {
+  if (navigator.onLine === false) return true;
+  if (!hasIdleSupport()) return false;
+
+  try {
+    const state = await new Promise<chrome.idle.IdleState>((resolve) =>
+      chrome.idle.queryState(IDLE_DETECTION_SECONDS, resolve)
+    );
+    return state !== "active";
+  } catch (err) {
+    return false;
+  }
+}
+
+function clearPollTimer(): void {
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+}
+
+/**
+ * Schedule the next poll
+ * Alarms can't fire sooner than MIN_ALARM_DELAY_MS, so shorter delays use a
+ * timer; the alarm stays as a backstop in case the worker is suspended first
+ */
+async function scheduleNextPoll(delayMs: number): Promise<void> {
+  clearPollTimer();
+  lastPollDelayMs = delayMs;
+
+  if (delayMs < MIN_ALARM_DELAY_MS || !hasAlarmsSupport()) {
+    pollTimer = setTimeout(() => {
+      pollTimer = null;
+      pollTorrents();
+    }, delayMs);
+  }
+
+  if (hasAlarmsSupport()) {
+    await chrome.alarms.create(POLLING_ALARM_NAME, {
+      when: Date.now() + Math.max(delayMs, MIN_ALARM_DELAY_MS),
+    });
+  }
+}
+
+async function getPollBounds(): Promise<PollIntervalBounds> {
+  const preferences = await storage.getPreferences();
+  return getPollIntervalBounds(
+    preferences.pollMinIntervalSeconds,
+    preferences.pollMaxIntervalSeconds
+  );
+}
+
+/**
+ * Poll right away, e.g. after a torrent was added
+ */
 async function startPolling(): Promise<void> {
+  lastPollDelayMs = null;
+  await pollTorrents();
+}
+
+async function stopPolling(): Promise<void> {
+  clearPollTimer();
+  lastPollDelayMs = null;
   if (!hasAlarmsSupport()) return;
 
   try {
-    const existingAlarm = await chrome.alarms.get(POLLING_ALARM_NAME);
-    if (existingAlarm) return;
+    await chrome.alarms.clear(POLLING_ALARM_NAME);
+    await updateBadge(0);
+  } catch (err) {
+    console.error("Error stopping polling:", err);
+  }
+}
+
+async function isPollScheduled(): Promise<boolean> {
+  if (pollTimer) return true;
+  if (!hasAlarmsSupport()) return false;
+  return !!(await chrome.alarms.get(POLLING_ALARM_NAME));
+}
+
+/**
+ * Make sure torrents are being watched, without polling again if a poll is
+ * already scheduled (e.g. the alarm that just woke the worker)
+ */
+async function checkAndUpdatePolling(): Promise<void> {
+  try {
+    const isAuthenticated = await storage.isAuthenticated();
+    if (!isAuthenticated) {
+      await stopPolling();
+      return;
+    }
 
-    await pollTorrents();
-    await chrome.alarms.create(POLLING_ALARM_NAME, {
-      periodInMinutes: POLLING_INTERVAL_MINUTES,
+    if (!(await isPollScheduled())) {
+      await startPolling();
+    }
+  } catch (err) {
+    console.error("Error checking polling status:", err);
+  }
+}
+
+/**
+ * Poll soon after coming back online or the user returning, if polling was
+ * paused rather than stopped
+ */
+async function resumePolling(): Promise<void> {
+  if (await isPollScheduled()) {
+    await startPolling();
+  }
+}
+
+try {
+  if (hasIdleSupport()) {
+    chrome.idle.setDetectionInterval(IDLE_DETECTION_SECONDS);
+    chrome.idle.onStateChanged.addListener((state) => {
+      if (state === "active") resumePolling();
+    });
+  }
+  self.addEventListener("online", () => {
+    resumePolling();
+  });
+} catch (err) {
+}
+
+try {
+  if (hasAlarmsSupport()) {
+    chrome.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === POLLING_ALARM_NAME) {
+        pollTorrents();
+      } else if (alarm.name === OAUTH_POLL_ALARM_NAME) {
+        pollOAuthFlow();
+      }
     });
+  }
+} catch (err) {
+}
+
+async function initializePolling(): Promise<void> {
+  await checkAndUpdatePolling();
+}
+
+// Refresh OAuth tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// One in-flight refresh per account
+const tokenRefreshInFlight = new Map<string, Promise<string>>();
+
+/**
+ * Get an account, or the active account when no ID is given
+ */
+async function resolveAccount(accountId?: string): Promise<Account> {
+  const account = await storage.getAccount(accountId);
+  if (!account || !account.auth.accessToken) {
+    throw new Error(accountId ? "Account not found" : "Not authenticated");
+  }
+  return account;
+}
+
+/**
+ * Refresh an account's access token using its stored OAuth client credentials
+ * Concurrent callers share one in-flight refresh. The account is only signed
+ * out when Real-Debrid rejects the refresh (or there is nothing to refresh with).
+ *
+ * @param staleToken - Token that was rejected; if storage already holds a
+ * different token, another caller refreshed it and that token is returned
+ */
+function refreshStoredToken(accountId: string, staleToken?: string): Promise<string> {
+  const inFlight = tokenRefreshInFlight.get(accountId);
+  if (inFlight) return inFlight;
+
+  const refresh = (async () => {
+    const authData = await storage.getAuthData(accountId);
+    if (!authData || !authData.accessToken) {
+      throw new Error("Not authenticated");
+    }
+
+    if (staleToken && authData.accessToken !== staleToken) {
+      return authData.accessToken;
+    }
+
+    if (!canRefreshToken(authData)) {
+      await storage.removeAccount(accountId);
+      throw new RealDebridApiError(
+        "Authentication invalid. Please sign in again.",
+        401,
+        401
+      );
+    }
+
+    try {
+      const refreshed = await refreshAuthData(authData);
+      await storage.setAuthData(refreshed, accountId);
+      return refreshed.accessToken;
+    } catch (err) {
+      // A 4xx from the token endpoint means the grant is gone; anything else
+      // (network failure, 5xx) keeps the account signed in for a later attempt
+      if (err instanceof OAuthError && err.status && err.status < 500) {
+        await storage.removeAccount(accountId);
+        throw new RealDebridApiError(
+          "Session expired. Please sign in again.",
+          401,
+          401
+        );
+      }
+      throw err;
+    }
+  })().finally(() => {
+    tokenRefreshInFlight.delete(accountId);
+  });
+
+  tokenRefreshInFlight.set(accountId, refresh);
+  return refresh;
+}
+
+/**
+ * Get a valid access token for an account
+ * OAuth tokens are refreshed shortly before they expire. Tokens without
+ * refresh credentials (pasted API tokens) are returned as-is.
+ */
+async function getValidToken(account: Account): Promise<string> {
+  const authData = account.auth;
+
+  if (
+    canRefreshToken(authData) &&
+    isTokenExpired(authData, TOKEN_REFRESH_MARGIN_MS)
+  ) {
+    try {
+      return await refreshStoredToken(account.id, authData.accessToken);
+    } catch (err) {
+      // Still inside the refresh margin - the current token keeps working
+      if (!isTokenExpired(authData) && (await storage.isAuthenticated(account.id))) {
+        return authData.accessToken;
+      }
+      throw err;
+    }
+  }
+
+  return authData.accessToken;
+}
+
+/**
+ * Run an API call with a valid token for an account (default: active)
+ * On a 401 the token is refreshed once and the call is replayed.
+ */
+async function callWithToken<T>(
+  fn: (token: string) => Promise<T>,
+  accountId?: string
+): Promise<T> {
+  // Pin the account so switching mid-call can't refresh the wrong one
+  const account = await resolveAccount(accountId);
+  const token = await getValidToken(account);
+
+  try {
+    return await fn(token);
+  } catch (err) {
+    if (err instanceof RealDebridApiError && err.status === 401) {
+      const refreshedToken = await refreshStoredToken(account.id, token);
+      return fn(refreshedToken);
+    }
+    throw err;
+  }
+}
+
+async function withErrorHandling<T>(
+  fn: () => Promise<T>
+): Promise<MessageResponse<T>> {
+  try {
+    const data = await fn();
+    return { success: true, data };
   } catch (err) {
-    console.error("Error starting polling:", err);
+    if (err instanceof RealDebridApiError) {
+      return {
+        success: false,
+        error: err.message,
+        errorCode: err.code,
+        errorStatus: err.status,
+      };
+    }
+    return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+  }
+}
+
+/**
+ * Run an authenticated API call and wrap the result in a message response
+ */
+function withAuth<T>(fn: (token: string) => Promise<T>, accountId?: string) {
+  return withErrorHandling(() => callWithToken(fn, accountId));
+}
+
+const handleAuthStatus: MessageHandler<"AUTH_STATUS"> = async (_payload, _sender, { accountId }) => {
+  const account = await storage.getAccount(accountId);
+  if (account?.auth.accessToken) {
+    try {
+      const profile = await callWithToken((token) => getUser(token), account.id);
+      await storage.cacheUserProfile(profile, account.id);
+      return success({ authenticated: true, profile, accountId: account.id });
+    } catch {
+      return success({ authenticated: false });
+    }
+  }
+  return success({ authenticated: false });
+};
+
+const handleLogin: MessageHandler<"AUTH_LOGIN"> = async (payload) => {
+  if (payload?.token) {
+    try {
+      const profile = await getUser(payload.token);
+      // Store as auth data with minimal required fields
+      // Real-Debrid tokens don't expire, so we don't set expiresAt
+      await storage.addAccount(
+        {
+          accessToken: payload.token,
+          refreshToken: "",
+          clientId: "",
+          clientSecret: "",
+          expiresAt: 0,
+        },
+        profile
+      );
+      return success({ success: true });
+    } catch (err) {
+      return success({
+        success: false,
+        error: err instanceof Error ? err.message : "Invalid token",
+      });
+    }
+  }
+  return success({ success: false, error: "No token provided" });
+};
+
+const handleLogout: MessageHandler<"AUTH_LOGOUT"> = async (_payload, _sender, { accountId }) => {
+  await storage.removeAuthData(accountId);
+  return success({ success: true });
+};
+
+const handleListAccounts: MessageHandler<"LIST_ACCOUNTS"> = async () => {
+  const accounts = await storage.getAccounts();
+  return success({
+    accounts: accounts.map(({ auth: _auth, ...summary }) => summary),
+    activeAccountId: await storage.getActiveAccountId(),
+  });
+};
+
+const handleSwitchAccount: MessageHandler<"SWITCH_ACCOUNT"> = async (payload) => {
+  const account = await storage.getAccount(payload.id);
+  if (!account) return error("Account not found");
+  await storage.setActiveAccountId(account.id);
+  return success(undefined);
+};
+
+const handleRenameAccount: MessageHandler<"RENAME_ACCOUNT"> = async (payload) => {
+  const updated = await storage.updateAccount(payload.id, {
+    label: payload.label.trim() || undefined,
+  });
+  return updated ? success(undefined) : error("Account not found");
+};
+
+const handleRemoveAccount: MessageHandler<"REMOVE_ACCOUNT"> = async (payload) => {
+  await storage.removeAccount(payload.id);
+  return success(undefined);
+};
+
+const handleGetUserProfile: MessageHandler<"GET_USER_PROFILE"> = async (_payload, _sender, { accountId }) => {
+  const account = await resolveAccount(accountId);
+  const cached = await storage.getCachedUserProfile(account.id);
+  if (cached) return success(cached);
+
+  const profile = await callWithToken((token) => getUser(token), account.id);
+  await storage.cacheUserProfile(profile, account.id);
+  return success(profile);
+};
+
+const handleConvertPoints: MessageHandler<"CONVERT_POINTS"> = async (_payload, _sender, { accountId }) => {
+  const account = await storage.getAccount(accountId);
+  const result = await withAuth(async (token) => {
+    await convertPoints(token);
+    // Clear cached profile so next fetch gets updated points/premium
+    await storage.clearUserProfileCache(account?.id);
+  }, account?.id);
+  return result;
+};
+
+const handleUnrestrictLink: MessageHandler<"UNRESTRICT_LINK"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth((token) =>
+    unrestrictLink(
+      token,
+      {
+        link: payload.link,
+        password: payload.password,
+        remote: payload.remote ? 1 : undefined,
+      },
+      { signal }
+    ),
+    accountId
+  );
+};
+
+const handleUnrestrictFolder: MessageHandler<"UNRESTRICT_FOLDER"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth((token) => unrestrictFolder(token, payload.link, { signal }), accountId);
+};
+
+const handleCheckLink: MessageHandler<"CHECK_LINK"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth((token) => checkLink(token, payload.link, { signal }), accountId);
+};
+
+const handleDecryptContainerFile: MessageHandler<"DECRYPT_CONTAINER_FILE"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth((token) => decryptContainerFile(token, payload.fileData, { signal }), accountId);
+};
+
+const handleDecryptContainerLink: MessageHandler<"DECRYPT_CONTAINER_LINK"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth((token) => decryptContainerLink(token, payload.link, { signal }), accountId);
+};
+
+// No file has this ID, so probing with it only asks whether the endpoint is open
+const STREAMING_PROBE_FILE_ID = "streaming-probe";
+
+// One in-flight probe per account
+const streamingProbeInFlight = new Map<string, Promise<StreamingSupport>>();
+
+/**
+ * Ask Real-Debrid whether an account may use the streaming endpoints
+ * Results that say nothing (network errors, timeouts) come back as "unknown"
+ * and aren't cached, so the next check probes again.
+ */
+function probeStreamingSupport(accountId: string): Promise<StreamingSupport> {
+  const inFlight = streamingProbeInFlight.get(accountId);
+  if (inFlight) return inFlight;
+
+  const probe = (async (): Promise<StreamingSupport> => {
+    try {
+      await callWithToken((token) => getTranscodeLinks(token, STREAMING_PROBE_FILE_ID), accountId);
+      return recordStreamingSupport(accountId, { status: "available", checkedAt: Date.now() });
+    } catch (err) {
+      if (!(err instanceof RealDebridApiError) || err.status === 401) throw err;
+      return recordStreamingSupport(accountId, {
+        status: getStreamingStatus(err.code, err.status),
+        checkedAt: Date.now(),
+        errorCode: err.code,
+      });
+    }
+  })().finally(() => {
+    streamingProbeInFlight.delete(accountId);
+  });
+
+  streamingProbeInFlight.set(accountId, probe);
+  return probe;
+}
+
+async function recordStreamingSupport(accountId: string, support: StreamingSupport): Promise<StreamingSupport> {
+  if (support.status !== "unknown") await storage.setStreamingSupport(accountId, support);
+  return support;
+}
+
+/**
+ * Run a streaming call, keeping the account's cached support in step with
+ * what the endpoint answered
+ */
+async function callStreaming<T>(fn: (token: string) => Promise<T>, accountId?: string): Promise<T> {
+  const account = await resolveAccount(accountId);
+  try {
+    const result = await callWithToken(fn, account.id);
+    await recordStreamingSupport(account.id, { status: "available", checkedAt: Date.now() });
+    return result;
+  } catch (err) {
+    if (err instanceof RealDebridApiError) {
+      await recordStreamingSupport(account.id, {
+        status: getStreamingStatus(err.code, err.status),
+        checkedAt: Date.now(),
+        errorCode: err.code,
+      });
+    }
+    throw err;
+  }
+}
+
+const handleGetStreamingSupport: MessageHandler<"GET_STREAMING_SUPPORT"> = async (payload, _sender, { accountId }) => {
+  return withErrorHandling(async () => {
+    const account = await resolveAccount(accountId);
+    const cached = await storage.getStreamingSupport(account.id);
+    if (cached && !payload?.refresh && isStreamingSupportFresh(cached)) return cached;
+    return probeStreamingSupport(account.id);
+  });
+};
+
+const handleGetTranscodeLinks: MessageHandler<"GET_TRANSCODE_LINKS"> = async (payload, _sender, { signal, accountId }) => {
+  return withErrorHandling(() => callStreaming((token) => getTranscodeLinks(token, payload.id, { signal }), accountId));
+};
+
+const handleGetMediaInfo: MessageHandler<"GET_MEDIA_INFO"> = async (payload, _sender, { signal, accountId }) => {
+  return withErrorHandling(() => callStreaming((token) => getMediaInfo(token, payload.id, { signal }), accountId));
+};
+
+/**
+ * Playlist entries for a torrent's links or already unrestricted files
+ * Links that fail to unrestrict are skipped and counted. Durations come from
+ * media info, which is left out where unavailable or streaming is refused.
+ */
+const handleBuildPlaylist: MessageHandler<"BUILD_PLAYLIST"> = async (payload, _sender, { signal, accountId }) => {
+  return withErrorHandling(async () => {
+    const account = await resolveAccount(accountId);
+    // Every link of a pack is unrestricted; keep them out of the interactive lane
+    const options: CallOptions = { priority: "bulk", signal };
+
+    const files: PlaylistFile[] = [...(payload.files ?? [])];
+    let skipped = 0;
+    let firstFailure: unknown;
+    for (const link of payload.links ?? []) {
+      try {
+        files.push(await callWithToken((token) => unrestrictLink(token, { link }, options), account.id));
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        skipped++;
+        firstFailure ??= err;
+      }
+    }
+    if (files.length === 0 && firstFailure) throw firstFailure;
+
+    // Media info is a streaming endpoint; don't ask per file when it's refused
+    const support = await storage.getStreamingSupport(account.id);
+    const readDurations = support?.status !== "refused";
+
+    const entries: PlaylistEntry[] = [];
+    for (const file of files.filter(isPlaylistFile)) {
+      let duration: number | undefined;
+      if (readDurations) {
+        try {
+          const info = await callWithToken((token) => getMediaInfo(token, file.id, options), account.id);
+          if (info.duration > 0) duration = info.duration;
+        } catch (err) {
+          if (signal?.aborted) throw err;
+        }
+      }
+      entries.push({ title: getPlaylistTitle(file.filename), url: file.download, filename: file.filename, duration });
+    }
+    return { entries: sortPlaylist(entries), skipped };
+  });
+};
+
+/**
+ * Replace magnet_conversion with the torrent's real status
+ * The list endpoint may show magnet_conversion when the torrent is actually
+ * waiting_files_selection
+ */
+async function resolveConversionStatuses(
+  token: string,
+  torrents: TorrentItem[],
+  options: CallOptions = {}
+): Promise<void> {
+  const conversionTorrents = torrents.filter(t => t.status === "magnet_conversion");
+  if (conversionTorrents.length === 0) return;
+
+  const enrichedStatuses = await Promise.all(
+    conversionTorrents.map(async (t) => {
+      try {
+        const info = await getTorrentInfo(token, t.id, options);
+        return { id: t.id, status: info.status };
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  for (const enriched of enrichedStatuses) {
+    if (enriched) {
+      const torrent = torrents.find(t => t.id === enriched.id);
+      if (torrent && torrent.status !== enriched.status) {
+        torrent.status = enriched.status;
+      }
+    }
+  }
+}
+
+type AutoSelectOutcome = "disabled" | "selected" | "no_match" | "not_ready";
+
+// Torrents being auto-selected, so the add handler and the poller don't both
+// select the same one
+const autoSelecting = new Set<string>();
+
+/**
+ * Select a torrent's files using the selection rules
+ * Returns "not_ready" while the file list isn't known yet (e.g. during magnet
+ * conversion) and "no_match" when the rules leave nothing to download
+ */
+async function selectFilesByRules(
+  token: string,
+  torrentId: string,
+  options: CallOptions = {}
+): Promise<Exclude<AutoSelectOutcome, "disabled">> {
+  const info = await getTorrentInfo(token, torrentId, options);
+  if (info.status !== "waiting_files_selection" || info.files.length === 0) {
+    return "not_ready";
+  }
+
+  const { fileSelectionRules } = await storage.getPreferences();
+  const { selectedIds } = applyFileSelectionRules(info.files, fileSelectionRules);
+  if (selectedIds.length === 0) return "no_match";
+
+  const files = selectedIds.length === info.files.length ? "all" : selectedIds;
+  await selectFiles(token, torrentId, files, options);
+  return "selected";
+}
+
+/**
+ * Apply the selection rules to a new torrent if automatic selection is on
+ */
+async function autoSelectTorrentFiles(
+  torrentId: string,
+  accountId?: string
+): Promise<AutoSelectOutcome> {
+  const preferences = await storage.getPreferences();
+  if (!preferences.autoSelectFiles) return "disabled";
+  if (autoSelecting.has(torrentId)) return "not_ready";
+
+  autoSelecting.add(torrentId);
+  try {
+    return await callWithToken(
+      (token) => selectFilesByRules(token, torrentId, { priority: "background" }),
+      accountId
+    );
+  } catch (err) {
+    console.error("Error auto-selecting torrent files:", err);
+    return "not_ready";
+  } finally {
+    autoSelecting.delete(torrentId);
+  }
+}
+
+const handleListTorrents: MessageHandler<"LIST_TORRENTS"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth(async (token) => {
+    const torrents = await listTorrents(
+      token,
+      {
+        offset: payload?.offset,
+        limit: payload?.limit,
+      },
+      { signal }
+    );
+
+    await resolveConversionStatuses(token, torrents, { signal });
+    return torrents;
+  }, accountId);
+};
+
+const handleListTorrentsPage: MessageHandler<"LIST_TORRENTS_PAGE"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth(async (token) => {
+    const page = await listTorrentsPage(token, payload, { signal });
+    await resolveConversionStatuses(token, page.items, { signal });
+    return page;
+  }, accountId);
+};
+
+const handleGetTorrentInfo: MessageHandler<"GET_TORRENT_INFO"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth((token) => getTorrentInfo(token, payload.id, { signal }), accountId);
+};
+
+const handleAddMagnet: MessageHandler<"ADD_MAGNET"> = async (payload, _sender, { accountId }) => {
+  const result = await withAuth((token) => addMagnet(token, payload.magnet), accountId);
+  if (result.success && result.data) {
+    await autoSelectTorrentFiles(result.data.id, accountId);
+    startPolling();
+  }
+  return result;
+};
+
+const handleAddTorrent: MessageHandler<"ADD_TORRENT"> = async (payload, _sender, { signal, accountId }) => {
+  const result = await withAuth((token) => addTorrent(token, payload.fileData, { signal }), accountId);
+  if (result.success && result.data) {
+    await autoSelectTorrentFiles(result.data.id, accountId);
+    startPolling();
+  }
+  return result;
+};
+
+const handleSelectFiles: MessageHandler<"SELECT_TORRENT_FILES"> = async (payload, _sender, { accountId }) => {
+  const result = await withAuth(async (token) => {
+    await selectFiles(token, payload.id, payload.files);
+  }, accountId);
+  if (result.success) startPolling();
+  return result;
+};
+
+const handleDeleteTorrent: MessageHandler<"DELETE_TORRENT"> = async (payload, _sender, { accountId }) => {
+  const result = await withAuth(async (token) => {
+    await deleteTorrent(token, payload.id);
+  }, accountId);
+  if (result.success) unpublishTorrent(accountId, payload.id);
+  return result;
+};
+
+const handleGetActiveTorrentCount: MessageHandler<"GET_ACTIVE_TORRENT_COUNT"> = async (_payload, _sender, { accountId }) => {
+  return withAuth((token) => getActiveCount(token), accountId);
+};
+
+// ============================================
+// TRANSFERS (files in the browser's download manager)
+// ============================================
+
+// How often open transfer views get fresh progress
+const TRANSFER_SAMPLE_INTERVAL_MS = 1000;
+
+let transferSampler: ReturnType<typeof setInterval> | null = null;
+
+const transferTracker = createTransferTracker({
+  load: () => storage.getTransfers(),
+  save: (transfers) => storage.setTransfers(transfers),
+  search: async (downloadIds) => {
+    const items = await Promise.all(downloadIds.map((id) => chrome.downloads.search({ id })));
+    return items.flat();
+  },
+  onChange: (transfers) => {
+    broadcastLive({ type: "TRANSFERS_SNAPSHOT", transfers });
+    updateTransferSampler(transfers);
+    // A finished or paused download frees a slot
+    downloadQueue.pump().catch((err) => {
+      console.error("Error starting queued downloads:", err);
+    });
+  },
+});
+
+const downloadQueue = createDownloadQueue({
+  load: () => storage.getDownloadQueue(),
+  save: (state) => storage.setDownloadQueue(state),
+  start: startQueuedDownload,
+  countActive: async () => {
+    const transfers = await transferTracker.list();
+    return transfers.filter((t) => t.state === "in_progress" && !t.paused).length;
+  },
+  getMaxConcurrent: async () => (await storage.getPreferences()).maxConcurrentDownloads,
+  onChange: (queue) => broadcastLive({ type: "DOWNLOAD_QUEUE", queue }),
+});
+
+/**
+ * Sample progress while a view shows transfers and something is downloading
+ * The browser reports state changes but not bytes received.
+ */
+function updateTransferSampler(transfers: Transfer[]): void {
+  const watched = [...liveClients].some((client) => client.topics.has("transfers"));
+  const downloading = transfers.some((t) => t.state === "in_progress" && !t.paused);
+
+  if (watched && downloading && !transferSampler) {
+    // Each sample decides whether another is needed, e.g. after the last
+    // view closed
+    transferSampler = setInterval(() => {
+      transferTracker
+        .refresh()
+        .then(updateTransferSampler)
+        .catch((err) => {
+          console.error("Error sampling transfers:", err);
+        });
+    }, TRANSFER_SAMPLE_INTERVAL_MS);
+  } else if ((!watched || !downloading) && transferSampler) {
+    clearInterval(transferSampler);
+    transferSampler = null;
   }
 }
 
-async function stopPolling(): Promise<void> {
-  if (!hasAlarmsSupport()) return;
+interface DownloadFileOptions {
+  // Account that unrestricted the link, for retries
+  accountId?: string;
+  attempts?: number;
+}
 
-  try {
-    await chrome.alarms.clear(POLLING_ALARM_NAME);
-    await updateBadge(0);
-  } catch (err) {
-    console.error("Error stopping polling:", err);
+/**
+ * Save a file through the browser's download manager, or open it in a tab
+ * where the downloads API isn't available
+ * The path comes from the download directory and filename template, and the
+ * download shows up in the transfers view.
+ */
+async function downloadFile(request: DownloadRequest, options: DownloadFileOptions = {}): Promise<void> {
+  if (typeof chrome.downloads?.download !== "function") {
+    await chrome.tabs.create({ url: request.download });
+    return;
   }
+
+  const preferences = await storage.getPreferences();
+  const downloadId = await chrome.downloads.download({
+    url: request.download,
+    filename: buildDownloadPath(request, {
+      directory: preferences.downloadDirectory ?? "",
+      template: preferences.downloadFilenameTemplate,
+    }),
+    conflictAction: preferences.downloadConflictAction,
+  });
+
+  await transferTracker.track(
+    downloadId,
+    {
+      accountId: options.accountId ?? (await storage.getActiveAccountId()) ?? undefined,
+      link: request.link,
+      host: request.host,
+      torrentId: request.torrentId,
+      torrent: request.torrent,
+    },
+    options.attempts
+  );
 }
 
-async function checkAndUpdatePolling(): Promise<void> {
-  try {
-    const isAuthenticated = await storage.isAuthenticated();
-    if (!isAuthenticated) {
-      await stopPolling();
-      return;
-    }
+/**
+ * The account to unrestrict a stored link with
+ * Falls back to the active account when the original one was removed since.
+ */
+async function resolveDownloadAccount(accountId: string | undefined): Promise<string | undefined> {
+  return accountId && (await storage.getAccount(accountId)) ? accountId : undefined;
+}
 
-    const token = await getValidToken();
-    const activeCountResponse = await getActiveCount(token);
+/**
+ * Hand a queued file to the browser, unrestricting its link first if the
+ * queue only holds the restricted one
+ */
+async function startQueuedDownload(item: QueuedDownload): Promise<void> {
+  const { request } = item;
+  const accountId = await resolveDownloadAccount(item.accountId);
 
-    if (activeCountResponse.nb > 0) {
-      await startPolling();
-    } else {
-      await stopPolling();
-    }
-  } catch (err) {
-    console.error("Error checking polling status:", err);
+  if (request.download) {
+    await downloadFile({ ...request, download: request.download, filename: request.filename ?? "" }, { accountId });
+    return;
   }
+
+  const link = request.link;
+  if (!link) throw new Error("Nothing to download");
+  const result = await callWithToken(
+    (token) => unrestrictLink(token, { link }, { priority: "background" }),
+    accountId
+  );
+  await downloadFile(
+    { ...request, download: result.download, filename: result.filename, host: request.host ?? result.host },
+    { accountId }
+  );
 }
 
-try {
-  if (hasAlarmsSupport()) {
-    chrome.alarms.onAlarm.addListener((alarm) => {
-      if (alarm.name === POLLING_ALARM_NAME) {
-        pollTorrents();
-      }
+/**
+ * Download a transfer's file again from a freshly unrestricted link
+ */
+async function retryTransfer(transfer: Transfer): Promise<void> {
+  const { source } = transfer;
+  const link = source.link;
+  if (!link) throw new Error("This download has no link to retry from");
+
+  const accountId = await resolveDownloadAccount(source.accountId);
+  const result = await callWithToken(
+    (token) => unrestrictLink(token, { link }),
+    accountId
+  );
+
+  await downloadFile(
+    {
+      download: result.download,
+      filename: result.filename,
+      link,
+      host: source.host ?? result.host,
+      torrentId: source.torrentId,
+      torrent: source.torrent,
+    },
+    { accountId, attempts: transfer.attempts + 1 }
+  );
+  await transferTracker.remove([transfer.downloadId]);
+}
+
+if (chrome.downloads) {
+  // Only state changes arrive here; progress is sampled while views are open
+  chrome.downloads.onChanged.addListener((delta) => {
+    transferTracker.refresh([delta.id]).catch((err) => {
+      console.error("Error updating transfer:", err);
     });
-  }
-} catch (err) {
+  });
+
+  chrome.downloads.onErased.addListener((downloadId) => {
+    transferTracker.remove([downloadId]).catch((err) => {
+      console.error("Error removing transfer:", err);
+    });
+  });
 }
 
-async function initializePolling(): Promise<void> {
-  await checkAndUpdatePolling();
+// ============================================
+// ARIA2
+// ============================================
+
+async function getAria2Settings(): Promise<Aria2Settings> {
+  const preferences = await storage.getPreferences();
+  return {
+    rpcUrl: preferences.aria2RpcUrl,
+    secret: await storage.getAria2Secret(),
+    directory: preferences.aria2Directory,
+  };
 }
 
 /**
- * Get a valid access token
- * Real-Debrid tokens typically don't expire, so we just return the stored token
- * Invalid tokens are handled at the API level (401 responses)
+ * Send a file to aria2
+ * It's saved under the same templated path as browser downloads, relative to
+ * the aria2 directory instead of the browser's download folder.
  */
-async function getValidToken(): Promise<string> {
-  const authData = await storage.getAuthData();
-
-  if (!authData || !authData.accessToken) {
-    throw new Error("Not authenticated");
-  }
-
-  return authData.accessToken;
+async function sendToAria2(request: DownloadRequest): Promise<Aria2Download> {
+  const preferences = await storage.getPreferences();
+  return addAria2Download(
+    await getAria2Settings(),
+    request.download,
+    buildDownloadPath(request, { directory: "", template: preferences.downloadFilenameTemplate })
+  );
 }
 
-async function withErrorHandling<T>(
-  fn: () => Promise<T>
-): Promise<{ success: boolean; data?: T; error?: string; errorCode?: number }> {
-  try {
-    const data = await fn();
-    return { success: true, data };
-  } catch (err) {
-    if (err instanceof RealDebridApiError) {
-      // Handle 401 errors - clear auth data
-      if (err.status === 401) {
-        await storage.removeAuthData();
+/**
+ * Send files to aria2, unrestricting restricted links first
+ * A failed file doesn't stop the rest; each gets its own result.
+ */
+async function sendRequestsToAria2(requests: QueueRequest[], accountId?: string): Promise<Aria2SendResult[]> {
+  const results: Aria2SendResult[] = [];
+  for (const request of requests) {
+    let filename = request.filename ?? request.link ?? request.download ?? "";
+    try {
+      let { download, host } = request;
+      if (!download) {
+        const link = request.link;
+        if (!link) throw new Error("Nothing to download");
+        const result = await callWithToken((token) => unrestrictLink(token, { link }), accountId);
+        download = result.download;
+        filename = result.filename;
+        host ??= result.host;
       }
-      return { success: false, error: err.message, errorCode: err.code };
+      const added = await sendToAria2({ ...request, download, filename, host });
+      results.push({ filename, gid: added.gid, status: added.status, error: added.errorMessage || undefined });
+    } catch (err) {
+      results.push({ filename, error: describeError(err).message });
     }
-    return { success: false, error: err instanceof Error ? err.message : "Unknown error" };
   }
+  return results;
 }
 
-let activeOAuthFlow: OAuthFlow | null = null;
-let pendingOAuthResolve: ((result: { success: boolean; error?: string }) => void) | null = null;
+// ============================================
+// JOBS
+// ============================================
+
+const jobRunner = createJobRunner({
+  load: () => storage.getJobs(),
+  save: (jobs) => storage.setJobs(jobs),
+  onProgress: (job) => {
+    broadcastLive({ type: "JOB_PROGRESS", job: toJobProgress(job) });
+    // Torrents that just had files selected start downloading; watch them
+    if (job.kind === "select_files" && job.status !== "running") startPolling();
+  },
+});
 
-const handleAuthStatus: MessageHandler<"AUTH_STATUS"> = async () => {
-  const isAuthenticated = await storage.isAuthenticated();
-  if (isAuthenticated) {
-    try {
-      const token = await getValidToken();
-      const profile = await getUser(token);
-      await storage.cacheUserProfile(profile);
-      return success({ authenticated: true, profile });
-    } catch {
-      return success({ authenticated: false });
-    }
-  }
-  return success({ authenticated: false });
-};
+function buildMagnetLink(target: BulkTorrentTarget): string {
+  return `magnet:?xt=urn:btih:${target.hash}&dn=${encodeURIComponent(target.filename)}`;
+}
 
-const handleLogin: MessageHandler<"AUTH_LOGIN"> = async (payload) => {
-  if (payload?.token) {
-    try {
-      const profile = await getUser(payload.token);
-      // Store as auth data with minimal required fields
-      // Real-Debrid tokens don't expire, so we don't set expiresAt
-      await storage.setAuthData({
-        accessToken: payload.token,
-        refreshToken: "",
-        clientId: "",
-        clientSecret: "",
-        expiresAt: 0,
-      });
-      await storage.cacheUserProfile(profile);
-      return success({ success: true });
-    } catch (err) {
-      return success({
-        success: false,
-        error: err instanceof Error ? err.message : "Invalid token",
-      });
+/**
+ * Work done per torrent for each bulk action
+ * Everything runs in the bulk lane so the rest of the extension stays responsive
+ */
+function getBulkTorrentWorker(
+  action: BulkTorrentAction,
+  accountId: string
+): JobWorker<BulkTorrentTarget> {
+  const unrestrictAll = async (target: BulkTorrentTarget, signal: AbortSignal) => {
+    const options: CallOptions = { priority: "bulk", signal };
+    const info = await callWithToken((token) => getTorrentInfo(token, target.id, options), accountId);
+    if (info.links.length === 0) throw new Error("No links available yet");
+
+    const links: UnrestrictedLink[] = [];
+    for (const link of info.links) {
+      links.push(
+        await callWithToken((token) => unrestrictLink(token, { link }, options), accountId)
+      );
     }
+    return links;
+  };
+
+  switch (action) {
+    case "delete":
+      return async (target, signal) => {
+        await callWithToken(
+          (token) => deleteTorrent(token, target.id, { priority: "bulk", signal }),
+          accountId
+        );
+        await unpublishTorrent(accountId, target.id);
+      };
+    case "select_files":
+      return async (target, signal) => {
+        const outcome = await callWithToken(
+          (token) => selectFilesByRules(token, target.id, { priority: "bulk", signal }),
+          accountId
+        );
+        if (outcome === "not_ready") throw new Error("Torrent isn't waiting for file selection");
+        if (outcome === "no_match") throw new Error("No files match the selection rules");
+      };
+    case "unrestrict":
+      // Links are unrestricted as the queue reaches them
+      return async (target, signal) => {
+        const info = await callWithToken(
+          (token) => getTorrentInfo(token, target.id, { priority: "bulk", signal }),
+          accountId
+        );
+        if (info.links.length === 0) throw new Error("No links available yet");
+        await downloadQueue.add(
+          info.links.map((link) => ({ link, torrent: target.filename, torrentId: target.id })),
+          { accountId }
+        );
+      };
+    case "copy_links":
+      return async (target, signal) => {
+        const links = await unrestrictAll(target, signal);
+        return links.map((link) => link.download);
+      };
+    case "export_magnets":
+      return async (target) => [buildMagnetLink(target)];
   }
-  return success({ success: false, error: "No token provided" });
-};
+}
 
-const handleLogout: MessageHandler<"AUTH_LOGOUT"> = async () => {
-  await storage.removeAuthData();
-  return success({ success: true });
-};
+const handleStartBulkTorrentJob: MessageHandler<"START_BULK_TORRENT_JOB"> = async (payload, _sender, { accountId }) => {
+  const account = await storage.getAccount(accountId);
+  if (!account) return error("Not authenticated");
+  if (payload.torrents.length === 0) return error("No torrents selected");
 
-const handleGetUserProfile: MessageHandler<"GET_USER_PROFILE"> = async () => {
-  const cached = await storage.getCachedUserProfile();
-  if (cached) return success(cached);
+  const job = jobRunner.start(
+    payload.action,
+    payload.torrents,
+    getBulkTorrentWorker(payload.action, account.id),
+    { accountId: account.id, getLabel: (target) => target.filename }
+  );
 
-  const token = await getValidToken();
-  const profile = await getUser(token);
-  await storage.cacheUserProfile(profile);
-  return success(profile);
+  return success(job);
 };
 
-const handleConvertPoints: MessageHandler<"CONVERT_POINTS"> = async () => {
-  const token = await getValidToken();
-  const result = await withErrorHandling(async () => {
-    await convertPoints(token);
-    // Clear cached profile so next fetch gets updated points/premium
-    await storage.clearUserProfileCache();
-  });
-  return result;
+const handleGetJob: MessageHandler<"GET_JOB"> = async (payload) => {
+  const job = await jobRunner.get(payload.id);
+  return job ? success(job) : error("Job not found");
 };
 
-const handleUnrestrictLink: MessageHandler<"UNRESTRICT_LINK"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(() =>
-    unrestrictLink(token, {
-      link: payload.link,
-      password: payload.password,
-      remote: payload.remote ? 1 : undefined,
-    })
-  );
+const handleCancelJob: MessageHandler<"CANCEL_JOB"> = async (payload) => {
+  jobRunner.cancel(payload.id);
+  return success(undefined);
 };
 
-const handleUnrestrictFolder: MessageHandler<"UNRESTRICT_FOLDER"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(() => unrestrictFolder(token, payload.link));
-};
+const handleRetryCompletion: MessageHandler<"RETRY_COMPLETION"> = async (payload) => {
+  const runs = await storage.getCompletionHistory();
+  const run = runs.find((r) => r.id === payload.id);
+  if (!run) return error("Run not found");
+  if (run.status === "running") return error("This run is still in progress");
 
-const handleCheckLink: MessageHandler<"CHECK_LINK"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(() => checkLink(token, payload.link));
+  // Progress shows up in the stored history
+  completionPipeline.retry(run.id).catch((err) => {
+    console.error("Error retrying completion run:", err);
+  });
+  return success(undefined);
 };
 
-const handleDecryptContainerFile: MessageHandler<"DECRYPT_CONTAINER_FILE"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(() => decryptContainerFile(token, payload.fileData));
+const handleListDownloads: MessageHandler<"LIST_DOWNLOADS"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth((token) =>
+    listDownloads(
+      token,
+      {
+        offset: payload?.offset,
+        limit: payload?.limit,
+      },
+      { signal }
+    ),
+    accountId
+  );
 };
 
-const handleDecryptContainerLink: MessageHandler<"DECRYPT_CONTAINER_LINK"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(() => decryptContainerLink(token, payload.link));
+const handleListDownloadsPage: MessageHandler<"LIST_DOWNLOADS_PAGE"> = async (payload, _sender, { signal, accountId }) => {
+  return withAuth((token) => listDownloadsPage(token, payload, { signal }), accountId);
 };
 
-const handleGetTranscodeLinks: MessageHandler<"GET_TRANSCODE_LINKS"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(() => getTranscodeLinks(token, payload.id));
+const handleDeleteDownload: MessageHandler<"DELETE_DOWNLOAD"> = async (payload, _sender, { accountId }) => {
+  return withAuth(async (token) => {
+    await deleteDownload(token, payload.id);
+  }, accountId);
 };
 
-const handleGetMediaInfo: MessageHandler<"GET_MEDIA_INFO"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(() => getMediaInfo(token, payload.id));
+const handleDownloadFile: MessageHandler<"DOWNLOAD_FILE"> = async (payload, _sender, { accountId }) => {
+  await downloadFile(payload, { accountId });
+  return success(undefined);
 };
 
-const handleListTorrents: MessageHandler<"LIST_TORRENTS"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(async () => {
-    const torrents = await listTorrents(token, {
-      offset: payload?.offset,
-      limit: payload?.limit,
-    });
-
-    // Enrich torrents with magnet_conversion status to get accurate status
-    // The list endpoint may show magnet_conversion when torrent is actually waiting_files_selection
-    const conversionTorrents = torrents.filter(t => t.status === "magnet_conversion");
-    if (conversionTorrents.length > 0) {
-      const enrichedStatuses = await Promise.all(
-        conversionTorrents.map(async (t) => {
-          try {
-            const info = await getTorrentInfo(token, t.id);
-            return { id: t.id, status: info.status };
-          } catch {
-            return null;
-          }
-        })
-      );
-
-      for (const enriched of enrichedStatuses) {
-        if (enriched) {
-          const torrent = torrents.find(t => t.id === enriched.id);
-          if (torrent && torrent.status !== enriched.status) {
-            torrent.status = enriched.status;
-          }
-        }
-      }
-    }
-
-    return torrents;
-  });
+const handleControlTransfer: MessageHandler<"CONTROL_TRANSFER"> = async (payload) => {
+  const { downloadId, action } = payload;
+  if (action === "pause") {
+    await chrome.downloads.pause(downloadId);
+  } else if (action === "resume") {
+    await chrome.downloads.resume(downloadId);
+  } else {
+    await chrome.downloads.cancel(downloadId);
+  }
+  // onChanged follows, but views shouldn't wait for it
+  await transferTracker.refresh([downloadId]);
+  return success(undefined);
 };
 
-const handleGetTorrentInfo: MessageHandler<"GET_TORRENT_INFO"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(() => getTorrentInfo(token, payload.id));
-};
+const handleRetryTransfer: MessageHandler<"RETRY_TRANSFER"> = async (payload) => {
+  const transfers = await transferTracker.list();
+  const transfer = transfers.find((t) => t.downloadId === payload.downloadId);
+  if (!transfer) return error("Download not found");
 
-const handleAddMagnet: MessageHandler<"ADD_MAGNET"> = async (payload) => {
-  const token = await getValidToken();
-  const result = await withErrorHandling(() => addMagnet(token, payload.magnet));
-  if (result.success) startPolling();
-  return result;
+  return withErrorHandling(() => retryTransfer(transfer));
 };
 
-const handleAddTorrent: MessageHandler<"ADD_TORRENT"> = async (payload) => {
-  const token = await getValidToken();
-  const result = await withErrorHandling(() => addTorrent(token, payload.fileData));
-  if (result.success) startPolling();
-  return result;
+const handleRemoveTransfers: MessageHandler<"REMOVE_TRANSFERS"> = async (payload) => {
+  await transferTracker.remove(payload.downloadIds);
+  return success(undefined);
 };
 
-const handleSelectFiles: MessageHandler<"SELECT_TORRENT_FILES"> = async (payload) => {
-  const token = await getValidToken();
-  const result = await withErrorHandling(async () => {
-    await selectFiles(token, payload.id, payload.files);
+const handleQueueDownloads: MessageHandler<"QUEUE_DOWNLOADS"> = async (payload, _sender, { accountId }) => {
+  if (payload.requests.length === 0) return error("Nothing to download");
+  await downloadQueue.add(payload.requests, {
+    accountId: accountId ?? (await storage.getActiveAccountId()) ?? undefined,
+    priority: payload.priority,
   });
-  if (result.success) startPolling();
-  return result;
+  return success(undefined);
 };
 
-const handleDeleteTorrent: MessageHandler<"DELETE_TORRENT"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(async () => {
-    await deleteTorrent(token, payload.id);
-  });
+const handleUpdateQueuedDownload: MessageHandler<"UPDATE_QUEUED_DOWNLOAD"> = async (payload) => {
+  const { id, move, priority, retry } = payload;
+  if (move) await downloadQueue.move(id, move);
+  if (priority) await downloadQueue.setPriority(id, priority);
+  if (retry) await downloadQueue.retry(id);
+  return success(undefined);
 };
 
-const handleGetActiveTorrentCount: MessageHandler<"GET_ACTIVE_TORRENT_COUNT"> = async () => {
-  const token = await getValidToken();
-  return withErrorHandling(() => getActiveCount(token));
+const handleRemoveQueuedDownloads: MessageHandler<"REMOVE_QUEUED_DOWNLOADS"> = async (payload) => {
+  await downloadQueue.remove(payload.ids);
+  return success(undefined);
 };
 
-const handleListDownloads: MessageHandler<"LIST_DOWNLOADS"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(() =>
-    listDownloads(token, {
-      offset: payload?.offset,
-      limit: payload?.limit,
-    })
+const handleSetDownloadsPaused: MessageHandler<"SET_DOWNLOADS_PAUSED"> = async (payload) => {
+  const { paused } = payload;
+  // Stop the queue first so pausing downloads doesn't start new ones
+  if (paused) await downloadQueue.setPaused(true);
+
+  const transfers = await transferTracker.list();
+  const affected = transfers.filter((t) =>
+    t.state === "in_progress" && (paused ? !t.paused : t.paused && t.canResume)
+  );
+  await Promise.all(
+    affected.map((t) =>
+      paused ? chrome.downloads.pause(t.downloadId) : chrome.downloads.resume(t.downloadId)
+    )
   );
+  await transferTracker.refresh(affected.map((t) => t.downloadId));
+
+  if (!paused) await downloadQueue.setPaused(false);
+  return success(undefined);
 };
 
-const handleDeleteDownload: MessageHandler<"DELETE_DOWNLOAD"> = async (payload) => {
-  const token = await getValidToken();
-  return withErrorHandling(async () => {
-    await deleteDownload(token, payload.id);
-  });
+const handleSendToAria2: MessageHandler<"SEND_TO_ARIA2"> = async (payload, _sender, { accountId }) => {
+  if (payload.requests.length === 0) return error("Nothing to send");
+  if (!isAria2Configured(await getAria2Settings())) return error("Set up aria2 in Settings first");
+  return success(await sendRequestsToAria2(payload.requests, accountId));
+};
+
+const handleTestAria2: MessageHandler<"TEST_ARIA2"> = async () => {
+  return withErrorHandling(async () => ({ version: await getAria2Version(await getAria2Settings()) }));
 };
 
 const handleGetHostsRegex: MessageHandler<"GET_HOSTS_REGEX"> = async () => {
@@ -517,19 +1846,20 @@ const handleGetHostsDomains: MessageHandler<"GET_HOSTS_DOMAINS"> = async () => {
   });
 };
 
-const handleGetHostsStatus: MessageHandler<"GET_HOSTS_STATUS"> = async () => {
-  const token = await getValidToken();
-  return withErrorHandling(() => getHostsStatus(token));
+const handleGetHostsStatus: MessageHandler<"GET_HOSTS_STATUS"> = async (_payload, _sender, { signal, accountId }) => {
+  return withAuth((token) => getHostsStatus(token, { signal }), accountId);
+};
+
+const handleGetTraffic: MessageHandler<"GET_TRAFFIC"> = async (_payload, _sender, { signal, accountId }) => {
+  return withAuth((token) => getTraffic(token, { signal }), accountId);
 };
 
-const handleGetTraffic: MessageHandler<"GET_TRAFFIC"> = async () => {
-  const token = await getValidToken();
-  return withErrorHandling(() => getTraffic(token));
+const handleGetTrafficDetails: MessageHandler<"GET_TRAFFIC_DETAILS"> = async (_payload, _sender, { signal, accountId }) => {
+  return withAuth((token) => getTrafficDetails(token, { signal }), accountId);
 };
 
-const handleGetTrafficDetails: MessageHandler<"GET_TRAFFIC_DETAILS"> = async () => {
-  const token = await getValidToken();
-  return withErrorHandling(() => getTrafficDetails(token));
+const handleGetRateLimitStatus: MessageHandler<"GET_RATE_LIMIT_STATUS"> = async () => {
+  return success(getRateLimitStatus());
 };
 
 const handleShowNotification: MessageHandler<"SHOW_NOTIFICATION"> = async (payload) => {
@@ -552,7 +1882,22 @@ const handleReportDetectedLinks: MessageHandler<"REPORT_DETECTED_LINKS"> = async
   const tabId = sender.tab?.id;
   if (!tabId) return success(undefined);
 
-  detectedLinksByTab.set(tabId, payload.links);
+  const preferences = await storage.getPreferences();
+  const accountId = await storage.getActiveAccountId();
+  if (!preferences.autoUnrestrict || !accountId) {
+    detectedLinksByTab.set(tabId, payload.links);
+  } else {
+    const links = planAutoUnrestrict(payload.links, {
+      maxPerPage: preferences.autoUnrestrictMaxPerPage,
+      allowedHosts: preferences.autoUnrestrictHosts,
+    });
+    detectedLinksByTab.set(tabId, links);
+    autoUnrestrictQueue.enqueue(
+      tabId,
+      links.filter((link) => link.autoUnrestrict?.status === "queued").map((link) => link.url)
+    );
+  }
+
   await updateBadgeForTab(tabId);
   return success(undefined);
 };
@@ -578,6 +1923,10 @@ createMessageListener({
   AUTH_STATUS: handleAuthStatus,
   AUTH_LOGIN: handleLogin,
   AUTH_LOGOUT: handleLogout,
+  LIST_ACCOUNTS: handleListAccounts,
+  SWITCH_ACCOUNT: handleSwitchAccount,
+  RENAME_ACCOUNT: handleRenameAccount,
+  REMOVE_ACCOUNT: handleRemoveAccount,
   GET_USER_PROFILE: handleGetUserProfile,
   CONVERT_POINTS: handleConvertPoints,
   UNRESTRICT_LINK: handleUnrestrictLink,
@@ -587,110 +1936,261 @@ createMessageListener({
   DECRYPT_CONTAINER_LINK: handleDecryptContainerLink,
   GET_TRANSCODE_LINKS: handleGetTranscodeLinks,
   GET_MEDIA_INFO: handleGetMediaInfo,
+  BUILD_PLAYLIST: handleBuildPlaylist,
+  GET_STREAMING_SUPPORT: handleGetStreamingSupport,
   LIST_TORRENTS: handleListTorrents,
+  LIST_TORRENTS_PAGE: handleListTorrentsPage,
   GET_TORRENT_INFO: handleGetTorrentInfo,
   ADD_MAGNET: handleAddMagnet,
   ADD_TORRENT: handleAddTorrent,
   SELECT_TORRENT_FILES: handleSelectFiles,
   DELETE_TORRENT: handleDeleteTorrent,
   GET_ACTIVE_TORRENT_COUNT: handleGetActiveTorrentCount,
+  START_BULK_TORRENT_JOB: handleStartBulkTorrentJob,
+  GET_JOB: handleGetJob,
+  CANCEL_JOB: handleCancelJob,
+  RETRY_COMPLETION: handleRetryCompletion,
   LIST_DOWNLOADS: handleListDownloads,
+  LIST_DOWNLOADS_PAGE: handleListDownloadsPage,
   DELETE_DOWNLOAD: handleDeleteDownload,
+  DOWNLOAD_FILE: handleDownloadFile,
+  CONTROL_TRANSFER: handleControlTransfer,
+  RETRY_TRANSFER: handleRetryTransfer,
+  REMOVE_TRANSFERS: handleRemoveTransfers,
+  QUEUE_DOWNLOADS: handleQueueDownloads,
+  UPDATE_QUEUED_DOWNLOAD: handleUpdateQueuedDownload,
+  REMOVE_QUEUED_DOWNLOADS: handleRemoveQueuedDownloads,
+  SET_DOWNLOADS_PAUSED: handleSetDownloadsPaused,
+  SEND_TO_ARIA2: handleSendToAria2,
+  TEST_ARIA2: handleTestAria2,
   GET_HOSTS_REGEX: handleGetHostsRegex,
   GET_HOSTS_DOMAINS: handleGetHostsDomains,
   GET_HOSTS_STATUS: handleGetHostsStatus,
   GET_TRAFFIC: handleGetTraffic,
   GET_TRAFFIC_DETAILS: handleGetTrafficDetails,
+  GET_RATE_LIMIT_STATUS: handleGetRateLimitStatus,
   SHOW_NOTIFICATION: handleShowNotification,
   REPORT_DETECTED_LINKS: handleReportDetectedLinks,
   GET_DETECTED_LINKS: handleGetDetectedLinks,
 });
 
-export interface OAuthFlowState {
-  status: "idle" | "pending" | "success" | "error";
-  deviceCode?: DeviceCodeResponse;
-  error?: string;
+// Device flow state lives in storage so a restarted service worker can pick
+// the flow back up; the alarm wakes the worker if it was shut down mid-flow
+const OAUTH_POLL_ALARM_NAME = "oauth-device-poll";
+const OAUTH_POLL_ALARM_MINUTES = 0.5;
+const OAUTH_DEFAULT_INTERVAL_MS = 5000;
+
+type OAuthResult = { success: boolean; error?: string };
+
+let oauthPollTimer: ReturnType<typeof setTimeout> | null = null;
+let oauthPollInFlight = false;
+let oauthWaiters: Array<(result: OAuthResult) => void> = [];
+
+function clearOAuthPollTimer(): void {
+  if (oauthPollTimer) {
+    clearTimeout(oauthPollTimer);
+    oauthPollTimer = null;
+  }
 }
 
-let oauthFlowState: OAuthFlowState = { status: "idle" };
+function scheduleOAuthPoll(intervalMs: number): void {
+  clearOAuthPollTimer();
+  oauthPollTimer = setTimeout(() => {
+    oauthPollTimer = null;
+    pollOAuthFlow();
+  }, intervalMs);
+}
 
-export async function startOAuthFlow(): Promise<DeviceCodeResponse> {
-  if (activeOAuthFlow) {
-    activeOAuthFlow.cancel();
+async function clearOAuthPollAlarm(): Promise<void> {
+  if (!hasAlarmsSupport()) return;
+  await chrome.alarms.clear(OAUTH_POLL_ALARM_NAME).catch(() => undefined);
+}
+
+async function ensureOAuthPollAlarm(): Promise<void> {
+  if (!hasAlarmsSupport()) return;
+  const existingAlarm = await chrome.alarms.get(OAUTH_POLL_ALARM_NAME);
+  if (existingAlarm) return;
+  await chrome.alarms.create(OAUTH_POLL_ALARM_NAME, {
+    periodInMinutes: OAUTH_POLL_ALARM_MINUTES,
+  });
+}
+
+function resolveOAuthWaiters(result: OAuthResult): void {
+  const waiters = oauthWaiters;
+  oauthWaiters = [];
+  waiters.forEach((resolve) => resolve(result));
+}
+
+async function finishOAuthFlow(state: OAuthFlowState): Promise<void> {
+  clearOAuthPollTimer();
+  await clearOAuthPollAlarm();
+  await storage.setOAuthFlow(state);
+  resolveOAuthWaiters(
+    state.status === "success" ? { success: true } : { success: false, error: state.error }
+  );
+}
+
+/**
+ * Check the persisted device flow once: store the account when the user has
+ * authorized it, fail it when expired or rejected, otherwise poll again later
+ */
+async function pollOAuthFlow(): Promise<void> {
+  if (oauthPollInFlight) return;
+  oauthPollInFlight = true;
+
+  try {
+    const flow = await storage.getOAuthFlow();
+    if (flow.status !== "pending" || !flow.deviceCode) return;
+
+    if (flow.expiresAt && Date.now() >= flow.expiresAt) {
+      await finishOAuthFlow({ status: "error", error: "Device code expired" });
+      return;
+    }
+
+    const deviceCode = flow.deviceCode.device_code;
+    try {
+      const authData = await completeDeviceAuthorization(deviceCode);
+
+      // The flow may have been cancelled or restarted while we were waiting
+      const current = await storage.getOAuthFlow();
+      if (current.status !== "pending" || current.deviceCode?.device_code !== deviceCode) {
+        return;
+      }
+
+      if (authData) {
+        // Without a profile the account can't be matched to an existing one,
+        // but it still works and gets its profile on the next status check
+        const profile = await getUser(authData.accessToken).catch(() => undefined);
+        await storage.addAccount(authData, profile);
+        await finishOAuthFlow({ status: "success" });
+        return;
+      }
+    } catch (err) {
+      // Only report non-authorization errors
+      if (err instanceof OAuthError && err.code !== "authorization_pending") {
+        await finishOAuthFlow({ status: "error", error: err.message });
+        return;
+      }
+    }
+
+    scheduleOAuthPoll(flow.intervalMs || OAUTH_DEFAULT_INTERVAL_MS);
+  } catch (err) {
+    console.error("Error polling OAuth flow:", err);
+  } finally {
+    oauthPollInFlight = false;
   }
+}
 
-  activeOAuthFlow = new OAuthFlow();
-  oauthFlowState = { status: "pending" };
+export async function startOAuthFlow(): Promise<DeviceCodeResponse> {
+  await cancelOAuthFlow();
 
-  return new Promise((resolve, reject) => {
-    activeOAuthFlow!.start({
-      onDeviceCode: (deviceCode) => {
-        oauthFlowState = { status: "pending", deviceCode };
-        resolve(deviceCode);
-      },
-      onSuccess: async (authData) => {
-        await storage.setAuthData(authData);
-        oauthFlowState = { status: "success" };
-        activeOAuthFlow = null;
-        if (pendingOAuthResolve) {
-          pendingOAuthResolve({ success: true });
-          pendingOAuthResolve = null;
-        }
-      },
-      onError: (err) => {
-        oauthFlowState = { status: "error", error: err.message };
-        activeOAuthFlow = null;
-        if (pendingOAuthResolve) {
-          pendingOAuthResolve({ success: false, error: err.message });
-          pendingOAuthResolve = null;
-        }
-        reject(err);
-      },
-    });
+  let deviceCode: DeviceCodeResponse;
+  try {
+    deviceCode = await requestDeviceCode();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Failed to start OAuth flow";
+    await storage.setOAuthFlow({ status: "error", error: message });
+    throw err;
+  }
+
+  const intervalMs = deviceCode.interval * 1000 || OAUTH_DEFAULT_INTERVAL_MS;
+  await storage.setOAuthFlow({
+    status: "pending",
+    deviceCode,
+    expiresAt: Date.now() + deviceCode.expires_in * 1000,
+    intervalMs,
   });
+
+  scheduleOAuthPoll(intervalMs);
+  await ensureOAuthPollAlarm();
+
+  return deviceCode;
 }
 
-export function waitForOAuthComplete(): Promise<{ success: boolean; error?: string }> {
-  if (oauthFlowState.status === "success") {
-    return Promise.resolve({ success: true });
+export async function waitForOAuthComplete(): Promise<OAuthResult> {
+  const flow = await storage.getOAuthFlow();
+  if (flow.status === "success") {
+    return { success: true };
   }
-  if (oauthFlowState.status === "error") {
-    return Promise.resolve({ success: false, error: oauthFlowState.error });
+  if (flow.status === "error") {
+    return { success: false, error: flow.error };
   }
-  if (oauthFlowState.status === "idle") {
-    return Promise.resolve({ success: false, error: "No OAuth flow in progress" });
+  if (flow.status === "idle") {
+    return { success: false, error: "No OAuth flow in progress" };
   }
 
   return new Promise((resolve) => {
-    pendingOAuthResolve = resolve;
+    oauthWaiters.push(resolve);
   });
 }
 
-export function cancelOAuthFlow(): void {
-  if (activeOAuthFlow) {
-    activeOAuthFlow.cancel();
-    activeOAuthFlow = null;
-  }
-  oauthFlowState = { status: "idle" };
-  if (pendingOAuthResolve) {
-    pendingOAuthResolve({ success: false, error: "Cancelled" });
-    pendingOAuthResolve = null;
-  }
+export async function cancelOAuthFlow(): Promise<void> {
+  clearOAuthPollTimer();
+  await clearOAuthPollAlarm();
+  await storage.clearOAuthFlow();
+  resolveOAuthWaiters({ success: false, error: "Cancelled" });
+}
+
+export async function getOAuthFlowState(): Promise<OAuthFlowState> {
+  return storage.getOAuthFlow();
 }
 
-export function getOAuthFlowState(): OAuthFlowState {
-  return { ...oauthFlowState };
+/**
+ * Pick up a device flow left pending by a previous service worker
+ */
+async function resumeOAuthFlow(): Promise<void> {
+  try {
+    const flow = await storage.getOAuthFlow();
+    if (flow.status !== "pending") return;
+
+    await ensureOAuthPollAlarm();
+    await pollOAuthFlow();
+  } catch (err) {
+    console.error("Error resuming OAuth flow:", err);
+  }
 }
 
 const CONTEXT_MENU_ADD = "add-to-real-debrid";
+// Per-account entries, shown as a submenu when more than one account is signed in
+const CONTEXT_MENU_ACCOUNT_PREFIX = "add-to-real-debrid:";
+// Only shown once aria2 is set up
+const CONTEXT_MENU_ARIA2 = "send-to-aria2";
+let aria2MenuShown: boolean | undefined;
 
-function registerContextMenus(): void {
+/**
+ * (Re)build the link context menu for the current accounts
+ */
+async function registerContextMenus(): Promise<void> {
   try {
+    await chrome.contextMenus.removeAll();
     chrome.contextMenus.create({
       id: CONTEXT_MENU_ADD,
       title: "Add to Real-Debrid",
       contexts: ["link"],
     });
+
+    aria2MenuShown = isAria2Configured(await getAria2Settings());
+    if (aria2MenuShown) {
+      chrome.contextMenus.create({
+        id: CONTEXT_MENU_ARIA2,
+        title: "Send to aria2",
+        contexts: ["link"],
+      });
+    }
+
+    const accounts = await storage.getAccounts();
+    if (accounts.length < 2) return;
+
+    const activeAccountId = await storage.getActiveAccountId();
+    for (const account of accounts) {
+      const name = getAccountName(account);
+      chrome.contextMenus.create({
+        id: `${CONTEXT_MENU_ACCOUNT_PREFIX}${account.id}`,
+        parentId: CONTEXT_MENU_ADD,
+        title: account.id === activeAccountId ? `${name} (active)` : name,
+        contexts: ["link"],
+      });
+    }
   } catch (err) {
   }
 }
@@ -700,6 +2200,11 @@ try {
     const linkUrl = info.linkUrl;
     if (!linkUrl) return;
 
+    const menuItemId = String(info.menuItemId);
+    const accountId = menuItemId.startsWith(CONTEXT_MENU_ACCOUNT_PREFIX)
+      ? menuItemId.slice(CONTEXT_MENU_ACCOUNT_PREFIX.length)
+      : undefined;
+
     const preferences = await storage.getPreferences();
     const notify = async (title: string, message: string) => {
       if (!preferences.notificationsEnabled) return;
@@ -715,31 +2220,37 @@ try {
     };
 
     try {
-      const token = await getValidToken();
-
-      if (linkUrl.startsWith("magnet:")) {
-        const result = await addMagnet(token, linkUrl);
-        if (preferences.autoSelectFiles) {
-          await selectFiles(token, result.id, "all");
-          await notify("Torrent Added", "All files selected, downloading...");
+      if (menuItemId === CONTEXT_MENU_ARIA2) {
+        if (linkUrl.startsWith("magnet:")) throw new Error("Add magnets to Real-Debrid first; aria2 gets the finished files");
+        const [result] = await sendRequestsToAria2([{ link: linkUrl }]);
+        if (result.error) {
+          await notify("Couldn't Send to aria2", `${result.filename}: ${result.error}`);
+        } else {
+          await notify("Sent to aria2", `${result.filename} (GID ${result.gid}, ${result.status})`);
+        }
+      } else if (linkUrl.startsWith("magnet:")) {
+        const result = await callWithToken((token) => addMagnet(token, linkUrl), accountId);
+        const outcome = await autoSelectTorrentFiles(result.id, accountId);
+        if (outcome === "selected") {
+          await notify("Torrent Added", "Files selected, downloading...");
+        } else if (outcome === "not_ready") {
+          await notify("Torrent Added", "Files will be selected once the magnet is converted");
+        } else if (outcome === "no_match") {
+          await notify("Torrent Added", "No files match your selection rules; select files in dashboard");
         } else {
           await notify("Torrent Added", "Select files in dashboard to start download");
         }
         startPolling();
       } else {
-        const result = await unrestrictLink(token, { link: linkUrl });
-        if (typeof chrome.downloads?.download === "function") {
-          await chrome.downloads.download({
-            url: result.download,
-            filename: result.filename,
-          });
-        } else {
-          await chrome.tabs.create({ url: result.download });
-        }
+        const result = await callWithToken(
+          (token) => unrestrictLink(token, { link: linkUrl }),
+          accountId
+        );
+        await downloadFile(result, { accountId });
       }
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Unknown error";
-      await notify("Real-Debrid Error", msg);
+      const details = describeError(err);
+      await notify(details.title, formatErrorText(details));
     }
   });
 } catch (err) {
@@ -755,6 +2266,58 @@ chrome.runtime.onStartup.addListener(async () => {
 });
 
 initializePolling();
+resumeOAuthFlow();
+completionPipeline.recoverInterrupted().catch((err) => {
+  console.error("Error recovering completion runs:", err);
+});
+// Catch up on downloads that finished while the worker was asleep, then
+// carry on with the queue
+transferTracker
+  .refresh()
+  .then(() => downloadQueue.pump())
+  .catch((err) => {
+    console.error("Error resuming download queue:", err);
+  });
+
+let pollingAccountId: string | null | undefined;
+// What views and the context menus last saw of the accounts, so token
+// refreshes and profile caches (also accounts writes) don't rebuild anything
+let lastAuthKey: string | undefined;
+let lastMenuKey: string | undefined;
+
+// Account changes: restart polling for a new active account and keep the
+// per-account context menu entries current
+storage.watchAccounts(async (accounts, activeAccountId) => {
+  const accountIds = accounts.map((a) => a.id);
+  const authKey = JSON.stringify([activeAccountId, accountIds]);
+  const menuKey = JSON.stringify([authKey, accounts.map(getAccountName)]);
+
+  if (menuKey !== lastMenuKey) {
+    lastMenuKey = menuKey;
+    registerContextMenus();
+  }
+  if (authKey === lastAuthKey) return;
+  lastAuthKey = authKey;
+  broadcastLive({ type: "AUTH_CHANGED", activeAccountId, accountIds });
+
+  if (pollingAccountId !== undefined && pollingAccountId !== activeAccountId) {
+    liveTorrents = null;
+    await stopPolling();
+    await checkAndUpdatePolling();
+  }
+  pollingAccountId = activeAccountId;
+});
+
+storage.getActiveAccountId().then((activeAccountId) => {
+  pollingAccountId ??= activeAccountId;
+});
+
+// Add or drop the "Send to aria2" entry as aria2 is set up or cleared
+storage.watchPreferences((preferences) => {
+  if (isAria2Configured({ rpcUrl: preferences.aria2RpcUrl }) !== aria2MenuShown) {
+    registerContextMenus();
+  }
+});
 
 chrome.tabs.onRemoved.addListener((tabId) => {
   clearTabLinks(tabId);
@@ -787,15 +2350,21 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   }
 
   if (message.type === "CHECK_OAUTH_STATUS") {
-    const state = getOAuthFlowState();
-    sendResponse({ status: state.status, error: state.error });
-    return false;
+    getOAuthFlowState()
+      .then((state) => {
+        sendResponse({ status: state.status, error: state.error, deviceCode: state.deviceCode });
+      })
+      .catch((err) => {
+        sendResponse({ status: "error", error: err.message || "Failed to read OAuth status" });
+      });
+    return true;
   }
 
   if (message.type === "CANCEL_OAUTH") {
-    cancelOAuthFlow();
-    sendResponse({ success: true });
-    return false;
+    cancelOAuthFlow()
+      .then(() => sendResponse({ success: true }))
+      .catch(() => sendResponse({ success: false }));
+    return true;
   }
 
   return false;
@@ -2,8 +2,11 @@ import logoImage from "data-base64:~assets/logo.png"
 
 import type { UserProfile } from "~lib/api/user"
 
+import { AccountSwitcher } from "~components/AccountSwitcher"
+
 interface AccountBarProps {
   user: UserProfile
+  onAddAccount: () => void
 }
 
 function formatDaysRemaining(expiration: string): string {
@@ -25,7 +28,7 @@ function formatPoints(points: number): string {
   return points.toString()
 }
 
-export function AccountBar({ user }: AccountBarProps) {
+export function AccountBar({ user, onAddAccount }: AccountBarProps) {
   const daysRemaining = formatDaysRemaining(user.expiration)
   const isPremium = user.type === "premium"
 
@@ -37,9 +40,7 @@ export function AccountBar({ user }: AccountBarProps) {
       {/* User info */}
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
-          <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate">
-            {user.username}
-          </span>
+          <AccountSwitcher onAddAccount={onAddAccount} />
           {isPremium && (
             <span className="px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide rounded bg-primary/20 text-primary dark:bg-primary/15">
               Premium
@@ -0,0 +1,172 @@
+import { Check, ChevronDown, Pencil, Plus, Trash2 } from "lucide-react"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { messages } from "~lib/messaging"
+import { getAccountName, type AccountSummary } from "~lib/storage"
+import { useLiveAuth } from "~hooks/useLive"
+
+interface AccountSwitcherProps {
+  onAddAccount: () => void
+  // "bar" sits in the popup header, "sidebar" in the dashboard navigation
+  variant?: "bar" | "sidebar"
+  collapsed?: boolean
+}
+
+export function AccountSwitcher({ onAddAccount, variant = "bar", collapsed = false }: AccountSwitcherProps) {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([])
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Refetch whenever accounts are added, removed or switched in any context
+  const auth = useLiveAuth()
+
+  const loadAccounts = useCallback(async () => {
+    const response = await messages.listAccounts()
+    if (response.success && response.data) {
+      setAccounts(response.data.accounts)
+      setActiveAccountId(response.data.activeAccountId)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAccounts()
+  }, [loadAccounts, auth])
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [isOpen])
+
+  const activeAccount = accounts.find((a) => a.id === activeAccountId)
+  const activeName = activeAccount ? getAccountName(activeAccount) : ""
+
+  const handleSwitch = async (accountId: string) => {
+    setIsOpen(false)
+    if (accountId !== activeAccountId) {
+      await messages.switchAccount(accountId)
+    }
+  }
+
+  const handleRename = async (account: AccountSummary) => {
+    const label = prompt("Account name", getAccountName(account))
+    if (label === null) return
+    await messages.renameAccount(account.id, label)
+    // Renames aren't broadcast; pick up the new name here
+    loadAccounts()
+  }
+
+  const handleRemove = async (account: AccountSummary) => {
+    if (!confirm(`Sign out of ${getAccountName(account)}?`)) return
+    await messages.removeAccount(account.id)
+  }
+
+  const handleAdd = () => {
+    setIsOpen(false)
+    onAddAccount()
+  }
+
+  return (
+    <div ref={containerRef} className="relative min-w-0">
+      {variant === "sidebar" ? (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={`
+            w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium
+            text-neutral-700 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-900 transition-colors
+            ${collapsed ? "justify-center" : ""}
+          `}
+          title={collapsed ? activeName : undefined}
+        >
+          <span className="w-6 h-6 flex-shrink-0 rounded-full bg-primary/20 text-primary text-xs font-semibold flex items-center justify-center uppercase">
+            {activeName.charAt(0)}
+          </span>
+          {!collapsed && (
+            <>
+              <span className="flex-1 min-w-0 truncate text-left">{activeName}</span>
+              <ChevronDown size={14} className="flex-shrink-0 text-neutral-400" />
+            </>
+          )}
+        </button>
+      ) : (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-1 max-w-full text-sm font-medium text-neutral-900 dark:text-neutral-100 hover:text-neutral-600 dark:hover:text-neutral-300 transition-colors"
+        >
+          <span className="truncate">{activeName}</span>
+          <ChevronDown size={14} className="flex-shrink-0 text-neutral-400" />
+        </button>
+      )}
+
+      {isOpen && (
+        <div
+          className={`
+            absolute z-40 mt-1 w-56 py-1 rounded-lg shadow-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900
+            ${variant === "sidebar" ? "left-0" : "left-0 top-full"}
+          `}
+        >
+          {accounts.map((account) => {
+            const isActive = account.id === activeAccountId
+            return (
+              <div
+                key={account.id}
+                className="group flex items-center gap-1 px-2 hover:bg-neutral-50 dark:hover:bg-neutral-800/50"
+              >
+                <button
+                  onClick={() => handleSwitch(account.id)}
+                  className="flex-1 min-w-0 flex items-center gap-2 py-2 text-left"
+                >
+                  <span className="w-4 flex-shrink-0">
+                    {isActive && <Check size={14} className="text-primary" />}
+                  </span>
+                  <span className="min-w-0">
+                    <span className="block text-sm text-neutral-900 dark:text-neutral-100 truncate">
+                      {getAccountName(account)}
+                    </span>
+                    {account.label && account.profile && (
+                      <span className="block text-[10px] text-neutral-500 dark:text-neutral-400 truncate">
+                        {account.profile.username}
+                      </span>
+                    )}
+                  </span>
+                </button>
+                <button
+                  onClick={() => handleRename(account)}
+                  className="p-1 rounded-md text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Rename"
+                >
+                  <Pencil size={12} />
+                </button>
+                <button
+                  onClick={() => handleRemove(account)}
+                  className="p-1 rounded-md text-neutral-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Sign out"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            )
+          })}
+
+          <div className="my-1 h-px bg-neutral-100 dark:bg-neutral-800" />
+
+          <button
+            onClick={handleAdd}
+            className="w-full flex items-center gap-2 px-2 py-2 text-sm text-neutral-600 dark:text-neutral-400 hover:bg-neutral-50 dark:hover:bg-neutral-800/50 hover:text-neutral-900 dark:hover:text-neutral-100 transition-colors"
+          >
+            <span className="w-4 flex-shrink-0">
+              <Plus size={14} />
+            </span>
+            Add account
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,15 @@
 import { Check, Copy, Download, Loader2, Magnet, Search, Unlock } from "lucide-react"
 import { useState } from "react"
-import type { DetectedLink } from "~lib/messaging"
+import { ErrorNotice } from "~components/ErrorNotice"
+import { LinkExportMenu } from "~components/LinkExport"
+import { SendToAria2Button } from "~components/SendToAria2"
+import { messages, type DetectedLink } from "~lib/messaging"
+import { describeError, type ErrorDetails } from "~lib/api/errors"
 import type { UnrestrictedLink } from "~lib/api/unrestrict"
 
 interface UnrestrictedState {
   loading: boolean
-  error?: string
+  error?: ErrorDetails
   result?: UnrestrictedLink
 }
 
@@ -34,6 +38,23 @@ function getDisplayName(url: string, host: string): string {
   }
 }
 
+// What background auto-unrestrict already did for a link
+function getAutoState(link: DetectedLink): UnrestrictedState | undefined {
+  const auto = link.autoUnrestrict
+  if (!auto) return undefined
+  switch (auto.status) {
+    case "queued":
+      return { loading: true }
+    case "resolved":
+      return { loading: false, result: auto.result }
+    case "failed":
+      return { loading: false, error: describeError(auto.error, "Failed") }
+    default:
+      // Skipped links are left for a manual unrestrict
+      return undefined
+  }
+}
+
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
@@ -56,7 +77,8 @@ function LinkItem({ link, state, onUnrestrict }: LinkItemProps) {
 
   const handleDownload = () => {
     if (state?.result?.download) {
-      chrome.tabs.create({ url: state.result.download, active: false })
+      const { download, filename, host, link } = state.result
+      messages.downloadFile({ download, filename, host, link })
     }
   }
 
@@ -100,8 +122,8 @@ function LinkItem({ link, state, onUnrestrict }: LinkItemProps) {
           <span className="text-[10px] font-mono text-neutral-400 dark:text-neutral-500 uppercase">
             {link.host}
           </span>
-          {hasError && (
-            <span className="text-[10px] text-red-500">{state.error}</span>
+          {hasError && state.error && (
+            <ErrorNotice error={state.error} variant="compact" />
           )}
         </div>
       </div>
@@ -121,6 +143,14 @@ function LinkItem({ link, state, onUnrestrict }: LinkItemProps) {
             >
               <Copy size={14} />
             </button>
+            <SendToAria2Button
+              getRequests={() => {
+                const { download, filename, host, link } = isUnrestricted
+                return [{ download, filename, host, link }]
+              }}
+              iconSize={14}
+              className="p-1.5 rounded text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors"
+            />
             <button
               onClick={handleDownload}
               className="p-1.5 rounded text-primary hover:bg-primary/10 transition-colors"
@@ -177,17 +207,20 @@ export function DetectedLinks({
     } catch (err) {
       setLinkStates((prev) => ({
         ...prev,
-        [key]: { loading: false, error: err instanceof Error ? err.message : "Failed" },
+        [key]: { loading: false, error: describeError(err, "Failed") },
       }))
     }
   }
 
+  // Manual unrestricts take over from the background's results
+  const getLinkState = (link: DetectedLink) => linkStates[link.url] ?? getAutoState(link)
+
   const hosterLinks = links.filter((l) => l.type !== "magnet")
-  const unrestrictedLinks = Object.entries(linkStates)
-    .filter(([, state]) => state.result)
-    .map(([, state]) => state.result!)
+  const unrestrictedLinks = hosterLinks
+    .map((l) => getLinkState(l)?.result)
+    .filter((result): result is UnrestrictedLink => !!result)
   const unrestrictedCount = unrestrictedLinks.length
-  const pendingHosterLinks = hosterLinks.filter((l) => !linkStates[l.url]?.result && !linkStates[l.url]?.loading)
+  const pendingHosterLinks = hosterLinks.filter((l) => !getLinkState(l)?.result && !getLinkState(l)?.loading)
 
   const handleUnrestrictAll = async () => {
     if (isUnrestrictingAll || pendingHosterLinks.length === 0) return
@@ -202,12 +235,10 @@ export function DetectedLinks({
   }
 
   const handleDownloadAll = () => {
-    // Open all unrestricted download URLs
-    for (const result of unrestrictedLinks) {
-      if (result.download) {
-        chrome.tabs.create({ url: result.download, active: false })
-      }
-    }
+    // The queue keeps only a few downloads running at once
+    messages.queueDownloads(
+      unrestrictedLinks.map(({ download, filename, host, link }) => ({ download, filename, host, link }))
+    )
   }
 
   return (
@@ -249,7 +280,7 @@ export function DetectedLinks({
               <LinkItem
                 key={`${link.url}-${index}`}
                 link={link}
-                state={linkStates[link.url]}
+                state={getLinkState(link)}
                 onUnrestrict={() => handleUnrestrict(link)}
               />
             ))}
@@ -271,6 +302,20 @@ export function DetectedLinks({
             >
               Download All ({unrestrictedCount})
             </button>
+            <SendToAria2Button
+              getRequests={() =>
+                unrestrictedLinks.map(({ download, filename, host, link }) => ({ download, filename, host, link }))
+              }
+              disabled={unrestrictedCount === 0}
+              iconSize={14}
+              placement="up"
+              className="inline-flex items-center justify-center h-7 px-2 rounded border border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-40 transition-colors"
+            />
+            <LinkExportMenu
+              links={unrestrictedLinks}
+              placement="up"
+              buttonClassName="inline-flex items-center justify-center h-7 px-2 rounded border border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-40 transition-colors"
+            />
           </div>
         </>
       ) : (
@@ -0,0 +1,84 @@
+import { AlertCircle, Clock, KeyRound, WifiOff } from "lucide-react"
+
+import type { ErrorCategory, ErrorDetails } from "~lib/api/errors"
+
+interface ErrorNoticeProps {
+  error: ErrorDetails
+  variant?: "page" | "inline" | "compact"
+  onRetry?: () => void
+}
+
+function getCategoryIcon(category: ErrorCategory) {
+  switch (category) {
+    case "auth":
+      return KeyRound
+    case "network":
+      return WifiOff
+    case "limit":
+      return Clock
+    default:
+      return AlertCircle
+  }
+}
+
+export function ErrorNotice({ error, variant = "inline", onRetry }: ErrorNoticeProps) {
+  const Icon = getCategoryIcon(error.category)
+  const title = error.code !== undefined ? `${error.rawMessage ?? error.key} (code ${error.code})` : error.rawMessage
+
+  if (variant === "compact") {
+    return (
+      <span className="text-[10px] text-red-500" title={[error.actionHint, title].filter(Boolean).join(" - ")}>
+        {error.message}
+      </span>
+    )
+  }
+
+  if (variant === "page") {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-center">
+        <div className="w-12 h-12 rounded-full bg-red-100 dark:bg-red-900/20 flex items-center justify-center mb-3">
+          <Icon size={24} className="text-red-500" />
+        </div>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-1" title={title}>
+          {error.message}
+        </p>
+        {error.actionHint && (
+          <p className="text-xs text-neutral-500 dark:text-neutral-500 mb-2">{error.actionHint}</p>
+        )}
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
+          >
+            Try again
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className="flex items-start gap-2 px-3 py-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 rounded-md"
+      title={title}
+    >
+      <Icon size={14} className="flex-shrink-0 mt-px" />
+      <div className="flex-1 min-w-0">
+        <p>{error.message}</p>
+        {error.actionHint && (
+          <p className="mt-0.5 text-red-500/80 dark:text-red-400/80">{error.actionHint}</p>
+        )}
+      </div>
+      {onRetry && error.retryable && (
+        <button
+          onClick={onRetry}
+          className="flex-shrink-0 font-medium text-red-700 dark:text-red-300 hover:underline"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default ErrorNotice
@@ -0,0 +1,144 @@
+import { Check, Copy, FileDown, Share } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+
+import {
+  EXPORT_FORMATS,
+  exportLinks,
+  getExportFilename,
+  type ExportableLink,
+  type ExportFormat
+} from "~lib/link-export"
+
+export async function copyText(text: string): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(text)
+  } catch {
+    // Fallback for when clipboard API fails (e.g., lost user gesture context)
+    const textArea = document.createElement("textarea")
+    textArea.value = text
+    textArea.style.position = "fixed"
+    textArea.style.left = "-9999px"
+    document.body.appendChild(textArea)
+    textArea.select()
+    document.execCommand("copy")
+    document.body.removeChild(textArea)
+  }
+}
+
+export function saveText(text: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }))
+  const anchor = document.createElement("a")
+  anchor.href = url
+  anchor.download = filename
+  anchor.click()
+  URL.revokeObjectURL(url)
+}
+
+interface LinkExportPanelProps {
+  links: ExportableLink[]
+  // Saved files are named after this, e.g. a torrent's name
+  baseName?: string
+}
+
+/**
+ * Every export format, each with copy and save
+ */
+export function LinkExportPanel({ links, baseName }: LinkExportPanelProps) {
+  const [copiedFormat, setCopiedFormat] = useState<ExportFormat | null>(null)
+
+  const handleCopy = async (format: ExportFormat) => {
+    await copyText(exportLinks(links, format))
+    setCopiedFormat(format)
+    setTimeout(() => setCopiedFormat(null), 2000)
+  }
+
+  const handleSave = (format: ExportFormat) => {
+    saveText(exportLinks(links, format), getExportFilename(format, baseName), EXPORT_FORMATS[format].mimeType)
+  }
+
+  return (
+    <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+        <div key={format} className="flex items-center justify-between gap-3 px-3 py-1.5">
+          <span className="text-xs text-neutral-700 dark:text-neutral-300 whitespace-nowrap">
+            {EXPORT_FORMATS[format].label}
+          </span>
+          <div className="flex items-center gap-0.5">
+            <button
+              onClick={() => handleCopy(format)}
+              className="p-1 rounded text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+              title={copiedFormat === format ? "Copied!" : "Copy"}
+            >
+              {copiedFormat === format ? <Check size={14} className="text-primary" /> : <Copy size={14} />}
+            </button>
+            <button
+              onClick={() => handleSave(format)}
+              className="p-1 rounded text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+              title={`Save as ${getExportFilename(format, baseName)}`}
+            >
+              <FileDown size={14} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface LinkExportMenuProps extends LinkExportPanelProps {
+  disabled?: boolean
+  // Button text; icon only when omitted
+  label?: string
+  // Open upwards near the bottom of the popup
+  placement?: "down" | "up"
+  buttonClassName?: string
+}
+
+const defaultButtonClassName =
+  "inline-flex items-center gap-1 p-1.5 rounded-md text-xs font-medium text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors disabled:opacity-50"
+
+/**
+ * Button opening the export formats for a set of links
+ */
+export function LinkExportMenu({
+  links,
+  baseName,
+  disabled,
+  label,
+  placement = "down",
+  buttonClassName = defaultButtonClassName
+}: LinkExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [isOpen])
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || links.length === 0}
+        className={buttonClassName}
+        title="Export links"
+      >
+        <Share size={14} />
+        {label}
+      </button>
+      {isOpen && (
+        <div className={`absolute right-0 z-20 ${placement === "up" ? "bottom-full mb-1" : "mt-1"} w-56 py-1 rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-lg`}>
+          <p className="px-3 py-1 text-[11px] font-medium uppercase tracking-wide text-neutral-400">
+            Export {links.length} {links.length === 1 ? "link" : "links"}
+          </p>
+          <LinkExportPanel links={links} baseName={baseName} />
+        </div>
+      )}
+    </div>
+  )
+}
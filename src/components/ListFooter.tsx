@@ -0,0 +1,46 @@
+import type { ErrorDetails } from "~lib/api/errors"
+import { ErrorNotice } from "~components/ErrorNotice"
+
+interface ListFooterProps {
+  shown: number
+  total: number
+  hasMore: boolean
+  loadingMore: boolean
+  error: ErrorDetails | null
+  onLoadMore: () => void
+  // Scrolling this into view loads the next page
+  sentinelRef: (node: Element | null) => void
+}
+
+export function ListFooter({ shown, total, hasMore, loadingMore, error, onLoadMore, sentinelRef }: ListFooterProps) {
+  return (
+    <div
+      ref={sentinelRef}
+      className="flex items-center justify-between gap-3 px-4 py-2.5 border-t border-neutral-100 dark:border-neutral-800 text-xs text-neutral-500 dark:text-neutral-400"
+    >
+      <span className="tabular-nums">
+        Showing {shown} of {total}
+      </span>
+      {error ? (
+        <div className="flex items-center gap-2">
+          <ErrorNotice error={error} variant="compact" />
+          <button
+            onClick={onLoadMore}
+            className="font-medium text-primary hover:text-primary/80 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      ) : loadingMore ? (
+        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      ) : hasMore ? (
+        <button
+          onClick={onLoadMore}
+          className="font-medium text-primary hover:text-primary/80 transition-colors"
+        >
+          Load more
+        </button>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+import logoImage from "data-base64:~assets/logo.png"
+import { useEffect, useRef, useState } from "react"
+
+type OAuthStatus = "idle" | "pending" | "success" | "error"
+
+function buildAuthUrl(deviceCode: string): string {
+  return `https://real-debrid.com/authorize?client_id=X245A4XAIBGVM&device_id=${deviceCode}`
+}
+
+interface LoginPromptProps {
+  onLoginComplete: () => void
+  // Shown when adding another account, to go back without signing in
+  onCancel?: () => void
+}
+
+export function LoginPrompt({ onLoginComplete, onCancel }: LoginPromptProps) {
+  const [status, setStatus] = useState<OAuthStatus>("idle")
+  const [error, setError] = useState<string | null>(null)
+  const [authUrl, setAuthUrl] = useState<string | null>(null)
+  const pollIntervalRef = useRef<number | null>(null)
+
+  // Cleanup polling on unmount
+  useEffect(() => {
+    return () => {
+      stopStatusPolling()
+    }
+  }, [])
+
+  // Reconnect to a flow started before the popup was closed or the
+  // background worker restarted, instead of starting over
+  useEffect(() => {
+    chrome.runtime
+      .sendMessage({ type: "CHECK_OAUTH_STATUS" })
+      .then((response) => {
+        if (response?.status === "pending" && response.deviceCode) {
+          setStatus("pending")
+          setAuthUrl(buildAuthUrl(response.deviceCode.device_code))
+          startStatusPolling()
+        }
+      })
+      .catch(() => {})
+  }, [])
+
+  const stopStatusPolling = () => {
+    if (pollIntervalRef.current) {
+      clearInterval(pollIntervalRef.current)
+      pollIntervalRef.current = null
+    }
+  }
+
+  const startStatusPolling = () => {
+    stopStatusPolling()
+    pollIntervalRef.current = window.setInterval(async () => {
+      const statusResponse = await chrome.runtime.sendMessage({
+        type: "CHECK_OAUTH_STATUS",
+      })
+
+      if (statusResponse.status === "success") {
+        stopStatusPolling()
+        setStatus("success")
+        onLoginComplete()
+      } else if (statusResponse.status === "error") {
+        stopStatusPolling()
+        setError(statusResponse.error || "Authorization failed")
+        setStatus("error")
+      } else if (statusResponse.status === "idle") {
+        // Cancelled from another popup or dashboard
+        stopStatusPolling()
+        setStatus("idle")
+      }
+    }, 1000)
+  }
+
+  const handleAuthorize = async () => {
+    setStatus("pending")
+    setError(null)
+
+    try {
+      // Start OAuth flow in background
+      const response = await chrome.runtime.sendMessage({ type: "START_OAUTH" })
+
+      if (response.error) {
+        setError(response.error)
+        setStatus("error")
+        return
+      }
+
+      if (response.deviceCode) {
+        // Open authorization URL in new tab
+        const url = buildAuthUrl(response.deviceCode.device_code)
+        setAuthUrl(url)
+        chrome.tabs.create({ url })
+
+        // Poll for completion
+        startStatusPolling()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start authorization")
+      setStatus("error")
+    }
+  }
+
+  const handleCancel = () => {
+    stopStatusPolling()
+    chrome.runtime.sendMessage({ type: "CANCEL_OAUTH" })
+    setStatus("idle")
+    setError(null)
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full px-6 py-8">
+      {/* Logo */}
+      <div className="flex items-center justify-center w-12 h-12 mb-4">
+        <img src={logoImage} alt="Real-Debrid" className="w-12 h-12" />
+      </div>
+
+      <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-100 mb-1">
+        Real-Debrid Manager
+      </h2>
+
+      {status === "idle" || status === "error" ? (
+        <>
+          <p className="text-sm text-neutral-500 dark:text-neutral-400 text-center mb-4">
+            {onCancel ? "Connect another Real-Debrid account" : "Connect your Real-Debrid account"}
+          </p>
+
+          {error && (
+            <p className="text-xs text-red-500 text-center mb-3">{error}</p>
+          )}
+
+          <button
+            onClick={handleAuthorize}
+            className="w-full h-10 px-4 text-sm font-medium rounded-lg bg-primary text-neutral-900 hover:bg-primary/90 transition-colors"
+          >
+            Authorize with Real-Debrid
+          </button>
+
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="w-full h-10 mt-2 px-4 text-sm font-medium rounded-lg border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            >
+              Back
+            </button>
+          )}
+
+          <a
+            href="https://real-debrid.com/?id=8457529"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-4 text-xs text-neutral-400 dark:text-neutral-500 hover:text-neutral-600 dark:hover:text-neutral-300 transition-colors"
+          >
+            No account? Sign up
+          </a>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-neutral-500 dark:text-neutral-400 text-center mb-4">
+            Complete authorization in the browser tab
+          </p>
+
+          <div className="flex items-center justify-center mb-4">
+            <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            <span className="ml-2 text-sm text-neutral-600 dark:text-neutral-300">
+              Waiting for authorization...
+            </span>
+          </div>
+
+          {authUrl && (
+            <button
+              onClick={() => chrome.tabs.create({ url: authUrl })}
+              className="mb-4 text-xs text-neutral-400 dark:text-neutral-500 hover:text-neutral-600 dark:hover:text-neutral-300 transition-colors"
+            >
+              Reopen authorization page
+            </button>
+          )}
+
+          <button
+            onClick={handleCancel}
+            className="w-full h-10 px-4 text-sm font-medium rounded-lg border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            Cancel
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import { Loader2, Play, RefreshCw } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+
+import type { UnrestrictedLink } from "~lib/api/unrestrict"
+import { getPlayerUrl } from "~lib/player"
+import {
+  getStreamingAction,
+  isBrowserPlayable,
+  STREAMING_REFUSED_MESSAGE,
+  type StreamingFile
+} from "~lib/streaming-support"
+import type { StreamingSupportState } from "~hooks/useStreamingSupport"
+
+interface PlayButtonProps {
+  // DownloadItem fits too
+  file: StreamingFile & Pick<UnrestrictedLink, "id" | "download">
+  // From useStreamingSupport, shared by every button in a view
+  support: StreamingSupportState
+  label?: string
+  iconSize?: number
+  className?: string
+  // Where the explanation opens; "up" near the bottom of the popup
+  placement?: "down" | "up"
+}
+
+const defaultClassName =
+  "inline-flex items-center gap-1.5 p-1.5 rounded-md text-accent hover:bg-accent/10 transition-colors"
+
+/**
+ * Opens a file in the player: transcoded where the account may stream,
+ * straight from its download URL where the browser can play it
+ * When Real-Debrid refuses streaming, explains why instead of opening a
+ * player that can only fail. Renders nothing for files with no way to play.
+ */
+export function PlayButton({
+  file,
+  support,
+  label,
+  iconSize = 16,
+  className = defaultClassName,
+  placement = "down"
+}: PlayButtonProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const action = getStreamingAction(file, support.status)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [isOpen])
+
+  if (action === "none") return null
+
+  if (action === "refused") {
+    return (
+      <div ref={containerRef} className="relative">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={`${className} opacity-50`}
+          title="Streaming unavailable"
+        >
+          <Play size={iconSize} />
+          {label}
+        </button>
+        {isOpen && (
+          <div className={`absolute right-0 z-20 ${placement === "up" ? "bottom-full mb-1" : "mt-1"} w-64 p-3 rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-lg`}>
+            <p className="text-xs font-medium text-neutral-900 dark:text-neutral-100">Streaming unavailable</p>
+            <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+              {STREAMING_REFUSED_MESSAGE} Download the file to watch it, or stream it from real-debrid.com.
+            </p>
+            <button
+              onClick={support.recheck}
+              disabled={support.checking}
+              className="mt-2 inline-flex items-center gap-1.5 text-xs font-medium text-primary hover:text-primary/80 transition-colors disabled:opacity-50"
+            >
+              {support.checking ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+              Check again
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const handlePlay = () => {
+    // Transcodes can still fail per file; browser-playable files fall back to themselves
+    const url = action === "direct"
+      ? getPlayerUrl(file.id, file.filename, { src: file.download, direct: true })
+      : getPlayerUrl(file.id, file.filename, { src: isBrowserPlayable(file) ? file.download : undefined })
+    chrome.tabs.create({ url })
+  }
+
+  return (
+    <button
+      onClick={handlePlay}
+      className={className}
+      title={action === "direct" ? "Play in browser (original file)" : "Play in browser"}
+    >
+      <Play size={iconSize} />
+      {label}
+    </button>
+  )
+}
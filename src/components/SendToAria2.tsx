@@ -0,0 +1,89 @@
+import { Server } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { describeAria2Results, isAria2Configured } from "~lib/aria2"
+import type { QueueRequest } from "~lib/download-queue"
+import { messages } from "~lib/messaging"
+import { usePreferences } from "~hooks/usePreferences"
+
+interface SendToAria2ButtonProps {
+  // Called on click, so rows can build requests lazily
+  getRequests: () => QueueRequest[]
+  disabled?: boolean
+  label?: string
+  iconSize?: number
+  className?: string
+  // Where the result appears; "up" near the bottom of the popup
+  placement?: "down" | "up"
+}
+
+const defaultClassName =
+  "inline-flex items-center gap-1 p-1.5 rounded-md text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50"
+
+/**
+ * Sends files to aria2 and briefly shows the GID and status it reports
+ * Renders nothing until aria2 is set up in settings.
+ */
+export function SendToAria2Button({
+  getRequests,
+  disabled,
+  label,
+  iconSize = 16,
+  className = defaultClassName,
+  placement = "down"
+}: SendToAria2ButtonProps) {
+  const { aria2RpcUrl } = usePreferences()
+  const [sending, setSending] = useState(false)
+  const [result, setResult] = useState<{ ok: boolean; text: string } | null>(null)
+
+  useEffect(() => {
+    if (!result) return
+    const timer = setTimeout(() => setResult(null), 5000)
+    return () => clearTimeout(timer)
+  }, [result])
+
+  if (!isAria2Configured({ rpcUrl: aria2RpcUrl })) return null
+
+  const handleSend = async () => {
+    const requests = getRequests()
+    if (requests.length === 0) return
+
+    setSending(true)
+    setResult(null)
+    const response = await messages.sendToAria2(requests)
+    if (response.success && response.data) {
+      setResult({
+        ok: response.data.every((r) => !r.error),
+        text: describeAria2Results(response.data)
+      })
+    } else {
+      setResult({ ok: false, text: response.error || "Failed to send to aria2" })
+    }
+    setSending(false)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleSend}
+        disabled={disabled || sending}
+        className={className}
+        title="Send to aria2"
+      >
+        <Server size={iconSize} className={sending ? "animate-pulse" : ""} />
+        {label}
+      </button>
+      {result && (
+        <p
+          className={`absolute right-0 z-20 ${placement === "up" ? "bottom-full mb-1" : "top-full mt-1"} max-w-xs w-max px-2 py-1 rounded-md text-xs shadow-lg border ${
+            result.ok
+              ? "bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800 text-neutral-700 dark:text-neutral-300"
+              : "bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400"
+          }`}
+        >
+          {result.text}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,17 @@
 import { ArrowRight, Check, Copy, Download, FileArchive, Loader2, X } from "lucide-react"
-import { useRef, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 
+import { ErrorNotice } from "~components/ErrorNotice"
+import { LinkExportMenu } from "~components/LinkExport"
+import { PlayButton } from "~components/PlayButton"
+import { SendToAria2Button } from "~components/SendToAria2"
+import { describeError, type ErrorDetails } from "~lib/api/errors"
 import type { UnrestrictedLink, LinkCheckResult } from "~lib/api/unrestrict"
-import { messages } from "~lib/messaging"
+import { isCancelledResponse, messages } from "~lib/messaging"
+import { useStreamingSupport } from "~hooks/useStreamingSupport"
 
 interface UnrestrictInputProps {
-  onUnrestrict: (link: string) => Promise<UnrestrictedLink>
+  onUnrestrict: (link: string, signal: AbortSignal) => Promise<UnrestrictedLink>
 }
 
 const CONTAINER_EXTENSIONS = [".rsdf", ".ccf", ".ccf3", ".dlc"]
@@ -29,28 +35,49 @@ export function UnrestrictInput({ onUnrestrict }: UnrestrictInputProps) {
   const [isChecking, setIsChecking] = useState(false)
   const [checkResult, setCheckResult] = useState<LinkCheckResult | null>(null)
   const [result, setResult] = useState<UnrestrictedLink | null>(null)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<ErrorDetails | null>(null)
   const [copied, setCopied] = useState(false)
   const [containerLinks, setContainerLinks] = useState<string[]>([])
   const [isProcessingContainer, setIsProcessingContainer] = useState(false)
+  const streamingSupport = useStreamingSupport()
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const requestRef = useRef<AbortController | null>(null)
+
+  // Abort whatever is in flight when the component goes away
+  useEffect(() => () => requestRef.current?.abort(), [])
+
+  const startRequest = (): AbortSignal => {
+    requestRef.current?.abort()
+    requestRef.current = new AbortController()
+    return requestRef.current.signal
+  }
+
+  const handleCancel = () => {
+    requestRef.current?.abort()
+    requestRef.current = null
+  }
+
+  // False once a newer request has replaced this one
+  const isLatestRequest = (signal: AbortSignal) =>
+    requestRef.current === null || requestRef.current.signal === signal
 
   const handleCheck = async (link: string) => {
+    const signal = startRequest()
     setIsChecking(true)
     setError(null)
     setCheckResult(null)
 
     try {
-      const response = await messages.checkLink(link)
+      const response = await messages.checkLink(link, { signal })
       if (response.success && response.data) {
         setCheckResult(response.data)
-      } else {
-        setError(response.error || "Failed to check link")
+      } else if (!isCancelledResponse(response)) {
+        setError(describeError(response, "Failed to check link"))
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to check link")
+      setError(describeError(err, "Failed to check link"))
     } finally {
-      setIsChecking(false)
+      if (isLatestRequest(signal)) setIsChecking(false)
     }
   }
 
@@ -62,18 +89,19 @@ export function UnrestrictInput({ onUnrestrict }: UnrestrictInputProps) {
 
     // If we already have check result, proceed to unrestrict
     if (checkResult) {
+      const signal = startRequest()
       setIsLoading(true)
       setError(null)
 
       try {
-        const unrestricted = await onUnrestrict(link)
+        const unrestricted = await onUnrestrict(link, signal)
         setResult(unrestricted)
         setInput("")
         setCheckResult(null)
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to unrestrict link")
+        if (!signal.aborted) setError(describeError(err, "Failed to unrestrict link"))
       } finally {
-        setIsLoading(false)
+        if (isLatestRequest(signal)) setIsLoading(false)
       }
     } else {
       // First check the link
@@ -82,22 +110,23 @@ export function UnrestrictInput({ onUnrestrict }: UnrestrictInputProps) {
   }
 
   const handleContainerFile = async (file: File) => {
+    const signal = startRequest()
     setIsProcessingContainer(true)
     setError(null)
     setContainerLinks([])
 
     try {
       const arrayBuffer = await file.arrayBuffer()
-      const response = await messages.decryptContainerFile(arrayBuffer)
+      const response = await messages.decryptContainerFile(arrayBuffer, { signal })
       if (response.success && response.data) {
         setContainerLinks(response.data)
-      } else {
-        setError(response.error || "Failed to decrypt container")
+      } else if (!isCancelledResponse(response)) {
+        setError(describeError(response, "Failed to decrypt container"))
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to process container file")
+      setError(describeError(err, "Failed to process container file"))
     } finally {
-      setIsProcessingContainer(false)
+      if (isLatestRequest(signal)) setIsProcessingContainer(false)
     }
   }
 
@@ -106,7 +135,7 @@ export function UnrestrictInput({ onUnrestrict }: UnrestrictInputProps) {
     if (file && isContainerFile(file.name)) {
       handleContainerFile(file)
     } else if (file) {
-      setError("Unsupported file type. Use .rsdf, .ccf, .ccf3, or .dlc files.")
+      setError(describeError("Unsupported file type. Use .rsdf, .ccf, .ccf3, or .dlc files."))
     }
     // Reset input so same file can be selected again
     if (fileInputRef.current) {
@@ -116,7 +145,8 @@ export function UnrestrictInput({ onUnrestrict }: UnrestrictInputProps) {
 
   const handleDownload = () => {
     if (result?.download) {
-      window.open(result.download, "_blank")
+      const { download, filename, host, link } = result
+      messages.downloadFile({ download, filename, host, link })
     }
   }
 
@@ -165,6 +195,16 @@ export function UnrestrictInput({ onUnrestrict }: UnrestrictInputProps) {
             <ArrowRight size={16} className="text-neutral-900" />
           )}
         </button>
+        {(isLoading || isChecking || isProcessingContainer) && (
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="flex items-center justify-center w-9 h-9 rounded-md border border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            title="Cancel"
+          >
+            <X size={16} />
+          </button>
+        )}
         <button
           type="button"
           onClick={() => fileInputRef.current?.click()}
@@ -229,8 +269,8 @@ export function UnrestrictInput({ onUnrestrict }: UnrestrictInputProps) {
       )}
 
       {error && (
-        <div className="mt-3 px-3 py-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 rounded-md">
-          {error}
+        <div className="mt-3">
+          <ErrorNotice error={error} />
         </div>
       )}
 
@@ -268,6 +308,28 @@ export function UnrestrictInput({ onUnrestrict }: UnrestrictInputProps) {
               {copied ? <Check size={14} className="text-primary" /> : <Copy size={14} />}
               {copied ? "Copied" : "Copy Link"}
             </button>
+            <PlayButton
+              file={result}
+              support={streamingSupport}
+              iconSize={14}
+              placement="up"
+              className="inline-flex items-center justify-center h-8 px-2.5 rounded-md border border-neutral-200 dark:border-neutral-700 text-accent hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            />
+            <SendToAria2Button
+              getRequests={() => {
+                const { download, filename, host, link } = result
+                return [{ download, filename, host, link }]
+              }}
+              iconSize={14}
+              placement="up"
+              className="inline-flex items-center justify-center h-8 px-2.5 rounded-md border border-neutral-200 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            />
+            <LinkExportMenu
+              links={[result]}
+              baseName={result.filename}
+              placement="up"
+              buttonClassName="inline-flex items-center justify-center h-8 px-2.5 rounded-md border border-neutral-200 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            />
           </div>
         </div>
       )}
@@ -1,7 +1,10 @@
-import { AlertCircle, Gift, Loader2 } from "lucide-react"
+import { Gift, Loader2 } from "lucide-react"
 import { useState, useEffect, useCallback } from "react"
 import { messages } from "~lib/messaging"
+import { describeError, type ErrorDetails } from "~lib/api/errors"
 import type { UserProfile } from "~lib/api/user"
+import type { RateLimitStatus, RequestPriority } from "~lib/api/rate-limiter"
+import { ErrorNotice } from "~components/ErrorNotice"
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B"
@@ -60,9 +63,9 @@ function StatCard({ label, value, subtext, variant = "default" }: StatCardProps)
 export function AccountSection() {
   const [profile, setProfile] = useState<UserProfile | null>(null)
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<ErrorDetails | null>(null)
   const [isConverting, setIsConverting] = useState(false)
-  const [convertError, setConvertError] = useState<string | null>(null)
+  const [convertError, setConvertError] = useState<ErrorDetails | null>(null)
   const [convertSuccess, setConvertSuccess] = useState(false)
 
   const fetchProfile = useCallback(async () => {
@@ -74,7 +77,7 @@ export function AccountSection() {
     if (response.success && response.data) {
       setProfile(response.data)
     } else {
-      setError(response.error ?? "Failed to load profile")
+      setError(describeError(response, "Failed to load profile"))
     }
 
     setLoading(false)
@@ -103,7 +106,7 @@ export function AccountSection() {
       await fetchProfile()
       setTimeout(() => setConvertSuccess(false), 3000)
     } else {
-      setConvertError(response.error || "Failed to convert points")
+      setConvertError(describeError(response, "Failed to convert points"))
     }
 
     setIsConverting(false)
@@ -118,20 +121,7 @@ export function AccountSection() {
   }
 
   if (error) {
-    return (
-      <div className="flex flex-col items-center justify-center h-64 text-center">
-        <div className="w-12 h-12 rounded-full bg-red-100 dark:bg-red-900/20 flex items-center justify-center mb-3">
-          <AlertCircle size={24} className="text-red-500" />
-        </div>
-        <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2">{error}</p>
-        <button
-          onClick={() => window.location.reload()}
-          className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
-        >
-          Try again
-        </button>
-      </div>
-    )
+    return <ErrorNotice error={error} variant="page" onRetry={() => window.location.reload()} />
   }
 
   if (!profile) return null
@@ -187,7 +177,9 @@ export function AccountSection() {
             <p className="mt-2 text-xs text-primary">Points converted successfully!</p>
           )}
           {convertError && (
-            <p className="mt-2 text-xs text-red-500">{convertError}</p>
+            <div className="mt-2">
+              <ErrorNotice error={convertError} variant="compact" />
+            </div>
           )}
         </div>
         <StatCard
@@ -227,6 +219,89 @@ export function AccountSection() {
           <DetailRow label="Locale" value={profile.locale.toUpperCase()} />
         </div>
       </div>
+
+      <RateLimitCard />
+    </div>
+  )
+}
+
+const RATE_LIMIT_REFRESH_MS = 5000
+
+const LANE_LABELS: Record<RequestPriority, string> = {
+  interactive: "Interactive",
+  background: "Background",
+  bulk: "Bulk"
+}
+
+function RateLimitCard() {
+  const [status, setStatus] = useState<RateLimitStatus | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchStatus = async () => {
+      const response = await messages.getRateLimitStatus()
+      if (!cancelled && response.success && response.data) {
+        setStatus(response.data)
+      }
+    }
+
+    fetchStatus()
+    const interval = setInterval(fetchStatus, RATE_LIMIT_REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [])
+
+  if (!status) return null
+
+  const usedPercent = Math.min(100, (status.used / status.limit) * 100)
+  const lanes = Object.keys(LANE_LABELS) as RequestPriority[]
+
+  return (
+    <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+      <div className="px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+        <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+          API Budget
+        </h2>
+      </div>
+      <div className="px-4 py-3 space-y-2">
+        <div className="flex items-baseline justify-between">
+          <span className="text-sm text-neutral-900 dark:text-neutral-100 tabular-nums">
+            {status.remaining} / {status.limit} requests left
+          </span>
+          <span className="text-xs text-neutral-500 dark:text-neutral-400 tabular-nums">
+            {status.resetInMs > 0
+              ? `window frees up in ${Math.ceil(status.resetInMs / 1000)}s`
+              : `per ${status.windowMs / 1000}s window`}
+          </span>
+        </div>
+        <div className="h-1.5 bg-neutral-100 dark:bg-neutral-800 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full transition-all ${
+              status.remaining <= status.reserves.bulk ? "bg-amber-500" : "bg-primary"
+            }`}
+            style={{ width: `${usedPercent}%` }}
+          />
+        </div>
+      </div>
+      <div className="divide-y divide-neutral-100 dark:divide-neutral-800 border-t border-neutral-100 dark:border-neutral-800">
+        {lanes.map((lane) => (
+          <DetailRow
+            key={lane}
+            label={LANE_LABELS[lane]}
+            value={
+              <span className="text-xs text-neutral-500 dark:text-neutral-400 tabular-nums">
+                {status.reserves[lane] > 0
+                  ? `leaves ${status.reserves[lane]} in reserve`
+                  : "full budget"}
+                {status.queued[lane] > 0 && ` · ${status.queued[lane]} waiting`}
+              </span>
+            }
+          />
+        ))}
+      </div>
     </div>
   )
 }
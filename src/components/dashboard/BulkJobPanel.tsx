@@ -0,0 +1,160 @@
+import { Check, Copy, FileDown, X } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { useLiveEvents } from "~hooks/useLive"
+import type { Job } from "~lib/jobs"
+import type { JobProgress } from "~lib/live"
+import { messages } from "~lib/messaging"
+
+const ACTION_LABELS: Record<string, string> = {
+  delete: "Deleting torrents",
+  select_files: "Selecting files",
+  unrestrict: "Unrestricting links",
+  copy_links: "Collecting links",
+  export_magnets: "Exporting magnets"
+}
+
+// Actions whose output is meant to be copied or saved
+const OUTPUT_FILENAMES: Record<string, string> = {
+  copy_links: "links.txt",
+  export_magnets: "magnets.txt"
+}
+
+interface BulkJobPanelProps {
+  job: Job
+  onClose: () => void
+}
+
+/**
+ * Progress and per-item report for a bulk torrent job
+ */
+export function BulkJobPanel({ job: startedJob, onClose }: BulkJobPanelProps) {
+  const [progress, setProgress] = useState<JobProgress>(startedJob)
+  const [report, setReport] = useState<Job | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useLiveEvents(["jobs"], (event) => {
+    if (event.type === "JOB_PROGRESS" && event.job.id === startedJob.id) {
+      setProgress(event.job)
+    }
+  })
+
+  const isRunning = progress.status === "running"
+
+  // Fetch the per-item report once the job is done
+  useEffect(() => {
+    if (isRunning) return
+    messages.getJob(startedJob.id).then((response) => {
+      if (response.success && response.data) setReport(response.data)
+    })
+  }, [isRunning, startedJob.id])
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0
+  const succeeded = progress.done - progress.failed
+  const failedItems = report?.items.filter((item) => item.status === "failed") ?? []
+  const output = report?.items.flatMap((item) => item.output ?? []) ?? []
+  const outputFilename = OUTPUT_FILENAMES[startedJob.kind]
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(output.join("\n"))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const handleSave = () => {
+    const url = URL.createObjectURL(new Blob([output.join("\n")], { type: "text/plain" }))
+    const anchor = document.createElement("a")
+    anchor.href = url
+    anchor.download = outputFilename
+    anchor.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+        <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+          {ACTION_LABELS[startedJob.kind] ?? "Bulk action"}
+        </h2>
+        {isRunning ? (
+          <button
+            onClick={() => messages.cancelJob(startedJob.id)}
+            className="px-2 py-1 rounded-md text-xs font-medium text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            title="Dismiss"
+          >
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      <div className="px-4 py-3 space-y-3">
+        {/* Progress */}
+        <div className="flex items-center gap-2">
+          <div className="flex-1 h-1.5 bg-neutral-200 dark:bg-neutral-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all duration-300 ${progress.failed > 0 ? "bg-amber-500" : "bg-primary"}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <span className="text-xs font-mono tabular-nums text-neutral-500 whitespace-nowrap">
+            {progress.done} / {progress.total}
+          </span>
+        </div>
+
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          {succeeded} succeeded
+          {progress.failed > 0 && <span className="text-red-500">, {progress.failed} failed</span>}
+          {progress.status === "cancelled" && ", cancelled"}
+          {progress.status === "interrupted" && ", interrupted when the extension restarted; run it again for the rest"}
+        </p>
+
+        {/* Failures */}
+        {failedItems.length > 0 && (
+          <ul className="max-h-40 overflow-y-auto divide-y divide-neutral-100 dark:divide-neutral-800 rounded-md border border-red-200 dark:border-red-900/50">
+            {failedItems.map((item) => (
+              <li key={item.id} className="px-3 py-2">
+                <p className="text-xs text-neutral-900 dark:text-neutral-100 truncate">{item.label}</p>
+                <p className="text-[11px] text-red-500">{item.error}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Collected links or magnets */}
+        {outputFilename && output.length > 0 && (
+          <div className="space-y-2">
+            <textarea
+              readOnly
+              value={output.join("\n")}
+              rows={Math.min(output.length, 6)}
+              className="w-full px-3 py-2 text-xs font-mono rounded-lg border border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 resize-none focus:outline-none"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={handleCopy}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-primary text-neutral-900 hover:bg-primary/90 transition-colors"
+              >
+                {copied ? <Check size={14} /> : <Copy size={14} />}
+                {copied ? "Copied" : `Copy ${output.length}`}
+              </button>
+              <button
+                onClick={handleSave}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-neutral-600 dark:text-neutral-400 border border-neutral-200 dark:border-neutral-700 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+              >
+                <FileDown size={14} />
+                Save as {outputFilename}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
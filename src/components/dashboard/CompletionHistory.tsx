@@ -0,0 +1,135 @@
+import { ChevronDown, ChevronRight, RotateCw } from "lucide-react"
+import { useState } from "react"
+
+import { useStorage } from "@plasmohq/storage/hook"
+
+import { COMPLETION_SETTING_LABELS, type CompletionRun } from "~lib/completion"
+import { messages } from "~lib/messaging"
+import { cacheStorage, storage, STORAGE_KEYS } from "~lib/storage"
+
+const runStatusConfig: Record<CompletionRun["status"], { label: string; color: string }> = {
+  running: { label: "Running", color: "bg-accent/20 text-accent" },
+  completed: { label: "Done", color: "bg-primary/20 text-primary" },
+  failed: { label: "Failed", color: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" }
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  })
+}
+
+/**
+ * Runs of the completion pipeline, with retry for failed steps
+ * Reads the history straight from storage, so it updates as runs progress
+ */
+export function CompletionHistory() {
+  const [runs] = useStorage<CompletionRun[]>({
+    key: STORAGE_KEYS.COMPLETION_HISTORY,
+    instance: cacheStorage
+  })
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [retryError, setRetryError] = useState<string | null>(null)
+
+  if (!runs?.length) return null
+
+  const failedCount = runs.filter((run) => run.status === "failed").length
+
+  const handleRetry = async (run: CompletionRun) => {
+    setRetryError(null)
+    const response = await messages.retryCompletion(run.id)
+    if (!response.success) setRetryError(response.error ?? "Failed to retry")
+  }
+
+  return (
+    <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-2 text-sm font-semibold text-neutral-900 dark:text-neutral-100"
+        >
+          {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+          Completion History
+          <span className="text-xs font-normal text-neutral-400 tabular-nums">{runs.length}</span>
+          {failedCount > 0 && (
+            <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+              {failedCount} failed
+            </span>
+          )}
+        </button>
+        {isExpanded && (
+          <button
+            onClick={() => storage.clearCompletionHistory()}
+            disabled={runs.some((run) => run.status === "running")}
+            className="text-xs font-medium text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 transition-colors disabled:opacity-50"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-neutral-200 dark:border-neutral-800">
+          {retryError && (
+            <p className="px-4 py-2 text-xs text-red-500 border-b border-neutral-100 dark:border-neutral-800">
+              {retryError}
+            </p>
+          )}
+          <div className="max-h-96 overflow-y-auto divide-y divide-neutral-100 dark:divide-neutral-800">
+            {runs.map((run) => {
+              const status = runStatusConfig[run.status]
+              const delivered = run.links.filter((link) => link.status === "delivered").length
+              const failedLinks = run.links.filter((link) => link.status === "failed")
+
+              return (
+                <div key={run.id} className="px-4 py-3">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate">
+                          {run.filename}
+                        </h3>
+                        <span className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium flex-shrink-0 ${status.color}`}>
+                          {status.label}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-3 text-xs text-neutral-500 dark:text-neutral-400">
+                        <span>{COMPLETION_SETTING_LABELS[run.action]}</span>
+                        <span className="tabular-nums">
+                          {delivered}/{run.links.length} links
+                        </span>
+                        <span>{formatTime(run.startedAt)}</span>
+                        {run.attempts > 1 && <span>{run.attempts} attempts</span>}
+                      </div>
+                      {failedLinks.length > 0 && (
+                        <ul className="mt-1.5 space-y-0.5">
+                          {failedLinks.map((link) => (
+                            <li key={link.link} className="text-xs text-red-500 truncate">
+                              {link.filename ?? link.link}: {link.failedStep === "unrestrict" ? "unrestrict" : "delivery"} failed ({link.error})
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    {run.status === "failed" && (
+                      <button
+                        onClick={() => handleRetry(run)}
+                        className="inline-flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors flex-shrink-0"
+                      >
+                        <RotateCw size={14} />
+                        Retry failed
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+import { ChevronDown, ChevronUp, ChevronsUp, RotateCw, X } from "lucide-react"
+
+import {
+  DOWNLOAD_PRIORITIES,
+  getQueuedName,
+  orderQueue,
+  type DownloadPriority,
+  type DownloadQueueState
+} from "~lib/download-queue"
+import { messages } from "~lib/messaging"
+
+const priorityLabels: Record<DownloadPriority, string> = {
+  high: "High",
+  normal: "Normal",
+  low: "Low"
+}
+
+interface DownloadQueuePanelProps {
+  queue: DownloadQueueState
+}
+
+/**
+ * Files waiting for a free download slot, in the order they will start
+ */
+export function DownloadQueuePanel({ queue }: DownloadQueuePanelProps) {
+  if (queue.items.length === 0) return null
+
+  const ordered = orderQueue(queue.items)
+
+  return (
+    <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+          Queued
+          <span className="text-xs font-normal text-neutral-400 tabular-nums">{queue.items.length}</span>
+          {queue.paused && (
+            <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-neutral-100 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400">
+              Paused
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={() => messages.removeQueuedDownloads(queue.items.map((item) => item.id))}
+          className="text-xs font-medium text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 transition-colors"
+        >
+          Clear queue
+        </button>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto divide-y divide-neutral-100 dark:divide-neutral-800">
+        {ordered.map((item, index) => (
+          <div key={item.id} className="flex items-center gap-3 px-4 py-2">
+            <span className="w-6 text-xs text-neutral-400 tabular-nums text-right flex-shrink-0">{index + 1}</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-neutral-900 dark:text-neutral-100 truncate">{getQueuedName(item)}</p>
+              {(item.request.torrent || item.error) && (
+                <p className={`text-xs truncate ${item.error ? "text-red-500" : "text-neutral-500 dark:text-neutral-400"}`}>
+                  {item.error ?? item.request.torrent}
+                </p>
+              )}
+            </div>
+            <select
+              value={item.priority}
+              onChange={(e) => messages.updateQueuedDownload(item.id, { priority: e.target.value as DownloadPriority })}
+              className="px-1.5 py-1 rounded-md text-xs text-neutral-700 dark:text-neutral-300 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 focus:outline-none focus:ring-2 focus:ring-primary/50"
+              title="Priority"
+            >
+              {DOWNLOAD_PRIORITIES.map((priority) => (
+                <option key={priority} value={priority}>
+                  {priorityLabels[priority]}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center flex-shrink-0">
+              {item.error ? (
+                <button
+                  onClick={() => messages.updateQueuedDownload(item.id, { retry: true })}
+                  className="p-1 rounded-md text-primary hover:bg-primary/10 transition-colors"
+                  title="Try again"
+                >
+                  <RotateCw size={14} />
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => messages.updateQueuedDownload(item.id, { move: "top" })}
+                    className="p-1 rounded-md text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors"
+                    title="Move to top"
+                  >
+                    <ChevronsUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => messages.updateQueuedDownload(item.id, { move: "up" })}
+                    className="p-1 rounded-md text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors"
+                    title="Move up"
+                  >
+                    <ChevronUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => messages.updateQueuedDownload(item.id, { move: "down" })}
+                    className="p-1 rounded-md text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors"
+                    title="Move down"
+                  >
+                    <ChevronDown size={14} />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => messages.removeQueuedDownloads([item.id])}
+                className="p-1 rounded-md text-neutral-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                title="Remove from queue"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
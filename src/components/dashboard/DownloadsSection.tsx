@@ -1,13 +1,25 @@
-import { AlertCircle, Check, Copy, Download, RefreshCw, Trash2 } from "lucide-react"
-import { useState, useEffect, useCallback } from "react"
+import { Check, Copy, Download, Film, ListVideo, RefreshCw, Trash2 } from "lucide-react"
+import { useState, useCallback } from "react"
 import { messages } from "~lib/messaging"
 import type { DownloadItem } from "~lib/api/downloads"
+import { describeError, errorFromResponse, type ErrorDetails } from "~lib/api/errors"
 import type { UnrestrictedLink } from "~lib/api/unrestrict"
+import { ErrorNotice } from "~components/ErrorNotice"
+import { LinkExportMenu } from "~components/LinkExport"
+import { PlayButton } from "~components/PlayButton"
+import { SendToAria2Button } from "~components/SendToAria2"
+import { ListFooter } from "~components/ListFooter"
+import { PlaylistModal } from "~components/dashboard/PlaylistModal"
+import { StreamingModal } from "~components/dashboard/StreamingModal"
 import { UnrestrictInput } from "~components/UnrestrictInput"
+import { useInfiniteScroll, usePagedList } from "~hooks/usePagedList"
+import { useStreamingSupport, type StreamingSupportState } from "~hooks/useStreamingSupport"
 
-// NOTE: Streaming feature disabled - Real-Debrid API returns "not_allowed_method" error (code 4)
-// for GET /streaming/transcode/{id} and GET /streaming/mediaInfos/{id} endpoints despite
-// documentation saying they should work. The feature works on their website but not via API.
+// NOTE: Real-Debrid may answer GET /streaming/transcode/{id} and GET /streaming/mediaInfos/{id}
+// with "not_allowed_method" (code 4) despite the documentation; the feature works on their
+// website. useStreamingSupport probes this once per account: stream details are only offered
+// where the endpoints answer, and PlayButton plays browser-friendly files directly or explains
+// the refusal instead.
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B"
@@ -34,34 +46,42 @@ function getHostName(host: string): string {
   }
 }
 
+const PAGE_SIZE = 100
+
 export function DownloadsSection() {
-  const [downloads, setDownloads] = useState<DownloadItem[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<ErrorDetails | null>(null)
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [playlistSource, setPlaylistSource] = useState<{ files: DownloadItem[] } | null>(null)
+  const [streamingFile, setStreamingFile] = useState<DownloadItem | null>(null)
+  const streamingSupport = useStreamingSupport()
 
-  const fetchDownloads = useCallback(async () => {
-    setLoading(true)
-    setError(null)
-
-    const response = await messages.listDownloads()
-
-    if (response.success && response.data) {
-      setDownloads(response.data)
-    } else {
-      setError(response.error ?? "Failed to load downloads")
-    }
-
-    setLoading(false)
-  }, [])
-
-  useEffect(() => {
-    fetchDownloads()
-  }, [fetchDownloads])
+  const loadPage = useCallback(
+    (page: number, signal: AbortSignal) =>
+      messages.listDownloadsPage({ page, limit: PAGE_SIZE }, { signal }),
+    []
+  )
+  const {
+    items: downloads,
+    totalCount,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    loadMoreError,
+    reload: fetchDownloads,
+    loadMore,
+    setItems: setDownloads
+  } = usePagedList(loadPage, "Failed to load downloads")
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loadingMore && !loadMoreError)
 
   const handleDownload = (download: DownloadItem) => {
-    window.open(download.download, "_blank")
+    messages.downloadFile({
+      download: download.download,
+      filename: download.filename,
+      host: download.host,
+      link: download.link
+    })
   }
 
   const handleCopyLink = async (download: DownloadItem) => {
@@ -78,17 +98,20 @@ export function DownloadsSection() {
     if (!confirm("Are you sure you want to remove this download from history?")) return
 
     setActionLoading(downloadId)
+    setActionError(null)
     const response = await messages.deleteDownload(downloadId)
     if (response.success) {
-      setDownloads(downloads.filter((d) => d.id !== downloadId))
+      setDownloads((items) => items.filter((d) => d.id !== downloadId))
+    } else {
+      setActionError(describeError(response, "Failed to delete download"))
     }
     setActionLoading(null)
   }
 
-  const handleUnrestrict = async (link: string): Promise<UnrestrictedLink> => {
-    const response = await messages.unrestrictLink(link)
+  const handleUnrestrict = async (link: string, signal?: AbortSignal): Promise<UnrestrictedLink> => {
+    const response = await messages.unrestrictLink(link, undefined, undefined, { signal })
     if (!response.success || !response.data) {
-      throw new Error(response.error ?? "Failed to unrestrict link")
+      throw errorFromResponse(response, "Failed to unrestrict link")
     }
     // Refresh downloads list after unrestricting
     fetchDownloads()
@@ -107,14 +130,31 @@ export function DownloadsSection() {
             Your unrestricted link history
           </p>
         </div>
-        <button
-          onClick={fetchDownloads}
-          disabled={loading}
-          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors disabled:opacity-50"
-        >
-          <RefreshCw size={16} className={loading ? "animate-spin" : ""} />
-          Refresh
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setPlaylistSource({ files: downloads.filter((d) => d.streamable === 1) })}
+            disabled={!downloads.some((d) => d.streamable === 1)}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors disabled:opacity-50"
+            title="Playlist of the streamable videos loaded below"
+          >
+            <ListVideo size={16} />
+            Playlist
+          </button>
+          <LinkExportMenu
+            links={downloads}
+            baseName="downloads"
+            label="Export"
+            buttonClassName="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors disabled:opacity-50"
+          />
+          <button
+            onClick={fetchDownloads}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={loading ? "animate-spin" : ""} />
+            Refresh
+          </button>
+        </div>
       </div>
 
       {/* Unrestrict Input */}
@@ -132,7 +172,7 @@ export function DownloadsSection() {
             Total Downloads
           </p>
           <p className="text-2xl font-semibold text-neutral-900 dark:text-neutral-100 tabular-nums">
-            {downloads.length}
+            {totalCount}
           </p>
         </div>
         <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900">
@@ -153,24 +193,15 @@ export function DownloadsSection() {
         </div>
       </div>
 
+      {actionError && <ErrorNotice error={actionError} />}
+
       {/* Content */}
       {loading ? (
         <div className="flex items-center justify-center h-64">
           <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
         </div>
       ) : error ? (
-        <div className="flex flex-col items-center justify-center h-64 text-center">
-          <div className="w-12 h-12 rounded-full bg-red-100 dark:bg-red-900/20 flex items-center justify-center mb-3">
-            <AlertCircle size={24} className="text-red-500" />
-          </div>
-          <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2">{error}</p>
-          <button
-            onClick={fetchDownloads}
-            className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
-          >
-            Try again
-          </button>
-        </div>
+        <ErrorNotice error={error} variant="page" onRetry={fetchDownloads} />
       ) : downloads.length === 0 ? (
         <div className="flex flex-col items-center justify-center h-64 text-center">
           <div className="w-12 h-12 rounded-full bg-neutral-100 dark:bg-neutral-800 flex items-center justify-center mb-3">
@@ -193,13 +224,32 @@ export function DownloadsSection() {
                 onDownload={() => handleDownload(download)}
                 onCopyLink={() => handleCopyLink(download)}
                 onDelete={() => handleDelete(download.id)}
+                onShowStreaming={() => setStreamingFile(download)}
                 isLoading={actionLoading === download.id}
                 isCopied={copiedId === download.id}
+                streamingSupport={streamingSupport}
               />
             ))}
           </div>
+          <ListFooter
+            shown={downloads.length}
+            total={totalCount}
+            hasMore={hasMore}
+            loadingMore={loadingMore}
+            error={loadMoreError}
+            onLoadMore={loadMore}
+            sentinelRef={sentinelRef}
+          />
         </div>
       )}
+
+      <PlaylistModal source={playlistSource} title="Downloads" onClose={() => setPlaylistSource(null)} />
+      <StreamingModal
+        isOpen={streamingFile !== null}
+        onClose={() => setStreamingFile(null)}
+        fileId={streamingFile?.id ?? ""}
+        filename={streamingFile?.filename ?? ""}
+      />
     </div>
   )
 }
@@ -209,11 +259,22 @@ interface DownloadRowProps {
   onDownload: () => void
   onCopyLink: () => void
   onDelete: () => void
+  onShowStreaming: () => void
   isLoading: boolean
   isCopied: boolean
+  streamingSupport: StreamingSupportState
 }
 
-function DownloadRow({ download, onDownload, onCopyLink, onDelete, isLoading, isCopied }: DownloadRowProps) {
+function DownloadRow({
+  download,
+  onDownload,
+  onCopyLink,
+  onDelete,
+  onShowStreaming,
+  isLoading,
+  isCopied,
+  streamingSupport
+}: DownloadRowProps) {
   return (
     <div className="px-4 py-3 hover:bg-neutral-50 dark:hover:bg-neutral-800/50 transition-colors">
       <div className="flex items-start gap-3">
@@ -248,6 +309,16 @@ function DownloadRow({ download, onDownload, onCopyLink, onDelete, isLoading, is
 
         {/* Actions */}
         <div className="flex items-center gap-1 flex-shrink-0">
+          <PlayButton file={download} support={streamingSupport} />
+          {download.streamable === 1 && streamingSupport.status === "available" && (
+            <button
+              onClick={onShowStreaming}
+              className="p-1.5 rounded-md text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors"
+              title="Stream links and media info"
+            >
+              <Film size={16} />
+            </button>
+          )}
           <button
             onClick={onDownload}
             disabled={isLoading}
@@ -268,6 +339,12 @@ function DownloadRow({ download, onDownload, onCopyLink, onDelete, isLoading, is
               <Copy size={16} />
             )}
           </button>
+          <SendToAria2Button
+            getRequests={() => [
+              { download: download.download, filename: download.filename, host: download.host, link: download.link }
+            ]}
+            disabled={isLoading}
+          />
           <button
             onClick={onDelete}
             disabled={isLoading}
@@ -1,7 +1,9 @@
-import { AlertCircle, CheckCircle, RefreshCw, Search, XCircle, AlertTriangle } from "lucide-react"
+import { CheckCircle, RefreshCw, Search, XCircle, AlertTriangle } from "lucide-react"
 import { useState, useEffect, useCallback, useMemo } from "react"
 import { messages } from "~lib/messaging"
+import { describeError, type ErrorDetails } from "~lib/api/errors"
 import type { HostInfo } from "~lib/api/hosts"
+import { ErrorNotice } from "~components/ErrorNotice"
 
 function formatDate(dateString: string): string {
   const date = new Date(dateString)
@@ -51,7 +53,7 @@ function getStatusConfig(status: HostStatus) {
 export function HostsSection() {
   const [hosts, setHosts] = useState<Record<string, HostInfo> | null>(null)
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<ErrorDetails | null>(null)
   const [searchQuery, setSearchQuery] = useState("")
   const [statusFilter, setStatusFilter] = useState<HostStatus | "all">("all")
 
@@ -64,7 +66,7 @@ export function HostsSection() {
     if (response.success && response.data) {
       setHosts(response.data)
     } else {
-      setError(response.error ?? "Failed to load hosts")
+      setError(describeError(response, "Failed to load hosts"))
     }
 
     setLoading(false)
@@ -140,18 +142,7 @@ export function HostsSection() {
           <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
         </div>
       ) : error ? (
-        <div className="flex flex-col items-center justify-center h-64 text-center">
-          <div className="w-12 h-12 rounded-full bg-red-100 dark:bg-red-900/20 flex items-center justify-center mb-3">
-            <AlertCircle size={24} className="text-red-500" />
-          </div>
-          <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2">{error}</p>
-          <button
-            onClick={fetchHosts}
-            className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
-          >
-            Try again
-          </button>
-        </div>
+        <ErrorNotice error={error} variant="page" onRetry={fetchHosts} />
       ) : (
         <>
           {/* Stats */}
@@ -0,0 +1,185 @@
+import { Check, Copy, FileDown, ListVideo, Loader2, X } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { describeError, type ErrorDetails } from "~lib/api/errors"
+import { isCancelledResponse, messages } from "~lib/messaging"
+import {
+  buildPlaylist,
+  getPlaylistFilename,
+  PLAYLIST_FORMATS,
+  type PlaylistEntry,
+  type PlaylistFile,
+  type PlaylistFormat
+} from "~lib/playlist"
+import { ErrorNotice } from "~components/ErrorNotice"
+import { copyText, saveText } from "~components/LinkExport"
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`
+  }
+  return `${minutes}m`
+}
+
+interface PlaylistModalProps {
+  // Restricted links to unrestrict, or files that already are
+  source: { links?: string[]; files?: PlaylistFile[] } | null
+  title: string
+  onClose: () => void
+}
+
+/**
+ * Builds a playlist of the source's streamable videos and offers it as
+ * M3U8 or XSPF, copied or saved
+ */
+export function PlaylistModal({ source, title, onClose }: PlaylistModalProps) {
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<ErrorDetails | null>(null)
+  const [entries, setEntries] = useState<PlaylistEntry[]>([])
+  const [skipped, setSkipped] = useState(0)
+  const [copiedFormat, setCopiedFormat] = useState<PlaylistFormat | null>(null)
+
+  useEffect(() => {
+    if (!source) return
+
+    // Closing the modal cancels unrestricting and media info lookups
+    const controller = new AbortController()
+    const { signal } = controller
+
+    const build = async () => {
+      setIsLoading(true)
+      setError(null)
+      setEntries([])
+      setSkipped(0)
+
+      const response = await messages.buildPlaylist(source, { signal })
+      if (signal.aborted) return
+
+      if (response.success && response.data) {
+        setEntries(response.data.entries)
+        setSkipped(response.data.skipped)
+      } else if (!isCancelledResponse(response)) {
+        setError(describeError(response, "Failed to build playlist"))
+      }
+      setIsLoading(false)
+    }
+
+    build()
+    return () => controller.abort()
+  }, [source])
+
+  if (!source) return null
+
+  const handleCopy = async (format: PlaylistFormat) => {
+    await copyText(buildPlaylist(entries, format, title))
+    setCopiedFormat(format)
+    setTimeout(() => setCopiedFormat(null), 2000)
+  }
+
+  const handleSave = (format: PlaylistFormat) => {
+    saveText(buildPlaylist(entries, format, title), getPlaylistFilename(format, title), PLAYLIST_FORMATS[format].mimeType)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <div className="relative w-full max-w-lg mx-4 max-h-[80vh] flex flex-col bg-white dark:bg-neutral-900 rounded-xl shadow-xl border border-neutral-200 dark:border-neutral-800">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+          <div className="flex items-center gap-2 min-w-0">
+            <ListVideo size={18} className="text-accent flex-shrink-0" />
+            <div className="min-w-0">
+              <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+                Playlist
+              </h3>
+              <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-0.5 truncate">
+                {title}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        {!isLoading && !error && skipped > 0 && (
+          <p className="px-4 py-2 text-xs text-amber-600 dark:text-amber-400 border-b border-neutral-100 dark:border-neutral-800">
+            {skipped} {skipped === 1 ? "link" : "links"} couldn't be unrestricted and {skipped === 1 ? "is" : "are"} left out
+          </p>
+        )}
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex flex-col items-center justify-center gap-2 py-12">
+              <Loader2 size={24} className="animate-spin text-neutral-400" />
+              <p className="text-xs text-neutral-500 dark:text-neutral-400">Unrestricting and reading media info...</p>
+            </div>
+          ) : error ? (
+            <div className="p-4">
+              <ErrorNotice error={error} />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="py-12 text-center text-sm text-neutral-500 dark:text-neutral-400">
+              No streamable videos found
+            </p>
+          ) : (
+            <ol className="divide-y divide-neutral-100 dark:divide-neutral-800">
+              {entries.map((entry, index) => (
+                <li key={entry.url} className="flex items-center gap-3 px-4 py-2">
+                  <span className="w-6 text-xs text-neutral-400 tabular-nums text-right flex-shrink-0">{index + 1}</span>
+                  <span className="flex-1 min-w-0 text-sm text-neutral-900 dark:text-neutral-100 truncate" title={entry.filename}>
+                    {entry.title}
+                  </span>
+                  {entry.duration !== undefined && (
+                    <span className="text-xs font-mono tabular-nums text-neutral-500 flex-shrink-0">
+                      {formatDuration(entry.duration)}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Footer */}
+        {entries.length > 0 && (
+          <div className="flex items-center justify-between gap-3 px-4 py-3 border-t border-neutral-200 dark:border-neutral-800 bg-neutral-50 dark:bg-neutral-900">
+            <span className="text-xs text-neutral-500">
+              {entries.length} {entries.length === 1 ? "video" : "videos"} · opens in VLC, mpv or Kodi
+            </span>
+            <div className="flex items-center gap-2">
+              {(Object.keys(PLAYLIST_FORMATS) as PlaylistFormat[]).map((format) => (
+                <div key={format} className="inline-flex items-center rounded-lg border border-neutral-200 dark:border-neutral-700">
+                  <span className="pl-2.5 pr-1 text-xs font-medium text-neutral-700 dark:text-neutral-300">
+                    {PLAYLIST_FORMATS[format].label}
+                  </span>
+                  <button
+                    onClick={() => handleCopy(format)}
+                    className="p-1.5 text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-300 transition-colors"
+                    title={copiedFormat === format ? "Copied!" : "Copy"}
+                  >
+                    {copiedFormat === format ? <Check size={14} className="text-primary" /> : <Copy size={14} />}
+                  </button>
+                  <button
+                    onClick={() => handleSave(format)}
+                    className="p-1.5 pr-2 text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-300 transition-colors"
+                    title={`Save as ${getPlaylistFilename(format, title)}`}
+                  >
+                    <FileDown size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,19 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
 
 import { useStorage } from "@plasmohq/storage/hook"
 
+import { COMPLETION_SETTING_LABELS, type CompletionSetting } from "~lib/completion"
+import {
+  buildDownloadPath,
+  DOWNLOAD_CONFLICT_LABELS,
+  DOWNLOAD_PATH_TOKENS,
+  type DownloadConflictAction
+} from "~lib/download-paths"
+import { parsePatternList, type FileSelectionRules } from "~lib/file-rules"
 import { messages } from "~lib/messaging"
+import { POLL_INTERVAL_LIMITS } from "~lib/poll-scheduler"
 import {
+  authStorage,
   storage,
   syncStorage,
   STORAGE_KEYS,
@@ -41,6 +51,172 @@ function Toggle({ checked, onChange, disabled }: ToggleProps) {
   )
 }
 
+interface NumberInputProps {
+  value: number
+  onChange: (value: number) => void
+  min: number
+  max: number
+  unit: string
+  disabled?: boolean
+}
+
+// Commits on blur or Enter so typing "120" doesn't save "1" and "12" first
+function NumberInput({ value, onChange, min, max, unit, disabled }: NumberInputProps) {
+  const [draft, setDraft] = useState(String(value))
+
+  useEffect(() => {
+    setDraft(String(value))
+  }, [value])
+
+  const commit = () => {
+    const parsed = Math.round(Number(draft))
+    if (!Number.isFinite(parsed) || parsed === value) {
+      setDraft(String(value))
+      return
+    }
+    onChange(Math.min(Math.max(parsed, min), max))
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={draft}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur()
+        }}
+        className="w-20 px-2 py-1.5 rounded-lg text-sm text-right tabular-nums text-neutral-900 dark:text-neutral-100 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+      />
+      <span className="text-xs text-neutral-500 dark:text-neutral-400">{unit}</span>
+    </div>
+  )
+}
+
+interface PatternListInputProps {
+  value: string[]
+  onChange: (value: string[]) => void
+  placeholder: string
+  disabled?: boolean
+}
+
+// Comma-separated list, committed on blur or Enter like NumberInput
+function PatternListInput({ value, onChange, placeholder, disabled }: PatternListInputProps) {
+  const [draft, setDraft] = useState(value.join(", "))
+
+  useEffect(() => {
+    setDraft(value.join(", "))
+  }, [value])
+
+  const commit = () => {
+    const parsed = parsePatternList(draft)
+    if (parsed.join(",") === value.join(",")) {
+      setDraft(value.join(", "))
+      return
+    }
+    onChange(parsed)
+  }
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      placeholder={placeholder}
+      disabled={disabled}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur()
+      }}
+      className="w-56 px-2 py-1.5 rounded-lg text-sm text-neutral-900 dark:text-neutral-100 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+    />
+  )
+}
+
+interface TextInputProps {
+  value: string
+  onChange: (value: string) => void
+  placeholder: string
+  disabled?: boolean
+  type?: "text" | "password"
+}
+
+// Committed on blur or Enter like NumberInput
+function TextInput({ value, onChange, placeholder, disabled, type = "text" }: TextInputProps) {
+  const [draft, setDraft] = useState(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  return (
+    <input
+      type={type}
+      value={draft}
+      placeholder={placeholder}
+      disabled={disabled}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft.trim() !== value) onChange(draft.trim())
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur()
+      }}
+      className="w-72 px-2 py-1.5 rounded-lg text-sm text-neutral-900 dark:text-neutral-100 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+    />
+  )
+}
+
+/**
+ * Host permission pattern for a plain-http URL; https hosts are always allowed
+ */
+function getOptionalOrigin(url: string): string | null {
+  try {
+    const parsed = new URL(url.replace(/\{[^}]*\}/g, ""))
+    return parsed.protocol === "http:" ? `${parsed.origin}/*` : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether a plain-http URL (e.g. on localhost) still needs its optional host
+ * permission, and a way to ask for it
+ */
+function useOptionalHostAccess(url: string): [boolean, () => Promise<void>] {
+  const [needsAccess, setNeedsAccess] = useState(false)
+  const origin = getOptionalOrigin(url)
+
+  useEffect(() => {
+    if (!origin) {
+      setNeedsAccess(false)
+      return
+    }
+    chrome.permissions.contains({ origins: [origin] }).then((granted) => {
+      setNeedsAccess(!granted)
+    })
+  }, [origin])
+
+  const requestAccess = async () => {
+    if (!origin) return
+    const granted = await chrome.permissions.request({ origins: [origin] })
+    setNeedsAccess(!granted)
+  }
+
+  return [needsAccess, requestAccess]
+}
+
+// Sample file for the download path preview
+const DOWNLOAD_PATH_EXAMPLE = {
+  filename: "Show.Name.S01E02.1080p.mkv",
+  host: "rapidgator.net",
+  torrent: "Show.Name.S01.1080p"
+}
+
 interface SettingRowProps {
   title: string
   description: string
@@ -72,10 +248,22 @@ export function SettingsSection() {
     instance: syncStorage,
   })
 
+  // Credentials stay on this device instead of syncing with the preferences
+  const [aria2Secret, setAria2Secret] = useStorage<string>({
+    key: STORAGE_KEYS.ARIA2_SECRET,
+    instance: authStorage,
+  })
+
   // Merge with defaults for complete preferences object
   const preferences = { ...DEFAULT_PREFERENCES, ...storedPreferences }
+  const downloadPathPreview = buildDownloadPath(DOWNLOAD_PATH_EXAMPLE, {
+    directory: preferences.downloadDirectory ?? "",
+    template: preferences.downloadFilenameTemplate
+  })
 
   const [saving, setSaving] = useState(false)
+  const [aria2Test, setAria2Test] = useState<{ ok: boolean; text: string } | null>(null)
+  const [testingAria2, setTestingAria2] = useState(false)
   const [clearingCache, setClearingCache] = useState(false)
   const [signingOut, setSigningOut] = useState(false)
 
@@ -88,6 +276,52 @@ export function SettingsSection() {
     setSaving(false)
   }
 
+  // Keep min <= max by moving the other bound along with the edited one
+  const updatePollInterval = async (bound: "min" | "max", seconds: number) => {
+    setSaving(true)
+    const min = bound === "min" ? seconds : Math.min(preferences.pollMinIntervalSeconds, seconds)
+    const max = bound === "max" ? seconds : Math.max(preferences.pollMaxIntervalSeconds, seconds)
+    await setStoredPreferences({
+      ...preferences,
+      pollMinIntervalSeconds: min,
+      pollMaxIntervalSeconds: max,
+    })
+    setSaving(false)
+  }
+
+  const updateFileRule = async <K extends keyof FileSelectionRules>(
+    key: K,
+    value: FileSelectionRules[K]
+  ) => {
+    await updatePreference("fileSelectionRules", { ...preferences.fileSelectionRules, [key]: value })
+  }
+
+  const [needsDownloaderAccess, requestDownloaderAccess] = useOptionalHostAccess(preferences.externalDownloaderUrl)
+  const [needsAria2Access, requestAria2Access] = useOptionalHostAccess(preferences.aria2RpcUrl)
+
+  const updateAria2Preference = async (key: "aria2RpcUrl" | "aria2Directory", value: string) => {
+    setAria2Test(null)
+    await updatePreference(key, value)
+  }
+
+  const updateAria2Secret = async (value: string) => {
+    setAria2Test(null)
+    setSaving(true)
+    await setAria2Secret(value)
+    setSaving(false)
+  }
+
+  const handleTestAria2 = async () => {
+    setTestingAria2(true)
+    const response = await messages.testAria2()
+    setAria2Test(
+      response.success && response.data
+        ? { ok: true, text: `Connected to aria2 ${response.data.version}` }
+        : { ok: false, text: response.error || "Couldn't reach aria2" }
+    )
+    setTestingAria2(false)
+  }
+
   const handleClearCache = async () => {
     if (!confirm("Clear all cached data? This will not affect your account.")) return
 
@@ -104,14 +338,15 @@ export function SettingsSection() {
   }
 
   const handleSignOut = async () => {
-    if (!confirm("Sign out of your Real-Debrid account?")) return
+    if (!confirm("Sign out of this Real-Debrid account?")) return
 
     setSigningOut(true)
     const response = await messages.logout()
 
     if (response.success) {
-      // Redirect to login or close dashboard
-      window.close()
+      // Other signed-in accounts take over; close only after the last one
+      const remaining = await messages.listAccounts()
+      if (!remaining.data?.accounts.length) window.close()
     }
     setSigningOut(false)
   }
@@ -169,7 +404,7 @@ export function SettingsSection() {
         <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
           <SettingRow
             title="Auto Unrestrict"
-            description="Automatically unrestrict supported links when detected"
+            description="Unrestrict supported links found by auto-scan in the background, so they're ready when you open the popup"
             action={
               <Toggle
                 checked={preferences.autoUnrestrict}
@@ -178,9 +413,39 @@ export function SettingsSection() {
               />
             }
           />
+          {preferences.autoUnrestrict && (
+            <>
+              <SettingRow
+                title="Links Per Page"
+                description="Most links auto-unrestrict handles on a single page"
+                action={
+                  <NumberInput
+                    value={preferences.autoUnrestrictMaxPerPage}
+                    onChange={(value) => updatePreference("autoUnrestrictMaxPerPage", value)}
+                    min={1}
+                    max={50}
+                    unit="links"
+                    disabled={saving}
+                  />
+                }
+              />
+              <SettingRow
+                title="Allowed Hosts"
+                description="Only auto-unrestrict links from these hosts, e.g. 1fichier.com. Leave empty for every supported host"
+                action={
+                  <PatternListInput
+                    value={preferences.autoUnrestrictHosts}
+                    onChange={(value) => updatePreference("autoUnrestrictHosts", value)}
+                    placeholder="All supported hosts"
+                    disabled={saving}
+                  />
+                }
+              />
+            </>
+          )}
           <SettingRow
             title="Auto Select Files"
-            description="Automatically select all files when adding torrents via context menu"
+            description="Select files using the rules below as soon as a new torrent is ready"
             action={
               <Toggle
                 checked={preferences.autoSelectFiles}
@@ -203,6 +468,318 @@ export function SettingsSection() {
         </div>
       </div>
 
+      {/* File Selection Section */}
+      <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+        <div className="px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+            File Selection Rules
+          </h2>
+        </div>
+        <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+          <SettingRow
+            title="Include"
+            description="Only these extensions or globs, e.g. mkv, mp4, */Season 1/*. Leave empty for all files"
+            action={
+              <PatternListInput
+                value={preferences.fileSelectionRules.include}
+                onChange={(value) => updateFileRule("include", value)}
+                placeholder="All files"
+                disabled={saving}
+              />
+            }
+          />
+          <SettingRow
+            title="Exclude"
+            description="Skip these extensions or globs"
+            action={
+              <PatternListInput
+                value={preferences.fileSelectionRules.exclude}
+                onChange={(value) => updateFileRule("exclude", value)}
+                placeholder="nfo, txt"
+                disabled={saving}
+              />
+            }
+          />
+          <SettingRow
+            title="Minimum File Size"
+            description="Skip smaller files; 0 keeps files of any size"
+            action={
+              <NumberInput
+                value={preferences.fileSelectionRules.minSizeMB}
+                onChange={(value) => updateFileRule("minSizeMB", value)}
+                min={0}
+                max={1024 * 1024}
+                unit="MB"
+                disabled={saving}
+              />
+            }
+          />
+          <SettingRow
+            title="Largest Video Only"
+            description="Keep just the largest video file when a torrent has any"
+            action={
+              <Toggle
+                checked={preferences.fileSelectionRules.largestVideoOnly}
+                onChange={(checked) => updateFileRule("largestVideoOnly", checked)}
+                disabled={saving}
+              />
+            }
+          />
+          <SettingRow
+            title="Skip Samples and Extras"
+            description="Skip files whose path contains one of these words"
+            action={
+              <div className="flex items-center gap-3">
+                <PatternListInput
+                  value={preferences.fileSelectionRules.samplePatterns}
+                  onChange={(value) => updateFileRule("samplePatterns", value)}
+                  placeholder="sample, trailer"
+                  disabled={saving || !preferences.fileSelectionRules.skipSamples}
+                />
+                <Toggle
+                  checked={preferences.fileSelectionRules.skipSamples}
+                  onChange={(checked) => updateFileRule("skipSamples", checked)}
+                  disabled={saving}
+                />
+              </div>
+            }
+          />
+        </div>
+      </div>
+
+      {/* Downloads Section */}
+      <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+        <div className="px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+            Downloads
+          </h2>
+        </div>
+        <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+          <SettingRow
+            title="Download Folder"
+            description="Subfolder of the browser's download folder to save files in. Leave empty to save there directly"
+            action={
+              <TextInput
+                value={preferences.downloadDirectory ?? ""}
+                onChange={(value) => updatePreference("downloadDirectory", value)}
+                placeholder="Real-Debrid"
+                disabled={saving}
+              />
+            }
+          />
+          <SettingRow
+            title="File Name"
+            description={`Path of each file in the download folder. Available: ${Object.keys(DOWNLOAD_PATH_TOKENS).join(" ")}`}
+            action={
+              <div className="flex flex-col items-end gap-1">
+                <TextInput
+                  value={preferences.downloadFilenameTemplate}
+                  onChange={(value) => updatePreference("downloadFilenameTemplate", value)}
+                  placeholder="{torrent}/{season}/{filename}"
+                  disabled={saving}
+                />
+                <span className="w-72 text-xs text-neutral-400 truncate" title={downloadPathPreview}>
+                  {downloadPathPreview}
+                </span>
+              </div>
+            }
+          />
+          <SettingRow
+            title="Simultaneous Downloads"
+            description="Queued files, such as a torrent's links or Download All, start once fewer than this many are downloading"
+            action={
+              <NumberInput
+                value={preferences.maxConcurrentDownloads}
+                onChange={(value) => updatePreference("maxConcurrentDownloads", value)}
+                min={1}
+                max={10}
+                unit="files"
+                disabled={saving}
+              />
+            }
+          />
+          <SettingRow
+            title="Existing Files"
+            description="What to do when a file with the same name is already there"
+            action={
+              <select
+                value={preferences.downloadConflictAction}
+                onChange={(e) => updatePreference("downloadConflictAction", e.target.value as DownloadConflictAction)}
+                disabled={saving}
+                className="px-2 py-1.5 rounded-lg text-sm text-neutral-900 dark:text-neutral-100 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+              >
+                {Object.entries(DOWNLOAD_CONFLICT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            }
+          />
+        </div>
+      </div>
+
+      {/* Completion Section */}
+      <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+        <div className="px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+            When a Torrent Completes
+          </h2>
+        </div>
+        <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+          <SettingRow
+            title="Action"
+            description="Unrestrict a finished torrent's links and hand them on. Individual torrents can choose differently"
+            action={
+              <select
+                value={preferences.completionAction}
+                onChange={(e) => updatePreference("completionAction", e.target.value as CompletionSetting)}
+                disabled={saving}
+                className="px-2 py-1.5 rounded-lg text-sm text-neutral-900 dark:text-neutral-100 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+              >
+                {Object.entries(COMPLETION_SETTING_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            }
+          />
+          <SettingRow
+            title="External Downloader"
+            description="URL that receives each link. Use {url} and {filename} placeholders, or leave them out to receive a JSON POST"
+            action={
+              <div className="flex flex-col items-end gap-2">
+                <TextInput
+                  value={preferences.externalDownloaderUrl}
+                  onChange={(value) => updatePreference("externalDownloaderUrl", value)}
+                  placeholder="http://127.0.0.1:9666/flash/add?urls={url}"
+                  disabled={saving}
+                />
+                {needsDownloaderAccess && (
+                  <button
+                    onClick={requestDownloaderAccess}
+                    className="text-xs font-medium text-primary hover:text-primary/80 transition-colors"
+                  >
+                    Allow access to this downloader
+                  </button>
+                )}
+              </div>
+            }
+          />
+        </div>
+      </div>
+
+      {/* aria2 Section */}
+      <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+        <div className="px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+            aria2
+          </h2>
+        </div>
+        <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+          <SettingRow
+            title="RPC URL"
+            description="JSON-RPC endpoint of an aria2 instance started with --enable-rpc. Adds a Send to aria2 action across the extension"
+            action={
+              <div className="flex flex-col items-end gap-2">
+                <TextInput
+                  value={preferences.aria2RpcUrl}
+                  onChange={(value) => updateAria2Preference("aria2RpcUrl", value)}
+                  placeholder="http://192.168.1.10:6800/jsonrpc"
+                  disabled={saving}
+                />
+                {needsAria2Access && (
+                  <button
+                    onClick={requestAria2Access}
+                    className="text-xs font-medium text-primary hover:text-primary/80 transition-colors"
+                  >
+                    Allow access to this aria2 instance
+                  </button>
+                )}
+              </div>
+            }
+          />
+          <SettingRow
+            title="Secret"
+            description="The --rpc-secret aria2 was started with, if any"
+            action={
+              <TextInput
+                type="password"
+                value={aria2Secret ?? ""}
+                onChange={updateAria2Secret}
+                placeholder="None"
+                disabled={saving}
+              />
+            }
+          />
+          <SettingRow
+            title="Directory"
+            description="Folder on the aria2 machine to save into; aria2's default when empty. The file name template applies below it"
+            action={
+              <TextInput
+                value={preferences.aria2Directory}
+                onChange={(value) => updateAria2Preference("aria2Directory", value)}
+                placeholder="/srv/downloads"
+                disabled={saving}
+              />
+            }
+          />
+          <SettingRow
+            title="Test Connection"
+            description={aria2Test?.text ?? "Check that aria2 answers with these settings"}
+            action={
+              <button
+                onClick={handleTestAria2}
+                disabled={testingAria2 || !preferences.aria2RpcUrl}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 transition-colors disabled:opacity-50"
+              >
+                {testingAria2 ? "Testing..." : "Test"}
+              </button>
+            }
+          />
+        </div>
+      </div>
+
+      {/* Polling Section */}
+      <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+        <div className="px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+            Torrent Polling
+          </h2>
+        </div>
+        <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+          <SettingRow
+            title="Fastest Interval"
+            description="How often to check while downloads are making progress"
+            action={
+              <NumberInput
+                value={preferences.pollMinIntervalSeconds}
+                onChange={(value) => updatePollInterval("min", value)}
+                min={POLL_INTERVAL_LIMITS.minSeconds}
+                max={POLL_INTERVAL_LIMITS.maxSeconds}
+                unit="sec"
+                disabled={saving}
+              />
+            }
+          />
+          <SettingRow
+            title="Slowest Interval"
+            description="Upper limit when torrents are queued or stalled, and the check rate for torrents awaiting file selection"
+            action={
+              <NumberInput
+                value={preferences.pollMaxIntervalSeconds}
+                onChange={(value) => updatePollInterval("max", value)}
+                min={POLL_INTERVAL_LIMITS.minSeconds}
+                max={POLL_INTERVAL_LIMITS.maxSeconds}
+                unit="sec"
+                disabled={saving}
+              />
+            }
+          />
+        </div>
+      </div>
+
       {/* Data Section */}
       <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
         <div className="px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
@@ -1,16 +1,19 @@
-import { ChevronLeft, Download, ExternalLink, HardDrive, Server, Settings, User } from "lucide-react"
+import { ArrowDownToLine, ChevronLeft, Download, ExternalLink, HardDrive, Server, Settings, User } from "lucide-react"
 
 import logoImage from "data-base64:~assets/logo.png"
 import { useState, useEffect } from "react"
 
+import { AccountSwitcher } from "~components/AccountSwitcher"
+
 // NOTE: "traffic" section disabled - Real-Debrid API returns "not_allowed_method" error (code 4)
 // for GET /traffic endpoint despite documentation saying it should work with OAuth tokens.
 // The feature works on their website but not via API. May be an API restriction.
-export type Section = "account" | "torrents" | "downloads" | "hosts" | "settings"
+export type Section = "account" | "torrents" | "downloads" | "transfers" | "hosts" | "settings"
 
 interface SidebarProps {
   activeSection: Section
   onSectionChange: (section: Section) => void
+  onAddAccount: () => void
 }
 
 interface NavItem {
@@ -35,6 +38,11 @@ const navItems: NavItem[] = [
     label: "Downloads",
     icon: <Download size={20} />
   },
+  {
+    id: "transfers",
+    label: "Transfers",
+    icon: <ArrowDownToLine size={20} />
+  },
   {
     id: "hosts",
     label: "Hosts",
@@ -47,7 +55,7 @@ const navItems: NavItem[] = [
   }
 ]
 
-export function Sidebar({ activeSection, onSectionChange }: SidebarProps) {
+export function Sidebar({ activeSection, onSectionChange, onAddAccount }: SidebarProps) {
   const [isCollapsed, setIsCollapsed] = useState(false)
 
   useEffect(() => {
@@ -80,6 +88,11 @@ export function Sidebar({ activeSection, onSectionChange }: SidebarProps) {
         </div>
       </div>
 
+      {/* Account switcher */}
+      <div className="px-2 pt-3">
+        <AccountSwitcher variant="sidebar" collapsed={isCollapsed} onAddAccount={onAddAccount} />
+      </div>
+
       {/* Navigation */}
       <nav className="flex-1 py-3 px-2">
         <ul className="space-y-1">
@@ -1,7 +1,10 @@
-import { Check, Copy, ExternalLink, Film, Loader2, X } from "lucide-react"
+import { Check, Copy, ExternalLink, Film, Loader2, Play, X } from "lucide-react"
 import { useState, useEffect } from "react"
-import { messages } from "~lib/messaging"
+import { isCancelledResponse, messages } from "~lib/messaging"
+import { describeError, type ErrorDetails } from "~lib/api/errors"
 import type { TranscodeQuality, MediaInfo } from "~lib/api/streaming"
+import { getPlayerSources, getPlayerUrl } from "~lib/player"
+import { ErrorNotice } from "~components/ErrorNotice"
 
 interface StreamingModalProps {
   isOpen: boolean
@@ -38,7 +41,7 @@ function formatFileSize(bytes: number): string {
 
 export function StreamingModal({ isOpen, onClose, fileId, filename }: StreamingModalProps) {
   const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<ErrorDetails | null>(null)
   const [transcodeLinks, setTranscodeLinks] = useState<TranscodeQuality | null>(null)
   const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null)
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null)
@@ -46,33 +49,39 @@ export function StreamingModal({ isOpen, onClose, fileId, filename }: StreamingM
   useEffect(() => {
     if (!isOpen || !fileId) return
 
+    // Closing the modal or switching files cancels the in-flight requests
+    const controller = new AbortController()
+    const { signal } = controller
+
     const fetchData = async () => {
       setIsLoading(true)
       setError(null)
 
       try {
         const [transcodeResponse, mediaResponse] = await Promise.all([
-          messages.getTranscodeLinks(fileId),
-          messages.getMediaInfo(fileId),
+          messages.getTranscodeLinks(fileId, { signal }),
+          messages.getMediaInfo(fileId, { signal }),
         ])
+        if (signal.aborted) return
 
         if (transcodeResponse.success && transcodeResponse.data) {
           setTranscodeLinks(transcodeResponse.data)
-        } else {
-          setError(transcodeResponse.error || "Failed to get transcode links")
+        } else if (!isCancelledResponse(transcodeResponse)) {
+          setError(describeError(transcodeResponse, "Failed to get transcode links"))
         }
 
         if (mediaResponse.success && mediaResponse.data) {
           setMediaInfo(mediaResponse.data)
         }
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to load streaming info")
+        if (!signal.aborted) setError(describeError(err, "Failed to load streaming info"))
       } finally {
-        setIsLoading(false)
+        if (!signal.aborted) setIsLoading(false)
       }
     }
 
     fetchData()
+    return () => controller.abort()
   }, [isOpen, fileId])
 
   const handleCopyLink = async (url: string) => {
@@ -143,9 +152,7 @@ export function StreamingModal({ isOpen, onClose, fileId, filename }: StreamingM
               <Loader2 size={24} className="text-neutral-400 animate-spin" />
             </div>
           ) : error ? (
-            <div className="px-4 py-3 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded-lg">
-              {error}
-            </div>
+            <ErrorNotice error={error} />
           ) : (
             <>
               {/* Media Info */}
@@ -205,6 +212,17 @@ export function StreamingModal({ isOpen, onClose, fileId, filename }: StreamingM
                 </div>
               )}
 
+              {/* The player page plays HLS and MP4 variants itself */}
+              {transcodeLinks && getPlayerSources(transcodeLinks).length > 0 && (
+                <button
+                  onClick={() => chrome.tabs.create({ url: getPlayerUrl(fileId, filename) })}
+                  className="w-full inline-flex items-center justify-center gap-2 py-2 px-4 rounded-lg text-sm font-medium bg-primary text-neutral-900 hover:bg-primary/90 transition-colors"
+                >
+                  <Play size={16} />
+                  Play in Browser
+                </button>
+              )}
+
               {/* Quality Options */}
               {qualityOptions.length > 0 && (
                 <div>
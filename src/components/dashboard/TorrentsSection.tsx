@@ -1,7 +1,43 @@
-import { AlertCircle, Check, Copy, Download, FolderOpen, Plus, RefreshCw, Trash2, Upload, X } from "lucide-react"
-import { useState, useEffect, useCallback } from "react"
+import { ArrowDown, ArrowUp, Check, Copy, Download, FileDown, FolderOpen, Link, ListVideo, Plus, RefreshCw, Search, Share, Trash2, Upload, X } from "lucide-react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { useStorage } from "@plasmohq/storage/hook"
+import { COMPLETION_SETTING_LABELS, type CompletionSetting } from "~lib/completion"
+import { applyFileSelectionRules } from "~lib/file-rules"
+import type { BulkTorrentAction, Job } from "~lib/jobs"
+import { applyTorrentsDelta } from "~lib/live"
+import { isActiveTorrentStatus } from "~lib/torrent-tracker"
+import {
+  DEFAULT_TORRENT_QUERY,
+  TORRENT_SORT_KEYS,
+  TORRENT_STATUS_GROUPS,
+  describeCondition,
+  getStatusGroup,
+  matchesTorrentQuery,
+  parseTorrentQuery,
+  parseTorrentSearch,
+  removeSearchToken,
+  serializeTorrentQuery,
+  sortTorrents,
+  type TorrentQuery,
+  type TorrentSortKey,
+  type TorrentStatusGroup
+} from "~lib/torrent-query"
 import { messages, sendMessage } from "~lib/messaging"
+import { describeError, type ErrorDetails } from "~lib/api/errors"
+import { cacheStorage, storage, STORAGE_KEYS } from "~lib/storage"
 import type { TorrentItem, TorrentStatus, TorrentInfo } from "~lib/api/torrents"
+import type { UnrestrictedLink } from "~lib/api/unrestrict"
+import { ErrorNotice } from "~components/ErrorNotice"
+import { LinkExportPanel } from "~components/LinkExport"
+import { SendToAria2Button } from "~components/SendToAria2"
+import { BulkJobPanel } from "~components/dashboard/BulkJobPanel"
+import { CompletionHistory } from "~components/dashboard/CompletionHistory"
+import { PlaylistModal } from "~components/dashboard/PlaylistModal"
+import { ListFooter } from "~components/ListFooter"
+import { useHashParams } from "~hooks/useHashParams"
+import { useLiveEvents } from "~hooks/useLive"
+import { usePreferences } from "~hooks/usePreferences"
+import { useInfiniteScroll, usePagedList } from "~hooks/usePagedList"
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B"
@@ -20,8 +56,6 @@ function formatDate(dateString: string): string {
   })
 }
 
-type FilterType = "all" | "downloading" | "ready" | "error"
-
 const statusConfig: Record<TorrentStatus, { label: string; color: string }> = {
   magnet_error: { label: "Error", color: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" },
   magnet_conversion: { label: "Converting", color: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400" },
@@ -36,13 +70,6 @@ const statusConfig: Record<TorrentStatus, { label: string; color: string }> = {
   dead: { label: "Dead", color: "bg-neutral-100 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400" }
 }
 
-function getFilterForStatus(status: TorrentStatus): FilterType {
-  if (["error", "magnet_error", "virus", "dead"].includes(status)) return "error"
-  if (["downloaded"].includes(status)) return "ready"
-  if (["downloading", "queued", "magnet_conversion", "compressing", "uploading"].includes(status)) return "downloading"
-  return "all"
-}
-
 // Add Torrent Modal
 interface AddTorrentModalProps {
   isOpen: boolean
@@ -173,13 +200,23 @@ interface FileSelectionModalProps {
 
 function FileSelectionModal({ isOpen, onClose, torrentInfo, onSelect, loading }: FileSelectionModalProps) {
   const [selectedFiles, setSelectedFiles] = useState<Set<number>>(new Set())
+  const { fileSelectionRules } = usePreferences()
+
+  const rulePicks = useMemo(
+    () => (torrentInfo?.files ? applyFileSelectionRules(torrentInfo.files, fileSelectionRules) : null),
+    [torrentInfo, fileSelectionRules]
+  )
+
+  // Pre-select what the selection rules pick, or everything if they pick nothing
+  const applyRulePicks = useCallback(() => {
+    if (!torrentInfo?.files || !rulePicks) return
+    const picked = rulePicks.selectedIds.length > 0 ? rulePicks.selectedIds : torrentInfo.files.map(f => f.id)
+    setSelectedFiles(new Set(picked))
+  }, [torrentInfo, rulePicks])
 
   useEffect(() => {
-    if (torrentInfo?.files) {
-      // Pre-select all files
-      setSelectedFiles(new Set(torrentInfo.files.map(f => f.id)))
-    }
-  }, [torrentInfo])
+    applyRulePicks()
+  }, [applyRulePicks])
 
   if (!isOpen || !torrentInfo) return null
 
@@ -248,6 +285,25 @@ function FileSelectionModal({ isOpen, onClose, torrentInfo, onSelect, loading }:
           </span>
         </div>
 
+        {/* What the selection rules picked */}
+        {rulePicks && (
+          <div className="flex items-center justify-between px-4 py-2 border-b border-neutral-100 dark:border-neutral-800 text-xs">
+            <span className="text-neutral-500 dark:text-neutral-400">
+              {rulePicks.selectedIds.length > 0
+                ? `Your selection rules pick ${rulePicks.selectedIds.length} of ${torrentInfo.files.length} files`
+                : "No files match your selection rules"}
+            </span>
+            {rulePicks.selectedIds.length > 0 && (
+              <button
+                onClick={applyRulePicks}
+                className="font-medium text-primary hover:text-primary/80 transition-colors"
+              >
+                Reset to rules
+              </button>
+            )}
+          </div>
+        )}
+
         {/* File List */}
         <div className="flex-1 overflow-y-auto">
           <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
@@ -269,6 +325,11 @@ function FileSelectionModal({ isOpen, onClose, torrentInfo, onSelect, loading }:
                   <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
                     {file.path}
                   </p>
+                  {rulePicks?.reasons[file.id] && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400">
+                      Skipped by rules: {rulePicks.reasons[file.id]}
+                    </p>
+                  )}
                 </div>
                 <span className="text-xs font-mono text-neutral-500 flex-shrink-0">
                   {formatBytes(file.bytes)}
@@ -304,49 +365,145 @@ function FileSelectionModal({ isOpen, onClose, torrentInfo, onSelect, loading }:
   )
 }
 
+// Export Links Modal
+interface TorrentExport {
+  torrent: TorrentItem
+  links: UnrestrictedLink[]
+  // Links the API refused to unrestrict
+  failed: number
+}
+
+interface ExportLinksModalProps {
+  torrentExport: TorrentExport | null
+  onClose: () => void
+}
+
+function ExportLinksModal({ torrentExport, onClose }: ExportLinksModalProps) {
+  if (!torrentExport) return null
+  const { torrent, links, failed } = torrentExport
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <div className="relative w-full max-w-sm mx-4 bg-white dark:bg-neutral-900 rounded-xl shadow-xl border border-neutral-200 dark:border-neutral-800">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+              Export {links.length} {links.length === 1 ? "Link" : "Links"}
+            </h3>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-0.5 truncate">
+              {torrent.filename}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        {failed > 0 && (
+          <p className="px-4 py-2 text-xs text-amber-600 dark:text-amber-400 border-b border-neutral-100 dark:border-neutral-800">
+            {failed} {failed === 1 ? "link" : "links"} couldn't be unrestricted and {failed === 1 ? "is" : "are"} left out
+          </p>
+        )}
+        <div className="py-1">
+          <LinkExportPanel links={links} baseName={torrent.filename} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const PAGE_SIZE = 100
+
+const SORT_LABELS: Record<TorrentSortKey, string> = {
+  added: "Date added",
+  size: "Size",
+  progress: "Progress",
+  speed: "Speed",
+  seeders: "Seeders"
+}
+
+const BULK_ACTIONS: { action: BulkTorrentAction; label: string; icon: typeof Download }[] = [
+  { action: "select_files", label: "Select files", icon: FolderOpen },
+  { action: "unrestrict", label: "Download", icon: Download },
+  { action: "copy_links", label: "Copy links", icon: Link },
+  { action: "export_magnets", label: "Export magnets", icon: FileDown },
+  { action: "delete", label: "Delete", icon: Trash2 }
+]
+
 export function TorrentsSection() {
-  const [torrents, setTorrents] = useState<TorrentItem[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [filter, setFilter] = useState<FilterType>("all")
+  const [actionError, setActionError] = useState<ErrorDetails | null>(null)
+  // Filter and sort live in the URL hash so views can be bookmarked
+  const [hashParams, setHashParams] = useHashParams("torrents")
+  const query = parseTorrentQuery(hashParams)
+  const filter = query.status
+  const parsedSearch = useMemo(() => parseTorrentSearch(query.search), [query.search])
   const [showAddModal, setShowAddModal] = useState(false)
   const [showFileModal, setShowFileModal] = useState(false)
   const [selectedTorrentInfo, setSelectedTorrentInfo] = useState<TorrentInfo | null>(null)
   const [fileModalLoading, setFileModalLoading] = useState(false)
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [torrentExport, setTorrentExport] = useState<TorrentExport | null>(null)
+  const [playlist, setPlaylist] = useState<{ source: { links: string[] }; title: string } | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [bulkJob, setBulkJob] = useState<Job | null>(null)
+  // Select all waits for every page, so bulk actions don't miss unloaded rows
+  const [selectingAll, setSelectingAll] = useState(false)
+  // Anchor for shift-click range selection
+  const lastSelectedIdRef = useRef<string | null>(null)
+  const { completionAction } = usePreferences()
+  const [completionOverrides] = useStorage<Record<string, CompletionSetting>>({
+    key: STORAGE_KEYS.COMPLETION_OVERRIDES,
+    instance: cacheStorage
+  })
 
-  const fetchTorrents = useCallback(async () => {
-    setLoading(true)
-    setError(null)
-
-    const response = await messages.listTorrents()
+  const loadPage = useCallback(
+    (page: number, signal: AbortSignal) =>
+      messages.listTorrentsPage({ page, limit: PAGE_SIZE }, { signal }),
+    []
+  )
+  const {
+    items: torrents,
+    totalCount,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    loadMoreError,
+    reload: fetchTorrents,
+    loadMore,
+    setItems: setTorrents
+  } = usePagedList(loadPage, "Failed to load torrents")
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loadingMore && !loadMoreError)
 
-    if (response.success && response.data) {
-      setTorrents(response.data)
-    } else {
-      setError(response.error ?? "Failed to load torrents")
+  // Progress and status changes from the background poll, instead of refetching
+  useLiveEvents(["torrents"], (event) => {
+    if (event.type === "TORRENTS_DELTA") {
+      setTorrents((items) => applyTorrentsDelta(items, event))
     }
-
-    setLoading(false)
-  }, [])
-
-  useEffect(() => {
-    fetchTorrents()
-  }, [fetchTorrents])
+  })
 
   const handleAddMagnet = async (magnet: string) => {
+    setActionError(null)
     const response = await messages.addMagnet(magnet)
     if (response.success) {
       fetchTorrents()
+    } else {
+      setActionError(describeError(response, "Failed to add magnet"))
     }
   }
 
   const handleFileUpload = async (file: File) => {
     const buffer = await file.arrayBuffer()
+    setActionError(null)
     const response = await sendMessage({ type: "ADD_TORRENT", payload: { fileData: buffer } })
     if (response.success) {
       fetchTorrents()
+    } else {
+      setActionError(describeError(response, "Failed to add torrent"))
     }
   }
 
@@ -357,6 +514,9 @@ export function TorrentsSection() {
     const response = await messages.getTorrentInfo(torrent.id)
     if (response.success && response.data) {
       setSelectedTorrentInfo(response.data)
+    } else {
+      setShowFileModal(false)
+      setActionError(describeError(response, "Failed to load torrent files"))
     }
     setFileModalLoading(false)
   }
@@ -371,6 +531,9 @@ export function TorrentsSection() {
       setShowFileModal(false)
       setSelectedTorrentInfo(null)
       fetchTorrents()
+    } else {
+      setShowFileModal(false)
+      setActionError(describeError(response, "Failed to select files"))
     }
     setFileModalLoading(false)
   }
@@ -378,13 +541,14 @@ export function TorrentsSection() {
   const handleUnrestrict = async (torrent: TorrentItem) => {
     if (torrent.links.length === 0) return
     setActionLoading(torrent.id)
+    setActionError(null)
 
-    for (const link of torrent.links) {
-      const response = await messages.unrestrictLink(link)
-      if (response.success && response.data) {
-        // Trigger download
-        window.open(response.data.download, "_blank")
-      }
+    // Links are unrestricted as the queue reaches them
+    const response = await messages.queueDownloads(
+      torrent.links.map((link) => ({ link, torrent: torrent.filename, torrentId: torrent.id }))
+    )
+    if (!response.success) {
+      setActionError(describeError(response, "Failed to queue downloads"))
     }
 
     setActionLoading(null)
@@ -394,9 +558,12 @@ export function TorrentsSection() {
     if (!confirm("Are you sure you want to delete this torrent?")) return
 
     setActionLoading(torrentId)
+    setActionError(null)
     const response = await messages.deleteTorrent(torrentId)
     if (response.success) {
-      fetchTorrents()
+      setTorrents((items) => items.filter((t) => t.id !== torrentId))
+    } else {
+      setActionError(describeError(response, "Failed to delete torrent"))
     }
     setActionLoading(null)
   }
@@ -423,6 +590,8 @@ export function TorrentsSection() {
         }
         setCopiedId(torrent.id)
         setTimeout(() => setCopiedId(null), 2000)
+      } else {
+        setActionError(describeError(response, "Failed to unrestrict link"))
       }
     } catch (err) {
       console.error("Failed to copy link:", err)
@@ -431,16 +600,153 @@ export function TorrentsSection() {
     }
   }
 
-  const filteredTorrents = torrents.filter((torrent) => {
-    if (filter === "all") return true
-    return getFilterForStatus(torrent.status) === filter
-  })
+  // Unrestrict every file of the torrent, then offer the export formats
+  const handleExportLinks = async (torrent: TorrentItem) => {
+    if (torrent.links.length === 0) return
 
+    setActionLoading(torrent.id)
+    try {
+      const links: UnrestrictedLink[] = []
+      const failures: Awaited<ReturnType<typeof messages.unrestrictLink>>[] = []
+      for (const link of torrent.links) {
+        const response = await messages.unrestrictLink(link)
+        if (response.success && response.data) {
+          links.push(response.data)
+        } else {
+          failures.push(response)
+        }
+      }
+      if (links.length > 0) {
+        setTorrentExport({ torrent, links, failed: failures.length })
+      } else {
+        setActionError(describeError(failures[0], "Failed to unrestrict link"))
+      }
+    } catch (err) {
+      console.error("Failed to export links:", err)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const updateQuery = (changes: Partial<TorrentQuery>) => {
+    setHashParams(serializeTorrentQuery({ ...query, ...changes }))
+  }
+
+  // The API can't search, filter or sort, so those run here over every page
+  const now = Date.now()
+  const searchedTorrents = torrents.filter((t) => matchesTorrentQuery(t, "all", parsedSearch, now))
+  const filteredTorrents = sortTorrents(
+    searchedTorrents.filter((t) => filter === "all" || getStatusGroup(t.status) === filter),
+    query.sort,
+    query.direction
+  )
+  const isSearching = parsedSearch.terms.length > 0 || parsedSearch.conditions.length > 0
+  const isDefaultView =
+    filter === DEFAULT_TORRENT_QUERY.status &&
+    !isSearching &&
+    query.sort === DEFAULT_TORRENT_QUERY.sort &&
+    query.direction === DEFAULT_TORRENT_QUERY.direction
+  // The default view is the API's own order, so pages can load as they scroll in
+  const needsAllPages = !isDefaultView || selectingAll
+
+  useEffect(() => {
+    if (needsAllPages && hasMore && !loading && !loadingMore && !loadMoreError) loadMore()
+  }, [needsAllPages, hasMore, loading, loadingMore, loadMoreError, loadMore])
+
+  // Torrents deleted elsewhere drop out of the selection with the list
+  const selectedTorrents = torrents.filter((t) => selectedIds.has(t.id))
+  const allFilteredSelected =
+    filteredTorrents.length > 0 && filteredTorrents.every((t) => selectedIds.has(t.id))
+
+  const clearSelection = () => {
+    setSelectedIds(new Set())
+    setSelectingAll(false)
+    lastSelectedIdRef.current = null
+  }
+
+  const handleFilterChange = (next: TorrentStatusGroup) => {
+    updateQuery({ status: next })
+    clearSelection()
+  }
+
+  const handleSearchChange = (search: string) => {
+    updateQuery({ search })
+    clearSelection()
+  }
+
+  const handleRemoveSearchToken = (index: number) => {
+    handleSearchChange(removeSearchToken(query.search, index))
+  }
+
+  const handleToggleSelect = (torrentId: string, shiftKey: boolean) => {
+    const selecting = !selectedIds.has(torrentId)
+    const next = new Set(selectedIds)
+    const anchorIndex = filteredTorrents.findIndex((t) => t.id === lastSelectedIdRef.current)
+    const index = filteredTorrents.findIndex((t) => t.id === torrentId)
+
+    if (shiftKey && anchorIndex !== -1 && index !== -1) {
+      // Apply the clicked row's new state to every row between it and the anchor
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+      for (const torrent of filteredTorrents.slice(from, to + 1)) {
+        if (selecting) next.add(torrent.id)
+        else next.delete(torrent.id)
+      }
+    } else if (selecting) {
+      next.add(torrentId)
+    } else {
+      next.delete(torrentId)
+    }
+
+    lastSelectedIdRef.current = torrentId
+    setSelectedIds(next)
+  }
+
+  const handleToggleSelectAll = () => {
+    if (allFilteredSelected || selectingAll) {
+      clearSelection()
+    } else if (hasMore) {
+      setSelectingAll(true)
+    } else {
+      setSelectedIds(new Set(filteredTorrents.map((t) => t.id)))
+      lastSelectedIdRef.current = null
+    }
+  }
+
+  // Finish a select all once the last page is in
+  useEffect(() => {
+    if (!selectingAll) return
+    if (loadMoreError) {
+      // Selecting only some of "all" would be worse than selecting nothing
+      setSelectingAll(false)
+      setActionError(loadMoreError)
+    } else if (!hasMore) {
+      setSelectingAll(false)
+      setSelectedIds(new Set(filteredTorrents.map((t) => t.id)))
+      lastSelectedIdRef.current = null
+    }
+  }, [selectingAll, hasMore, loadMoreError, filteredTorrents])
+
+  const handleBulkAction = async (action: BulkTorrentAction) => {
+    const targets = selectedTorrents.map(({ id, filename, hash }) => ({ id, filename, hash }))
+    if (targets.length === 0) return
+    if (action === "delete" && !confirm(`Are you sure you want to delete ${targets.length} torrents?`)) return
+
+    setActionError(null)
+    const response = await messages.startBulkTorrentJob(action, targets)
+    if (response.success && response.data) {
+      setBulkJob(response.data)
+      if (action === "delete") setSelectedIds(new Set())
+    } else {
+      setActionError(describeError(response, "Failed to start bulk action"))
+    }
+  }
+
+  // Status counts only cover the pages loaded so far
   const filterCounts = {
-    all: torrents.length,
-    downloading: torrents.filter((t) => getFilterForStatus(t.status) === "downloading").length,
-    ready: torrents.filter((t) => getFilterForStatus(t.status) === "ready").length,
-    error: torrents.filter((t) => getFilterForStatus(t.status) === "error").length
+    all: isSearching ? searchedTorrents.length : totalCount,
+    downloading: searchedTorrents.filter((t) => getStatusGroup(t.status) === "downloading").length,
+    ready: searchedTorrents.filter((t) => getStatusGroup(t.status) === "ready").length,
+    error: searchedTorrents.filter((t) => getStatusGroup(t.status) === "error").length
   }
 
   return (
@@ -476,10 +782,10 @@ export function TorrentsSection() {
 
       {/* Filters */}
       <div className="flex gap-1 p-1 bg-neutral-100 dark:bg-neutral-800 rounded-lg w-fit">
-        {(["all", "downloading", "ready", "error"] as const).map((f) => (
+        {TORRENT_STATUS_GROUPS.map((f) => (
           <button
             key={f}
-            onClick={() => setFilter(f)}
+            onClick={() => handleFilterChange(f)}
             className={`
               px-3 py-1.5 rounded-md text-sm font-medium transition-colors
               ${filter === f
@@ -496,58 +802,206 @@ export function TorrentsSection() {
         ))}
       </div>
 
+      {/* Search and sort */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-400" />
+            <input
+              type="text"
+              value={query.search}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              placeholder="Search name or hash, e.g. size>10GB added<7d host:1fichier"
+              className="w-full pl-9 pr-8 py-2 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-colors"
+            />
+            {query.search && (
+              <button
+                onClick={() => handleSearchChange("")}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300"
+                title="Clear search"
+              >
+                <X size={14} />
+              </button>
+            )}
+          </div>
+          <select
+            value={query.sort}
+            onChange={(e) => updateQuery({ sort: e.target.value as TorrentSortKey })}
+            className="px-3 py-2 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-colors"
+          >
+            {TORRENT_SORT_KEYS.map((key) => (
+              <option key={key} value={key}>
+                {SORT_LABELS[key]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => updateQuery({ direction: query.direction === "asc" ? "desc" : "asc" })}
+            className="p-2 rounded-lg border border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            title={query.direction === "asc" ? "Ascending" : "Descending"}
+          >
+            {query.direction === "asc" ? <ArrowUp size={16} /> : <ArrowDown size={16} />}
+          </button>
+        </div>
+
+        {(parsedSearch.conditions.length > 0 || parsedSearch.invalid.length > 0) && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            {parsedSearch.conditions.map((condition) => (
+              <span
+                key={condition.index}
+                className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md text-xs font-medium bg-primary/10 text-neutral-700 dark:text-neutral-300"
+              >
+                {describeCondition(condition)}
+                <button
+                  onClick={() => handleRemoveSearchToken(condition.index)}
+                  className="p-0.5 rounded text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300"
+                  title="Remove filter"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+            {parsedSearch.invalid.map((token, index) => (
+              <span
+                key={`${index}:${token}`}
+                className="inline-flex px-2 py-0.5 rounded-md text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+                title="Couldn't read this filter's value"
+              >
+                {token}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {needsAllPages && hasMore && (
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            {loadMoreError
+              ? `Showing results from the ${torrents.length} of ${totalCount} torrents loaded; the rest failed to load.`
+              : `Loading all torrents (${torrents.length} of ${totalCount}); results so far cover the loaded ones.`}
+          </p>
+        )}
+      </div>
+
+      {actionError && <ErrorNotice error={actionError} />}
+
+      {bulkJob && (
+        <BulkJobPanel key={bulkJob.id} job={bulkJob} onClose={() => setBulkJob(null)} />
+      )}
+
       {/* Content */}
       {loading ? (
         <div className="flex items-center justify-center h-64">
           <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
         </div>
       ) : error ? (
-        <div className="flex flex-col items-center justify-center h-64 text-center">
-          <div className="w-12 h-12 rounded-full bg-red-100 dark:bg-red-900/20 flex items-center justify-center mb-3">
-            <AlertCircle size={24} className="text-red-500" />
-          </div>
-          <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2">{error}</p>
-          <button
-            onClick={fetchTorrents}
-            className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
-          >
-            Try again
-          </button>
-        </div>
+        <ErrorNotice error={error} variant="page" onRetry={fetchTorrents} />
       ) : filteredTorrents.length === 0 ? (
         <div className="flex flex-col items-center justify-center h-64 text-center">
           <div className="w-12 h-12 rounded-full bg-neutral-100 dark:bg-neutral-800 flex items-center justify-center mb-3">
             <Upload size={24} className="text-neutral-400" />
           </div>
           <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2">
-            {filter === "all" ? "No torrents yet" : `No ${filter} torrents`}
+            {isSearching
+              ? "No torrents match your search"
+              : filter === "all" ? "No torrents yet" : `No ${filter} torrents`}
           </p>
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
-          >
-            Add your first torrent
-          </button>
+          {isSearching ? (
+            <button
+              onClick={() => handleSearchChange("")}
+              className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
+            >
+              Clear search
+            </button>
+          ) : (
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
+            >
+              Add your first torrent
+            </button>
+          )}
         </div>
       ) : (
         <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+          {/* Selection */}
+          <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-neutral-100 dark:border-neutral-800 bg-neutral-50 dark:bg-neutral-900">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allFilteredSelected || selectingAll}
+                onChange={handleToggleSelectAll}
+                className="w-4 h-4 rounded border-neutral-300 dark:border-neutral-600 text-primary focus:ring-primary"
+              />
+              <span className="text-xs font-medium text-neutral-600 dark:text-neutral-400">
+                {selectingAll
+                  ? `Loading all torrents to select (${torrents.length} of ${totalCount})…`
+                  : selectedTorrents.length > 0
+                  ? `${selectedTorrents.length} selected`
+                  : `Select all ${filter === "all" ? "" : `${filter} `}(${isDefaultView ? totalCount : filteredTorrents.length})`}
+              </span>
+            </label>
+            {selectedTorrents.length > 0 && (
+              <div className="flex items-center gap-1">
+                {BULK_ACTIONS.map(({ action, label, icon: Icon }) => (
+                  <button
+                    key={action}
+                    onClick={() => handleBulkAction(action)}
+                    disabled={bulkJob?.status === "running"}
+                    className={`inline-flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50 ${
+                      action === "delete"
+                        ? "text-neutral-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                        : "text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                    }`}
+                  >
+                    <Icon size={14} />
+                    {label}
+                  </button>
+                ))}
+                <button
+                  onClick={clearSelection}
+                  className="p-1 rounded-md text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                  title="Clear selection"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            )}
+          </div>
           <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
             {filteredTorrents.map((torrent) => (
               <TorrentRow
                 key={torrent.id}
                 torrent={torrent}
+                isSelected={selectedIds.has(torrent.id)}
+                defaultCompletion={completionAction}
+                completionOverride={completionOverrides?.[torrent.id]}
+                onCompletionChange={(setting) => storage.setCompletionOverride(torrent.id, setting)}
+                onToggleSelect={(shiftKey) => handleToggleSelect(torrent.id, shiftKey)}
                 onSelectFiles={() => handleSelectFiles(torrent)}
                 onUnrestrict={() => handleUnrestrict(torrent)}
                 onCopyLink={() => handleCopyLink(torrent)}
+                onExportLinks={() => handleExportLinks(torrent)}
+                onPlaylist={() => setPlaylist({ source: { links: torrent.links }, title: torrent.filename })}
                 onDelete={() => handleDelete(torrent.id)}
                 isLoading={actionLoading === torrent.id}
                 isCopied={copiedId === torrent.id}
               />
             ))}
           </div>
+          <ListFooter
+            shown={torrents.length}
+            total={totalCount}
+            hasMore={hasMore}
+            loadingMore={loadingMore}
+            error={loadMoreError}
+            onLoadMore={loadMore}
+            sentinelRef={sentinelRef}
+          />
         </div>
       )}
 
+      <CompletionHistory />
+
       {/* Modals */}
       <AddTorrentModal
         isOpen={showAddModal}
@@ -563,29 +1017,54 @@ export function TorrentsSection() {
         onSelect={handleFileSelection}
         loading={fileModalLoading}
       />
+
+      <ExportLinksModal torrentExport={torrentExport} onClose={() => setTorrentExport(null)} />
+
+      <PlaylistModal
+        source={playlist?.source ?? null}
+        title={playlist?.title ?? ""}
+        onClose={() => setPlaylist(null)}
+      />
     </div>
   )
 }
 
 interface TorrentRowProps {
   torrent: TorrentItem
+  isSelected: boolean
+  onToggleSelect: (shiftKey: boolean) => void
+  defaultCompletion: CompletionSetting
+  completionOverride?: CompletionSetting
+  onCompletionChange: (setting: CompletionSetting | null) => void
   onSelectFiles: () => void
   onUnrestrict: () => void
   onCopyLink: () => void
+  onExportLinks: () => void
+  onPlaylist: () => void
   onDelete: () => void
   isLoading: boolean
   isCopied: boolean
 }
 
-function TorrentRow({ torrent, onSelectFiles, onUnrestrict, onCopyLink, onDelete, isLoading, isCopied }: TorrentRowProps) {
+function TorrentRow({ torrent, isSelected, onToggleSelect, defaultCompletion, completionOverride, onCompletionChange, onSelectFiles, onUnrestrict, onCopyLink, onExportLinks, onPlaylist, onDelete, isLoading, isCopied }: TorrentRowProps) {
   const status = statusConfig[torrent.status]
   const showProgress = torrent.status === "downloading" && torrent.progress > 0
   const canSelectFiles = torrent.status === "waiting_files_selection"
   const canUnrestrict = torrent.status === "downloaded" && torrent.links.length > 0
+  // What happens on completion can be changed until the torrent finishes
+  const canChooseCompletion = isActiveTorrentStatus(torrent.status) || canSelectFiles
 
   return (
-    <div className="px-4 py-3 hover:bg-neutral-50 dark:hover:bg-neutral-800/50 transition-colors">
+    <div className={`px-4 py-3 transition-colors ${isSelected ? "bg-primary/5" : "hover:bg-neutral-50 dark:hover:bg-neutral-800/50"}`}>
       <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          // onClick rather than onChange to see whether shift was held
+          onClick={(e) => onToggleSelect(e.shiftKey)}
+          onChange={() => {}}
+          className="mt-0.5 w-4 h-4 rounded border-neutral-300 dark:border-neutral-600 text-primary focus:ring-primary flex-shrink-0 cursor-pointer"
+        />
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2 mb-1">
             <h3 className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate">
@@ -602,6 +1081,21 @@ function TorrentRow({ torrent, onSelectFiles, onUnrestrict, onCopyLink, onDelete
             {torrent.seeders !== undefined && (
               <span>{torrent.seeders} seeders</span>
             )}
+            {canChooseCompletion && (
+              <select
+                value={completionOverride ?? ""}
+                onChange={(e) => onCompletionChange((e.target.value || null) as CompletionSetting | null)}
+                className="ml-auto px-1 py-0.5 rounded text-xs bg-transparent text-neutral-500 dark:text-neutral-400 border border-transparent hover:border-neutral-200 dark:hover:border-neutral-700 focus:outline-none focus:ring-1 focus:ring-primary/50"
+                title="When this torrent completes"
+              >
+                <option value="">When done: default ({COMPLETION_SETTING_LABELS[defaultCompletion].toLowerCase()})</option>
+                {Object.entries(COMPLETION_SETTING_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    When done: {label.toLowerCase()}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
 
           {showProgress && (
@@ -643,6 +1137,29 @@ function TorrentRow({ torrent, onSelectFiles, onUnrestrict, onCopyLink, onDelete
               >
                 {isCopied ? <Check size={16} className="text-primary" /> : <Copy size={16} />}
               </button>
+              <button
+                onClick={onExportLinks}
+                disabled={isLoading}
+                className="p-1.5 rounded-md text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50"
+                title="Export Links"
+              >
+                <Share size={16} />
+              </button>
+              <button
+                onClick={onPlaylist}
+                disabled={isLoading}
+                className="p-1.5 rounded-md text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50"
+                title="Playlist"
+              >
+                <ListVideo size={16} />
+              </button>
+              {/* Links are unrestricted by the background as they're sent */}
+              <SendToAria2Button
+                getRequests={() =>
+                  torrent.links.map((link) => ({ link, torrent: torrent.filename, torrentId: torrent.id }))
+                }
+                disabled={isLoading}
+              />
               <button
                 onClick={onUnrestrict}
                 disabled={isLoading}
@@ -1,7 +1,9 @@
-import { AlertCircle, RefreshCw } from "lucide-react"
+import { RefreshCw } from "lucide-react"
 import { useState, useEffect, useCallback } from "react"
 import { messages } from "~lib/messaging"
+import { describeError, type ErrorDetails } from "~lib/api/errors"
 import type { TrafficInfo } from "~lib/api/traffic"
+import { ErrorNotice } from "~components/ErrorNotice"
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B"
@@ -20,7 +22,7 @@ function getUsagePercent(info: { left: number; bytes: number }): number {
 export function TrafficSection() {
   const [traffic, setTraffic] = useState<TrafficInfo | null>(null)
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<ErrorDetails | null>(null)
 
   const fetchTraffic = useCallback(async () => {
     setLoading(true)
@@ -31,7 +33,7 @@ export function TrafficSection() {
     if (response.success && response.data) {
       setTraffic(response.data)
     } else {
-      setError(response.error ?? "Failed to load traffic info")
+      setError(describeError(response, "Failed to load traffic info"))
     }
 
     setLoading(false)
@@ -75,18 +77,7 @@ export function TrafficSection() {
           <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
         </div>
       ) : error ? (
-        <div className="flex flex-col items-center justify-center h-64 text-center">
-          <div className="w-12 h-12 rounded-full bg-red-100 dark:bg-red-900/20 flex items-center justify-center mb-3">
-            <AlertCircle size={24} className="text-red-500" />
-          </div>
-          <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2">{error}</p>
-          <button
-            onClick={fetchTraffic}
-            className="text-sm font-medium text-primary hover:text-primary/80 transition-colors"
-          >
-            Try again
-          </button>
-        </div>
+        <ErrorNotice error={error} variant="page" onRetry={fetchTraffic} />
       ) : limitedHosts.length === 0 ? (
         <div className="flex flex-col items-center justify-center h-64 text-center">
           <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-3">
@@ -0,0 +1,325 @@
+import { ArrowDownToLine, FolderOpen, Pause, Play, RotateCw, Square, X } from "lucide-react"
+import { useState } from "react"
+
+import { ErrorNotice } from "~components/ErrorNotice"
+import { describeError, type ErrorDetails } from "~lib/api/errors"
+import { messages } from "~lib/messaging"
+import { DEFAULT_TORRENT_QUERY, serializeTorrentQuery } from "~lib/torrent-query"
+import {
+  canRetryTransfer,
+  describeTransferError,
+  isLinkExpired,
+  type Transfer,
+  type TransferControl
+} from "~lib/transfers"
+import { useLiveTransfers } from "~hooks/useLive"
+
+import { DownloadQueuePanel } from "./DownloadQueuePanel"
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B"
+  const k = 1024
+  const sizes = ["B", "KB", "MB", "GB", "TB"]
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+}
+
+function getBaseName(path: string): string {
+  return path.split(/[/\\]/).pop() || path
+}
+
+// Opens the torrent list searching for the transfer's torrent
+function getTorrentHash(torrent: string): string {
+  const params = serializeTorrentQuery({ ...DEFAULT_TORRENT_QUERY, search: `"${torrent.replace(/"/g, "")}"` })
+  return `#torrents?${params.toString()}`
+}
+
+function getStatus(transfer: Transfer): { label: string; color: string } {
+  if (transfer.state === "complete") {
+    return { label: "Complete", color: "bg-primary/20 text-primary" }
+  }
+  if (transfer.state === "in_progress") {
+    return transfer.paused
+      ? { label: "Paused", color: "bg-neutral-100 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400" }
+      : { label: "Downloading", color: "bg-accent/20 text-accent" }
+  }
+  if (isLinkExpired(transfer)) {
+    return { label: "Link expired", color: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400" }
+  }
+  return {
+    label: transfer.error ? describeTransferError(transfer.error) : "Failed",
+    color: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+  }
+}
+
+/**
+ * Files handed to the browser's download manager, with live progress
+ */
+export function TransfersSection() {
+  const { transfers, queue } = useLiveTransfers()
+  const [actionError, setActionError] = useState<ErrorDetails | null>(null)
+  const [actionLoading, setActionLoading] = useState<number | null>(null)
+  const [pauseLoading, setPauseLoading] = useState(false)
+
+  const active = transfers?.filter((t) => t.state === "in_progress") ?? []
+  const finishedIds = transfers?.filter((t) => t.state !== "in_progress").map((t) => t.downloadId) ?? []
+  const totalSpeed = active.reduce((sum, t) => sum + t.speed, 0)
+
+  const runAction = async (downloadId: number, action: () => ReturnType<typeof messages.retryTransfer>, fallback: string) => {
+    setActionLoading(downloadId)
+    setActionError(null)
+    const response = await action()
+    if (!response.success) setActionError(describeError(response, fallback))
+    setActionLoading(null)
+  }
+
+  const handleControl = (transfer: Transfer, control: TransferControl) =>
+    runAction(transfer.downloadId, () => messages.controlTransfer(transfer.downloadId, control), `Failed to ${control} download`)
+
+  const handleRetry = (transfer: Transfer) =>
+    runAction(transfer.downloadId, () => messages.retryTransfer(transfer.downloadId), "Failed to get a fresh link")
+
+  const handleTogglePaused = async () => {
+    setPauseLoading(true)
+    setActionError(null)
+    const response = await messages.setDownloadsPaused(!queue?.paused)
+    if (!response.success) setActionError(describeError(response, "Failed to pause downloads"))
+    setPauseLoading(false)
+  }
+
+  const handleRemove = (transfer: Transfer) =>
+    runAction(transfer.downloadId, () => messages.removeTransfers([transfer.downloadId]), "Failed to remove download")
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-neutral-900 dark:text-neutral-100 tracking-tight">
+            Transfers
+          </h1>
+          <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1">
+            Files saved to this computer through the browser
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {finishedIds.length > 0 && (
+            <button
+              onClick={() => messages.removeTransfers(finishedIds)}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            >
+              Clear finished
+            </button>
+          )}
+          {(active.length > 0 || !!queue?.items.length) && (
+            <button
+              onClick={handleTogglePaused}
+              disabled={pauseLoading}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors disabled:opacity-50"
+            >
+              {queue?.paused ? <Play size={16} /> : <Pause size={16} />}
+              {queue?.paused ? "Resume all" : "Pause all"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900">
+          <p className="text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wide mb-1">
+            Active
+          </p>
+          <p className="text-2xl font-semibold text-neutral-900 dark:text-neutral-100 tabular-nums">
+            {active.length}
+          </p>
+        </div>
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900">
+          <p className="text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wide mb-1">
+            Speed
+          </p>
+          <p className="text-2xl font-semibold text-neutral-900 dark:text-neutral-100 tabular-nums">
+            {formatBytes(totalSpeed)}/s
+          </p>
+        </div>
+      </div>
+
+      {actionError && <ErrorNotice error={actionError} />}
+
+      {queue && <DownloadQueuePanel queue={queue} />}
+
+      {/* Content */}
+      {transfers === null ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : transfers.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-center">
+          <div className="w-12 h-12 rounded-full bg-neutral-100 dark:bg-neutral-800 flex items-center justify-center mb-3">
+            <ArrowDownToLine size={24} className="text-neutral-400" />
+          </div>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            No transfers yet
+          </p>
+          <p className="text-xs text-neutral-500 dark:text-neutral-500 mt-1">
+            Files you download through the extension will appear here
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
+          <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+            {transfers.map((transfer) => (
+              <TransferRow
+                key={transfer.downloadId}
+                transfer={transfer}
+                onControl={(control) => handleControl(transfer, control)}
+                onRetry={() => handleRetry(transfer)}
+                onRemove={() => handleRemove(transfer)}
+                isLoading={actionLoading === transfer.downloadId}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface TransferRowProps {
+  transfer: Transfer
+  onControl: (control: TransferControl) => void
+  onRetry: () => void
+  onRemove: () => void
+  isLoading: boolean
+}
+
+function TransferRow({ transfer, onControl, onRetry, onRemove, isLoading }: TransferRowProps) {
+  const status = getStatus(transfer)
+  const { source } = transfer
+  const isActive = transfer.state === "in_progress"
+  const percent = transfer.totalBytes > 0 ? Math.min(100, (transfer.bytesReceived / transfer.totalBytes) * 100) : 0
+  const canResumeInterrupted = transfer.state === "interrupted" && transfer.canResume
+
+  return (
+    <div className="px-4 py-3 hover:bg-neutral-50 dark:hover:bg-neutral-800/50 transition-colors">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <h3 className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate" title={transfer.filename}>
+              {getBaseName(transfer.filename)}
+            </h3>
+            <span className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium flex-shrink-0 ${status.color}`}>
+              {status.label}
+            </span>
+          </div>
+
+          {isActive && (
+            <div className="h-1.5 rounded-full bg-neutral-100 dark:bg-neutral-800 overflow-hidden mb-1.5">
+              <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 text-xs text-neutral-500 dark:text-neutral-400">
+            <span className="font-mono tabular-nums">
+              {transfer.totalBytes > 0 && transfer.state !== "complete"
+                ? `${formatBytes(transfer.bytesReceived)} of ${formatBytes(transfer.totalBytes)}`
+                : formatBytes(transfer.bytesReceived)}
+            </span>
+            {isActive && !transfer.paused && (
+              <span className="font-mono tabular-nums">{formatBytes(transfer.speed)}/s</span>
+            )}
+            {isActive && !transfer.paused && transfer.eta !== null && (
+              <span className="tabular-nums">{formatEta(transfer.eta)} left</span>
+            )}
+            {source.torrent ? (
+              <a href={getTorrentHash(source.torrent)} className="truncate text-primary hover:underline" title="Show torrent">
+                {source.torrent}
+              </a>
+            ) : source.link ? (
+              <a
+                href={source.link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="truncate text-primary hover:underline"
+                title={source.link}
+              >
+                {source.host ?? "Source link"}
+              </a>
+            ) : null}
+            {transfer.attempts > 1 && <span>{transfer.attempts} attempts</span>}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {isActive && (
+            <button
+              onClick={() => onControl(transfer.paused ? "resume" : "pause")}
+              disabled={isLoading || (transfer.paused && !transfer.canResume)}
+              className="p-1.5 rounded-md text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50"
+              title={transfer.paused ? "Resume" : "Pause"}
+            >
+              {transfer.paused ? <Play size={16} /> : <Pause size={16} />}
+            </button>
+          )}
+          {isActive && (
+            <button
+              onClick={() => onControl("cancel")}
+              disabled={isLoading}
+              className="p-1.5 rounded-md text-neutral-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50"
+              title="Cancel"
+            >
+              <Square size={16} />
+            </button>
+          )}
+          {canResumeInterrupted && (
+            <button
+              onClick={() => onControl("resume")}
+              disabled={isLoading}
+              className="p-1.5 rounded-md text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50"
+              title="Resume"
+            >
+              <Play size={16} />
+            </button>
+          )}
+          {canRetryTransfer(transfer) && (
+            <button
+              onClick={onRetry}
+              disabled={isLoading}
+              className="inline-flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium text-primary hover:bg-primary/10 transition-colors disabled:opacity-50"
+              title="Unrestrict the link again and restart the download"
+            >
+              <RotateCw size={14} className={isLoading ? "animate-spin" : ""} />
+              Retry with fresh link
+            </button>
+          )}
+          {transfer.state === "complete" && (
+            <button
+              onClick={() => chrome.downloads.show(transfer.downloadId)}
+              className="p-1.5 rounded-md text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors"
+              title="Show in folder"
+            >
+              <FolderOpen size={16} />
+            </button>
+          )}
+          {!isActive && (
+            <button
+              onClick={onRemove}
+              disabled={isLoading}
+              className="p-1.5 rounded-md text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50"
+              title="Remove from list"
+            >
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,4 +2,5 @@ export { Sidebar, type Section } from "./Sidebar"
 export { AccountSection } from "./AccountSection"
 export { TorrentsSection } from "./TorrentsSection"
 export { DownloadsSection } from "./DownloadsSection"
+export { TransfersSection } from "./TransfersSection"
 export { SettingsSection } from "./SettingsSection"
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react"
+
+function readHashParams(): URLSearchParams {
+  const hash = window.location.hash.slice(1)
+  const queryStart = hash.indexOf("?")
+  return new URLSearchParams(queryStart === -1 ? "" : hash.slice(queryStart + 1))
+}
+
+/**
+ * Parameters kept in the URL hash after a dashboard section, e.g.
+ * `#torrents?q=ubuntu&sort=size`, so a view can be bookmarked
+ * Updates replace the history entry rather than adding one per keystroke.
+ */
+export function useHashParams(section: string) {
+  const [params, setParams] = useState(readHashParams)
+
+  // Edited or pasted URLs
+  useEffect(() => {
+    const handleHashChange = () => setParams(readHashParams())
+    window.addEventListener("hashchange", handleHashChange)
+    return () => window.removeEventListener("hashchange", handleHashChange)
+  }, [])
+
+  const updateParams = useCallback(
+    (next: URLSearchParams) => {
+      const query = next.toString()
+      window.history.replaceState(null, "", `#${section}${query ? `?${query}` : ""}`)
+      setParams(next)
+    },
+    [section]
+  )
+
+  return [params, updateParams] as const
+}
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from "react"
+
+import type { TorrentItem } from "~lib/api/torrents"
+import {
+  applyTorrentsDelta,
+  requestTorrentsRefresh,
+  subscribeLive,
+  type LiveEvent,
+  type LiveTopic
+} from "~lib/live"
+import type { DownloadQueueState } from "~lib/download-queue"
+import type { Transfer } from "~lib/transfers"
+
+/**
+ * Call onEvent for every live event on the given topics
+ * The handler may change between renders without resubscribing
+ */
+export function useLiveEvents(topics: LiveTopic[], onEvent: (event: LiveEvent) => void) {
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+  const topicsKey = topics.join(",")
+
+  useEffect(() => {
+    return subscribeLive(topicsKey.split(",") as LiveTopic[], (event) => onEventRef.current(event))
+  }, [topicsKey])
+}
+
+interface LiveTorrentsState {
+  torrents: TorrentItem[] | null
+  totalCount: number
+  updatedAt: number | null
+}
+
+/**
+ * Recent torrents for the active account, kept current by the background poll
+ * `torrents` is null until the first snapshot arrives
+ */
+export function useLiveTorrents() {
+  const [state, setState] = useState<LiveTorrentsState>({
+    torrents: null,
+    totalCount: 0,
+    updatedAt: null
+  })
+
+  useLiveEvents(["torrents"], (event) => {
+    if (event.type === "TORRENTS_SNAPSHOT") {
+      setState({ torrents: event.torrents, totalCount: event.totalCount, updatedAt: event.at })
+    } else if (event.type === "TORRENTS_DELTA") {
+      setState((prev) => ({
+        // A delta without a snapshot has nothing to apply to; the next
+        // snapshot (sent on subscribe) fills the list
+        torrents: prev.torrents ? applyTorrentsDelta(prev.torrents, event) : null,
+        totalCount: event.totalCount,
+        updatedAt: event.at
+      }))
+    }
+  })
+
+  return { ...state, refresh: requestTorrentsRefresh }
+}
+
+/**
+ * Files the extension handed to the browser's download manager, and the
+ * queue of files waiting for a slot
+ * Both are null until the background first sends them
+ */
+export function useLiveTransfers() {
+  const [transfers, setTransfers] = useState<Transfer[] | null>(null)
+  const [queue, setQueue] = useState<DownloadQueueState | null>(null)
+
+  useLiveEvents(["transfers"], (event) => {
+    if (event.type === "TRANSFERS_SNAPSHOT") setTransfers(event.transfers)
+    else if (event.type === "DOWNLOAD_QUEUE") setQueue(event.queue)
+  })
+
+  return { transfers, queue }
+}
+
+interface LiveAuthState {
+  accountIds: string[]
+  activeAccountId: string | null
+}
+
+/**
+ * Signed-in accounts and the active one, updated when an account is added,
+ * removed or switched to (token refreshes don't count)
+ * null until the background first sends them
+ */
+export function useLiveAuth(): LiveAuthState | null {
+  const [auth, setAuth] = useState<LiveAuthState | null>(null)
+
+  useLiveEvents(["auth"], (event) => {
+    if (event.type === "AUTH_CHANGED") {
+      setAuth({ accountIds: event.accountIds, activeAccountId: event.activeAccountId })
+    }
+  })
+
+  return auth
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { describeError, type ErrorDetails } from "~lib/api/errors"
+import type { Page } from "~lib/api/pagination"
+import { isCancelledResponse, type MessageResponse } from "~lib/messaging"
+
+export type PageLoader<T> = (
+  page: number,
+  signal: AbortSignal
+) => Promise<MessageResponse<Page<T>>>
+
+interface PagedListState<T> {
+  items: T[]
+  page: number
+  totalCount: number
+  hasMore: boolean
+}
+
+const INITIAL_STATE = { items: [], page: 0, totalCount: 0, hasMore: false }
+
+/**
+ * Load a list page by page, appending each page to the previous ones
+ * Pass a stable loader (useCallback); changing it starts over from page 1.
+ */
+export function usePagedList<T>(loadPage: PageLoader<T>, errorMessage: string) {
+  const [state, setState] = useState<PagedListState<T>>(INITIAL_STATE)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<ErrorDetails | null>(null)
+  const [loadMoreError, setLoadMoreError] = useState<ErrorDetails | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+  const loadingMoreRef = useRef(false)
+  const stateRef = useRef(state)
+  stateRef.current = state
+
+  const fetchPage = useCallback(
+    async (page: number) => {
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+
+      const response = await loadPage(page, controller.signal)
+      if (controller.signal.aborted || isCancelledResponse(response)) return null
+      return response
+    },
+    [loadPage]
+  )
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setLoadingMore(false)
+    setError(null)
+    setLoadMoreError(null)
+
+    const response = await fetchPage(1)
+    if (!response) return
+
+    if (response.success && response.data) {
+      const { items, page, totalCount, hasMore } = response.data
+      setState({ items, page, totalCount, hasMore })
+    } else {
+      setError(describeError(response, errorMessage))
+    }
+    setLoading(false)
+  }, [fetchPage, errorMessage])
+
+  const loadMore = useCallback(async () => {
+    const current = stateRef.current
+    if (!current.hasMore || loadingMoreRef.current) return
+
+    loadingMoreRef.current = true
+    setLoadingMore(true)
+    setLoadMoreError(null)
+
+    const response = await fetchPage(current.page + 1).finally(() => {
+      loadingMoreRef.current = false
+    })
+    if (!response) return
+
+    if (response.success && response.data) {
+      const { items, page, totalCount, hasMore } = response.data
+      setState((prev) => {
+        // Items can shift between pages while paging; skip ones already shown
+        const seen = new Set(prev.items.map(getKey))
+        return {
+          items: [...prev.items, ...items.filter((item) => !seen.has(getKey(item)))],
+          page,
+          totalCount,
+          hasMore
+        }
+      })
+    } else {
+      setLoadMoreError(describeError(response, errorMessage))
+    }
+    setLoadingMore(false)
+  }, [fetchPage, errorMessage])
+
+  useEffect(() => {
+    reload()
+    return () => controllerRef.current?.abort()
+  }, [reload])
+
+  // Local edits (e.g. after a delete) without refetching
+  const setItems = useCallback((update: (items: T[]) => T[]) => {
+    setState((prev) => {
+      const items = update(prev.items)
+      return { ...prev, items, totalCount: Math.max(0, prev.totalCount - (prev.items.length - items.length)) }
+    })
+  }, [])
+
+  return {
+    items: state.items,
+    totalCount: state.totalCount,
+    hasMore: state.hasMore,
+    loading,
+    loadingMore,
+    error,
+    loadMoreError,
+    reload,
+    loadMore,
+    setItems
+  }
+}
+
+function getKey(item: unknown): unknown {
+  return typeof item === "object" && item !== null && "id" in item ? item.id : item
+}
+
+/**
+ * Call onReach when the returned element scrolls into view
+ */
+export function useInfiniteScroll(onReach: () => void, enabled: boolean) {
+  const [node, setNode] = useState<Element | null>(null)
+  const onReachRef = useRef(onReach)
+  onReachRef.current = onReach
+
+  useEffect(() => {
+    if (!node || !enabled) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onReachRef.current()
+      },
+      { rootMargin: "200px" }
+    )
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [node, enabled])
+
+  return setNode
+}
@@ -0,0 +1,19 @@
+import { useStorage } from "@plasmohq/storage/hook"
+
+import {
+  DEFAULT_PREFERENCES,
+  STORAGE_KEYS,
+  syncStorage,
+  type UserPreferences
+} from "~lib/storage"
+
+/**
+ * Current preferences merged with defaults, updating when they change
+ */
+export function usePreferences(): UserPreferences {
+  const [storedPreferences] = useStorage<UserPreferences>({
+    key: STORAGE_KEYS.PREFERENCES,
+    instance: syncStorage
+  })
+  return { ...DEFAULT_PREFERENCES, ...storedPreferences }
+}
@@ -0,0 +1,54 @@
+import { useStorage } from "@plasmohq/storage/hook"
+import { useCallback, useEffect, useState } from "react"
+
+import { messages } from "~lib/messaging"
+import { authStorage, cacheStorage, STORAGE_KEYS } from "~lib/storage"
+import type { StreamingStatus, StreamingSupport } from "~lib/streaming-support"
+
+export interface StreamingSupportState {
+  // Undefined until the first check answers
+  status: StreamingStatus | undefined
+  checking: boolean
+  // Probe again, ignoring the cached result
+  recheck: () => void
+}
+
+/**
+ * The active account's streaming support, probed once and then read from the
+ * cache; updates when the player or a recheck learns something new
+ * Use once per view and pass the state down, so lists don't probe per row.
+ */
+export function useStreamingSupport(): StreamingSupportState {
+  const [activeAccountId] = useStorage<string>({
+    key: STORAGE_KEYS.ACTIVE_ACCOUNT_ID,
+    instance: authStorage
+  })
+  const [cached] = useStorage<Record<string, StreamingSupport>>({
+    key: STORAGE_KEYS.STREAMING_SUPPORT,
+    instance: cacheStorage
+  })
+  // Answers that aren't cached, i.e. "unknown" when the probe couldn't get through
+  const [probed, setProbed] = useState<StreamingSupport | null>(null)
+  const [checking, setChecking] = useState(false)
+
+  const check = useCallback(async (refresh: boolean) => {
+    setChecking(true)
+    const response = await messages.getStreamingSupport(refresh)
+    setProbed(response.success && response.data ? response.data : null)
+    setChecking(false)
+  }, [])
+
+  // The background answers from its cache while the result is fresh
+  useEffect(() => {
+    if (!activeAccountId) return
+    setProbed(null)
+    check(false)
+  }, [activeAccountId, check])
+
+  const recheck = useCallback(() => {
+    check(true)
+  }, [check])
+
+  const support = (activeAccountId && cached?.[activeAccountId]) || probed
+  return { status: support?.status, checking, recheck }
+}
@@ -1,36 +1,164 @@
 /**
  * Real-Debrid API Client
- * Base URL: https://api.real-debrid.com/rest/1.0
+ * Base URL: https://api.real-debrid.com/rest/1.0 (configurable)
  * Rate limit: 250 requests/minute
+ * Transient failures (429, uncoded 5xx, network) are retried with jittered backoff
  */
 
-const BASE_URL = "https://api.real-debrid.com/rest/1.0";
+import { getErrorEntry } from "./errors";
+import {
+  createRateLimiter,
+  type RateLimiter,
+  type RateLimitStatus,
+  type RequestPriority,
+} from "./rate-limiter";
+import { REQUEST_CANCELLED_STATUS, REQUEST_TIMEOUT_STATUS } from "./status";
 
-// Rate limit tracking
-const RATE_LIMIT = 250;
-const RATE_WINDOW_MS = 60_000;
-let requestTimestamps: number[] = [];
+/**
+ * Performs an HTTP request; fetch-compatible so tests can swap in a stand-in server
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Endpoint and transport configuration shared by the API and OAuth modules
+ */
+export interface ClientConfig {
+  baseUrl: string;
+  oauthBaseUrl: string;
+  transport: Transport;
+  // Shared budget for every API request; the background swaps in a persisted one
+  rateLimiter: RateLimiter;
+}
+
+export const RATE_LIMIT = 250;
+export const RATE_WINDOW_MS = 60_000;
+
+export const DEFAULT_CLIENT_CONFIG: ClientConfig = {
+  baseUrl: "https://api.real-debrid.com/rest/1.0",
+  oauthBaseUrl: "https://api.real-debrid.com/oauth/v2",
+  // Resolve fetch at call time so it is never invoked unbound
+  transport: (url, init) => fetch(url, init),
+  rateLimiter: createRateLimiter({ limit: RATE_LIMIT, windowMs: RATE_WINDOW_MS }),
+};
+
+let clientConfig: ClientConfig = { ...DEFAULT_CLIENT_CONFIG };
+
+/**
+ * Update the client configuration (partial update)
+ */
+export function configureClient(updates: Partial<ClientConfig>): ClientConfig {
+  clientConfig = { ...clientConfig, ...updates };
+  return { ...clientConfig };
+}
+
+/**
+ * Get the current client configuration
+ */
+export function getClientConfig(): ClientConfig {
+  return { ...clientConfig };
+}
+
+/**
+ * Restore the default endpoints and transport
+ */
+export function resetClientConfig(): void {
+  clientConfig = { ...DEFAULT_CLIENT_CONFIG };
+}
 
 export interface ApiError {
   error: string;
   error_code?: number;
 }
 
+/**
+ * A failed attempt that was retried
+ */
+export interface RetryAttempt {
+  attempt: number;
+  status: number; // 0 for network failures
+  error: string;
+  delayMs: number;
+}
+
 export class RealDebridApiError extends Error {
   public readonly code?: number;
   public readonly status: number;
+  public readonly retryAfterMs?: number;
+  public readonly attempts: number;
+  public readonly retries: RetryAttempt[];
 
-  constructor(message: string, status: number, code?: number) {
+  constructor(
+    message: string,
+    status: number,
+    code?: number,
+    details?: { retryAfterMs?: number; retries?: RetryAttempt[] }
+  ) {
     super(message);
     this.name = "RealDebridApiError";
     this.status = status;
     this.code = code;
+    this.retryAfterMs = details?.retryAfterMs;
+    this.retries = details?.retries ?? [];
+    this.attempts = this.retries.length + 1;
   }
 }
 
 export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
 
-interface RequestOptions<T = unknown> {
+export const DEFAULT_TIMEOUT_MS = 15_000;
+
+/**
+ * Per-attempt timeouts by path prefix; the first match wins
+ */
+const ENDPOINT_TIMEOUTS: [prefix: string, timeoutMs: number][] = [
+  // Uploads
+  ["/torrents/addTorrent", 60_000],
+  ["/unrestrict/containerFile", 60_000],
+  // Real-Debrid contacts the hoster before answering
+  ["/unrestrict/", 45_000],
+  ["/torrents/addMagnet", 30_000],
+  ["/streaming/", 30_000],
+];
+
+/**
+ * Retry policy for transient failures (429, 5xx, network errors)
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Longest Retry-After we are willing to wait before giving up
+  maxRetryAfterMs: number;
+  // Methods retried by default; others must opt in per request
+  methods: HttpMethod[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  maxRetryAfterMs: 60_000,
+  methods: ["GET", "DELETE"],
+};
+
+let retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+/**
+ * Per-call options accepted by the verb helpers
+ * retry: true opts a non-idempotent method in, false disables retries,
+ * an object overrides parts of the policy for this call
+ * priority: rate limiter lane, "interactive" unless stated otherwise
+ * signal: aborts the request, including rate limit waits and retries
+ * timeoutMs: per-attempt timeout, defaults to the endpoint's entry in ENDPOINT_TIMEOUTS
+ */
+export interface CallOptions {
+  retry?: boolean | Partial<RetryPolicy>;
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+interface RequestOptions<T = unknown> extends CallOptions {
   method: HttpMethod;
   path: string;
   body?: T;
@@ -39,62 +167,189 @@ interface RequestOptions<T = unknown> {
 }
 
 /**
- * Check if we're approaching the rate limit
+ * Update the default retry policy (partial update)
  */
-export function getRateLimitStatus(): {
-  remaining: number;
-  resetInMs: number;
-} {
-  const now = Date.now();
-  // Clean up old timestamps
-  requestTimestamps = requestTimestamps.filter(
-    (ts) => now - ts < RATE_WINDOW_MS
-  );
+export function configureRetryPolicy(
+  updates: Partial<RetryPolicy>
+): RetryPolicy {
+  retryPolicy = { ...retryPolicy, ...updates };
+  return { ...retryPolicy };
+}
 
-  const oldestTimestamp = requestTimestamps[0];
-  const resetInMs = oldestTimestamp
-    ? RATE_WINDOW_MS - (now - oldestTimestamp)
-    : 0;
+/**
+ * Resolve the effective retry policy for a request, or null if it
+ * must not be retried
+ */
+function resolveRetryPolicy(
+  method: HttpMethod,
+  retry: CallOptions["retry"]
+): RetryPolicy | null {
+  if (retry === false) return null;
+  if (retry === undefined && !retryPolicy.methods.includes(method)) {
+    return null;
+  }
+  return typeof retry === "object" ? { ...retryPolicy, ...retry } : retryPolicy;
+}
 
-  return {
-    remaining: RATE_LIMIT - requestTimestamps.length,
-    resetInMs: Math.max(0, resetInMs),
-  };
+/**
+ * Only rate limiting, server errors, timeouts and network failures are transient
+ * A 5xx carrying an error_code is Real-Debrid's answer about the request
+ * (hoster_unavailable, traffic_exhausted...) and won't change on a retry;
+ * only codes the catalogue files as retryable server trouble are retried.
+ */
+function isRetryableError(err: RealDebridApiError): boolean {
+  const { status, code } = err;
+  if (status === 0 || status === REQUEST_TIMEOUT_STATUS || status === 429) return true;
+  if (status < 500 || status === REQUEST_CANCELLED_STATUS) return false;
+  if (code === undefined) return true;
+  const entry = getErrorEntry(code);
+  return entry !== null && entry.retryable && entry.category === "server";
 }
 
 /**
- * Track a request for rate limiting
+ * Default timeout for a request path
  */
-function trackRequest(): void {
-  const now = Date.now();
-  requestTimestamps = requestTimestamps.filter(
-    (ts) => now - ts < RATE_WINDOW_MS
-  );
-  requestTimestamps.push(now);
+export function getDefaultTimeout(path: string): number {
+  const match = ENDPOINT_TIMEOUTS.find(([prefix]) => path.startsWith(prefix));
+  return match ? match[1] : DEFAULT_TIMEOUT_MS;
+}
+
+function cancelledError(): RealDebridApiError {
+  return new RealDebridApiError("Request cancelled", REQUEST_CANCELLED_STATUS);
 }
 
 /**
- * Wait if we're at the rate limit
+ * Sleep that ends early with a cancellation error when the signal aborts
  */
-async function waitForRateLimit(): Promise<void> {
-  const { remaining, resetInMs } = getRateLimitStatus();
-  if (remaining <= 0) {
-    await new Promise((resolve) => setTimeout(resolve, resetInMs + 100));
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
   }
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, attempt - 1)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Get the current rate limit budget
+ */
+export function getRateLimitStatus(): RateLimitStatus {
+  return clientConfig.rateLimiter.getStatus();
+}
+
+/**
+ * Parsed body together with the response metadata
+ */
+export interface ApiResponse<T> {
+  data: T;
+  status: number;
+  headers: Headers;
 }
 
 /**
  * Generic API request function
+ * Transient failures are retried according to the retry policy
  */
 export async function request<TResponse, TBody = unknown>(
   options: RequestOptions<TBody>
 ): Promise<TResponse> {
-  const { method, path, body, token, skipAuth = false } = options;
+  const response = await requestWithResponse<TResponse, TBody>(options);
+  return response.data;
+}
+
+/**
+ * Like request(), but also returns the status and headers
+ * (e.g. X-Total-Count on list endpoints)
+ */
+export async function requestWithResponse<TResponse, TBody = unknown>(
+  options: RequestOptions<TBody>
+): Promise<ApiResponse<TResponse>> {
+  const policy = resolveRetryPolicy(options.method, options.retry);
+  const retries: RetryAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendRequest<TResponse, TBody>(options);
+    } catch (err) {
+      if (!(err instanceof RealDebridApiError)) throw err;
 
-  // Rate limit check
-  await waitForRateLimit();
+      const canRetry =
+        policy !== null &&
+        attempt <= policy.maxRetries &&
+        isRetryableError(err) &&
+        (err.retryAfterMs === undefined ||
+          err.retryAfterMs <= policy.maxRetryAfterMs);
+
+      if (!canRetry) {
+        if (retries.length === 0) throw err;
+        throw new RealDebridApiError(err.message, err.status, err.code, {
+          retryAfterMs: err.retryAfterMs,
+          retries,
+        });
+      }
 
-  const url = `${BASE_URL}${path}`;
+      const delayMs = err.retryAfterMs ?? getBackoffDelay(attempt, policy);
+      retries.push({
+        attempt,
+        status: err.status,
+        error: err.message,
+        delayMs,
+      });
+      await delay(delayMs, options.signal);
+    }
+  }
+}
+
+/**
+ * Perform a single HTTP request against the API
+ * The attempt is aborted when the caller's signal fires or the timeout elapses
+ */
+async function sendRequest<TResponse, TBody = unknown>(
+  options: RequestOptions<TBody>
+): Promise<ApiResponse<TResponse>> {
+  const { method, path, body, token, skipAuth = false, priority, signal } = options;
+
+  if (signal?.aborted) throw cancelledError();
+
+  const url = `${clientConfig.baseUrl}${path}`;
   const headers: Record<string, string> = {};
 
   if (!skipAuth) {
@@ -127,11 +382,53 @@ export async function request<TResponse, TBody = unknown>(
     }
   }
 
-  // Track request for rate limiting
-  trackRequest();
+  // Wait for a slot in this request's lane
+  try {
+    await clientConfig.rateLimiter.acquire(priority, signal);
+  } catch {
+    throw cancelledError();
+  }
 
-  const response = await fetch(url, fetchOptions);
+  const timeoutMs = options.timeoutMs ?? getDefaultTimeout(path);
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
 
+  try {
+    const response = await clientConfig.transport(url, {
+      ...fetchOptions,
+      signal: controller.signal,
+    });
+    return {
+      data: await readResponse<TResponse>(response),
+      status: response.status,
+      headers: response.headers,
+    };
+  } catch (err) {
+    if (err instanceof RealDebridApiError) throw err;
+    if (signal?.aborted) throw cancelledError();
+    if (controller.signal.aborted) {
+      throw new RealDebridApiError(
+        `Request timed out after ${Math.ceil(timeoutMs / 1000)}s`,
+        REQUEST_TIMEOUT_STATUS
+      );
+    }
+    // Network failure (offline, DNS, connection reset)
+    throw new RealDebridApiError(
+      err instanceof Error ? `Network error: ${err.message}` : "Network error",
+      0
+    );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Parse a response body, throwing RealDebridApiError for error statuses
+ */
+async function readResponse<TResponse>(response: Response): Promise<TResponse> {
   // Handle empty responses (204 No Content, etc.)
   const contentType = response.headers.get("content-type");
   const hasJson = contentType?.includes("application/json");
@@ -146,17 +443,22 @@ export async function request<TResponse, TBody = unknown>(
       );
     }
 
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+
     if (hasJson) {
       const errorData: ApiError = await response.json();
       throw new RealDebridApiError(
         errorData.error || "Unknown API error",
         response.status,
-        errorData.error_code
+        errorData.error_code,
+        { retryAfterMs }
       );
     }
     throw new RealDebridApiError(
       `HTTP ${response.status}: ${response.statusText}`,
-      response.status
+      response.status,
+      undefined,
+      { retryAfterMs }
     );
   }
 
@@ -165,7 +467,7 @@ export async function request<TResponse, TBody = unknown>(
     return {} as TResponse;
   }
 
-  return response.json() as Promise<TResponse>;
+  return (await response.json()) as TResponse;
 }
 
 /**
@@ -174,30 +476,45 @@ export async function request<TResponse, TBody = unknown>(
 export function get<TResponse>(
   path: string,
   token?: string,
-  skipAuth?: boolean
+  skipAuth?: boolean,
+  options?: CallOptions
 ): Promise<TResponse> {
-  return request<TResponse>({ method: "GET", path, token, skipAuth });
+  return request<TResponse>({ ...options, method: "GET", path, token, skipAuth });
+}
+
+/**
+ * GET that also returns response headers, for paginated list endpoints
+ */
+export function getWithResponse<TResponse>(
+  path: string,
+  token?: string,
+  options?: CallOptions
+): Promise<ApiResponse<TResponse>> {
+  return requestWithResponse<TResponse>({ ...options, method: "GET", path, token });
 }
 
 export function post<TResponse, TBody = unknown>(
   path: string,
   body?: TBody,
-  token?: string
+  token?: string,
+  options?: CallOptions
 ): Promise<TResponse> {
-  return request<TResponse, TBody>({ method: "POST", path, body, token });
+  return request<TResponse, TBody>({ ...options, method: "POST", path, body, token });
 }
 
 export function put<TResponse, TBody = unknown>(
   path: string,
   body?: TBody,
-  token?: string
+  token?: string,
+  options?: CallOptions
 ): Promise<TResponse> {
-  return request<TResponse, TBody>({ method: "PUT", path, body, token });
+  return request<TResponse, TBody>({ ...options, method: "PUT", path, body, token });
 }
 
 export function del<TResponse>(
   path: string,
-  token?: string
+  token?: string,
+  options?: CallOptions
 ): Promise<TResponse> {
-  return request<TResponse>({ method: "DELETE", path, token });
+  return request<TResponse>({ ...options, method: "DELETE", path, token });
 }
@@ -2,7 +2,16 @@
  * Real-Debrid Downloads API endpoints
  */
 
-import { del, get } from "./client";
+import { del, get, getWithResponse, type CallOptions } from "./client";
+import {
+  DEFAULT_PAGE_SIZE,
+  fetchPage,
+  iterateItems,
+  paginate,
+  type Page,
+  type PageFetcher,
+  type PaginateOptions,
+} from "./pagination";
 
 /**
  * Download history item
@@ -37,12 +46,21 @@ export interface DownloadsPaginationParams {
  *
  * @param token - API token
  * @param params - Pagination parameters
+ * @param options - Request options (priority, retries)
  * @returns Array of download items
  */
 export async function listDownloads(
   token: string,
-  params?: DownloadsPaginationParams
+  params?: DownloadsPaginationParams,
+  options?: CallOptions
 ): Promise<DownloadItem[]> {
+  return get<DownloadItem[]>(buildDownloadsPath(params), token, false, options);
+}
+
+/**
+ * Build the /downloads path with pagination query parameters
+ */
+function buildDownloadsPath(params?: DownloadsPaginationParams): string {
   const searchParams = new URLSearchParams();
 
   if (params?.offset !== undefined) {
@@ -56,9 +74,70 @@ export async function listDownloads(
   }
 
   const query = searchParams.toString();
-  const path = query ? `/downloads?${query}` : "/downloads";
+  return query ? `/downloads?${query}` : "/downloads";
+}
+
+/**
+ * Page fetcher for /downloads
+ */
+function downloadsFetcher(token: string): PageFetcher<DownloadItem> {
+  return ({ page, limit }, options) =>
+    getWithResponse<DownloadItem[]>(
+      buildDownloadsPath({ page, limit }),
+      token,
+      options
+    );
+}
+
+/**
+ * Fetch one page of download history with the total count
+ * GET /downloads
+ *
+ * @param token - API token
+ * @param params - 1-based page and page size
+ * @param options - Request options (priority, retries)
+ * @returns The page and whether more pages follow
+ */
+export async function listDownloadsPage(
+  token: string,
+  params: { page?: number; limit?: number } = {},
+  options?: CallOptions
+): Promise<Page<DownloadItem>> {
+  return fetchPage(
+    downloadsFetcher(token),
+    { page: params.page ?? 1, limit: params.limit ?? DEFAULT_PAGE_SIZE },
+    options
+  );
+}
 
-  return get<DownloadItem[]>(path, token);
+/**
+ * Walk all download history pages, newest first
+ *
+ * @param token - API token
+ * @param params - Page size, start page and item cap
+ * @param options - Request options (priority, retries)
+ */
+export function iterateDownloadPages(
+  token: string,
+  params: PaginateOptions = {},
+  options?: CallOptions
+): AsyncGenerator<Page<DownloadItem>, void, undefined> {
+  return paginate(downloadsFetcher(token), params, options);
+}
+
+/**
+ * Walk all downloads one by one across pages
+ *
+ * @param token - API token
+ * @param params - Page size, start page and item cap
+ * @param options - Request options (priority, retries)
+ */
+export function iterateDownloads(
+  token: string,
+  params: PaginateOptions = {},
+  options?: CallOptions
+): AsyncGenerator<DownloadItem, void, undefined> {
+  return iterateItems(downloadsFetcher(token), params, options);
 }
 
 /**
@@ -67,7 +146,12 @@ export async function listDownloads(
  *
  * @param token - API token
  * @param id - Download ID
+ * @param options - Request options (priority, retries)
  */
-export async function deleteDownload(token: string, id: string): Promise<void> {
-  await del<void>(`/downloads/delete/${id}`, token);
+export async function deleteDownload(
+  token: string,
+  id: string,
+  options?: CallOptions
+): Promise<void> {
+  await del<void>(`/downloads/delete/${id}`, token, options);
 }
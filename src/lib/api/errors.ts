@@ -0,0 +1,558 @@
+/**
+ * Real-Debrid error catalogue
+ * Maps documented error_code values to user-facing messages, a category,
+ * retryability and a suggested action so every view renders errors the same way
+ */
+
+import { RealDebridApiError } from "./client";
+import { REQUEST_CANCELLED_STATUS, REQUEST_TIMEOUT_STATUS } from "./status";
+
+/**
+ * Broad grouping of an error, used for icons and triage
+ */
+export type ErrorCategory =
+  | "auth"
+  | "account"
+  | "hoster"
+  | "file"
+  | "torrent"
+  | "limit"
+  | "network"
+  | "request"
+  | "server";
+
+/**
+ * What the user can do about an error
+ */
+export type ErrorAction =
+  | "sign_in"
+  | "retry"
+  | "wait"
+  | "check_link"
+  | "check_hosts"
+  | "upgrade"
+  | "change_network"
+  | "visit_website"
+  | "contact_support"
+  | "none";
+
+/**
+ * Catalogue entry for a known error
+ */
+export interface ErrorEntry {
+  key: string;
+  title: string;
+  message: string;
+  category: ErrorCategory;
+  retryable: boolean;
+  action: ErrorAction;
+}
+
+/**
+ * Fully resolved error, ready to render
+ */
+export interface ErrorDetails extends ErrorEntry {
+  code?: number;
+  status?: number;
+  // Raw message from the API, kept for debugging and tooltips
+  rawMessage?: string;
+  actionHint?: string;
+}
+
+/**
+ * Shape of a failed message response (see ~lib/messaging)
+ */
+interface ErrorResponseLike {
+  error?: string;
+  errorCode?: number;
+  errorStatus?: number;
+}
+
+/**
+ * Short sentence shown under the message for each suggested action
+ */
+export const ERROR_ACTION_HINTS: Record<ErrorAction, string | undefined> = {
+  sign_in: "Sign in to Real-Debrid again.",
+  retry: "Try again.",
+  wait: "Wait a moment, then try again.",
+  check_link: "Check that the link is correct and the file still exists.",
+  check_hosts: "See the Hosts page for supported hosters.",
+  upgrade: "A premium Real-Debrid subscription is required.",
+  change_network: "Disable your VPN or proxy and try again.",
+  visit_website: "Finish this step on real-debrid.com.",
+  contact_support: "Contact Real-Debrid support.",
+  none: undefined,
+};
+
+/**
+ * Documented Real-Debrid error codes
+ * https://api.real-debrid.com/#api_error_codes
+ */
+export const ERROR_CATALOGUE: Record<number, ErrorEntry> = {
+  [-1]: {
+    key: "internal_error",
+    title: "Real-Debrid error",
+    message: "Real-Debrid ran into an internal error.",
+    category: "server",
+    retryable: true,
+    action: "wait",
+  },
+  1: {
+    key: "missing_parameter",
+    title: "Invalid request",
+    message: "The request was missing a required value.",
+    category: "request",
+    retryable: false,
+    action: "none",
+  },
+  2: {
+    key: "bad_parameter_value",
+    title: "Invalid request",
+    message: "The request contained an invalid value.",
+    category: "request",
+    retryable: false,
+    action: "check_link",
+  },
+  3: {
+    key: "unknown_method",
+    title: "Invalid request",
+    message: "Real-Debrid does not recognise this request.",
+    category: "request",
+    retryable: false,
+    action: "none",
+  },
+  4: {
+    key: "method_not_allowed",
+    title: "Not available",
+    message: "This feature is not available through the API for this sign-in.",
+    category: "request",
+    retryable: false,
+    action: "visit_website",
+  },
+  5: {
+    key: "slow_down",
+    title: "Slow down",
+    message: "Too many requests were sent in a short time.",
+    category: "limit",
+    retryable: true,
+    action: "wait",
+  },
+  6: {
+    key: "resource_unreachable",
+    title: "Link unreachable",
+    message: "Real-Debrid could not reach this link.",
+    category: "file",
+    retryable: true,
+    action: "wait",
+  },
+  7: {
+    key: "resource_not_found",
+    title: "Not found",
+    message: "The requested item does not exist.",
+    category: "file",
+    retryable: false,
+    action: "check_link",
+  },
+  8: {
+    key: "bad_token",
+    title: "Signed out",
+    message: "Your Real-Debrid session is no longer valid.",
+    category: "auth",
+    retryable: false,
+    action: "sign_in",
+  },
+  9: {
+    key: "permission_denied",
+    title: "Permission denied",
+    message: "Your account is not allowed to do this.",
+    category: "account",
+    retryable: false,
+    action: "visit_website",
+  },
+  10: {
+    key: "two_factor_required",
+    title: "Two-factor required",
+    message: "Two-factor authentication is required for this account.",
+    category: "auth",
+    retryable: false,
+    action: "visit_website",
+  },
+  11: {
+    key: "two_factor_pending",
+    title: "Two-factor pending",
+    message: "Two-factor authentication has not been completed yet.",
+    category: "auth",
+    retryable: true,
+    action: "wait",
+  },
+  12: {
+    key: "invalid_login",
+    title: "Sign-in failed",
+    message: "The login is invalid.",
+    category: "auth",
+    retryable: false,
+    action: "sign_in",
+  },
+  13: {
+    key: "invalid_password",
+    title: "Sign-in failed",
+    message: "The password is invalid.",
+    category: "auth",
+    retryable: false,
+    action: "sign_in",
+  },
+  14: {
+    key: "account_locked",
+    title: "Account locked",
+    message: "Your Real-Debrid account is locked.",
+    category: "account",
+    retryable: false,
+    action: "contact_support",
+  },
+  15: {
+    key: "account_not_activated",
+    title: "Account not activated",
+    message: "Your Real-Debrid account has not been activated yet.",
+    category: "account",
+    retryable: false,
+    action: "visit_website",
+  },
+  16: {
+    key: "hoster_unsupported",
+    title: "Hoster not supported",
+    message: "Real-Debrid does not support this hoster.",
+    category: "hoster",
+    retryable: false,
+    action: "check_hosts",
+  },
+  17: {
+    key: "hoster_in_maintenance",
+    title: "Hoster in maintenance",
+    message: "This hoster is under maintenance on Real-Debrid.",
+    category: "hoster",
+    retryable: true,
+    action: "wait",
+  },
+  18: {
+    key: "hoster_limit_reached",
+    title: "Hoster limit reached",
+    message: "You reached the daily limit for this hoster.",
+    category: "limit",
+    retryable: false,
+    action: "wait",
+  },
+  19: {
+    key: "hoster_unavailable",
+    title: "Hoster unavailable",
+    message: "This hoster is temporarily unavailable.",
+    category: "hoster",
+    retryable: true,
+    action: "wait",
+  },
+  20: {
+    key: "premium_required",
+    title: "Premium required",
+    message: "This hoster is not available for free accounts.",
+    category: "account",
+    retryable: false,
+    action: "upgrade",
+  },
+  21: {
+    key: "too_many_active_downloads",
+    title: "Too many active torrents",
+    message: "You have reached the limit of active downloads.",
+    category: "limit",
+    retryable: true,
+    action: "wait",
+  },
+  22: {
+    key: "ip_not_allowed",
+    title: "IP address not allowed",
+    message: "Real-Debrid does not allow your current IP address (VPN, proxy or server).",
+    category: "network",
+    retryable: false,
+    action: "change_network",
+  },
+  23: {
+    key: "traffic_exhausted",
+    title: "Traffic exhausted",
+    message: "Your traffic for this hoster is used up.",
+    category: "limit",
+    retryable: false,
+    action: "wait",
+  },
+  24: {
+    key: "file_unavailable",
+    title: "File unavailable",
+    message: "The file is unavailable on the hoster (removed or expired).",
+    category: "file",
+    retryable: false,
+    action: "check_link",
+  },
+  25: {
+    key: "service_unavailable",
+    title: "Service unavailable",
+    message: "Real-Debrid is temporarily unavailable.",
+    category: "server",
+    retryable: true,
+    action: "wait",
+  },
+  26: {
+    key: "upload_too_big",
+    title: "Upload too big",
+    message: "The uploaded file is too big.",
+    category: "torrent",
+    retryable: false,
+    action: "none",
+  },
+  27: {
+    key: "upload_error",
+    title: "Upload failed",
+    message: "The upload failed.",
+    category: "torrent",
+    retryable: true,
+    action: "retry",
+  },
+  28: {
+    key: "file_not_allowed",
+    title: "File not allowed",
+    message: "Real-Debrid does not allow this file.",
+    category: "file",
+    retryable: false,
+    action: "none",
+  },
+  29: {
+    key: "torrent_too_big",
+    title: "Torrent too big",
+    message: "This torrent is too big for Real-Debrid.",
+    category: "torrent",
+    retryable: false,
+    action: "none",
+  },
+  30: {
+    key: "torrent_file_invalid",
+    title: "Invalid torrent",
+    message: "The torrent file or magnet link is invalid.",
+    category: "torrent",
+    retryable: false,
+    action: "check_link",
+  },
+  31: {
+    key: "action_already_done",
+    title: "Already done",
+    message: "This action has already been done.",
+    category: "request",
+    retryable: false,
+    action: "none",
+  },
+  32: {
+    key: "image_resolution_error",
+    title: "Invalid image",
+    message: "The image resolution is not accepted.",
+    category: "request",
+    retryable: false,
+    action: "none",
+  },
+  33: {
+    key: "torrent_already_active",
+    title: "Torrent already active",
+    message: "This torrent is already in your list.",
+    category: "torrent",
+    retryable: false,
+    action: "none",
+  },
+  34: {
+    key: "too_many_requests",
+    title: "Too many requests",
+    message: "Real-Debrid is rate limiting requests.",
+    category: "limit",
+    retryable: true,
+    action: "wait",
+  },
+  35: {
+    key: "infringing_file",
+    title: "File blocked",
+    message: "This file was blocked for copyright infringement.",
+    category: "file",
+    retryable: false,
+    action: "none",
+  },
+  36: {
+    key: "fair_usage_limit",
+    title: "Fair usage limit",
+    message: "You reached the fair usage limit.",
+    category: "limit",
+    retryable: false,
+    action: "wait",
+  },
+  37: {
+    key: "disabled_endpoint",
+    title: "Not available",
+    message: "Real-Debrid has disabled this feature.",
+    category: "server",
+    retryable: false,
+    action: "none",
+  },
+};
+
+/**
+ * Fallback entries for errors without a documented error_code
+ */
+const FALLBACK_ENTRIES = {
+  auth: {
+    key: "unauthorized",
+    title: "Signed out",
+    message: "Your Real-Debrid session is no longer valid.",
+    category: "auth",
+    retryable: false,
+    action: "sign_in",
+  },
+  rateLimited: ERROR_CATALOGUE[34],
+  server: {
+    key: "server_error",
+    title: "Real-Debrid error",
+    message: "Real-Debrid is having trouble right now.",
+    category: "server",
+    retryable: true,
+    action: "wait",
+  },
+  network: {
+    key: "network_error",
+    title: "Connection problem",
+    message: "Could not reach Real-Debrid. Check your internet connection.",
+    category: "network",
+    retryable: true,
+    action: "retry",
+  },
+  timeout: {
+    key: "timeout",
+    title: "Request timed out",
+    message: "Real-Debrid took too long to respond.",
+    category: "network",
+    retryable: true,
+    action: "retry",
+  },
+  cancelled: {
+    key: "cancelled",
+    title: "Cancelled",
+    message: "The request was cancelled.",
+    category: "request",
+    retryable: false,
+    action: "none",
+  },
+  unknown: {
+    key: "unknown_error",
+    title: "Something went wrong",
+    message: "Something went wrong.",
+    category: "request",
+    retryable: false,
+    action: "none",
+  },
+} satisfies Record<string, ErrorEntry>;
+
+/**
+ * Look up a catalogue entry by Real-Debrid error_code
+ */
+export function getErrorEntry(code: number | undefined): ErrorEntry | null {
+  if (code === undefined) return null;
+  return ERROR_CATALOGUE[code] ?? null;
+}
+
+function resolveEntry(
+  code: number | undefined,
+  status: number | undefined,
+  rawMessage: string | undefined
+): ErrorEntry | null {
+  const known = getErrorEntry(code);
+  if (known) return known;
+
+  if (status === 401 || code === 401) return FALLBACK_ENTRIES.auth;
+  if (status === 429) return FALLBACK_ENTRIES.rateLimited;
+  if (status === REQUEST_TIMEOUT_STATUS) return FALLBACK_ENTRIES.timeout;
+  if (status === REQUEST_CANCELLED_STATUS) return FALLBACK_ENTRIES.cancelled;
+  if (status !== undefined && status >= 500) return FALLBACK_ENTRIES.server;
+  if (status === 0) return FALLBACK_ENTRIES.network;
+  if (rawMessage === "Not authenticated") return FALLBACK_ENTRIES.auth;
+  return null;
+}
+
+function isErrorResponseLike(value: unknown): value is ErrorResponseLike {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    ("errorCode" in value || "error" in value)
+  );
+}
+
+/**
+ * Resolve any error into renderable details
+ *
+ * Accepts a RealDebridApiError, a failed message response, an Error or a string.
+ * Unknown errors keep their original message so nothing useful is hidden.
+ *
+ * @param input - Error to describe
+ * @param fallbackMessage - Message used when the error carries none
+ */
+export function describeError(
+  input: unknown,
+  fallbackMessage = "Something went wrong."
+): ErrorDetails {
+  let code: number | undefined;
+  let status: number | undefined;
+  let rawMessage: string | undefined;
+
+  if (input instanceof RealDebridApiError) {
+    code = input.code;
+    status = input.status;
+    rawMessage = input.message;
+  } else if (input instanceof Error) {
+    rawMessage = input.message;
+  } else if (typeof input === "string") {
+    rawMessage = input;
+  } else if (isErrorResponseLike(input)) {
+    code = input.errorCode;
+    status = input.errorStatus;
+    rawMessage = input.error;
+  }
+
+  const entry = resolveEntry(code, status, rawMessage) ?? {
+    ...FALLBACK_ENTRIES.unknown,
+    message: rawMessage || fallbackMessage,
+  };
+
+  return {
+    ...entry,
+    code,
+    status,
+    rawMessage,
+    actionHint: ERROR_ACTION_HINTS[entry.action],
+  };
+}
+
+/**
+ * Build a throwable error from a failed message response, keeping the
+ * error code so describeError can still resolve it later
+ */
+export function errorFromResponse(
+  response: ErrorResponseLike,
+  fallbackMessage: string
+): Error {
+  const message = response.error || fallbackMessage;
+  if (response.errorCode !== undefined || response.errorStatus !== undefined) {
+    return new RealDebridApiError(
+      message,
+      response.errorStatus ?? 0,
+      response.errorCode
+    );
+  }
+  return new Error(message);
+}
+
+/**
+ * One-line text for notifications and other plain-text surfaces
+ */
+export function formatErrorText(details: ErrorDetails): string {
+  return details.actionHint
+    ? `${details.message} ${details.actionHint}`
+    : details.message;
+}
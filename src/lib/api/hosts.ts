@@ -3,7 +3,7 @@
  * Note: These endpoints do not require authentication
  */
 
-import { get } from "./client";
+import { get, type CallOptions } from "./client";
 
 /**
  * Get regex patterns for supported links
@@ -12,10 +12,11 @@ import { get } from "./client";
  * These patterns can be used to detect links that Real-Debrid supports.
  * No authentication required.
  *
+ * @param options - Request options (priority, retries)
  * @returns Array of regex pattern strings
  */
-export async function getHostsRegex(): Promise<string[]> {
-  return get<string[]>("/hosts/regex", undefined, true);
+export async function getHostsRegex(options?: CallOptions): Promise<string[]> {
+  return get<string[]>("/hosts/regex", undefined, true, options);
 }
 
 /**
@@ -25,10 +26,11 @@ export async function getHostsRegex(): Promise<string[]> {
  * Returns a list of all domains that Real-Debrid supports.
  * No authentication required.
  *
+ * @param options - Request options (priority, retries)
  * @returns Array of domain strings
  */
-export async function getHostsDomains(): Promise<string[]> {
-  return get<string[]>("/hosts/domains", undefined, true);
+export async function getHostsDomains(options?: CallOptions): Promise<string[]> {
+  return get<string[]>("/hosts/domains", undefined, true, options);
 }
 
 /**
@@ -51,10 +53,13 @@ export interface HostInfo {
  *
  * No authentication required.
  *
+ * @param options - Request options (priority, retries)
  * @returns Record of host ID to host information
  */
-export async function getHosts(): Promise<Record<string, HostInfo>> {
-  return get<Record<string, HostInfo>>("/hosts", undefined, true);
+export async function getHosts(
+  options?: CallOptions
+): Promise<Record<string, HostInfo>> {
+  return get<Record<string, HostInfo>>("/hosts", undefined, true, options);
 }
 
 /**
@@ -64,8 +69,12 @@ export async function getHosts(): Promise<Record<string, HostInfo>> {
  * Authentication required.
  *
  * @param token - API token
+ * @param options - Request options (priority, retries)
  * @returns Record of host ID to host information with status
  */
-export async function getHostsStatus(token: string): Promise<Record<string, HostInfo>> {
-  return get<Record<string, HostInfo>>("/hosts/status", token);
+export async function getHostsStatus(
+  token: string,
+  options?: CallOptions
+): Promise<Record<string, HostInfo>> {
+  return get<Record<string, HostInfo>>("/hosts/status", token, false, options);
 }
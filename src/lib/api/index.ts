@@ -4,16 +4,85 @@
 
 // Client utilities
 export {
+  configureClient,
+  getClientConfig,
+  resetClientConfig,
+  DEFAULT_CLIENT_CONFIG,
   getRateLimitStatus,
+  getDefaultTimeout,
+  DEFAULT_TIMEOUT_MS,
+  RATE_LIMIT,
+  RATE_WINDOW_MS,
+  configureRetryPolicy,
+  DEFAULT_RETRY_POLICY,
   RealDebridApiError,
   request,
   get,
+  getWithResponse,
+  requestWithResponse,
   post,
   put,
   del,
 } from "./client";
 
-export type { ApiError, HttpMethod } from "./client";
+export type {
+  ApiError,
+  ApiResponse,
+  ClientConfig,
+  Transport,
+  HttpMethod,
+  CallOptions,
+  RetryPolicy,
+  RetryAttempt,
+} from "./client";
+
+export { REQUEST_TIMEOUT_STATUS, REQUEST_CANCELLED_STATUS } from "./status";
+
+// Rate limiting
+export {
+  createRateLimiter,
+  DEFAULT_LANE_RESERVES,
+  REQUEST_PRIORITIES,
+} from "./rate-limiter";
+
+export type {
+  RateLimiter,
+  RateLimiterOptions,
+  RateLimitStatus,
+  RequestPriority,
+} from "./rate-limiter";
+
+// Pagination
+export {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  paginate,
+  iterateItems,
+  collectAll,
+  fetchPage,
+} from "./pagination";
+export type {
+  Page,
+  PageRequest,
+  PageFetcher,
+  PaginateOptions,
+} from "./pagination";
+
+// Error catalogue
+export {
+  ERROR_CATALOGUE,
+  ERROR_ACTION_HINTS,
+  getErrorEntry,
+  describeError,
+  errorFromResponse,
+  formatErrorText,
+} from "./errors";
+export type {
+  ErrorCategory,
+  ErrorAction,
+  ErrorEntry,
+  ErrorDetails,
+} from "./errors";
 
 // User API
 export { getUser, getSettings } from "./user";
@@ -37,6 +106,9 @@ export type {
 // Torrents API
 export {
   listTorrents,
+  listTorrentsPage,
+  iterateTorrentPages,
+  iterateTorrents,
   getTorrentInfo,
   addMagnet,
   addTorrent,
@@ -56,7 +128,13 @@ export type {
 } from "./torrents";
 
 // Downloads API
-export { listDownloads, deleteDownload } from "./downloads";
+export {
+  listDownloads,
+  listDownloadsPage,
+  iterateDownloadPages,
+  iterateDownloads,
+  deleteDownload,
+} from "./downloads";
 export type { DownloadItem, DownloadsPaginationParams } from "./downloads";
 
 // Hosts API
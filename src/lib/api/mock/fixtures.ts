@@ -0,0 +1,150 @@
+/**
+ * Fixtures for the mock Real-Debrid server
+ * Every field can be overridden when creating a server
+ */
+
+import type { DownloadItem } from "../downloads";
+import type { HostInfo } from "../hosts";
+import type { MediaInfo, TranscodeQuality } from "../streaming";
+import type { TorrentFile, TorrentItem } from "../torrents";
+import type { TrafficDetails, TrafficInfo } from "../traffic";
+import type { UserProfile, UserSettings } from "../user";
+
+/**
+ * A hoster link the mock server knows how to unrestrict
+ */
+export interface MockHosterFile {
+  filename: string;
+  filesize: number;
+  host: string;
+  mimeType: string;
+  streamable: number;
+}
+
+/**
+ * A torrent stored by the mock server, including its file list
+ */
+export interface MockTorrent extends TorrentItem {
+  files: TorrentFile[];
+}
+
+export interface MockFixtures {
+  accessToken: string;
+  refreshToken: string;
+  clientId: string;
+  clientSecret: string;
+  // Seconds until issued access tokens expire
+  tokenExpiresIn: number;
+  user: UserProfile;
+  settings: UserSettings;
+  hostsRegex: string[];
+  hostsDomains: string[];
+  hosts: Record<string, HostInfo>;
+  traffic: TrafficInfo;
+  trafficDetails: TrafficDetails;
+  torrents: MockTorrent[];
+  downloads: DownloadItem[];
+  // Hoster links keyed by URL
+  hosterFiles: Record<string, MockHosterFile>;
+  // Files returned for any magnet/torrent added during the session
+  magnetFiles: Omit<TorrentFile, "selected">[];
+  transcode: TranscodeQuality;
+  mediaInfo: Omit<MediaInfo, "filename" | "link" | "hoster">;
+  activeLimit: number;
+}
+
+const HOST_INFO: HostInfo = {
+  id: "mockhost.test",
+  name: "MockHost",
+  image: "",
+  image_big: "",
+  supported: 1,
+  status: "up",
+  check_time: "2024-01-01T00:00:00.000Z",
+};
+
+export const DEFAULT_FIXTURES: MockFixtures = {
+  accessToken: "mock-access-token",
+  refreshToken: "mock-refresh-token",
+  clientId: "mock-client-id",
+  clientSecret: "mock-client-secret",
+  tokenExpiresIn: 3600,
+  user: {
+    id: 1,
+    username: "mockuser",
+    email: "mock@example.test",
+    points: 1500,
+    locale: "en",
+    avatar: "",
+    type: "premium",
+    premium: 2_592_000,
+    expiration: "2030-01-01T00:00:00.000Z",
+  },
+  settings: {
+    download_ports: ["normal"],
+    streaming_quality: "original",
+    streaming_language_preference: "en",
+    streaming_cast_audio_preference: "original",
+    locales: { en: "English" },
+    quality_preference: "original",
+  },
+  hostsRegex: ["/https?:\\/\\/(www\\.)?mockhost\\.test\\/[a-z0-9]+/"],
+  hostsDomains: ["mockhost.test"],
+  hosts: { "mockhost.test": HOST_INFO },
+  traffic: {},
+  trafficDetails: {},
+  torrents: [],
+  downloads: [],
+  hosterFiles: {
+    "https://mockhost.test/abc123": {
+      filename: "Example.File.zip",
+      filesize: 104_857_600,
+      host: "mockhost.test",
+      mimeType: "application/zip",
+      streamable: 0,
+    },
+  },
+  magnetFiles: [
+    { id: 1, path: "/Show.S01E01.1080p.mkv", bytes: 1_500_000_000 },
+    { id: 2, path: "/Show.S01E02.1080p.mkv", bytes: 1_450_000_000 },
+    { id: 3, path: "/Sample/sample.mkv", bytes: 20_000_000 },
+    { id: 4, path: "/Show.nfo", bytes: 2_048 },
+  ],
+  transcode: {
+    apple: { full: "https://mock.real-debrid.test/t/stream/full.m3u8" },
+    liveMP4: { full: "https://mock.real-debrid.test/t/stream/full.mp4" },
+  },
+  mediaInfo: {
+    type: "show",
+    duration: 2_640,
+    bitrate: 4_500_000,
+    size: 1_500_000_000,
+    video: {
+      v1: {
+        stream: "0:0",
+        lang: "English",
+        lang_iso: "eng",
+        codec: "h264",
+        colorspace: "yuv420p",
+        width: 1920,
+        height: 1080,
+      },
+    },
+    audio: {
+      a1: {
+        stream: "0:1",
+        lang: "English",
+        lang_iso: "eng",
+        codec: "aac",
+        sampling: 48_000,
+        channels: 2,
+      },
+    },
+    subtitles: {},
+    model_name: "",
+    poster_path: "",
+    audio_image: "",
+    backdrop_path: "",
+  },
+  activeLimit: 25,
+};
@@ -0,0 +1,7 @@
+/**
+ * Mock Real-Debrid server for offline development and tests
+ * Not re-exported from lib/api so it stays out of the extension bundle
+ */
+
+export * from "./fixtures";
+export * from "./server";
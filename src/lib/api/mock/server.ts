@@ -0,0 +1,571 @@
+/**
+ * In-memory Real-Debrid stand-in
+ * Implements the endpoints used by lib/api and lib/auth behind a Transport,
+ * so flows like add magnet -> select files -> downloaded run offline:
+ *
+ *   const mock = createMockRealDebrid();
+ *   configureClient(mock.config);
+ *   const { id } = await addMagnet(mock.state.accessToken, "magnet:?xt=...");
+ *   mock.advance(); // magnet_conversion -> waiting_files_selection
+ */
+
+import type { ApiError, ClientConfig, Transport } from "../client";
+import type { DownloadItem } from "../downloads";
+import type { TorrentFile, TorrentStatus } from "../torrents";
+import type { UnrestrictedLink } from "../unrestrict";
+import {
+  DEFAULT_FIXTURES,
+  type MockFixtures,
+  type MockHosterFile,
+  type MockTorrent,
+} from "./fixtures";
+
+export const MOCK_BASE_URL = "https://mock.real-debrid.test/rest/1.0";
+export const MOCK_OAUTH_BASE_URL = "https://mock.real-debrid.test/oauth/v2";
+
+// Progress added to downloading torrents on each advance()
+const PROGRESS_STEP = 50;
+const DEFAULT_PAGE_LIMIT = 100;
+
+/**
+ * Mutable server state, exposed so callers can inspect or seed it
+ */
+export interface MockState {
+  accessToken: string;
+  refreshToken: string;
+  torrents: MockTorrent[];
+  downloads: DownloadItem[];
+  hosterFiles: Record<string, MockHosterFile>;
+  // Device codes the user has "approved" on the authorize page
+  authorizedDevices: Set<string>;
+  // Every request received, in order
+  requests: { method: string; path: string }[];
+}
+
+/**
+ * A canned failure returned instead of the next matching response
+ */
+export interface MockFailure {
+  status: number;
+  error?: string;
+  errorCode?: number;
+  headers?: Record<string, string>;
+  // Only fail requests whose path starts with this prefix
+  pathPrefix?: string;
+}
+
+export interface MockRealDebrid {
+  transport: Transport;
+  config: Pick<ClientConfig, "baseUrl" | "oauthBaseUrl" | "transport">;
+  state: MockState;
+  fixtures: MockFixtures;
+  advance: (steps?: number) => void;
+  authorizeDevice: (deviceCode: string) => void;
+  expireAccessToken: () => void;
+  failNext: (failure: MockFailure, times?: number) => void;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  form: URLSearchParams;
+  authorized: boolean;
+}
+
+type RouteHandler = (
+  req: MockRequest,
+  params: string[]
+) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  auth: boolean;
+  handler: RouteHandler;
+}
+
+/**
+ * Build a JSON response
+ */
+function json(data: unknown, status = 200, headers?: Record<string, string>): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/**
+ * Build an API error response in the Real-Debrid format
+ */
+function apiError(status: number, error: string, errorCode?: number): Response {
+  const body: ApiError = { error, error_code: errorCode };
+  return json(body, status);
+}
+
+function noContent(status = 204): Response {
+  return new Response(null, { status });
+}
+
+/**
+ * Generate a short random identifier
+ */
+function randomId(length = 13): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  let id = "";
+  for (let i = 0; i < length; i++) {
+    id += chars[Math.floor(Math.random() * chars.length)];
+  }
+  return id;
+}
+
+/**
+ * Extract the info hash and display name from a magnet URI
+ */
+function parseMagnet(magnet: string): { hash: string; name: string } | null {
+  if (!magnet.startsWith("magnet:?")) return null;
+  const params = new URLSearchParams(magnet.slice("magnet:?".length));
+  const match = params.get("xt")?.match(/^urn:btih:([a-zA-Z0-9]+)$/);
+  if (!match) return null;
+  const hash = match[1].toLowerCase();
+  return { hash, name: params.get("dn") ?? hash };
+}
+
+/**
+ * Parse a url-encoded request body; multipart uploads yield an empty form
+ */
+function parseForm(body: RequestInit["body"]): URLSearchParams {
+  if (typeof body === "string") return new URLSearchParams(body);
+  if (body instanceof URLSearchParams) return body;
+  return new URLSearchParams();
+}
+
+/**
+ * Create a mock Real-Debrid server backed by fixtures
+ */
+export function createMockRealDebrid(
+  overrides: Partial<MockFixtures> = {}
+): MockRealDebrid {
+  const fixtures: MockFixtures = { ...DEFAULT_FIXTURES, ...overrides };
+
+  const state: MockState = {
+    accessToken: fixtures.accessToken,
+    refreshToken: fixtures.refreshToken,
+    torrents: fixtures.torrents.map((t) => ({
+      ...t,
+      files: t.files.map((f) => ({ ...f })),
+      links: [...t.links],
+    })),
+    downloads: fixtures.downloads.map((d) => ({ ...d })),
+    hosterFiles: { ...fixtures.hosterFiles },
+    authorizedDevices: new Set(),
+    requests: [],
+  };
+
+  const failures: { failure: MockFailure; remaining: number }[] = [];
+  let tokenGeneration = 1;
+
+  /**
+   * Find a torrent or return a 404 response
+   */
+  function findTorrent(id: string): MockTorrent | Response {
+    const torrent = state.torrents.find((t) => t.id === id);
+    return torrent ?? apiError(404, "unknown_ressource", 7);
+  }
+
+  /**
+   * Register a completed torrent's links so they can be unrestricted
+   */
+  function publishLinks(torrent: MockTorrent): void {
+    torrent.links = torrent.files
+      .filter((f) => f.selected === 1)
+      .map((file) => {
+        const link = `https://real-debrid.com/d/${randomId()}`;
+        state.hosterFiles[link] = {
+          filename: file.path.split("/").pop() ?? file.path,
+          filesize: file.bytes,
+          host: "real-debrid.com",
+          mimeType: file.path.endsWith(".mkv") ? "video/x-matroska" : "application/octet-stream",
+          streamable: file.path.endsWith(".mkv") ? 1 : 0,
+        };
+        return link;
+      });
+  }
+
+  /**
+   * Create a torrent in magnet_conversion from a hash and name
+   */
+  function createTorrent(hash: string, name: string): MockTorrent {
+    const files: TorrentFile[] = fixtures.magnetFiles.map((f) => ({
+      ...f,
+      selected: 0,
+    }));
+    const bytes = files.reduce((sum, f) => sum + f.bytes, 0);
+    const torrent: MockTorrent = {
+      id: randomId(),
+      filename: name,
+      original_filename: name,
+      hash,
+      bytes: 0,
+      original_bytes: bytes,
+      host: "real-debrid.com",
+      split: 2000,
+      progress: 0,
+      status: "magnet_conversion",
+      added: new Date().toISOString(),
+      links: [],
+      files,
+    };
+    state.torrents.unshift(torrent);
+    return torrent;
+  }
+
+  /**
+   * Slice a list according to offset/page/limit query parameters
+   */
+  function paginate<T>(items: T[], query: URLSearchParams): Response {
+    const limit = Number(query.get("limit") ?? DEFAULT_PAGE_LIMIT);
+    const page = query.get("page");
+    const offset = page !== null ? (Number(page) - 1) * limit : Number(query.get("offset") ?? 0);
+    return json(items.slice(offset, offset + limit), 200, {
+      "X-Total-Count": String(items.length),
+    });
+  }
+
+  const routes: Route[] = [];
+
+  /**
+   * Register a route; ":param" segments are passed to the handler in order
+   */
+  function route(method: string, path: string, handler: RouteHandler, auth = true): void {
+    const pattern = new RegExp(`^${path.replace(/:[a-z]+/g, "([^/]+)")}$`);
+    routes.push({ method, pattern, auth, handler });
+  }
+
+  // ==================== OAuth ====================
+
+  route("GET", "/oauth/device/code", () => {
+    const deviceCode = randomId(32);
+    return json({
+      device_code: deviceCode,
+      user_code: randomId(8),
+      interval: 5,
+      expires_in: 600,
+      verification_url: "https://real-debrid.com/device",
+    });
+  }, false);
+
+  route("GET", "/oauth/device/credentials", (req) => {
+    const code = req.query.get("code") ?? "";
+    if (!state.authorizedDevices.has(code)) {
+      return apiError(403, "authorization_pending");
+    }
+    return json({
+      client_id: fixtures.clientId,
+      client_secret: fixtures.clientSecret,
+    });
+  }, false);
+
+  route("POST", "/oauth/token", (req) => {
+    if (
+      req.form.get("client_id") !== fixtures.clientId ||
+      req.form.get("client_secret") !== fixtures.clientSecret
+    ) {
+      return apiError(400, "invalid_client");
+    }
+
+    const code = req.form.get("code") ?? "";
+    const isRefresh = code === state.refreshToken;
+    if (!isRefresh && !state.authorizedDevices.has(code)) {
+      return apiError(400, "invalid_grant");
+    }
+
+    tokenGeneration++;
+    state.accessToken = `${fixtures.accessToken}-${tokenGeneration}`;
+    state.refreshToken = `${fixtures.refreshToken}-${tokenGeneration}`;
+    return json({
+      access_token: state.accessToken,
+      expires_in: fixtures.tokenExpiresIn,
+      token_type: "Bearer",
+      refresh_token: state.refreshToken,
+    });
+  }, false);
+
+  // ==================== User ====================
+
+  route("GET", "/user", () => json(fixtures.user));
+  route("GET", "/settings", () => json(fixtures.settings));
+  route("POST", "/settings/convertPoints", () => noContent());
+
+  // ==================== Hosts & Traffic ====================
+
+  route("GET", "/hosts", () => json(fixtures.hosts), false);
+  route("GET", "/hosts/regex", () => json(fixtures.hostsRegex), false);
+  route("GET", "/hosts/domains", () => json(fixtures.hostsDomains), false);
+  route("GET", "/hosts/status", () => json(fixtures.hosts));
+  route("GET", "/traffic", () => json(fixtures.traffic));
+  route("GET", "/traffic/details", () => json(fixtures.trafficDetails));
+
+  // ==================== Unrestrict ====================
+
+  route("POST", "/unrestrict/check", (req) => {
+    const link = req.form.get("link") ?? "";
+    const file = state.hosterFiles[link];
+    if (!file) return apiError(503, "hoster_unsupported", 16);
+    return json({
+      host: file.host,
+      host_icon: "",
+      link,
+      filename: file.filename,
+      filesize: file.filesize,
+      supported: 1,
+    });
+  }, false);
+
+  route("POST", "/unrestrict/link", (req) => {
+    const link = req.form.get("link") ?? "";
+    if (!link) return apiError(400, "parameter_missing", 1);
+    const file = state.hosterFiles[link];
+    if (!file) return apiError(503, "hoster_unsupported", 16);
+
+    const id = randomId();
+    const unrestricted: UnrestrictedLink = {
+      id,
+      filename: file.filename,
+      mimeType: file.mimeType,
+      filesize: file.filesize,
+      link,
+      host: file.host,
+      host_icon: "",
+      chunks: 16,
+      crc: 1,
+      download: `https://mock.real-debrid.test/d/${id}/${encodeURIComponent(file.filename)}`,
+      streamable: file.streamable,
+    };
+    state.downloads.unshift({
+      ...unrestricted,
+      generated: new Date().toISOString(),
+    });
+    return json(unrestricted);
+  });
+
+  route("POST", "/unrestrict/folder", (req) => {
+    const prefix = req.form.get("link") ?? "";
+    return json(Object.keys(state.hosterFiles).filter((l) => l.startsWith(prefix)));
+  });
+
+  route("POST", "/unrestrict/containerLink", () => json([]));
+  route("PUT", "/unrestrict/containerFile", () => json([]));
+
+  // ==================== Downloads ====================
+
+  route("GET", "/downloads", (req) => paginate(state.downloads, req.query));
+
+  route("DELETE", "/downloads/delete/:id", (_req, [id]) => {
+    const index = state.downloads.findIndex((d) => d.id === id);
+    if (index === -1) return apiError(404, "unknown_ressource", 7);
+    state.downloads.splice(index, 1);
+    return noContent();
+  });
+
+  // ==================== Torrents ====================
+
+  route("GET", "/torrents", (req) => {
+    const inactive: TorrentStatus[] = ["downloaded", "error", "magnet_error", "virus", "dead"];
+    const torrents =
+      req.query.get("filter") === "active"
+        ? state.torrents.filter((t) => !inactive.includes(t.status))
+        : state.torrents;
+    // The list endpoint omits file details
+    return paginate(torrents.map(({ files: _files, ...item }) => item), req.query);
+  });
+
+  route("GET", "/torrents/info/:id", (_req, [id]) => {
+    const torrent = findTorrent(id);
+    return torrent instanceof Response ? torrent : json(torrent);
+  });
+
+  route("GET", "/torrents/activeCount", () => {
+    const active = state.torrents.filter((t) =>
+      ["queued", "downloading", "compressing", "uploading"].includes(t.status)
+    );
+    return json({ nb: active.length, limit: fixtures.activeLimit });
+  });
+
+  route("POST", "/torrents/addMagnet", (req) => {
+    const parsed = parseMagnet(req.form.get("magnet") ?? "");
+    if (!parsed) return apiError(400, "parameter_missing", 1);
+    const torrent = createTorrent(parsed.hash, parsed.name);
+    return json({ id: torrent.id, uri: `${MOCK_BASE_URL}/torrents/info/${torrent.id}` }, 201);
+  });
+
+  route("PUT", "/torrents/addTorrent", () => {
+    const torrent = createTorrent(randomId(40).toLowerCase(), "Uploaded.Torrent");
+    return json({ id: torrent.id, uri: `${MOCK_BASE_URL}/torrents/info/${torrent.id}` }, 201);
+  });
+
+  route("POST", "/torrents/selectFiles/:id", (req, [id]) => {
+    const torrent = findTorrent(id);
+    if (torrent instanceof Response) return torrent;
+    if (torrent.status !== "waiting_files_selection") {
+      return apiError(400, "action_already_done", 31);
+    }
+
+    const selection = req.form.get("files") ?? "";
+    const ids = selection === "all" ? null : new Set(selection.split(",").map(Number));
+    for (const file of torrent.files) {
+      file.selected = ids === null || ids.has(file.id) ? 1 : 0;
+    }
+    if (!torrent.files.some((f) => f.selected === 1)) {
+      return apiError(400, "bad_parameter_value", 2);
+    }
+
+    torrent.bytes = torrent.files
+      .filter((f) => f.selected === 1)
+      .reduce((sum, f) => sum + f.bytes, 0);
+    torrent.status = "downloading";
+    torrent.speed = 10_000_000;
+    torrent.seeders = 12;
+    return noContent();
+  });
+
+  route("DELETE", "/torrents/delete/:id", (_req, [id]) => {
+    const index = state.torrents.findIndex((t) => t.id === id);
+    if (index === -1) return apiError(404, "unknown_ressource", 7);
+    state.torrents.splice(index, 1);
+    return noContent();
+  });
+
+  // ==================== Streaming ====================
+
+  route("GET", "/streaming/transcode/:id", (_req, [id]) => {
+    const exists = state.downloads.some((d) => d.id === id);
+    return exists ? json(fixtures.transcode) : apiError(404, "unknown_ressource", 7);
+  });
+
+  route("GET", "/streaming/mediaInfos/:id", (_req, [id]) => {
+    const download = state.downloads.find((d) => d.id === id);
+    if (!download) return apiError(404, "unknown_ressource", 7);
+    return json({
+      ...fixtures.mediaInfo,
+      filename: download.filename,
+      hoster: download.host,
+      link: download.link,
+    });
+  });
+
+  /**
+   * Consume a queued failure matching the path, if any
+   */
+  function takeFailure(path: string): Response | null {
+    const index = failures.findIndex(
+      ({ failure }) => !failure.pathPrefix || path.startsWith(failure.pathPrefix)
+    );
+    if (index === -1) return null;
+
+    const entry = failures[index];
+    entry.remaining--;
+    if (entry.remaining <= 0) failures.splice(index, 1);
+
+    const { status, error, errorCode, headers } = entry.failure;
+    return json({ error: error ?? `HTTP ${status}`, error_code: errorCode }, status, headers);
+  }
+
+  const transport: Transport = async (url, init) => {
+    const method = (init.method ?? "GET").toUpperCase();
+    const parsed = new URL(url);
+
+    let path: string;
+    if (url.startsWith(MOCK_OAUTH_BASE_URL)) {
+      path = `/oauth${parsed.pathname.slice(new URL(MOCK_OAUTH_BASE_URL).pathname.length)}`;
+    } else if (url.startsWith(MOCK_BASE_URL)) {
+      path = parsed.pathname.slice(new URL(MOCK_BASE_URL).pathname.length);
+    } else {
+      throw new TypeError(`Mock Real-Debrid cannot route ${url}`);
+    }
+
+    state.requests.push({ method, path });
+
+    const failure = takeFailure(path);
+    if (failure) return failure;
+
+    const authorization = new Headers(init.headers).get("Authorization");
+    const req: MockRequest = {
+      method,
+      path,
+      query: parsed.searchParams,
+      form: parseForm(init.body),
+      authorized: authorization === `Bearer ${state.accessToken}`,
+    };
+
+    for (const candidate of routes) {
+      const match = path.match(candidate.pattern);
+      if (!match) continue;
+      if (candidate.method !== method) {
+        return apiError(405, "method_not_allowed", 4);
+      }
+      if (candidate.auth && !req.authorized) {
+        return apiError(401, "bad_token", 8);
+      }
+      return candidate.handler(req, match.slice(1));
+    }
+
+    return apiError(404, "unknown_method", 3);
+  };
+
+  return {
+    transport,
+    config: {
+      baseUrl: MOCK_BASE_URL,
+      oauthBaseUrl: MOCK_OAUTH_BASE_URL,
+      transport,
+    },
+    state,
+    fixtures,
+
+    /**
+     * Move every in-flight torrent one step through its lifecycle
+     */
+    advance(steps = 1) {
+      for (let i = 0; i < steps; i++) {
+        for (const torrent of state.torrents) {
+          if (torrent.status === "magnet_conversion") {
+            torrent.status = "waiting_files_selection";
+          } else if (torrent.status === "queued") {
+            torrent.status = "downloading";
+          } else if (torrent.status === "downloading") {
+            torrent.progress = Math.min(100, torrent.progress + PROGRESS_STEP);
+            if (torrent.progress === 100) {
+              torrent.status = "downloaded";
+              torrent.ended = new Date().toISOString();
+              torrent.speed = undefined;
+              torrent.seeders = undefined;
+              publishLinks(torrent);
+            }
+          }
+        }
+      }
+    },
+
+    /**
+     * Approve a device code as if the user visited the authorize page
+     */
+    authorizeDevice(deviceCode: string) {
+      state.authorizedDevices.add(deviceCode);
+    },
+
+    /**
+     * Invalidate the current access token so the next call returns 401
+     */
+    expireAccessToken() {
+      state.accessToken = `${state.accessToken}-expired`;
+    },
+
+    /**
+     * Fail the next matching request(s) with the given status
+     */
+    failNext(failure: MockFailure, times = 1) {
+      failures.push({ failure, remaining: times });
+    },
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Page walking for Real-Debrid list endpoints
+ * List endpoints take page/limit and report the full size in X-Total-Count
+ */
+
+import type { ApiResponse, CallOptions } from "./client";
+
+export const DEFAULT_PAGE_SIZE = 100;
+// Real-Debrid rejects larger limits
+export const MAX_PAGE_SIZE = 5000;
+
+/**
+ * One page of a list endpoint
+ */
+export interface Page<T> {
+  items: T[];
+  page: number; // 1-based
+  pageSize: number;
+  totalCount: number;
+  hasMore: boolean;
+}
+
+export interface PageRequest {
+  page: number;
+  limit: number;
+}
+
+/**
+ * Options for walking pages
+ * Iteration also stops when the consumer breaks out of the loop
+ */
+export interface PaginateOptions {
+  pageSize?: number;
+  startPage?: number;
+  // Stop after this many items, even if more are available
+  maxItems?: number;
+}
+
+/**
+ * Fetches a single raw page; implemented per endpoint
+ */
+export type PageFetcher<T> = (
+  request: PageRequest,
+  options?: CallOptions
+) => Promise<ApiResponse<T[]>>;
+
+/**
+ * Clamp a requested page size to what the API accepts
+ */
+export function normalizePageSize(pageSize?: number): number {
+  if (!pageSize || pageSize < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(Math.floor(pageSize), MAX_PAGE_SIZE);
+}
+
+/**
+ * Turn a raw list response into a Page
+ * Empty lists come back as 204 without a body or total count
+ */
+export function toPage<T>(
+  response: ApiResponse<T[]>,
+  request: PageRequest
+): Page<T> {
+  const items = Array.isArray(response.data) ? response.data : [];
+  const header = response.headers.get("x-total-count");
+  const reported = header !== null ? Number(header) : NaN;
+  const offset = (request.page - 1) * request.limit;
+
+  // Without the header, a full page is the only hint that more may follow
+  const totalCount = Number.isFinite(reported)
+    ? reported
+    : offset + items.length + (items.length === request.limit ? 1 : 0);
+
+  return {
+    items,
+    page: request.page,
+    pageSize: request.limit,
+    totalCount,
+    hasMore: items.length > 0 && offset + items.length < totalCount,
+  };
+}
+
+/**
+ * Fetch one page
+ */
+export async function fetchPage<T>(
+  fetcher: PageFetcher<T>,
+  request: PageRequest,
+  options?: CallOptions
+): Promise<Page<T>> {
+  const normalized = { ...request, limit: normalizePageSize(request.limit) };
+  return toPage(await fetcher(normalized, options), normalized);
+}
+
+/**
+ * Walk pages until the list is exhausted
+ *
+ * @example
+ * for await (const page of paginate(fetcher, { pageSize: 500 })) {
+ *   if (done(page)) break;
+ * }
+ */
+export async function* paginate<T>(
+  fetcher: PageFetcher<T>,
+  paginateOptions: PaginateOptions = {},
+  options?: CallOptions
+): AsyncGenerator<Page<T>, void, undefined> {
+  const limit = normalizePageSize(paginateOptions.pageSize);
+  const maxItems = paginateOptions.maxItems ?? Infinity;
+  let page = paginateOptions.startPage ?? 1;
+  let yielded = 0;
+
+  while (yielded < maxItems) {
+    const result = await fetchPage(fetcher, { page, limit }, options);
+    const remaining = maxItems - yielded;
+    const items = result.items.slice(0, remaining);
+    yielded += items.length;
+
+    yield {
+      ...result,
+      items,
+      hasMore: result.hasMore && yielded < maxItems,
+    };
+
+    if (!result.hasMore) return;
+    page++;
+  }
+}
+
+/**
+ * Walk every item across pages
+ */
+export async function* iterateItems<T>(
+  fetcher: PageFetcher<T>,
+  paginateOptions?: PaginateOptions,
+  options?: CallOptions
+): AsyncGenerator<T, void, undefined> {
+  for await (const page of paginate(fetcher, paginateOptions, options)) {
+    yield* page.items;
+  }
+}
+
+/**
+ * Collect every item across pages into an array
+ */
+export async function collectAll<T>(
+  fetcher: PageFetcher<T>,
+  paginateOptions?: PaginateOptions,
+  options?: CallOptions
+): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterateItems(fetcher, paginateOptions, options)) {
+    items.push(item);
+  }
+  return items;
+}
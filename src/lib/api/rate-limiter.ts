@@ -0,0 +1,233 @@
+/**
+ * Sliding-window rate limiter with priority lanes
+ * Interactive requests may use the whole budget; background and bulk lanes
+ * stop early so a reserve is always left for the user. The window can be
+ * persisted so the count survives service worker restarts.
+ */
+
+/**
+ * Priority lane for a request, highest first
+ */
+export type RequestPriority = "interactive" | "background" | "bulk";
+
+export const REQUEST_PRIORITIES: RequestPriority[] = [
+  "interactive",
+  "background",
+  "bulk",
+];
+
+/**
+ * Snapshot of the limiter for display and diagnostics
+ */
+export interface RateLimitStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetInMs: number;
+  windowMs: number;
+  // Slots each lane must leave free for higher lanes
+  reserves: Record<RequestPriority, number>;
+  // Requests currently waiting for a slot, per lane
+  queued: Record<RequestPriority, number>;
+}
+
+export interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+  reserves?: Partial<Record<RequestPriority, number>>;
+  // Restore request timestamps, e.g. from extension storage
+  load?: () => Promise<number[]>;
+  // Persist request timestamps after each acquired slot
+  save?: (timestamps: number[]) => Promise<void>;
+}
+
+export interface RateLimiter {
+  acquire: (priority?: RequestPriority, signal?: AbortSignal) => Promise<void>;
+  getStatus: () => RateLimitStatus;
+  ready: Promise<void>;
+}
+
+export const DEFAULT_LANE_RESERVES: Record<RequestPriority, number> = {
+  interactive: 0,
+  background: 25,
+  bulk: 75,
+};
+
+interface Waiter {
+  priority: RequestPriority;
+  resolve: () => void;
+}
+
+/**
+ * Create a rate limiter
+ * Waiters are served strictly by lane, then in arrival order
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const { limit, windowMs, load, save } = options;
+  const reserves = { ...DEFAULT_LANE_RESERVES, ...options.reserves };
+
+  let timestamps: number[] = [];
+  const waiters: Waiter[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Saves run one after another so an earlier write can't land last
+  let saving: Promise<void> = Promise.resolve();
+  let savePending = false;
+
+  const ready = (async () => {
+    if (!load) return;
+    try {
+      const restored = await load();
+      // Merge with anything recorded while loading
+      timestamps = [...restored, ...timestamps].sort((a, b) => a - b);
+    } catch (err) {
+      console.error("[RateLimiter] Failed to restore window:", err);
+    }
+  })();
+
+  /**
+   * Drop timestamps that have left the window
+   */
+  function prune(now: number): void {
+    const cutoff = now - windowMs;
+    let expired = 0;
+    while (expired < timestamps.length && timestamps[expired] <= cutoff) {
+      expired++;
+    }
+    if (expired > 0) timestamps = timestamps.slice(expired);
+  }
+
+  function hasCapacity(priority: RequestPriority): boolean {
+    return limit - timestamps.length > reserves[priority];
+  }
+
+  /**
+   * Slots needed to expire before the given lane can proceed
+   */
+  function msUntilCapacity(priority: RequestPriority, now: number): number {
+    const index = timestamps.length - (limit - reserves[priority]);
+    if (index < 0) return 0;
+    return Math.max(0, timestamps[index] + windowMs - now);
+  }
+
+  /**
+   * Queue a save of the window
+   * Grants made while a save is queued ride along with it: the window is read
+   * when the save starts, not when it's requested.
+   */
+  function persist(): void {
+    if (!save || savePending) return;
+    savePending = true;
+    saving = saving.then(async () => {
+      savePending = false;
+      try {
+        await save([...timestamps]);
+      } catch (err) {
+        console.error("[RateLimiter] Failed to persist window:", err);
+      }
+    });
+  }
+
+  /**
+   * Hand out free slots to waiters in priority order
+   */
+  function drain(): void {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    const now = Date.now();
+    prune(now);
+
+    let granted = false;
+    while (waiters.length > 0) {
+      const next = waiters[0];
+      if (!hasCapacity(next.priority)) break;
+      waiters.shift();
+      timestamps.push(now);
+      granted = true;
+      next.resolve();
+    }
+    if (granted) persist();
+
+    if (waiters.length > 0) {
+      const delay = msUntilCapacity(waiters[0].priority, now);
+      timer = setTimeout(drain, delay + 50);
+    }
+  }
+
+  /**
+   * Insert a waiter behind every waiter of the same or higher priority
+   */
+  function enqueue(waiter: Waiter): void {
+    const rank = REQUEST_PRIORITIES.indexOf(waiter.priority);
+    const index = waiters.findIndex(
+      (w) => REQUEST_PRIORITIES.indexOf(w.priority) > rank
+    );
+    if (index === -1) {
+      waiters.push(waiter);
+    } else {
+      waiters.splice(index, 0, waiter);
+    }
+  }
+
+  return {
+    ready,
+
+    /**
+     * Wait for a slot in the given lane, then record the request
+     * Rejects without using a slot if the signal aborts while waiting
+     */
+    async acquire(priority = "interactive", signal) {
+      await ready;
+      await new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+
+        const onAbort = () => {
+          const index = waiters.indexOf(waiter);
+          if (index !== -1) waiters.splice(index, 1);
+          reject(signal?.reason);
+        };
+        const waiter: Waiter = {
+          priority,
+          resolve: () => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+          },
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        enqueue(waiter);
+        drain();
+      });
+    },
+
+    /**
+     * Get the current budget
+     */
+    getStatus() {
+      const now = Date.now();
+      prune(now);
+
+      const queued = { interactive: 0, background: 0, bulk: 0 };
+      for (const waiter of waiters) {
+        queued[waiter.priority]++;
+      }
+
+      return {
+        limit,
+        used: timestamps.length,
+        remaining: Math.max(0, limit - timestamps.length),
+        resetInMs: timestamps.length > 0
+          ? Math.max(0, timestamps[0] + windowMs - now)
+          : 0,
+        windowMs,
+        reserves: { ...reserves },
+        queued,
+      };
+    },
+  };
+}
@@ -2,15 +2,24 @@
  * Real-Debrid Settings API endpoints
  */
 
-import { post } from "./client";
+import { post, type CallOptions } from "./client";
 
 /**
  * Convert fidelity points to premium time
  * POST /settings/convertPoints
  *
  * @param token - API token
+ * @param options - Request options (priority, retries)
  * @returns void on success
  */
-export async function convertPoints(token: string): Promise<void> {
-  await post<void, Record<string, never>>("/settings/convertPoints", {}, token);
+export async function convertPoints(
+  token: string,
+  options?: CallOptions
+): Promise<void> {
+  await post<void, Record<string, never>>(
+    "/settings/convertPoints",
+    {},
+    token,
+    options
+  );
 }
@@ -0,0 +1,8 @@
+/**
+ * Synthetic statuses for requests that never got an HTTP response
+ * Kept free of imports so messaging can use them without pulling the API
+ * client into every page the content script runs on.
+ */
+
+export const REQUEST_TIMEOUT_STATUS = 408;
+export const REQUEST_CANCELLED_STATUS = 499;
@@ -2,7 +2,7 @@
  * Real-Debrid Streaming API endpoints
  */
 
-import { get } from "./client";
+import { get, type CallOptions } from "./client";
 
 /**
  * Transcoding quality options returned by the API
@@ -79,13 +79,20 @@ export interface MediaInfo {
  *
  * @param token - API token
  * @param id - File ID from unrestricted link
+ * @param options - Request options (priority, retries)
  * @returns Available transcode quality options
  */
 export async function getTranscodeLinks(
   token: string,
-  id: string
+  id: string,
+  options?: CallOptions
 ): Promise<TranscodeQuality> {
-  return get<TranscodeQuality>(`/streaming/transcode/${id}`, token);
+  return get<TranscodeQuality>(
+    `/streaming/transcode/${id}`,
+    token,
+    false,
+    options
+  );
 }
 
 /**
@@ -94,11 +101,13 @@ export async function getTranscodeLinks(
  *
  * @param token - API token
  * @param id - File ID from unrestricted link
+ * @param options - Request options (priority, retries)
  * @returns Detailed media information
  */
 export async function getMediaInfo(
   token: string,
-  id: string
+  id: string,
+  options?: CallOptions
 ): Promise<MediaInfo> {
-  return get<MediaInfo>(`/streaming/mediaInfos/${id}`, token);
+  return get<MediaInfo>(`/streaming/mediaInfos/${id}`, token, false, options);
 }
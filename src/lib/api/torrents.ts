@@ -2,7 +2,23 @@
  * Real-Debrid Torrents API endpoints
  */
 
-import { del, get, post, put } from "./client";
+import {
+  del,
+  get,
+  getWithResponse,
+  post,
+  put,
+  type CallOptions,
+} from "./client";
+import {
+  DEFAULT_PAGE_SIZE,
+  fetchPage,
+  iterateItems,
+  paginate,
+  type Page,
+  type PageFetcher,
+  type PaginateOptions,
+} from "./pagination";
 
 /**
  * Torrent status values
@@ -99,12 +115,21 @@ export interface PaginationParams {
  *
  * @param token - API token
  * @param params - Pagination parameters
+ * @param options - Request options (priority, retries)
  * @returns Array of torrent items
  */
 export async function listTorrents(
   token: string,
-  params?: PaginationParams
+  params?: PaginationParams,
+  options?: CallOptions
 ): Promise<TorrentItem[]> {
+  return get<TorrentItem[]>(buildTorrentsPath(params), token, false, options);
+}
+
+/**
+ * Build the /torrents path with pagination query parameters
+ */
+function buildTorrentsPath(params?: PaginationParams): string {
   const searchParams = new URLSearchParams();
 
   if (params?.offset !== undefined) {
@@ -121,9 +146,70 @@ export async function listTorrents(
   }
 
   const query = searchParams.toString();
-  const path = query ? `/torrents?${query}` : "/torrents";
+  return query ? `/torrents?${query}` : "/torrents";
+}
+
+/**
+ * Page fetcher for /torrents, optionally filtered (e.g. "active")
+ */
+function torrentsFetcher(token: string, filter?: string): PageFetcher<TorrentItem> {
+  return ({ page, limit }, options) =>
+    getWithResponse<TorrentItem[]>(
+      buildTorrentsPath({ page, limit, filter }),
+      token,
+      options
+    );
+}
+
+/**
+ * Fetch one page of torrents with the total count
+ * GET /torrents
+ *
+ * @param token - API token
+ * @param params - 1-based page, page size and optional filter
+ * @param options - Request options (priority, retries)
+ * @returns The page and whether more pages follow
+ */
+export async function listTorrentsPage(
+  token: string,
+  params: { page?: number; limit?: number; filter?: string } = {},
+  options?: CallOptions
+): Promise<Page<TorrentItem>> {
+  return fetchPage(
+    torrentsFetcher(token, params.filter),
+    { page: params.page ?? 1, limit: params.limit ?? DEFAULT_PAGE_SIZE },
+    options
+  );
+}
 
-  return get<TorrentItem[]>(path, token);
+/**
+ * Walk all torrent pages, newest first
+ *
+ * @param token - API token
+ * @param params - Page size, start page, item cap and optional filter
+ * @param options - Request options (priority, retries)
+ */
+export function iterateTorrentPages(
+  token: string,
+  params: PaginateOptions & { filter?: string } = {},
+  options?: CallOptions
+): AsyncGenerator<Page<TorrentItem>, void, undefined> {
+  return paginate(torrentsFetcher(token, params.filter), params, options);
+}
+
+/**
+ * Walk all torrents one by one across pages
+ *
+ * @param token - API token
+ * @param params - Page size, start page, item cap and optional filter
+ * @param options - Request options (priority, retries)
+ */
+export function iterateTorrents(
+  token: string,
+  params: PaginateOptions & { filter?: string } = {},
+  options?: CallOptions
+): AsyncGenerator<TorrentItem, void, undefined> {
+  return iterateItems(torrentsFetcher(token, params.filter), params, options);
 }
 
 /**
@@ -132,13 +218,15 @@ export async function listTorrents(
  *
  * @param token - API token
  * @param id - Torrent ID
+ * @param options - Request options (priority, retries)
  * @returns Detailed torrent information
  */
 export async function getTorrentInfo(
   token: string,
-  id: string
+  id: string,
+  options?: CallOptions
 ): Promise<TorrentInfo> {
-  return get<TorrentInfo>(`/torrents/info/${id}`, token);
+  return get<TorrentInfo>(`/torrents/info/${id}`, token, false, options);
 }
 
 /**
@@ -147,16 +235,19 @@ export async function getTorrentInfo(
  *
  * @param token - API token
  * @param magnet - Magnet link URI
+ * @param options - Request options (priority, retries)
  * @returns ID and URI for the new torrent
  */
 export async function addMagnet(
   token: string,
-  magnet: string
+  magnet: string,
+  options?: CallOptions
 ): Promise<AddMagnetResponse> {
   return post<AddMagnetResponse, { magnet: string }>(
     "/torrents/addMagnet",
     { magnet },
-    token
+    token,
+    options
   );
 }
 
@@ -166,11 +257,13 @@ export async function addMagnet(
  *
  * @param token - API token
  * @param file - Torrent file as Blob or ArrayBuffer
+ * @param options - Request options (priority, retries)
  * @returns ID and URI for the new torrent
  */
 export async function addTorrent(
   token: string,
-  file: Blob | ArrayBuffer
+  file: Blob | ArrayBuffer,
+  options?: CallOptions
 ): Promise<AddTorrentResponse> {
   const formData = new FormData();
   const blob = file instanceof Blob ? file : new Blob([file]);
@@ -179,7 +272,8 @@ export async function addTorrent(
   return put<AddTorrentResponse, FormData>(
     "/torrents/addTorrent",
     formData,
-    token
+    token,
+    options
   );
 }
 
@@ -190,17 +284,20 @@ export async function addTorrent(
  * @param token - API token
  * @param id - Torrent ID
  * @param files - Comma-separated file IDs or "all"
+ * @param options - Request options (priority, retries)
  */
 export async function selectFiles(
   token: string,
   id: string,
-  files: string | number[]
+  files: string | number[],
+  options?: CallOptions
 ): Promise<void> {
   const fileIds = Array.isArray(files) ? files.join(",") : files;
   await post<void, { files: string }>(
     `/torrents/selectFiles/${id}`,
     { files: fileIds },
-    token
+    token,
+    options
   );
 }
 
@@ -210,9 +307,14 @@ export async function selectFiles(
  *
  * @param token - API token
  * @param id - Torrent ID
+ * @param options - Request options (priority, retries)
  */
-export async function deleteTorrent(token: string, id: string): Promise<void> {
-  await del<void>(`/torrents/delete/${id}`, token);
+export async function deleteTorrent(
+  token: string,
+  id: string,
+  options?: CallOptions
+): Promise<void> {
+  await del<void>(`/torrents/delete/${id}`, token, options);
 }
 
 /**
@@ -220,10 +322,17 @@ export async function deleteTorrent(token: string, id: string): Promise<void> {
  * GET /torrents/activeCount
  *
  * @param token - API token
+ * @param options - Request options (priority, retries)
  * @returns Active count and limit
  */
 export async function getActiveCount(
-  token: string
+  token: string,
+  options?: CallOptions
 ): Promise<ActiveCountResponse> {
-  return get<ActiveCountResponse>("/torrents/activeCount", token);
+  return get<ActiveCountResponse>(
+    "/torrents/activeCount",
+    token,
+    false,
+    options
+  );
 }
@@ -2,7 +2,7 @@
  * Real-Debrid Traffic API endpoints
  */
 
-import { get } from "./client";
+import { get, type CallOptions } from "./client";
 
 /**
  * Traffic information for a host
@@ -32,10 +32,14 @@ export type TrafficDetails = Record<string, Record<string, number>>;
  * GET /traffic
  *
  * @param token - API token
+ * @param options - Request options (priority, retries)
  * @returns Traffic info by host
  */
-export async function getTraffic(token: string): Promise<TrafficInfo> {
-  return get<TrafficInfo>("/traffic", token);
+export async function getTraffic(
+  token: string,
+  options?: CallOptions
+): Promise<TrafficInfo> {
+  return get<TrafficInfo>("/traffic", token, false, options);
 }
 
 /**
@@ -43,8 +47,12 @@ export async function getTraffic(token: string): Promise<TrafficInfo> {
  * GET /traffic/details
  *
  * @param token - API token
+ * @param options - Request options (priority, retries)
  * @returns Daily traffic usage by date and host
  */
-export async function getTrafficDetails(token: string): Promise<TrafficDetails> {
-  return get<TrafficDetails>("/traffic/details", token);
+export async function getTrafficDetails(
+  token: string,
+  options?: CallOptions
+): Promise<TrafficDetails> {
+  return get<TrafficDetails>("/traffic/details", token, false, options);
 }
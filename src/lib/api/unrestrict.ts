@@ -2,7 +2,7 @@
  * Real-Debrid Unrestrict API endpoints
  */
 
-import { post, put } from "./client";
+import { post, put, type CallOptions } from "./client";
 
 /**
  * Result from checking a link before unrestricting
@@ -55,16 +55,20 @@ export interface UnrestrictFolderRequest {
  *
  * @param token - API token
  * @param params - Link to unrestrict with optional password and remote flag
+ * @param options - Request options (priority, retries)
  * @returns Unrestricted link information
  */
 export async function unrestrictLink(
   token: string,
-  params: UnrestrictLinkRequest
+  params: UnrestrictLinkRequest,
+  options?: CallOptions
 ): Promise<UnrestrictedLink> {
+  // Generating the same link twice is harmless, so transient failures are retried
   return post<UnrestrictedLink, UnrestrictLinkRequest>(
     "/unrestrict/link",
     params,
-    token
+    token,
+    { retry: true, ...options }
   );
 }
 
@@ -74,16 +78,19 @@ export async function unrestrictLink(
  *
  * @param token - API token
  * @param link - Folder link to unrestrict
+ * @param options - Request options (priority, retries)
  * @returns Array of unrestricted links
  */
 export async function unrestrictFolder(
   token: string,
-  link: string
+  link: string,
+  options?: CallOptions
 ): Promise<string[]> {
   return post<string[], UnrestrictFolderRequest>(
     "/unrestrict/folder",
     { link },
-    token
+    token,
+    options
   );
 }
 
@@ -93,16 +100,19 @@ export async function unrestrictFolder(
  *
  * @param token - API token
  * @param link - Link to check
+ * @param options - Request options (priority, retries)
  * @returns Link check result with file info and support status
  */
 export async function checkLink(
   token: string,
-  link: string
+  link: string,
+  options?: CallOptions
 ): Promise<LinkCheckResult> {
   return post<LinkCheckResult, { link: string }>(
     "/unrestrict/check",
     { link },
-    token
+    token,
+    { retry: true, ...options }
   );
 }
 
@@ -112,16 +122,23 @@ export async function checkLink(
  *
  * @param token - API token
  * @param fileData - Container file data as ArrayBuffer
+ * @param options - Request options (priority, retries)
  * @returns Array of links extracted from the container
  */
 export async function decryptContainerFile(
   token: string,
-  fileData: ArrayBuffer
+  fileData: ArrayBuffer,
+  options?: CallOptions
 ): Promise<string[]> {
   const formData = new FormData();
   formData.append("file", new Blob([fileData]));
 
-  return put<string[], FormData>("/unrestrict/containerFile", formData, token);
+  return put<string[], FormData>(
+    "/unrestrict/containerFile",
+    formData,
+    token,
+    options
+  );
 }
 
 /**
@@ -130,15 +147,18 @@ export async function decryptContainerFile(
  *
  * @param token - API token
  * @param link - URL to the container file
+ * @param options - Request options (priority, retries)
  * @returns Array of links extracted from the container
  */
 export async function decryptContainerLink(
   token: string,
-  link: string
+  link: string,
+  options?: CallOptions
 ): Promise<string[]> {
   return post<string[], { link: string }>(
     "/unrestrict/containerLink",
     { link },
-    token
+    token,
+    options
   );
 }
@@ -2,7 +2,7 @@
  * Real-Debrid User API endpoints
  */
 
-import { get } from "./client";
+import { get, type CallOptions } from "./client";
 
 /**
  * User profile information
@@ -35,14 +35,20 @@ export interface UserSettings {
  * Get current user profile
  * GET /user
  */
-export async function getUser(token: string): Promise<UserProfile> {
-  return get<UserProfile>("/user", token);
+export async function getUser(
+  token: string,
+  options?: CallOptions
+): Promise<UserProfile> {
+  return get<UserProfile>("/user", token, false, options);
 }
 
 /**
  * Get current user settings
  * GET /settings
  */
-export async function getSettings(token: string): Promise<UserSettings> {
-  return get<UserSettings>("/settings", token);
+export async function getSettings(
+  token: string,
+  options?: CallOptions
+): Promise<UserSettings> {
+  return get<UserSettings>("/settings", token, false, options);
 }
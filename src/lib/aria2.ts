@@ -0,0 +1,137 @@
+/**
+ * aria2 JSON-RPC
+ * Hands unrestricted links to an aria2 instance, such as one on a home
+ * server, instead of downloading them in the browser.
+ */
+
+export interface Aria2Settings {
+  // e.g. http://192.168.1.10:6800/jsonrpc
+  rpcUrl: string;
+  // --rpc-secret of the aria2 instance, if it has one
+  secret: string;
+  // Directory on the aria2 machine; aria2's own default when empty
+  directory: string;
+}
+
+export type Aria2Status = "active" | "waiting" | "paused" | "error" | "complete" | "removed";
+
+export interface Aria2Download {
+  gid: string;
+  // "unknown" when the download was added but its status couldn't be read
+  status: Aria2Status | "unknown";
+  errorMessage?: string;
+}
+
+/**
+ * Outcome of sending one file to aria2
+ */
+export interface Aria2SendResult {
+  filename: string;
+  gid?: string;
+  status?: Aria2Download["status"];
+  error?: string;
+}
+
+interface Aria2Response<T> {
+  id: string;
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+const RPC_TIMEOUT_MS = 10_000;
+
+export function isAria2Configured(settings: Pick<Aria2Settings, "rpcUrl">): boolean {
+  return settings.rpcUrl.trim() !== "";
+}
+
+/**
+ * Call an aria2 RPC method; the secret is added as aria2 expects
+ */
+export async function callAria2<T>(
+  settings: Aria2Settings,
+  method: string,
+  params: unknown[] = []
+): Promise<T> {
+  if (!isAria2Configured(settings)) throw new Error("No aria2 RPC URL configured");
+
+  let response: Response;
+  try {
+    response = await fetch(settings.rpcUrl.trim(), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: crypto.randomUUID(),
+        method,
+        params: settings.secret ? [`token:${settings.secret}`, ...params] : params,
+      }),
+      signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+    });
+  } catch {
+    throw new Error("Couldn't reach aria2. Check the RPC URL and that aria2 is running with --enable-rpc");
+  }
+
+  // aria2 answers RPC errors with HTTP 400 and a JSON body
+  let body: Aria2Response<T> | undefined;
+  try {
+    body = await response.json();
+  } catch {
+    throw new Error(`aria2 responded with HTTP ${response.status}`);
+  }
+
+  if (body?.error) {
+    throw new Error(
+      body.error.message === "Unauthorized"
+        ? "aria2 rejected the RPC secret"
+        : `aria2: ${body.error.message}`
+    );
+  }
+  if (!response.ok || body?.result === undefined) {
+    throw new Error(`aria2 responded with HTTP ${response.status}`);
+  }
+  return body.result;
+}
+
+/**
+ * Add a download and read back its status
+ * Once added, the download is reported even if the status read fails, so a
+ * retry doesn't queue it twice.
+ * @param out - Path to save under, relative to the directory
+ */
+export async function addAria2Download(
+  settings: Aria2Settings,
+  uri: string,
+  out?: string
+): Promise<Aria2Download> {
+  const options: Record<string, string> = {};
+  if (settings.directory.trim()) options.dir = settings.directory.trim();
+  if (out) options.out = out;
+
+  const gid = await callAria2<string>(settings, "aria2.addUri", [[uri], options]);
+  try {
+    return await callAria2<Aria2Download>(settings, "aria2.tellStatus", [gid, ["gid", "status", "errorMessage"]]);
+  } catch {
+    return { gid, status: "unknown" };
+  }
+}
+
+/**
+ * aria2's version, to check the connection settings
+ */
+export async function getAria2Version(settings: Aria2Settings): Promise<string> {
+  const result = await callAria2<{ version: string }>(settings, "aria2.getVersion");
+  return result.version;
+}
+
+/**
+ * One-line summary of a send, e.g. "GID 2089b05ecca3d829 · active"
+ */
+export function describeAria2Results(results: Aria2SendResult[]): string {
+  if (results.length === 1) {
+    const [result] = results;
+    return result.error ?? `GID ${result.gid} · ${result.status === "unknown" ? "added" : result.status}`;
+  }
+  const failed = results.filter((result) => result.error);
+  const summary = `${results.length - failed.length} of ${results.length} sent to aria2`;
+  return failed.length > 0 ? `${summary}; ${failed[0].filename}: ${failed[0].error}` : summary;
+}
@@ -9,7 +9,8 @@
  * 5. Store tokens and handle refresh when needed
  */
 
-const OAUTH_BASE_URL = "https://api.real-debrid.com/oauth/v2";
+import { getClientConfig } from "./api/client";
+
 const CLIENT_ID = "X245A4XAIBGVM";
 
 /**
@@ -60,13 +61,26 @@ export interface AuthData {
   expiresAt: number;
 }
 
+/**
+ * Device flow progress, persisted so a restarted service worker can resume it
+ */
+export interface OAuthFlowState {
+  status: "idle" | "pending" | "success" | "error";
+  deviceCode?: DeviceCodeResponse;
+  expiresAt?: number;
+  intervalMs?: number;
+  error?: string;
+}
+
 export class OAuthError extends Error {
   public readonly code?: string;
+  public readonly status?: number;
 
-  constructor(message: string, code?: string) {
+  constructor(message: string, code?: string, status?: number) {
     super(message);
     this.name = "OAuthError";
     this.code = code;
+    this.status = status;
   }
 }
 
@@ -74,9 +88,10 @@ export class OAuthError extends Error {
  * Step 1: Request a device code for OAuth flow
  */
 export async function requestDeviceCode(): Promise<DeviceCodeResponse> {
-  const url = `${OAUTH_BASE_URL}/device/code?client_id=${CLIENT_ID}&new_credentials=yes`;
+  const { oauthBaseUrl, transport } = getClientConfig();
+  const url = `${oauthBaseUrl}/device/code?client_id=${CLIENT_ID}&new_credentials=yes`;
 
-  const response = await fetch(url);
+  const response = await transport(url, { method: "GET" });
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
@@ -97,9 +112,10 @@ export async function requestDeviceCode(): Promise<DeviceCodeResponse> {
 export async function pollDeviceCredentials(
   deviceCode: string
 ): Promise<DeviceCredentialsResponse | null> {
-  const url = `${OAUTH_BASE_URL}/device/credentials?client_id=${CLIENT_ID}&code=${deviceCode}`;
+  const { oauthBaseUrl, transport } = getClientConfig();
+  const url = `${oauthBaseUrl}/device/credentials?client_id=${CLIENT_ID}&code=${deviceCode}`;
 
-  const response = await fetch(url);
+  const response = await transport(url, { method: "GET" });
 
   if (response.status === 403) {
     // Not authorized yet, keep polling
@@ -125,7 +141,8 @@ export async function exchangeToken(
   clientSecret: string,
   deviceCode: string
 ): Promise<TokenResponse> {
-  const url = `${OAUTH_BASE_URL}/token`;
+  const { oauthBaseUrl, transport } = getClientConfig();
+  const url = `${oauthBaseUrl}/token`;
 
   const body = new URLSearchParams({
     client_id: clientId,
@@ -134,7 +151,7 @@ export async function exchangeToken(
     grant_type: "http://oauth.net/grant_type/device/1.0",
   });
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       "Content-Type": "application/x-www-form-urlencoded",
@@ -153,6 +170,32 @@ export async function exchangeToken(
   return response.json();
 }
 
+/**
+ * Steps 2 and 3 in one call: check whether the user has authorized the device
+ * code and, if so, exchange it for tokens
+ * Returns null while authorization is still pending
+ */
+export async function completeDeviceAuthorization(
+  deviceCode: string
+): Promise<AuthData | null> {
+  const credentials = await pollDeviceCredentials(deviceCode);
+  if (!credentials) return null;
+
+  const tokenResponse = await exchangeToken(
+    credentials.client_id,
+    credentials.client_secret,
+    deviceCode
+  );
+
+  return {
+    accessToken: tokenResponse.access_token,
+    refreshToken: tokenResponse.refresh_token,
+    clientId: credentials.client_id,
+    clientSecret: credentials.client_secret,
+    expiresAt: Date.now() + tokenResponse.expires_in * 1000,
+  };
+}
+
 /**
  * Refresh an expired access token
  */
@@ -161,7 +204,8 @@ export async function refreshAccessToken(
   clientSecret: string,
   refreshToken: string
 ): Promise<TokenResponse> {
-  const url = `${OAUTH_BASE_URL}/token`;
+  const { oauthBaseUrl, transport } = getClientConfig();
+  const url = `${oauthBaseUrl}/token`;
 
   const body = new URLSearchParams({
     client_id: clientId,
@@ -170,7 +214,7 @@ export async function refreshAccessToken(
     grant_type: "http://oauth.net/grant_type/device/1.0",
   });
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       "Content-Type": "application/x-www-form-urlencoded",
@@ -182,7 +226,8 @@ export async function refreshAccessToken(
     const error = await response.json().catch(() => ({}));
     throw new OAuthError(
       error.error || `Failed to refresh token: ${response.status}`,
-      error.error
+      error.error,
+      response.status
     );
   }
 
@@ -203,7 +248,6 @@ export class OAuthFlow {
   private pollingInterval: number | null = null;
   private expiresAt: number | null = null;
   private cancelled = false;
-  private clientCredentials: DeviceCredentialsResponse | null = null;
 
   /**
    * Start the OAuth device code flow
@@ -239,26 +283,9 @@ export class OAuthFlow {
       }
 
       try {
-        const credentials = await pollDeviceCredentials(this.deviceCode);
-
-        if (credentials) {
-          this.clientCredentials = credentials;
-
-          // Step 3: Exchange for token
-          const tokenResponse = await exchangeToken(
-            credentials.client_id,
-            credentials.client_secret,
-            this.deviceCode
-          );
-
-          const authData: AuthData = {
-            accessToken: tokenResponse.access_token,
-            refreshToken: tokenResponse.refresh_token,
-            clientId: credentials.client_id,
-            clientSecret: credentials.client_secret,
-            expiresAt: Date.now() + tokenResponse.expires_in * 1000,
-          };
+        const authData = await completeDeviceAuthorization(this.deviceCode);
 
+        if (authData) {
           callbacks.onSuccess(authData);
           return;
         }
@@ -283,22 +310,45 @@ export class OAuthFlow {
   cancel(): void {
     this.cancelled = true;
     this.deviceCode = null;
-    this.clientCredentials = null;
   }
 }
 
 /**
- * Check if auth data is expired
- * Note: Real-Debrid tokens typically don't expire, so this returns false
- * unless explicitly set with a valid expiry time that has passed
+ * Check if auth data is expired (or will expire within marginMs)
+ * Tokens stored without an expiry (e.g. a pasted API token) never expire
  */
-export function isTokenExpired(authData: AuthData): boolean {
+export function isTokenExpired(authData: AuthData, marginMs = 0): boolean {
   // If no expiry set or set to 0, token is considered valid (doesn't expire)
   if (!authData.expiresAt || authData.expiresAt === 0) {
     return false;
   }
-  // Only return true if actually expired (no buffer needed since tokens rarely expire)
-  return Date.now() >= authData.expiresAt;
+  return Date.now() + marginMs >= authData.expiresAt;
+}
+
+/**
+ * Check if auth data carries the OAuth credentials needed to refresh it
+ */
+export function canRefreshToken(authData: AuthData): boolean {
+  return !!(authData.refreshToken && authData.clientId && authData.clientSecret);
+}
+
+/**
+ * Refresh the access token for stored auth data
+ * Returns updated auth data; the refresh token and client credentials are kept
+ */
+export async function refreshAuthData(authData: AuthData): Promise<AuthData> {
+  const tokenResponse = await refreshAccessToken(
+    authData.clientId,
+    authData.clientSecret,
+    authData.refreshToken
+  );
+
+  return {
+    ...authData,
+    accessToken: tokenResponse.access_token,
+    refreshToken: tokenResponse.refresh_token || authData.refreshToken,
+    expiresAt: Date.now() + tokenResponse.expires_in * 1000,
+  };
 }
 
 /**
@@ -312,8 +362,11 @@ export default {
   requestDeviceCode,
   pollDeviceCredentials,
   exchangeToken,
+  completeDeviceAuthorization,
   refreshAccessToken,
+  refreshAuthData,
   isTokenExpired,
+  canRefreshToken,
   createOAuthFlow,
   OAuthFlow,
 };
@@ -0,0 +1,181 @@
+/**
+ * Auto-unrestrict for links found by page auto-scan
+ * Links are unrestricted one at a time in the background and cached by URL,
+ * so the popup opens with them already resolved. A per-page cap, a host
+ * allow-list and an hourly budget keep a link-heavy page from burning
+ * through the API.
+ */
+
+import type { UnrestrictedLink } from "./api/unrestrict";
+import type { DetectedLink } from "./messaging";
+
+/**
+ * Where auto-unrestrict is with a detected link
+ */
+export interface AutoUnrestrictState {
+  status: "queued" | "resolved" | "failed" | "skipped";
+  result?: UnrestrictedLink;
+  // Why it failed or was skipped
+  error?: string;
+}
+
+export interface AutoUnrestrictLimits {
+  maxPerPage: number;
+  // Hosts (and their subdomains) to unrestrict; empty allows every host
+  allowedHosts: string[];
+}
+
+// Across all tabs, however many pages are opened
+export const AUTO_UNRESTRICT_HOURLY_LIMIT = 60;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Generated links stay valid for a while; reuse them instead of asking again
+const RESULT_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Does a host match the allow-list
+ */
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  if (allowedHosts.length === 0) return true;
+  const normalized = host.toLowerCase().replace(/^www\./, "");
+  return allowedHosts.some((allowed) => {
+    const entry = allowed.trim().toLowerCase().replace(/^www\./, "");
+    return entry !== "" && (normalized === entry || normalized.endsWith(`.${entry}`));
+  });
+}
+
+/**
+ * Decide which of a page's links to unrestrict
+ * Magnets can't be unrestricted; hoster links beyond the allow-list or the
+ * per-page cap are marked as skipped
+ */
+export function planAutoUnrestrict(
+  links: DetectedLink[],
+  limits: AutoUnrestrictLimits
+): DetectedLink[] {
+  let queued = 0;
+
+  return links.map((link) => {
+    if (link.type !== "hoster") return link;
+
+    if (!isHostAllowed(link.host, limits.allowedHosts)) {
+      return { ...link, autoUnrestrict: { status: "skipped", error: "Host not in the allow-list" } };
+    }
+    if (queued >= limits.maxPerPage) {
+      return { ...link, autoUnrestrict: { status: "skipped", error: "Page limit reached" } };
+    }
+
+    queued++;
+    return { ...link, autoUnrestrict: { status: "queued" } };
+  });
+}
+
+export interface AutoUnrestrictQueueOptions {
+  unrestrict: (url: string) => Promise<UnrestrictedLink>;
+  // Called with each link's final state
+  onResult: (tabId: number, url: string, state: AutoUnrestrictState) => void;
+  hourlyLimit?: number;
+}
+
+export interface AutoUnrestrictQueue {
+  enqueue: (tabId: number, urls: string[]) => void;
+  // Drop a tab's pending links, e.g. when it navigates away
+  cancelTab: (tabId: number) => void;
+}
+
+/**
+ * Create the auto-unrestrict queue
+ * The same URL on several tabs is only unrestricted once
+ */
+export function createAutoUnrestrictQueue(options: AutoUnrestrictQueueOptions): AutoUnrestrictQueue {
+  const { unrestrict, onResult } = options;
+  const hourlyLimit = options.hourlyLimit ?? AUTO_UNRESTRICT_HOURLY_LIMIT;
+  const results = new Map<string, { state: AutoUnrestrictState; at: number }>();
+  const pending: { tabId: number; url: string }[] = [];
+  let timestamps: number[] = [];
+  let running = false;
+
+  function report(tabId: number, url: string, state: AutoUnrestrictState): void {
+    try {
+      onResult(tabId, url, state);
+    } catch (err) {
+      console.error("[AutoUnrestrict] Result listener failed:", err);
+    }
+  }
+
+  function getCached(url: string): AutoUnrestrictState | null {
+    const cached = results.get(url);
+    if (!cached) return null;
+    if (Date.now() - cached.at > RESULT_TTL_MS) {
+      results.delete(url);
+      return null;
+    }
+    return cached.state;
+  }
+
+  async function resolve(url: string): Promise<AutoUnrestrictState> {
+    const cached = getCached(url);
+    if (cached) return cached;
+
+    const now = Date.now();
+    timestamps = timestamps.filter((t) => now - t < HOUR_MS);
+    if (timestamps.length >= hourlyLimit) {
+      return { status: "skipped", error: "Hourly auto-unrestrict limit reached" };
+    }
+    timestamps.push(now);
+
+    let state: AutoUnrestrictState;
+    try {
+      state = { status: "resolved", result: await unrestrict(url) };
+    } catch (err) {
+      state = { status: "failed", error: err instanceof Error ? err.message : String(err) };
+    }
+    // Only successes are worth reusing; a failure may be temporary
+    if (state.status === "resolved") results.set(url, { state, at: Date.now() });
+    return state;
+  }
+
+  async function drain(): Promise<void> {
+    if (running) return;
+    running = true;
+    try {
+      while (pending.length > 0) {
+        const { url } = pending[0];
+        const state = await resolve(url);
+        // Every tab waiting on this URL gets the same answer
+        for (let i = pending.length - 1; i >= 0; i--) {
+          if (pending[i].url === url) {
+            report(pending[i].tabId, url, state);
+            pending.splice(i, 1);
+          }
+        }
+      }
+    } finally {
+      running = false;
+    }
+  }
+
+  const enqueue: AutoUnrestrictQueue["enqueue"] = (tabId, urls) => {
+    for (const url of urls) {
+      const cached = getCached(url);
+      if (cached) {
+        report(tabId, url, cached);
+      } else if (!pending.some((item) => item.tabId === tabId && item.url === url)) {
+        pending.push({ tabId, url });
+      }
+    }
+    drain().catch((err) => {
+      console.error("[AutoUnrestrict] Queue failed:", err);
+    });
+  };
+
+  const cancelTab: AutoUnrestrictQueue["cancelTab"] = (tabId) => {
+    for (let i = pending.length - 1; i >= 0; i--) {
+      // The link in flight finishes; its result is ignored once the tab's
+      // links are gone
+      if (pending[i].tabId === tabId && !(running && i === 0)) pending.splice(i, 1);
+    }
+  };
+
+  return { enqueue, cancelTab };
+}
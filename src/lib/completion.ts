@@ -0,0 +1,258 @@
+/**
+ * Post-completion pipeline
+ * When a torrent finishes downloading on Real-Debrid, unrestricts its links
+ * and hands them on: browser downloads, the clipboard, aria2 or an external
+ * downloader. Every run is kept in a history with a result per link so
+ * failed steps can be retried.
+ */
+
+import { describeError } from "./api/errors";
+import type { TorrentItem } from "./api/torrents";
+import type { UnrestrictedLink } from "./api/unrestrict";
+import { createSerialStore } from "./serial-store";
+
+export type CompletionAction = "download" | "copy" | "aria2" | "external";
+
+/**
+ * What to do when a torrent completes; "none" turns the pipeline off,
+ * globally or for one torrent
+ */
+export type CompletionSetting = CompletionAction | "none";
+
+export const COMPLETION_SETTING_LABELS: Record<CompletionSetting, string> = {
+  none: "Do nothing",
+  download: "Download files",
+  copy: "Copy links",
+  aria2: "Send to aria2",
+  external: "Send to external downloader",
+};
+
+export type CompletionStep = "unrestrict" | "deliver";
+
+/**
+ * What delivery needs of an unrestricted link
+ */
+export type DeliverableLink = Pick<UnrestrictedLink, "download" | "filename" | "link">;
+
+/**
+ * Outcome for one of a torrent's links
+ */
+export interface CompletionLinkResult {
+  // The restricted link from the torrent
+  link: string;
+  filename?: string;
+  // Set once unrestricted; kept so a failed delivery retries without it
+  download?: string;
+  status: "pending" | "delivered" | "failed";
+  failedStep?: CompletionStep;
+  error?: string;
+}
+
+export interface CompletionRun {
+  id: string;
+  accountId: string;
+  torrentId: string;
+  filename: string;
+  action: CompletionAction;
+  status: "running" | "completed" | "failed";
+  links: CompletionLinkResult[];
+  attempts: number;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface CompletionPipelineOptions {
+  load: () => Promise<CompletionRun[]>;
+  save: (runs: CompletionRun[]) => Promise<void>;
+  unrestrict: (accountId: string, link: string) => Promise<UnrestrictedLink>;
+  // Hand on unrestricted links; copying gets all of a run's links at once,
+  // other actions one link per call
+  deliver: (action: CompletionAction, links: DeliverableLink[], run: CompletionRun) => Promise<void>;
+  // Called after every change to a run
+  onChange?: (run: CompletionRun) => void;
+  // Runs to keep in the history
+  keep?: number;
+}
+
+export interface CompletionPipeline {
+  start: (accountId: string, torrent: TorrentItem, action: CompletionAction) => Promise<CompletionRun>;
+  retry: (runId: string) => Promise<CompletionRun>;
+  recoverInterrupted: () => Promise<void>;
+}
+
+const DEFAULT_KEEP = 50;
+
+/**
+ * Pick the setting for a torrent; a per-torrent choice beats the global one
+ */
+export function resolveCompletionSetting(
+  global: CompletionSetting,
+  override: CompletionSetting | undefined
+): CompletionSetting {
+  return override ?? global;
+}
+
+function finishStatus(run: CompletionRun): CompletionRun["status"] {
+  return run.links.every((link) => link.status === "delivered") ? "completed" : "failed";
+}
+
+/**
+ * Create the completion pipeline
+ * Concurrent runs share one history; see createSerialStore
+ */
+export function createCompletionPipeline(options: CompletionPipelineOptions): CompletionPipeline {
+  const { load, save, unrestrict, deliver, onChange } = options;
+  const keep = options.keep ?? DEFAULT_KEEP;
+  // Listeners hear about single runs, so notify() is called per run instead
+  const history = createSerialStore({ load, save, label: "[Completion]" });
+
+  function notify(run: CompletionRun): void {
+    try {
+      onChange?.(run);
+    } catch (err) {
+      console.error("[Completion] Change listener failed:", err);
+    }
+  }
+
+  async function updateRun(
+    runId: string,
+    mutate: (run: CompletionRun) => void
+  ): Promise<CompletionRun> {
+    const runs = await history.update((runs) => {
+      const run = runs.find((r) => r.id === runId);
+      if (!run) throw new Error("Completion run not found");
+      mutate(run);
+      return runs;
+    });
+    const run = runs?.find((r) => r.id === runId);
+    if (!run) throw new Error("Completion run not found");
+    notify(run);
+    return run;
+  }
+
+  // Unrestrict and deliver the given links of a run
+  async function process(run: CompletionRun, indices: number[]): Promise<CompletionRun> {
+    const ready: { index: number; link: DeliverableLink }[] = [];
+
+    for (const index of indices) {
+      const result = run.links[index];
+      if (result.download) {
+        ready.push({
+          index,
+          link: { download: result.download, filename: result.filename ?? "", link: result.link },
+        });
+        continue;
+      }
+
+      try {
+        const link = await unrestrict(run.accountId, result.link);
+        ready.push({ index, link });
+        run = await updateRun(run.id, (r) => {
+          r.links[index].download = link.download;
+          r.links[index].filename = link.filename;
+        });
+      } catch (err) {
+        run = await updateRun(run.id, (r) => {
+          r.links[index] = { ...r.links[index], status: "failed", failedStep: "unrestrict", error: describeError(err).message };
+        });
+      }
+    }
+
+    const batches = run.action === "copy" ? [ready] : ready.map((item) => [item]);
+    for (const batch of batches) {
+      if (batch.length === 0) continue;
+      let error: string | null = null;
+      try {
+        await deliver(run.action, batch.map((item) => item.link), run);
+      } catch (err) {
+        error = describeError(err).message;
+      }
+      run = await updateRun(run.id, (r) => {
+        for (const { index } of batch) {
+          r.links[index] = error
+            ? { ...r.links[index], status: "failed", failedStep: "deliver", error }
+            : { ...r.links[index], status: "delivered", failedStep: undefined, error: undefined };
+        }
+      });
+    }
+
+    return updateRun(run.id, (r) => {
+      r.status = finishStatus(r);
+      r.finishedAt = Date.now();
+    });
+  }
+
+  /**
+   * Run the pipeline for a completed torrent; a torrent only runs once
+   */
+  const start: CompletionPipeline["start"] = async (accountId, torrent, action) => {
+    const { run, isNew } = await history.enqueue(async () => {
+      const runs = await load();
+      const existing = runs.find((r) => r.accountId === accountId && r.torrentId === torrent.id);
+      if (existing) return { run: existing, isNew: false };
+
+      const run: CompletionRun = {
+        id: crypto.randomUUID(),
+        accountId,
+        torrentId: torrent.id,
+        filename: torrent.filename,
+        action,
+        status: "running",
+        links: torrent.links.map((link) => ({ link, status: "pending" })),
+        attempts: 1,
+        startedAt: Date.now(),
+      };
+      await save([run, ...runs].slice(0, keep));
+      return { run, isNew: true };
+    });
+
+    if (!isNew) return run;
+    notify(run);
+    return process(run, run.links.map((_, index) => index));
+  };
+
+  /**
+   * Run the failed steps of a run again
+   */
+  const retry: CompletionPipeline["retry"] = async (runId) => {
+    const failed: number[] = [];
+    const run = await updateRun(runId, (r) => {
+      if (r.status === "running") throw new Error("This run is still in progress");
+      r.links.forEach((link, index) => {
+        if (link.status !== "failed") return;
+        failed.push(index);
+        r.links[index] = { ...link, status: "pending", failedStep: undefined, error: undefined };
+      });
+      r.status = "running";
+      r.attempts++;
+      r.finishedAt = undefined;
+    });
+    return process(run, failed);
+  };
+
+  /**
+   * Mark runs cut off by a worker restart as failed so they can be retried
+   */
+  const recoverInterrupted: CompletionPipeline["recoverInterrupted"] = async () => {
+    let interrupted: CompletionRun[] = [];
+    await history.update((runs) => {
+      const stuck = runs.filter((r) => r.status === "running");
+      if (stuck.length === 0) return null;
+
+      for (const run of stuck) {
+        run.links = run.links.map((link) =>
+          link.status === "pending"
+            ? { ...link, status: "failed", failedStep: link.download ? "deliver" : "unrestrict", error: "Interrupted" }
+            : link
+        );
+        run.status = "failed";
+        run.finishedAt = Date.now();
+      }
+      interrupted = stuck;
+      return runs;
+    });
+    interrupted.forEach(notify);
+  };
+
+  return { start, retry, recoverInterrupted };
+}
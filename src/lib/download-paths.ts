@@ -0,0 +1,156 @@
+/**
+ * Download paths
+ * Builds where a file lands inside the browser's download folder from a base
+ * subdirectory and a filename template, e.g. "{torrent}/{season}/{filename}".
+ * Every path segment is sanitised so hoster and torrent names can't produce
+ * a path the downloads API rejects.
+ */
+
+/**
+ * Where a download came from, for template tokens
+ */
+export interface DownloadContext {
+  // Hoster of the original link, e.g. "rapidgator.net"
+  host?: string;
+  // Name of the torrent the file belongs to
+  torrent?: string;
+}
+
+/**
+ * A file to save through the browser's download manager
+ */
+export interface DownloadRequest extends DownloadContext {
+  download: string;
+  filename: string;
+  // The restricted link and torrent it came from, so the transfer can be
+  // retried with a fresh download URL
+  link?: string;
+  torrentId?: string;
+}
+
+export interface DownloadPathSettings {
+  // Subdirectory of the download folder; empty saves to the folder itself
+  directory: string;
+  template: string;
+}
+
+/**
+ * What to do when a file with the same path already exists
+ */
+export type DownloadConflictAction = "uniquify" | "overwrite" | "prompt";
+
+export const DOWNLOAD_CONFLICT_LABELS: Record<DownloadConflictAction, string> = {
+  uniquify: "Keep both (add a number)",
+  overwrite: "Overwrite",
+  prompt: "Ask where to save",
+};
+
+export const DEFAULT_DOWNLOAD_TEMPLATE = "{filename}";
+
+/**
+ * Template tokens and what they stand for
+ */
+export const DOWNLOAD_PATH_TOKENS: Record<string, string> = {
+  "{filename}": "File name with extension",
+  "{name}": "File name without extension",
+  "{ext}": "File extension",
+  "{host}": "Hoster of the link",
+  "{torrent}": "Torrent name",
+  "{date}": "Today's date (YYYY-MM-DD)",
+  "{season}": "Season, e.g. \"Season 01\"",
+};
+
+const MAX_SEGMENT_LENGTH = 120;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+function splitExtension(filename: string): { name: string; ext: string } {
+  const dot = filename.lastIndexOf(".");
+  if (dot <= 0 || dot === filename.length - 1) return { name: filename, ext: "" };
+  return { name: filename.slice(0, dot), ext: filename.slice(dot + 1) };
+}
+
+/**
+ * Make one path segment safe on every platform
+ * Returns an empty string when nothing usable is left.
+ */
+export function sanitizePathSegment(segment: string): string {
+  let safe = segment
+    .replace(/[<>:"/\\|?*\u0000-\u001f\u007f]/g, "_")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+
+  if (RESERVED_NAMES.test(splitExtension(safe).name)) safe = `_${safe}`;
+
+  if (safe.length > MAX_SEGMENT_LENGTH) {
+    // Keep the extension when shortening a file name
+    const { name, ext } = splitExtension(safe);
+    const suffix = ext && ext.length < 10 ? `.${ext}` : "";
+    safe = name.slice(0, MAX_SEGMENT_LENGTH - suffix.length).trimEnd() + suffix;
+  }
+  return safe;
+}
+
+/**
+ * Find the season in a release name ("S01E02", "Season 1")
+ */
+export function extractSeason(name: string): string {
+  const match =
+    name.match(/(?:^|[^a-z0-9])s(\d{1,2})(?:e\d{1,3}|[^a-z0-9]|$)/i) ??
+    name.match(/season[\s._-]*(\d{1,2})/i);
+  return match ? `Season ${match[1].padStart(2, "0")}` : "";
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function toSegments(path: string): string[] {
+  return path
+    .split(/[/\\]/)
+    .map(sanitizePathSegment)
+    .filter(Boolean);
+}
+
+/**
+ * Build the path for a download, relative to the download folder
+ * Tokens with no value (e.g. {torrent} for a hoster link) drop out along
+ * with any directory they leave empty. The file keeps its extension even if
+ * the template leaves it out.
+ */
+export function buildDownloadPath(
+  request: Pick<DownloadRequest, "filename" | "host" | "torrent">,
+  settings: DownloadPathSettings,
+  now = new Date()
+): string {
+  const filename = sanitizePathSegment(request.filename) || "download";
+  const { name, ext } = splitExtension(filename);
+  const values: Record<string, string> = {
+    "{filename}": filename,
+    "{name}": name,
+    "{ext}": ext,
+    "{host}": (request.host ?? "").replace(/^www\./i, ""),
+    "{torrent}": request.torrent ?? "",
+    "{date}": formatDate(now),
+    "{season}": extractSeason(request.filename) || extractSeason(request.torrent ?? ""),
+  };
+
+  // Values can't introduce directories of their own
+  const rendered = (settings.template || DEFAULT_DOWNLOAD_TEMPLATE).replace(
+    /\{[a-z]+\}/gi,
+    (token) => {
+      const value = values[token.toLowerCase()];
+      return value === undefined ? token : value.replace(/[/\\]/g, "_");
+    }
+  );
+
+  const segments = toSegments(rendered);
+  // A template ending in a slash names only directories
+  const last = /[/\\]\s*$/.test(rendered) ? undefined : segments.pop();
+  let file = last || filename;
+  if (ext && !file.toLowerCase().endsWith(`.${ext.toLowerCase()}`)) {
+    file = sanitizePathSegment(`${file}.${ext}`);
+  }
+
+  return [...toSegments(settings.directory), ...segments, file].join("/");
+}
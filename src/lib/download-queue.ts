@@ -0,0 +1,197 @@
+/**
+ * Download queue
+ * Batch downloads (torrent packs, "Download All") wait here and are handed
+ * to the browser a few at a time, highest priority first. The queue is
+ * persisted, so a long batch carries on after the browser restarts.
+ */
+
+import { describeError } from "./api/errors";
+import type { DownloadRequest } from "./download-paths";
+import { createSerialStore } from "./serial-store";
+
+export type DownloadPriority = "high" | "normal" | "low";
+
+export const DOWNLOAD_PRIORITIES: DownloadPriority[] = ["high", "normal", "low"];
+
+/**
+ * A file to queue; without a download URL the restricted link is
+ * unrestricted when the file's turn comes, so long queues don't hold links
+ * that expire while waiting
+ */
+export type QueueRequest = Omit<DownloadRequest, "download" | "filename"> & {
+  download?: string;
+  filename?: string;
+};
+
+export interface QueuedDownload {
+  id: string;
+  request: QueueRequest;
+  accountId?: string;
+  priority: DownloadPriority;
+  addedAt: number;
+  // Why the last attempt to start it failed; failed items wait for a retry
+  error?: string;
+}
+
+export interface DownloadQueueState {
+  items: QueuedDownload[];
+  paused: boolean;
+}
+
+export type QueueMove = "up" | "down" | "top" | "bottom";
+
+export const EMPTY_DOWNLOAD_QUEUE: DownloadQueueState = { items: [], paused: false };
+
+export interface DownloadQueueOptions {
+  load: () => Promise<DownloadQueueState>;
+  save: (state: DownloadQueueState) => Promise<void>;
+  // Hand a file to the browser
+  start: (item: QueuedDownload) => Promise<void>;
+  // Downloads currently using a slot
+  countActive: () => Promise<number>;
+  getMaxConcurrent: () => Promise<number>;
+  onChange?: (state: DownloadQueueState) => void;
+}
+
+export interface DownloadQueue {
+  add: (requests: QueueRequest[], options?: { accountId?: string; priority?: DownloadPriority }) => Promise<void>;
+  // Start queued files while slots are free
+  pump: () => Promise<void>;
+  setPaused: (paused: boolean) => Promise<void>;
+  move: (id: string, move: QueueMove) => Promise<void>;
+  setPriority: (id: string, priority: DownloadPriority) => Promise<void>;
+  // Clear a failed item's error so it is tried again
+  retry: (id: string) => Promise<void>;
+  remove: (ids: string[]) => Promise<void>;
+  get: () => Promise<DownloadQueueState>;
+}
+
+const PRIORITY_RANK: Record<DownloadPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * Items in the order they will start: by priority, then queue position
+ */
+export function orderQueue(items: QueuedDownload[]): QueuedDownload[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => PRIORITY_RANK[a.item.priority] - PRIORITY_RANK[b.item.priority] || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+/**
+ * Display name of a queued file
+ */
+export function getQueuedName(item: QueuedDownload): string {
+  const { request } = item;
+  if (request.filename) return request.filename;
+  const link = request.link ?? request.download ?? "";
+  try {
+    return decodeURIComponent(new URL(link).pathname.split("/").pop() || link);
+  } catch {
+    return link;
+  }
+}
+
+/**
+ * Create the download queue
+ * Pumps run in line with every other change, so two never start the same file
+ */
+export function createDownloadQueue(options: DownloadQueueOptions): DownloadQueue {
+  const { load, save, start, countActive, getMaxConcurrent, onChange } = options;
+  const store = createSerialStore({ load, save, onChange, label: "[DownloadQueue]" });
+
+  async function update(mutate: (state: DownloadQueueState) => void): Promise<void> {
+    await store.update((state) => {
+      mutate(state);
+      return state;
+    });
+  }
+
+  const pump: DownloadQueue["pump"] = async () => {
+    await store.update(async (state) => {
+      if (state.paused || !state.items.some((item) => !item.error)) return null;
+
+      let free = (await getMaxConcurrent()) - (await countActive());
+      let changed = false;
+
+      for (const item of orderQueue(state.items)) {
+        if (free <= 0) break;
+        if (item.error) continue;
+
+        try {
+          await start(item);
+          state.items = state.items.filter((i) => i.id !== item.id);
+          free--;
+        } catch (err) {
+          item.error = describeError(err).message;
+        }
+        changed = true;
+      }
+
+      return changed ? state : null;
+    });
+  };
+
+  const add: DownloadQueue["add"] = async (requests, addOptions = {}) => {
+    if (requests.length === 0) return;
+    const now = Date.now();
+    await update((state) => {
+      state.items.push(
+        ...requests.map((request) => ({
+          id: crypto.randomUUID(),
+          request,
+          accountId: addOptions.accountId,
+          priority: addOptions.priority ?? "normal",
+          addedAt: now,
+        }))
+      );
+    });
+    await pump();
+  };
+
+  const setPaused: DownloadQueue["setPaused"] = async (paused) => {
+    await update((state) => {
+      state.paused = paused;
+    });
+    if (!paused) await pump();
+  };
+
+  // Moves happen within the start order, so an item never passes one of a
+  // higher priority
+  const move: DownloadQueue["move"] = (id, direction) =>
+    update((state) => {
+      state.items = orderQueue(state.items);
+      const index = state.items.findIndex((item) => item.id === id);
+      if (index === -1) return;
+      const [item] = state.items.splice(index, 1);
+      const target =
+        direction === "top" ? 0
+        : direction === "bottom" ? state.items.length
+        : direction === "up" ? Math.max(0, index - 1)
+        : Math.min(state.items.length, index + 1);
+      state.items.splice(target, 0, item);
+    });
+
+  const setPriority: DownloadQueue["setPriority"] = (id, priority) =>
+    update((state) => {
+      const item = state.items.find((i) => i.id === id);
+      if (item) item.priority = priority;
+    });
+
+  const retry: DownloadQueue["retry"] = async (id) => {
+    await update((state) => {
+      const item = state.items.find((i) => i.id === id);
+      if (item) item.error = undefined;
+    });
+    await pump();
+  };
+
+  const remove: DownloadQueue["remove"] = (ids) =>
+    update((state) => {
+      state.items = state.items.filter((item) => !ids.includes(item.id));
+    });
+
+  const get: DownloadQueue["get"] = store.read;
+
+  return { add, pump, setPaused, move, setPriority, retry, remove, get };
+}
@@ -0,0 +1,154 @@
+/**
+ * Rule-based file selection
+ * Decides which files of a torrent to download, so samples, .nfo files and
+ * extras can be skipped. Used for automatic selection in the background and
+ * to preselect files in the file selection dialogs.
+ */
+
+import type { TorrentFile } from "./api/torrents";
+
+export interface FileSelectionRules {
+  // Extensions ("mkv") or globs ("*/Season 1/*"); empty means every file
+  include: string[];
+  exclude: string[];
+  // Smaller files are skipped; 0 turns the limit off
+  minSizeMB: number;
+  // Keep only the largest video when the torrent has any
+  largestVideoOnly: boolean;
+  skipSamples: boolean;
+  // Words in a file's path that mark it as a sample or extra
+  samplePatterns: string[];
+}
+
+export const DEFAULT_FILE_SELECTION_RULES: FileSelectionRules = {
+  include: [],
+  exclude: ["nfo", "txt", "url", "exe"],
+  minSizeMB: 0,
+  largestVideoOnly: false,
+  skipSamples: true,
+  samplePatterns: ["sample", "trailer"],
+};
+
+export interface FileSelectionResult {
+  selectedIds: number[];
+  // Why each skipped file was left out, by file id
+  reasons: Record<number, string>;
+}
+
+export const VIDEO_EXTENSIONS = [
+  "mkv", "mp4", "m4v", "avi", "mov", "wmv", "webm", "flv", "ts", "m2ts", "mpg", "mpeg",
+];
+
+const MB = 1024 * 1024;
+
+function getExtension(path: string): string {
+  const name = path.split("/").pop() ?? "";
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot + 1).toLowerCase();
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?/]/.test(pattern) && !/^\*\.[^*?/]+$/.test(pattern);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*/g, "\u0000")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]")
+    .replace(/\u0000/g, ".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Does a file path match an extension or glob pattern
+ * Globs without a slash match the file name, others the full path
+ */
+export function matchesFilePattern(path: string, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return false;
+
+  if (!isGlob(trimmed)) {
+    return getExtension(path) === trimmed.replace(/^\*?\./, "").toLowerCase();
+  }
+
+  const relativePath = path.replace(/^\/+/, "");
+  const subject = trimmed.includes("/") ? relativePath : relativePath.split("/").pop() ?? "";
+  return globToRegExp(trimmed.replace(/^\/+/, "")).test(subject);
+}
+
+function matchesSamplePattern(path: string, patterns: string[]): string | null {
+  for (const pattern of patterns) {
+    const word = pattern.trim();
+    if (!word) continue;
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    if (new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`, "i").test(path)) return word;
+  }
+  return null;
+}
+
+function getSkipReason(file: TorrentFile, rules: FileSelectionRules): string | null {
+  if (rules.include.length > 0 && !rules.include.some((p) => matchesFilePattern(file.path, p))) {
+    return "Not in included types";
+  }
+
+  const excludedBy = rules.exclude.find((p) => matchesFilePattern(file.path, p));
+  if (excludedBy) return `Excluded (${excludedBy.trim()})`;
+
+  if (rules.minSizeMB > 0 && file.bytes < rules.minSizeMB * MB) {
+    return `Smaller than ${rules.minSizeMB} MB`;
+  }
+
+  if (rules.skipSamples) {
+    const sample = matchesSamplePattern(file.path, rules.samplePatterns);
+    if (sample) return `Looks like a ${sample}`;
+  }
+
+  return null;
+}
+
+/**
+ * Apply selection rules to a torrent's files
+ * `selectedIds` can be empty when the rules leave nothing to download; the
+ * torrent then needs a manual choice.
+ */
+export function applyFileSelectionRules(
+  files: TorrentFile[],
+  rules: FileSelectionRules
+): FileSelectionResult {
+  const reasons: Record<number, string> = {};
+  let selected: TorrentFile[] = [];
+
+  for (const file of files) {
+    const reason = getSkipReason(file, rules);
+    if (reason) {
+      reasons[file.id] = reason;
+    } else {
+      selected.push(file);
+    }
+  }
+
+  if (rules.largestVideoOnly) {
+    const videos = selected.filter((f) => VIDEO_EXTENSIONS.includes(getExtension(f.path)));
+    if (videos.length > 0) {
+      const largest = videos.reduce((a, b) => (b.bytes > a.bytes ? b : a));
+      selected.forEach((f) => {
+        if (f !== largest) reasons[f.id] = "Not the largest video";
+      });
+      selected = [largest];
+    }
+  }
+
+  return { selectedIds: selected.map((f) => f.id), reasons };
+}
+
+/**
+ * Parse a comma-separated list from a settings field
+ */
+export function parsePatternList(text: string): string[] {
+  return text
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,271 @@
+/**
+ * Background jobs
+ * Long-running work over many items (e.g. bulk torrent actions) runs in the
+ * background so it survives the view that started it, reports progress after
+ * every item and keeps a per-item result for the final report. Jobs are
+ * persisted, so a report outlives the service worker; work cut short by the
+ * worker stopping is marked interrupted rather than lost.
+ */
+
+import type { JobProgress } from "./live";
+
+/**
+ * Bulk actions on selected torrents
+ */
+export type BulkTorrentAction =
+  | "delete"
+  | "select_files"
+  | "unrestrict"
+  | "copy_links"
+  | "export_magnets";
+
+/**
+ * A torrent picked for a bulk action
+ * Carries what the UI already knows so the job doesn't have to look it up
+ */
+export interface BulkTorrentTarget {
+  id: string;
+  filename: string;
+  hash: string;
+}
+
+/**
+ * Outcome for one item of a job
+ */
+export interface JobItemResult {
+  id: string;
+  label: string;
+  status: "pending" | "success" | "failed" | "skipped";
+  error?: string;
+  // Text the job produced for this item, e.g. links or magnets
+  output?: string[];
+}
+
+/**
+ * A job and its per-item report
+ */
+export interface Job extends JobProgress {
+  accountId?: string;
+  items: JobItemResult[];
+  createdAt: number;
+  finishedAt?: number;
+}
+
+/**
+ * Does the work for one item; returns any output to collect
+ */
+export type JobWorker<T> = (
+  item: T,
+  signal: AbortSignal
+) => Promise<string[] | void>;
+
+export interface JobRunnerOptions {
+  // Called after every change to a job
+  onProgress?: (job: Job) => void;
+  // Finished jobs to keep around for their reports
+  keepFinished?: number;
+  // Restore jobs, e.g. from extension storage
+  load?: () => Promise<Job[]>;
+  // Persist every job after each change
+  save?: (jobs: Job[]) => Promise<void>;
+}
+
+export interface JobRunner {
+  start: <T extends { id: string }>(
+    kind: string,
+    items: T[],
+    worker: JobWorker<T>,
+    options?: { accountId?: string; getLabel?: (item: T) => string }
+  ) => Job;
+  get: (id: string) => Promise<Job | null>;
+  list: () => Promise<Job[]>;
+  cancel: (id: string) => boolean;
+  ready: Promise<void>;
+}
+
+const DEFAULT_KEEP_FINISHED = 10;
+
+/**
+ * Strip a job down to what live progress updates carry
+ */
+export function toJobProgress(job: Job): JobProgress {
+  const { id, kind, status, total, done, failed } = job;
+  return { id, kind, status, total, done, failed };
+}
+
+function copyJob(job: Job): Job {
+  return { ...job, items: job.items.map((item) => ({ ...item })) };
+}
+
+/**
+ * Mark a job that was running when the service worker stopped
+ * Its workers went with the worker, so the rest of its items never ran
+ */
+function interruptJob(job: Job): Job {
+  return {
+    ...job,
+    status: "interrupted",
+    finishedAt: Date.now(),
+    items: job.items.map((item) => (item.status === "pending" ? { ...item, status: "skipped" } : item)),
+  };
+}
+
+/**
+ * Create a job runner
+ * Items of a job run one after another; API calls made by workers should use
+ * the "bulk" priority so interactive requests stay responsive
+ */
+export function createJobRunner(options: JobRunnerOptions = {}): JobRunner {
+  const { onProgress, load, save } = options;
+  const keepFinished = options.keepFinished ?? DEFAULT_KEEP_FINISHED;
+  const jobs = new Map<string, Job>();
+  const controllers = new Map<string, AbortController>();
+
+  const ready = (async () => {
+    if (!load) return;
+    try {
+      const restored = await load();
+      const interrupted: Job[] = [];
+      for (const saved of restored) {
+        // Jobs started while loading are newer than anything saved
+        if (jobs.has(saved.id)) continue;
+        const job = saved.status === "running" ? interruptJob(saved) : saved;
+        if (job !== saved) interrupted.push(job);
+        jobs.set(job.id, job);
+      }
+      pruneFinished();
+      interrupted.forEach(notify);
+    } catch (err) {
+      console.error("[Jobs] Failed to restore jobs:", err);
+    }
+  })();
+
+  // Saves run one after another so an earlier write can't land last, and
+  // wait for the restore so a job started meanwhile can't drop saved ones
+  let saving: Promise<void> = ready;
+  let savePending = false;
+
+  /**
+   * Queue a save of every job; changes made while a save is queued ride along
+   */
+  function persist(): void {
+    if (!save || savePending) return;
+    savePending = true;
+    saving = saving.then(async () => {
+      savePending = false;
+      try {
+        await save([...jobs.values()].map(copyJob));
+      } catch (err) {
+        console.error("[Jobs] Failed to persist jobs:", err);
+      }
+    });
+  }
+
+  function notify(job: Job): void {
+    persist();
+    try {
+      onProgress?.(copyJob(job));
+    } catch (err) {
+      console.error("[Jobs] Progress listener failed:", err);
+    }
+  }
+
+  function pruneFinished(): void {
+    const finished = [...jobs.values()]
+      .filter((job) => job.status !== "running")
+      .sort((a, b) => (b.finishedAt ?? 0) - (a.finishedAt ?? 0));
+    finished.slice(keepFinished).forEach((job) => jobs.delete(job.id));
+    persist();
+  }
+
+  async function run<T extends { id: string }>(
+    job: Job,
+    items: T[],
+    worker: JobWorker<T>,
+    signal: AbortSignal
+  ): Promise<void> {
+    for (let i = 0; i < items.length; i++) {
+      const result = job.items[i];
+      if (signal.aborted) {
+        result.status = "skipped";
+        continue;
+      }
+
+      try {
+        const output = await worker(items[i], signal);
+        result.status = "success";
+        if (output && output.length > 0) result.output = output;
+      } catch (err) {
+        if (signal.aborted) {
+          result.status = "skipped";
+          continue;
+        }
+        result.status = "failed";
+        result.error = err instanceof Error ? err.message : String(err);
+        job.failed++;
+      }
+      job.done++;
+      notify(job);
+    }
+
+    job.status = signal.aborted
+      ? "cancelled"
+      : job.failed === job.total && job.total > 0
+        ? "failed"
+        : "completed";
+    job.finishedAt = Date.now();
+    controllers.delete(job.id);
+    notify(job);
+    pruneFinished();
+  }
+
+  const start: JobRunner["start"] = (kind, items, worker, startOptions = {}) => {
+    const { accountId, getLabel } = startOptions;
+    const job: Job = {
+      id: crypto.randomUUID(),
+      kind,
+      status: "running",
+      total: items.length,
+      done: 0,
+      failed: 0,
+      accountId,
+      items: items.map((item) => ({
+        id: item.id,
+        label: getLabel ? getLabel(item) : item.id,
+        status: "pending",
+      })),
+      createdAt: Date.now(),
+    };
+
+    const controller = new AbortController();
+    jobs.set(job.id, job);
+    controllers.set(job.id, controller);
+    notify(job);
+
+    run(job, items, worker, controller.signal).catch((err) => {
+      console.error("[Jobs] Job failed:", err);
+    });
+
+    return copyJob(job);
+  };
+
+  const get: JobRunner["get"] = async (id) => {
+    await ready;
+    const job = jobs.get(id);
+    return job ? copyJob(job) : null;
+  };
+
+  const list: JobRunner["list"] = async () => {
+    await ready;
+    return [...jobs.values()].map(copyJob);
+  };
+
+  const cancel: JobRunner["cancel"] = (id) => {
+    const controller = controllers.get(id);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  };
+
+  return { start, get, list, cancel, ready };
+}
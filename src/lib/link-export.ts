@@ -0,0 +1,104 @@
+/**
+ * Link export
+ * Turns unrestricted links or download history entries into files other
+ * download managers can import: aria2 input files, JDownloader crawljobs,
+ * IDM/EF2 batches, wget/curl scripts and CSV.
+ */
+
+import { sanitizePathSegment } from "./download-paths";
+
+/**
+ * What an export needs of a link; UnrestrictedLink and DownloadItem both fit
+ */
+export interface ExportableLink {
+  download: string;
+  filename: string;
+  filesize?: number;
+  host?: string;
+  // The restricted link it was unrestricted from
+  link?: string;
+}
+
+export type ExportFormat = "text" | "aria2" | "crawljob" | "ef2" | "wget" | "curl" | "csv";
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  text: { label: "Plain text", extension: "txt", mimeType: "text/plain" },
+  aria2: { label: "aria2 input file", extension: "aria2.txt", mimeType: "text/plain" },
+  crawljob: { label: "JDownloader crawljob", extension: "crawljob", mimeType: "application/json" },
+  ef2: { label: "IDM / EF2", extension: "ef2", mimeType: "text/plain" },
+  wget: { label: "wget script", extension: "sh", mimeType: "text/x-shellscript" },
+  curl: { label: "curl script", extension: "sh", mimeType: "text/x-shellscript" },
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+};
+
+// File name to save under; never a path
+function getSafeName(link: ExportableLink): string {
+  return sanitizePathSegment(link.filename) || "download";
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toShellScript(links: ExportableLink[], command: (link: ExportableLink) => string): string {
+  return ["#!/bin/sh", "set -e", "", ...links.map(command), ""].join("\n");
+}
+
+/**
+ * Render links in an export format
+ */
+export function exportLinks(links: ExportableLink[], format: ExportFormat): string {
+  switch (format) {
+    case "text":
+      return links.map((link) => link.download).join("\n");
+    case "aria2":
+      return links.map((link) => `${link.download}\n  out=${getSafeName(link)}`).join("\n") + "\n";
+    case "crawljob":
+      // JDownloader's folder watch reads a JSON array of jobs
+      return JSON.stringify(
+        links.map((link) => ({
+          text: link.download,
+          filename: getSafeName(link),
+          enabled: "TRUE",
+          autoStart: "TRUE",
+          autoConfirm: "TRUE",
+        })),
+        null,
+        2
+      );
+    case "ef2":
+      // IDM expects Windows line endings
+      return links
+        .map((link) => ["<", link.download, `filename: ${getSafeName(link)}`, ">"].join("\r\n"))
+        .join("\r\n") + "\r\n";
+    case "wget":
+      return toShellScript(links, (link) => `wget -c -O ${shellQuote(getSafeName(link))} ${shellQuote(link.download)}`);
+    case "curl":
+      return toShellScript(links, (link) => `curl -fL -C - -o ${shellQuote(getSafeName(link))} ${shellQuote(link.download)}`);
+    case "csv":
+      return [
+        "filename,size,host,url,source",
+        ...links.map((link) =>
+          [link.filename, link.filesize, link.host, link.download, link.link].map(csvField).join(",")
+        ),
+      ].join("\r\n") + "\r\n";
+  }
+}
+
+/**
+ * File name for a saved export, e.g. "links.crawljob"
+ */
+export function getExportFilename(format: ExportFormat, baseName = "links"): string {
+  return `${sanitizePathSegment(baseName) || "links"}.${EXPORT_FORMATS[format].extension}`;
+}
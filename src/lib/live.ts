@@ -0,0 +1,287 @@
+/**
+ * Live updates from the background over long-lived ports
+ * The background polls once and pushes torrent snapshots, progress deltas,
+ * account changes and job progress to every open view, so API traffic
+ * doesn't grow with the number of popups and dashboard tabs.
+ */
+
+import type { TorrentItem } from "./api/torrents";
+import type { DownloadQueueState } from "./download-queue";
+import type { DetectedLink } from "./messaging";
+import type { Transfer } from "./transfers";
+
+export const LIVE_PORT_NAME = "live-updates";
+
+// Delay before reconnecting after the background went away (e.g. restarted)
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Event groups a view can subscribe to
+ */
+export type LiveTopic = "torrents" | "auth" | "jobs" | "transfers" | "links";
+
+/**
+ * Progress of a long-running background job
+ */
+export interface JobProgress {
+  id: string;
+  kind: string;
+  // "interrupted": the service worker stopped mid-job; see createJobRunner
+  status: "running" | "completed" | "failed" | "cancelled" | "interrupted";
+  total: number;
+  done: number;
+  failed: number;
+}
+
+/**
+ * Recent torrents for the active account as of the last poll
+ */
+export interface TorrentsSnapshotEvent {
+  type: "TORRENTS_SNAPSHOT";
+  accountId: string;
+  torrents: TorrentItem[];
+  totalCount: number;
+  at: number;
+}
+
+/**
+ * Changes since the previous snapshot
+ * `added` are torrents that didn't exist before, `updated` known ones whose
+ * status or progress moved (or older ones seen for the first time)
+ */
+export interface TorrentsDeltaEvent {
+  type: "TORRENTS_DELTA";
+  accountId: string;
+  added: TorrentItem[];
+  updated: TorrentItem[];
+  removed: string[];
+  totalCount: number;
+  at: number;
+}
+
+export interface AuthChangedEvent {
+  type: "AUTH_CHANGED";
+  activeAccountId: string | null;
+  accountIds: string[];
+}
+
+export interface JobProgressEvent {
+  type: "JOB_PROGRESS";
+  job: JobProgress;
+}
+
+/**
+ * Files in the browser's download manager, sent whole on every change
+ */
+export interface TransfersSnapshotEvent {
+  type: "TRANSFERS_SNAPSHOT";
+  transfers: Transfer[];
+}
+
+/**
+ * Files waiting for a free download slot
+ */
+export interface DownloadQueueEvent {
+  type: "DOWNLOAD_QUEUE";
+  queue: DownloadQueueState;
+}
+
+/**
+ * A tab's detected links, sent whole when auto-unrestrict resolves one
+ */
+export interface DetectedLinksEvent {
+  type: "DETECTED_LINKS";
+  tabId: number;
+  links: DetectedLink[];
+}
+
+export type LiveEvent =
+  | TorrentsSnapshotEvent
+  | TorrentsDeltaEvent
+  | AuthChangedEvent
+  | JobProgressEvent
+  | TransfersSnapshotEvent
+  | DownloadQueueEvent
+  | DetectedLinksEvent;
+
+export type LiveEventType = LiveEvent["type"];
+
+export const LIVE_EVENT_TOPICS: Record<LiveEventType, LiveTopic> = {
+  TORRENTS_SNAPSHOT: "torrents",
+  TORRENTS_DELTA: "torrents",
+  AUTH_CHANGED: "auth",
+  JOB_PROGRESS: "jobs",
+  TRANSFERS_SNAPSHOT: "transfers",
+  DOWNLOAD_QUEUE: "transfers",
+  DETECTED_LINKS: "links",
+};
+
+/**
+ * Messages a view sends over its port
+ */
+export type LiveClientMessage =
+  | { type: "SUBSCRIBE"; topics: LiveTopic[] }
+  // Ask for a fresh poll, e.g. after adding a torrent
+  | { type: "REFRESH_TORRENTS" };
+
+// ============================================
+// TORRENT LIST DIFFING
+// ============================================
+
+function hasTorrentChanged(previous: TorrentItem, next: TorrentItem): boolean {
+  return (
+    previous.status !== next.status ||
+    previous.progress !== next.progress ||
+    previous.speed !== next.speed ||
+    previous.seeders !== next.seeders ||
+    previous.filename !== next.filename ||
+    previous.links.length !== next.links.length
+  );
+}
+
+/**
+ * Diff two torrent lists
+ * Torrents missing from `next` only count as removed when it is complete;
+ * a partial poll simply didn't reach them
+ */
+export function diffTorrentLists(
+  previous: TorrentItem[],
+  next: TorrentItem[],
+  complete: boolean
+): { added: TorrentItem[]; updated: TorrentItem[]; removed: string[]; merged: TorrentItem[] } {
+  const previousById = new Map(previous.map((t) => [t.id, t]));
+  const nextIds = new Set(next.map((t) => t.id));
+  // New torrents are newer than everything seen before; older unknown ones
+  // were just beyond the pages an earlier poll walked
+  const newestPrevious = Math.max(0, ...previous.map((t) => Date.parse(t.added) || 0));
+  const added: TorrentItem[] = [];
+  const updated: TorrentItem[] = [];
+
+  for (const torrent of next) {
+    const known = previousById.get(torrent.id);
+    if (!known) {
+      if ((Date.parse(torrent.added) || 0) > newestPrevious) {
+        added.push(torrent);
+      } else {
+        updated.push(torrent);
+      }
+    } else if (hasTorrentChanged(known, torrent)) {
+      updated.push(torrent);
+    }
+  }
+
+  const unseen = previous.filter((t) => !nextIds.has(t.id));
+  const removed = complete ? unseen.map((t) => t.id) : [];
+  const merged = complete ? next : [...next, ...unseen];
+
+  return { added, updated, removed, merged };
+}
+
+/**
+ * Apply a delta to a list a view already shows
+ * New torrents go on top, matching the API's newest-first order
+ */
+export function applyTorrentsDelta(
+  torrents: TorrentItem[],
+  delta: Pick<TorrentsDeltaEvent, "added" | "updated" | "removed">
+): TorrentItem[] {
+  const changed = new Map(
+    [...delta.added, ...delta.updated].map((t) => [t.id, t])
+  );
+  const removed = new Set(delta.removed);
+  const existingIds = new Set(torrents.map((t) => t.id));
+
+  const fresh = delta.added.filter((t) => !existingIds.has(t.id));
+  const kept = torrents
+    .filter((t) => !removed.has(t.id))
+    .map((t) => changed.get(t.id) ?? t);
+
+  return [...fresh, ...kept];
+}
+
+// ============================================
+// CLIENT (popup, dashboard)
+// ============================================
+
+type LiveListener = (event: LiveEvent) => void;
+
+interface Subscription {
+  topics: LiveTopic[];
+  listener: LiveListener;
+}
+
+const subscriptions = new Set<Subscription>();
+let port: chrome.runtime.Port | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getSubscribedTopics(): LiveTopic[] {
+  const topics = new Set<LiveTopic>();
+  subscriptions.forEach((s) => s.topics.forEach((topic) => topics.add(topic)));
+  return [...topics];
+}
+
+function postToPort(message: LiveClientMessage): void {
+  try {
+    port?.postMessage(message);
+  } catch (err) {
+    // Port closed underneath us; onDisconnect reconnects
+  }
+}
+
+function connect(): void {
+  if (port || subscriptions.size === 0) return;
+
+  port = chrome.runtime.connect({ name: LIVE_PORT_NAME });
+  port.onMessage.addListener((event: LiveEvent) => {
+    const topic = LIVE_EVENT_TOPICS[event.type];
+    subscriptions.forEach((s) => {
+      if (s.topics.includes(topic)) s.listener(event);
+    });
+  });
+  port.onDisconnect.addListener(() => {
+    port = null;
+    // Touch lastError so Chrome doesn't log it as unchecked
+    void chrome.runtime.lastError;
+    if (subscriptions.size > 0 && !reconnectTimer) {
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, RECONNECT_DELAY_MS);
+    }
+  });
+  postToPort({ type: "SUBSCRIBE", topics: getSubscribedTopics() });
+}
+
+/**
+ * Subscribe to live events; all subscriptions in a page share one port
+ * Returns an unsubscribe function
+ */
+export function subscribeLive(topics: LiveTopic[], listener: LiveListener): () => void {
+  const subscription: Subscription = { topics, listener };
+  subscriptions.add(subscription);
+
+  if (port) {
+    postToPort({ type: "SUBSCRIBE", topics: getSubscribedTopics() });
+  } else {
+    connect();
+  }
+
+  return () => {
+    subscriptions.delete(subscription);
+    if (subscriptions.size === 0) {
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      port?.disconnect();
+      port = null;
+    }
+  };
+}
+
+/**
+ * Ask the background to poll torrents now; the result arrives as live events
+ */
+export function requestTorrentsRefresh(): void {
+  postToPort({ type: "REFRESH_TORRENTS" });
+}
@@ -2,13 +2,25 @@
  * Type-safe messaging between background script and popup/content scripts
  */
 
+import { REQUEST_CANCELLED_STATUS, REQUEST_TIMEOUT_STATUS } from "./api/status";
 import type { DownloadItem } from "./api/downloads";
 import type { HostInfo } from "./api/hosts";
+import type { Page } from "./api/pagination";
+import type { RateLimitStatus } from "./api/rate-limiter";
 import type { TranscodeQuality, MediaInfo } from "./api/streaming";
 import type { TrafficInfo, TrafficDetails } from "./api/traffic";
 import type { TorrentItem, TorrentInfo, AddMagnetResponse } from "./api/torrents";
 import type { UnrestrictedLink, LinkCheckResult } from "./api/unrestrict";
 import type { UserProfile } from "./api/user";
+import type { Aria2SendResult } from "./aria2";
+import type { AutoUnrestrictState } from "./auto-unrestrict";
+import type { Playlist, PlaylistFile } from "./playlist";
+import type { StreamingSupport } from "./streaming-support";
+import type { DownloadRequest } from "./download-paths";
+import type { DownloadPriority, QueueMove, QueueRequest } from "./download-queue";
+import type { TransferControl } from "./transfers";
+import type { BulkTorrentAction, BulkTorrentTarget, Job } from "./jobs";
+import type { AccountSummary } from "./storage";
 
 /**
  * Detected link from page scanning
@@ -17,6 +29,8 @@ export interface DetectedLink {
   url: string;
   host: string;
   type: "hoster" | "magnet";
+  // Set when auto-unrestrict has picked up the link
+  autoUnrestrict?: AutoUnrestrictState;
 }
 
 /**
@@ -27,6 +41,11 @@ export type MessageType =
   | "AUTH_STATUS"
   | "AUTH_LOGIN"
   | "AUTH_LOGOUT"
+  // Accounts
+  | "LIST_ACCOUNTS"
+  | "SWITCH_ACCOUNT"
+  | "RENAME_ACCOUNT"
+  | "REMOVE_ACCOUNT"
   // User
   | "GET_USER_PROFILE"
   | "GET_USER_SETTINGS"
@@ -40,17 +59,38 @@ export type MessageType =
   // Streaming
   | "GET_TRANSCODE_LINKS"
   | "GET_MEDIA_INFO"
+  | "BUILD_PLAYLIST"
+  | "GET_STREAMING_SUPPORT"
   // Torrents
   | "LIST_TORRENTS"
+  | "LIST_TORRENTS_PAGE"
   | "GET_TORRENT_INFO"
   | "ADD_MAGNET"
   | "ADD_TORRENT"
   | "SELECT_TORRENT_FILES"
   | "DELETE_TORRENT"
   | "GET_ACTIVE_TORRENT_COUNT"
+  // Jobs
+  | "START_BULK_TORRENT_JOB"
+  | "GET_JOB"
+  | "CANCEL_JOB"
+  // Completion pipeline
+  | "RETRY_COMPLETION"
   // Downloads
   | "LIST_DOWNLOADS"
+  | "LIST_DOWNLOADS_PAGE"
   | "DELETE_DOWNLOAD"
+  | "DOWNLOAD_FILE"
+  | "CONTROL_TRANSFER"
+  | "RETRY_TRANSFER"
+  | "REMOVE_TRANSFERS"
+  | "QUEUE_DOWNLOADS"
+  | "UPDATE_QUEUED_DOWNLOAD"
+  | "REMOVE_QUEUED_DOWNLOADS"
+  | "SET_DOWNLOADS_PAUSED"
+  // aria2
+  | "SEND_TO_ARIA2"
+  | "TEST_ARIA2"
   // Hosts
   | "GET_HOSTS_REGEX"
   | "GET_HOSTS_DOMAINS"
@@ -58,13 +98,17 @@ export type MessageType =
   // Traffic
   | "GET_TRAFFIC"
   | "GET_TRAFFIC_DETAILS"
+  // Rate limit
+  | "GET_RATE_LIMIT_STATUS"
   // Notifications
   | "SHOW_NOTIFICATION"
   // Content Script
   | "SCAN_PAGE_LINKS"
   // Auto-scan
   | "REPORT_DETECTED_LINKS"
-  | "GET_DETECTED_LINKS";
+  | "GET_DETECTED_LINKS"
+  // Cancellation
+  | "CANCEL_REQUEST";
 
 /**
  * Base message structure
@@ -72,6 +116,10 @@ export type MessageType =
 interface BaseMessage<T extends MessageType, P = undefined> {
   type: T;
   payload: P;
+  // Set when the sender may cancel the request
+  requestId?: string;
+  // Account to act on; defaults to the active account
+  accountId?: string;
 }
 
 /**
@@ -82,6 +130,11 @@ export type Message =
   | BaseMessage<"AUTH_STATUS">
   | BaseMessage<"AUTH_LOGIN", { token: string }>
   | BaseMessage<"AUTH_LOGOUT">
+  // Account messages
+  | BaseMessage<"LIST_ACCOUNTS">
+  | BaseMessage<"SWITCH_ACCOUNT", { id: string }>
+  | BaseMessage<"RENAME_ACCOUNT", { id: string; label: string }>
+  | BaseMessage<"REMOVE_ACCOUNT", { id: string }>
   // User messages
   | BaseMessage<"GET_USER_PROFILE">
   | BaseMessage<"GET_USER_SETTINGS">
@@ -95,17 +148,38 @@ export type Message =
   // Streaming messages
   | BaseMessage<"GET_TRANSCODE_LINKS", { id: string }>
   | BaseMessage<"GET_MEDIA_INFO", { id: string }>
+  | BaseMessage<"BUILD_PLAYLIST", { links?: string[]; files?: PlaylistFile[] }>
+  | BaseMessage<"GET_STREAMING_SUPPORT", { refresh?: boolean } | undefined>
   // Torrent messages
   | BaseMessage<"LIST_TORRENTS", { offset?: number; limit?: number } | undefined>
+  | BaseMessage<"LIST_TORRENTS_PAGE", { page: number; limit?: number; filter?: string }>
   | BaseMessage<"GET_TORRENT_INFO", { id: string }>
   | BaseMessage<"ADD_MAGNET", { magnet: string }>
   | BaseMessage<"ADD_TORRENT", { fileData: ArrayBuffer }>
   | BaseMessage<"SELECT_TORRENT_FILES", { id: string; files: string | number[] }>
   | BaseMessage<"DELETE_TORRENT", { id: string }>
   | BaseMessage<"GET_ACTIVE_TORRENT_COUNT">
+  // Job messages
+  | BaseMessage<"START_BULK_TORRENT_JOB", { action: BulkTorrentAction; torrents: BulkTorrentTarget[] }>
+  | BaseMessage<"GET_JOB", { id: string }>
+  | BaseMessage<"CANCEL_JOB", { id: string }>
+  // Completion pipeline messages
+  | BaseMessage<"RETRY_COMPLETION", { id: string }>
   // Download messages
   | BaseMessage<"LIST_DOWNLOADS", { offset?: number; limit?: number } | undefined>
+  | BaseMessage<"LIST_DOWNLOADS_PAGE", { page: number; limit?: number }>
   | BaseMessage<"DELETE_DOWNLOAD", { id: string }>
+  | BaseMessage<"DOWNLOAD_FILE", DownloadRequest>
+  | BaseMessage<"CONTROL_TRANSFER", { downloadId: number; action: TransferControl }>
+  | BaseMessage<"RETRY_TRANSFER", { downloadId: number }>
+  | BaseMessage<"REMOVE_TRANSFERS", { downloadIds: number[] }>
+  | BaseMessage<"QUEUE_DOWNLOADS", { requests: QueueRequest[]; priority?: DownloadPriority }>
+  | BaseMessage<"UPDATE_QUEUED_DOWNLOAD", { id: string; move?: QueueMove; priority?: DownloadPriority; retry?: boolean }>
+  | BaseMessage<"REMOVE_QUEUED_DOWNLOADS", { ids: string[] }>
+  | BaseMessage<"SET_DOWNLOADS_PAUSED", { paused: boolean }>
+  // aria2 messages
+  | BaseMessage<"SEND_TO_ARIA2", { requests: QueueRequest[] }>
+  | BaseMessage<"TEST_ARIA2">
   // Host messages
   | BaseMessage<"GET_HOSTS_REGEX">
   | BaseMessage<"GET_HOSTS_DOMAINS">
@@ -113,21 +187,29 @@ export type Message =
   // Traffic messages
   | BaseMessage<"GET_TRAFFIC">
   | BaseMessage<"GET_TRAFFIC_DETAILS">
+  // Rate limit messages
+  | BaseMessage<"GET_RATE_LIMIT_STATUS">
   // Notification messages
   | BaseMessage<"SHOW_NOTIFICATION", { title: string; message: string }>
   // Content script messages
   | BaseMessage<"SCAN_PAGE_LINKS">
   // Auto-scan messages
   | BaseMessage<"REPORT_DETECTED_LINKS", { links: DetectedLink[] }>
-  | BaseMessage<"GET_DETECTED_LINKS">;
+  | BaseMessage<"GET_DETECTED_LINKS">
+  // Cancellation messages
+  | BaseMessage<"CANCEL_REQUEST", { requestId: string }>;
 
 /**
  * Response types mapped to message types
  */
 export interface ResponseMap {
-  AUTH_STATUS: { authenticated: boolean; profile?: UserProfile };
+  AUTH_STATUS: { authenticated: boolean; profile?: UserProfile; accountId?: string };
   AUTH_LOGIN: { success: boolean; error?: string };
   AUTH_LOGOUT: { success: boolean };
+  LIST_ACCOUNTS: { accounts: AccountSummary[]; activeAccountId: string | null };
+  SWITCH_ACCOUNT: void;
+  RENAME_ACCOUNT: void;
+  REMOVE_ACCOUNT: void;
   GET_USER_PROFILE: UserProfile;
   GET_USER_SETTINGS: unknown;
   CONVERT_POINTS: void;
@@ -138,24 +220,44 @@ export interface ResponseMap {
   DECRYPT_CONTAINER_LINK: string[];
   GET_TRANSCODE_LINKS: TranscodeQuality;
   GET_MEDIA_INFO: MediaInfo;
+  BUILD_PLAYLIST: Playlist;
+  GET_STREAMING_SUPPORT: StreamingSupport;
   LIST_TORRENTS: TorrentItem[];
+  LIST_TORRENTS_PAGE: Page<TorrentItem>;
   GET_TORRENT_INFO: TorrentInfo;
   ADD_MAGNET: AddMagnetResponse;
   ADD_TORRENT: AddMagnetResponse;
   SELECT_TORRENT_FILES: void;
   DELETE_TORRENT: void;
   GET_ACTIVE_TORRENT_COUNT: { nb: number; limit: number };
+  START_BULK_TORRENT_JOB: Job;
+  GET_JOB: Job;
+  CANCEL_JOB: void;
+  RETRY_COMPLETION: void;
   LIST_DOWNLOADS: DownloadItem[];
+  LIST_DOWNLOADS_PAGE: Page<DownloadItem>;
   DELETE_DOWNLOAD: void;
+  DOWNLOAD_FILE: void;
+  CONTROL_TRANSFER: void;
+  RETRY_TRANSFER: void;
+  REMOVE_TRANSFERS: void;
+  QUEUE_DOWNLOADS: void;
+  UPDATE_QUEUED_DOWNLOAD: void;
+  REMOVE_QUEUED_DOWNLOADS: void;
+  SET_DOWNLOADS_PAUSED: void;
+  SEND_TO_ARIA2: Aria2SendResult[];
+  TEST_ARIA2: { version: string };
   GET_HOSTS_REGEX: string[];
   GET_HOSTS_DOMAINS: string[];
   GET_HOSTS_STATUS: Record<string, HostInfo>;
   GET_TRAFFIC: TrafficInfo;
   GET_TRAFFIC_DETAILS: TrafficDetails;
+  GET_RATE_LIMIT_STATUS: RateLimitStatus;
   SHOW_NOTIFICATION: void;
   SCAN_PAGE_LINKS: DetectedLink[];
   REPORT_DETECTED_LINKS: void;
   GET_DETECTED_LINKS: DetectedLink[];
+  CANCEL_REQUEST: void;
 }
 
 /**
@@ -166,16 +268,119 @@ export interface MessageResponse<T> {
   data?: T;
   error?: string;
   errorCode?: number;
+  errorStatus?: number;
+}
+
+/**
+ * Options for sending a message
+ * Aborting the signal or reaching the timeout resolves the message with an
+ * error response and tells the background to abort the handler's requests
+ */
+export interface SendOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Act on this account instead of the active one
+  accountId?: string;
+}
+
+/**
+ * Per-request context passed to background handlers
+ */
+export interface HandlerContext {
+  // Aborted when the sender cancels or times out the request
+  signal: AbortSignal;
+  // Account the sender targeted; undefined means the active account
+  accountId?: string;
+}
+
+/**
+ * How long the UI waits for slow API-backed messages before giving up
+ * and cancelling the background work; other messages wait indefinitely
+ */
+export const DEFAULT_MESSAGE_TIMEOUTS: Partial<Record<MessageType, number>> = {
+  UNRESTRICT_LINK: 60_000,
+  UNRESTRICT_FOLDER: 60_000,
+  CHECK_LINK: 30_000,
+  DECRYPT_CONTAINER_FILE: 90_000,
+  DECRYPT_CONTAINER_LINK: 60_000,
+  GET_TRANSCODE_LINKS: 30_000,
+  GET_MEDIA_INFO: 30_000,
+  LIST_TORRENTS: 60_000,
+  LIST_TORRENTS_PAGE: 60_000,
+  GET_TORRENT_INFO: 30_000,
+  ADD_MAGNET: 45_000,
+  ADD_TORRENT: 90_000,
+  LIST_DOWNLOADS: 30_000,
+  LIST_DOWNLOADS_PAGE: 30_000,
+};
+
+/**
+ * Check whether a response comes from a request the caller cancelled
+ */
+export function isCancelledResponse(response: MessageResponse<unknown>): boolean {
+  return !response.success && response.errorStatus === REQUEST_CANCELLED_STATUS;
 }
 
 /**
  * Send a message to the background script
+ * Messages with a signal or timeout carry a requestId so they can be cancelled
  */
 export async function sendMessage<T extends MessageType>(
-  message: Extract<Message, { type: T }>
+  message: Extract<Message, { type: T }>,
+  options: SendOptions = {}
 ): Promise<MessageResponse<ResponseMap[T]>> {
+  const { signal, accountId } = options;
+  if (accountId) message = { ...message, accountId };
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_MESSAGE_TIMEOUTS[message.type];
+  if (!signal && timeoutMs === undefined) {
+    return dispatchMessage<ResponseMap[T]>(message);
+  }
+
+  if (signal?.aborted) {
+    return { success: false, error: "Request cancelled", errorStatus: REQUEST_CANCELLED_STATUS };
+  }
+
+  const requestId = crypto.randomUUID();
+
+  return new Promise((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = (response: MessageResponse<ResponseMap[T]>) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(response);
+    };
+
+    const cancel = (response: MessageResponse<ResponseMap[T]>) => {
+      dispatchMessage({ type: "CANCEL_REQUEST", payload: { requestId } });
+      settle(response);
+    };
+
+    const onAbort = () =>
+      cancel({ success: false, error: "Request cancelled", errorStatus: REQUEST_CANCELLED_STATUS });
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        cancel({
+          success: false,
+          error: `Request timed out after ${Math.ceil(timeoutMs / 1000)}s`,
+          errorStatus: REQUEST_TIMEOUT_STATUS,
+        });
+      }, timeoutMs);
+    }
+
+    dispatchMessage<ResponseMap[T]>({ ...message, requestId }).then(settle);
+  });
+}
+
+/**
+ * Deliver a message to the background and wait for its response
+ */
+function dispatchMessage<R>(message: Message): Promise<MessageResponse<R>> {
   return new Promise((resolve) => {
-    chrome.runtime.sendMessage(message, (response: MessageResponse<ResponseMap[T]>) => {
+    chrome.runtime.sendMessage(message, (response: MessageResponse<R>) => {
       if (chrome.runtime.lastError) {
         resolve({
           success: false,
@@ -193,7 +398,8 @@ export async function sendMessage<T extends MessageType>(
  */
 export type MessageHandler<T extends MessageType> = (
   payload: Extract<Message, { type: T }>["payload"],
-  sender: chrome.runtime.MessageSender
+  sender: chrome.runtime.MessageSender,
+  context: HandlerContext
 ) => Promise<MessageResponse<ResponseMap[T]>>;
 
 /**
@@ -205,25 +411,44 @@ type HandlerRegistry = {
 
 /**
  * Create a message listener for the background script
+ * CANCEL_REQUEST is handled here by aborting the matching handler's signal
  */
 export function createMessageListener(handlers: Partial<HandlerRegistry>): void {
+  const inFlight = new Map<string, AbortController>();
+
   chrome.runtime.onMessage.addListener(
     (
       message: Message,
       sender: chrome.runtime.MessageSender,
       sendResponse: (response: MessageResponse<unknown>) => void
     ) => {
+      if (message.type === "CANCEL_REQUEST") {
+        inFlight.get(message.payload.requestId)?.abort();
+        sendResponse(success(undefined));
+        return false;
+      }
+
       const handler = handlers[message.type] as MessageHandler<typeof message.type> | undefined;
 
       if (handler) {
+        const controller = new AbortController();
+        const { requestId } = message;
+        if (requestId) inFlight.set(requestId, controller);
+
         // Handle async response
-        handler(message.payload as never, sender)
+        handler(message.payload as never, sender, {
+          signal: controller.signal,
+          accountId: message.accountId,
+        })
           .then(sendResponse)
           .catch((error: Error) => {
             sendResponse({
               success: false,
               error: error.message,
             });
+          })
+          .finally(() => {
+            if (requestId) inFlight.delete(requestId);
           });
 
         // Return true to indicate async response
@@ -264,6 +489,19 @@ export const messages = {
   logout: () =>
     sendMessage({ type: "AUTH_LOGOUT", payload: undefined }),
 
+  // Accounts
+  listAccounts: () =>
+    sendMessage({ type: "LIST_ACCOUNTS", payload: undefined }),
+
+  switchAccount: (id: string) =>
+    sendMessage({ type: "SWITCH_ACCOUNT", payload: { id } }),
+
+  renameAccount: (id: string, label: string) =>
+    sendMessage({ type: "RENAME_ACCOUNT", payload: { id, label } }),
+
+  removeAccount: (id: string) =>
+    sendMessage({ type: "REMOVE_ACCOUNT", payload: { id } }),
+
   // User
   getUserProfile: () =>
     sendMessage({ type: "GET_USER_PROFILE", payload: undefined }),
@@ -272,48 +510,114 @@ export const messages = {
     sendMessage({ type: "CONVERT_POINTS", payload: undefined }),
 
   // Unrestrict
-  unrestrictLink: (link: string, password?: string, remote?: boolean) =>
-    sendMessage({ type: "UNRESTRICT_LINK", payload: { link, password, remote } }),
+  unrestrictLink: (link: string, password?: string, remote?: boolean, options?: SendOptions) =>
+    sendMessage({ type: "UNRESTRICT_LINK", payload: { link, password, remote } }, options),
 
-  unrestrictFolder: (link: string) =>
-    sendMessage({ type: "UNRESTRICT_FOLDER", payload: { link } }),
+  unrestrictFolder: (link: string, options?: SendOptions) =>
+    sendMessage({ type: "UNRESTRICT_FOLDER", payload: { link } }, options),
 
-  checkLink: (link: string) =>
-    sendMessage({ type: "CHECK_LINK", payload: { link } }),
+  checkLink: (link: string, options?: SendOptions) =>
+    sendMessage({ type: "CHECK_LINK", payload: { link } }, options),
 
-  decryptContainerFile: (fileData: ArrayBuffer) =>
-    sendMessage({ type: "DECRYPT_CONTAINER_FILE", payload: { fileData } }),
+  decryptContainerFile: (fileData: ArrayBuffer, options?: SendOptions) =>
+    sendMessage({ type: "DECRYPT_CONTAINER_FILE", payload: { fileData } }, options),
 
-  decryptContainerLink: (link: string) =>
-    sendMessage({ type: "DECRYPT_CONTAINER_LINK", payload: { link } }),
+  decryptContainerLink: (link: string, options?: SendOptions) =>
+    sendMessage({ type: "DECRYPT_CONTAINER_LINK", payload: { link } }, options),
 
   // Streaming
-  getTranscodeLinks: (id: string) =>
-    sendMessage({ type: "GET_TRANSCODE_LINKS", payload: { id } }),
+  getTranscodeLinks: (id: string, options?: SendOptions) =>
+    sendMessage({ type: "GET_TRANSCODE_LINKS", payload: { id } }, options),
+
+  getMediaInfo: (id: string, options?: SendOptions) =>
+    sendMessage({ type: "GET_MEDIA_INFO", payload: { id } }, options),
+
+  // Unrestricts the links, keeps streamable videos and orders them by episode
+  buildPlaylist: (source: { links?: string[]; files?: PlaylistFile[] }, options?: SendOptions) =>
+    sendMessage({ type: "BUILD_PLAYLIST", payload: source }, options),
 
-  getMediaInfo: (id: string) =>
-    sendMessage({ type: "GET_MEDIA_INFO", payload: { id } }),
+  // Whether the account may use the streaming endpoints; probed once, then cached
+  getStreamingSupport: (refresh?: boolean) =>
+    sendMessage({ type: "GET_STREAMING_SUPPORT", payload: { refresh } }),
 
   // Torrents
-  listTorrents: (params?: { offset?: number; limit?: number }) =>
-    sendMessage({ type: "LIST_TORRENTS", payload: params }),
+  listTorrents: (params?: { offset?: number; limit?: number }, options?: SendOptions) =>
+    sendMessage({ type: "LIST_TORRENTS", payload: params }, options),
 
-  getTorrentInfo: (id: string) =>
-    sendMessage({ type: "GET_TORRENT_INFO", payload: { id } }),
+  listTorrentsPage: (params: { page: number; limit?: number; filter?: string }, options?: SendOptions) =>
+    sendMessage({ type: "LIST_TORRENTS_PAGE", payload: params }, options),
 
-  addMagnet: (magnet: string) =>
-    sendMessage({ type: "ADD_MAGNET", payload: { magnet } }),
+  getTorrentInfo: (id: string, options?: SendOptions) =>
+    sendMessage({ type: "GET_TORRENT_INFO", payload: { id } }, options),
+
+  addMagnet: (magnet: string, options?: SendOptions) =>
+    sendMessage({ type: "ADD_MAGNET", payload: { magnet } }, options),
 
   deleteTorrent: (id: string) =>
     sendMessage({ type: "DELETE_TORRENT", payload: { id } }),
 
+  // Jobs
+  startBulkTorrentJob: (action: BulkTorrentAction, torrents: BulkTorrentTarget[]) =>
+    sendMessage({ type: "START_BULK_TORRENT_JOB", payload: { action, torrents } }),
+
+  getJob: (id: string) =>
+    sendMessage({ type: "GET_JOB", payload: { id } }),
+
+  cancelJob: (id: string) =>
+    sendMessage({ type: "CANCEL_JOB", payload: { id } }),
+
+  // Completion pipeline
+  retryCompletion: (id: string) =>
+    sendMessage({ type: "RETRY_COMPLETION", payload: { id } }),
+
   // Downloads
-  listDownloads: (params?: { offset?: number; limit?: number }) =>
-    sendMessage({ type: "LIST_DOWNLOADS", payload: params }),
+  listDownloads: (params?: { offset?: number; limit?: number }, options?: SendOptions) =>
+    sendMessage({ type: "LIST_DOWNLOADS", payload: params }, options),
+
+  listDownloadsPage: (params: { page: number; limit?: number }, options?: SendOptions) =>
+    sendMessage({ type: "LIST_DOWNLOADS_PAGE", payload: params }, options),
 
   deleteDownload: (id: string) =>
     sendMessage({ type: "DELETE_DOWNLOAD", payload: { id } }),
 
+  // Saves with the configured download directory and filename template
+  downloadFile: (request: DownloadRequest) =>
+    sendMessage({ type: "DOWNLOAD_FILE", payload: request }),
+
+  controlTransfer: (downloadId: number, action: TransferControl) =>
+    sendMessage({ type: "CONTROL_TRANSFER", payload: { downloadId, action } }),
+
+  // Unrestricts the source link again and starts a new download
+  retryTransfer: (downloadId: number) =>
+    sendMessage({ type: "RETRY_TRANSFER", payload: { downloadId } }),
+
+  // Only forgets them; files and browser history are left alone
+  removeTransfers: (downloadIds: number[]) =>
+    sendMessage({ type: "REMOVE_TRANSFERS", payload: { downloadIds } }),
+
+  // Batches go through the queue so only a few files download at once
+  queueDownloads: (requests: QueueRequest[], priority?: DownloadPriority) =>
+    sendMessage({ type: "QUEUE_DOWNLOADS", payload: { requests, priority } }),
+
+  updateQueuedDownload: (id: string, change: { move?: QueueMove; priority?: DownloadPriority; retry?: boolean }) =>
+    sendMessage({ type: "UPDATE_QUEUED_DOWNLOAD", payload: { id, ...change } }),
+
+  removeQueuedDownloads: (ids: string[]) =>
+    sendMessage({ type: "REMOVE_QUEUED_DOWNLOADS", payload: { ids } }),
+
+  // Pauses or resumes the queue along with every running download
+  setDownloadsPaused: (paused: boolean) =>
+    sendMessage({ type: "SET_DOWNLOADS_PAUSED", payload: { paused } }),
+
+  // aria2
+  // Links without a download URL are unrestricted first; one result per file
+  sendToAria2: (requests: QueueRequest[]) =>
+    sendMessage({ type: "SEND_TO_ARIA2", payload: { requests } }),
+
+  // Reads aria2's version with the saved settings
+  testAria2: () =>
+    sendMessage({ type: "TEST_ARIA2", payload: undefined }),
+
   // Hosts
   getHostsRegex: () =>
     sendMessage({ type: "GET_HOSTS_REGEX", payload: undefined }),
@@ -321,15 +625,19 @@ export const messages = {
   getHostsDomains: () =>
     sendMessage({ type: "GET_HOSTS_DOMAINS", payload: undefined }),
 
-  getHostsStatus: () =>
-    sendMessage({ type: "GET_HOSTS_STATUS", payload: undefined }),
+  getHostsStatus: (options?: SendOptions) =>
+    sendMessage({ type: "GET_HOSTS_STATUS", payload: undefined }, options),
 
   // Traffic
-  getTraffic: () =>
-    sendMessage({ type: "GET_TRAFFIC", payload: undefined }),
+  getTraffic: (options?: SendOptions) =>
+    sendMessage({ type: "GET_TRAFFIC", payload: undefined }, options),
+
+  getTrafficDetails: (options?: SendOptions) =>
+    sendMessage({ type: "GET_TRAFFIC_DETAILS", payload: undefined }, options),
 
-  getTrafficDetails: () =>
-    sendMessage({ type: "GET_TRAFFIC_DETAILS", payload: undefined }),
+  // Rate limit
+  getRateLimitStatus: () =>
+    sendMessage({ type: "GET_RATE_LIMIT_STATUS", payload: undefined }),
 
   // Notifications
   showNotification: (title: string, message: string) =>
@@ -0,0 +1,172 @@
+/**
+ * Player
+ * Picks what the built-in player can play from Real-Debrid's transcode links
+ * (HLS via "apple", progressive MP4 via "liveMP4"), matches MediaInfo's
+ * audio and subtitle streams to the tracks a source offers, and decides
+ * where playback resumes.
+ */
+
+import type { AudioInfo, SubtitleInfo, TranscodeQuality } from "./api/streaming";
+
+export interface PlayerSource {
+  // Stable across reloads, e.g. "hls" or "mp4-720p"
+  key: string;
+  label: string;
+  // "direct" plays the download URL itself, untranscoded
+  kind: "hls" | "mp4" | "direct";
+  url: string;
+}
+
+/**
+ * Sources in the order the player prefers them: HLS, then MP4 from the
+ * highest resolution down
+ */
+export function getPlayerSources(transcode: TranscodeQuality): PlayerSource[] {
+  const sources: PlayerSource[] = [];
+
+  const hls = transcode.apple?.full;
+  if (hls) sources.push({ key: "hls", label: "Auto (HLS)", kind: "hls", url: hls });
+
+  const mp4 = Object.entries(transcode.liveMP4 ?? {})
+    .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    .sort(([a], [b]) => getResolution(b) - getResolution(a));
+  for (const [resolution, url] of mp4) {
+    const label = resolution === "full" ? "Original" : resolution;
+    sources.push({ key: `mp4-${resolution}`, label: `${label} (MP4)`, kind: "mp4", url });
+  }
+
+  return sources;
+}
+
+// "full" is the original, ranked above any named resolution
+function getResolution(name: string): number {
+  if (name === "full") return Number.MAX_SAFE_INTEGER;
+  return parseInt(name, 10) || 0;
+}
+
+/**
+ * The file as-is, for browser-playable formats or when transcoding is refused
+ */
+export function getDirectSource(url: string): PlayerSource {
+  return { key: "direct", label: "Original file", kind: "direct", url };
+}
+
+/**
+ * URL of the player page for a file
+ *
+ * @param options.src - Download URL to fall back to when transcoding fails
+ * @param options.direct - Play src without asking for transcodes at all
+ */
+export function getPlayerUrl(
+  fileId: string,
+  filename: string,
+  options: { src?: string; direct?: boolean } = {}
+): string {
+  const params = new URLSearchParams({ id: fileId, name: filename });
+  if (options.src) params.set("src", options.src);
+  if (options.direct) params.set("direct", "1");
+  return chrome.runtime.getURL(`tabs/player.html?${params}`);
+}
+
+/**
+ * A stream from MediaInfo, as offered in the track menus
+ */
+export interface MediaTrack {
+  lang: string;
+  langIso: string;
+  label: string;
+}
+
+export function getAudioTracks(audio: Record<string, AudioInfo> | undefined): MediaTrack[] {
+  return Object.values(audio ?? {}).map((track) => ({
+    lang: track.lang,
+    langIso: track.lang_iso,
+    label: [track.lang || track.lang_iso || "Unknown", track.codec?.toUpperCase(), formatChannels(track.channels)]
+      .filter(Boolean)
+      .join(" · "),
+  }));
+}
+
+export function getSubtitleTracks(subtitles: Record<string, SubtitleInfo> | undefined): MediaTrack[] {
+  return Object.values(subtitles ?? {}).map((track) => ({
+    lang: track.lang,
+    langIso: track.lang_iso,
+    label: [track.lang || track.lang_iso || "Unknown", track.type].filter(Boolean).join(" · "),
+  }));
+}
+
+function formatChannels(channels: number | undefined): string {
+  if (!channels) return "";
+  if (channels === 1) return "Mono";
+  if (channels === 2) return "Stereo";
+  return `${channels - 1}.1`;
+}
+
+/**
+ * Index of the source track that carries a MediaInfo stream
+ * Matched by language, falling back to position when the source names its
+ * tracks differently; -1 when the source has no such track.
+ */
+export function matchTrack(
+  sourceTracks: { lang?: string; name?: string }[],
+  track: MediaTrack,
+  position: number
+): number {
+  const wanted = [track.langIso, track.lang].filter(Boolean).map((value) => value.toLowerCase());
+  const byLanguage = sourceTracks.findIndex((sourceTrack) =>
+    [sourceTrack.lang, sourceTrack.name].some((value) => value && wanted.includes(value.toLowerCase()))
+  );
+  if (byLanguage !== -1) return byLanguage;
+  return position < sourceTracks.length ? position : -1;
+}
+
+/**
+ * Where a file was left off
+ */
+export interface PlaybackPosition {
+  position: number;
+  duration: number;
+  updatedAt: number;
+}
+
+// Starting over is quicker than skipping a few seconds in
+const MIN_RESUME_SECONDS = 30;
+// Positions this close to the end count as finished
+const FINISHED_FRACTION = 0.95;
+// Files whose positions are kept
+export const PLAYBACK_POSITIONS_KEEP = 200;
+
+/**
+ * Whether a position is worth saving and resuming from
+ */
+export function isResumable(position: number, duration: number): boolean {
+  if (!Number.isFinite(position) || position < MIN_RESUME_SECONDS) return false;
+  return !(duration > 0 && position >= duration * FINISHED_FRACTION);
+}
+
+/**
+ * Drop the oldest positions beyond the limit
+ */
+export function trimPlaybackPositions(
+  positions: Record<string, PlaybackPosition>,
+  keep = PLAYBACK_POSITIONS_KEEP
+): Record<string, PlaybackPosition> {
+  const entries = Object.entries(positions);
+  if (entries.length <= keep) return positions;
+  return Object.fromEntries(entries.sort(([, a], [, b]) => b.updatedAt - a.updatedAt).slice(0, keep));
+}
+
+/**
+ * Keyboard shortcuts, as listed in the player's help
+ */
+export const PLAYER_SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: "Space / K", action: "Play or pause" },
+  { keys: "← / →", action: "Back or forward 5 seconds" },
+  { keys: "J / L", action: "Back or forward 10 seconds" },
+  { keys: "↑ / ↓", action: "Volume up or down" },
+  { keys: "M", action: "Mute" },
+  { keys: "F", action: "Fullscreen" },
+  { keys: "C", action: "Next subtitle track" },
+  { keys: "0–9", action: "Jump to 0–90%" },
+  { keys: "?", action: "Show shortcuts" },
+];
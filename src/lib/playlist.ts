@@ -0,0 +1,143 @@
+/**
+ * Playlists
+ * Turns the streamable video files of a torrent or the download history into
+ * an M3U8 or XSPF playlist for VLC, mpv or Kodi, in episode order.
+ */
+
+import type { UnrestrictedLink } from "./api/unrestrict";
+import { sanitizePathSegment } from "./download-paths";
+
+/**
+ * What a playlist needs of an unrestricted file; DownloadItem fits too
+ */
+export type PlaylistFile = Pick<UnrestrictedLink, "id" | "filename" | "mimeType" | "download" | "streamable">;
+
+export interface PlaylistEntry {
+  title: string;
+  url: string;
+  filename: string;
+  // Seconds; unknown when media info isn't available
+  duration?: number;
+}
+
+export interface Playlist {
+  entries: PlaylistEntry[];
+  // Links that couldn't be unrestricted and are left out
+  skipped: number;
+}
+
+export type PlaylistFormat = "m3u8" | "xspf";
+
+export const PLAYLIST_FORMATS: Record<PlaylistFormat, { label: string; extension: string; mimeType: string }> = {
+  m3u8: { label: "M3U8", extension: "m3u8", mimeType: "application/vnd.apple.mpegurl" },
+  xspf: { label: "XSPF", extension: "xspf", mimeType: "application/xspf+xml" },
+};
+
+const VIDEO_EXTENSIONS = /\.(mkv|mp4|m4v|avi|mov|wmv|webm|ts|m2ts|mpg|mpeg|flv|ogv)$/i;
+// Extras that ride along in episode packs
+const EXTRA_PATTERN = /(^|[\s._-])(sample|trailer)([\s._-]|$)/i;
+
+/**
+ * Whether a file belongs in a playlist: streamable video that isn't a sample
+ */
+export function isPlaylistFile(file: Pick<PlaylistFile, "filename" | "mimeType" | "streamable">): boolean {
+  const isVideo = file.mimeType?.startsWith("video/") || VIDEO_EXTENSIONS.test(file.filename);
+  return file.streamable === 1 && isVideo && !EXTRA_PATTERN.test(file.filename);
+}
+
+/**
+ * Season and episode numbers from names like "S01E02" or "1x02"
+ */
+function parseEpisode(filename: string): [number, number] | null {
+  const match = filename.match(/s(\d{1,2})[\s._-]?e(\d{1,3})/i) ?? filename.match(/\b(\d{1,2})x(\d{2,3})\b/i);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+/**
+ * Episode order where names carry S01E01-style numbers, natural order
+ * ("2" before "10") otherwise
+ */
+export function compareEpisodes(a: string, b: string): number {
+  const episodeA = parseEpisode(a);
+  const episodeB = parseEpisode(b);
+  if (episodeA && episodeB) {
+    const diff = episodeA[0] - episodeB[0] || episodeA[1] - episodeB[1];
+    if (diff !== 0) return diff;
+  }
+  return collator.compare(a, b);
+}
+
+/**
+ * Readable title from a release name, e.g. "Show Name S01E02 1080p"
+ */
+export function getPlaylistTitle(filename: string): string {
+  return filename
+    .replace(/\.[^.]+$/, "")
+    .replace(/[._]+/g, " ")
+    .trim();
+}
+
+export function sortPlaylist(entries: PlaylistEntry[]): PlaylistEntry[] {
+  return [...entries].sort((a, b) => compareEpisodes(a.filename, b.filename));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// EXTINF titles end at the line; commas are fine after the first
+function toM3uTitle(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+/**
+ * Render entries as a playlist file
+ */
+export function buildPlaylist(entries: PlaylistEntry[], format: PlaylistFormat, title: string): string {
+  if (format === "m3u8") {
+    return [
+      "#EXTM3U",
+      `#PLAYLIST:${toM3uTitle(title)}`,
+      ...entries.flatMap((entry) => [
+        `#EXTINF:${entry.duration !== undefined ? Math.round(entry.duration) : -1},${toM3uTitle(entry.title)}`,
+        entry.url,
+      ]),
+      "",
+    ].join("\n");
+  }
+
+  const tracks = entries.map((entry) =>
+    [
+      "    <track>",
+      `      <location>${escapeXml(entry.url)}</location>`,
+      `      <title>${escapeXml(entry.title)}</title>`,
+      // XSPF durations are in milliseconds
+      ...(entry.duration !== undefined ? [`      <duration>${Math.round(entry.duration * 1000)}</duration>`] : []),
+      "    </track>",
+    ].join("\n")
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<playlist version="1" xmlns="http://xspf.org/ns/0/">`,
+    `  <title>${escapeXml(title)}</title>`,
+    "  <trackList>",
+    ...tracks,
+    "  </trackList>",
+    "</playlist>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * File name for a saved playlist, e.g. "Show Name S01.m3u8"
+ */
+export function getPlaylistFilename(format: PlaylistFormat, title: string): string {
+  return `${sanitizePathSegment(title) || "playlist"}.${PLAYLIST_FORMATS[format].extension}`;
+}
@@ -0,0 +1,98 @@
+/**
+ * Adaptive torrent polling
+ * Polls quickly while downloads are making progress, backs off while
+ * torrents are queued or stalled, keeps a slow heartbeat for torrents waiting
+ * on file selection, and stops once nothing needs watching.
+ */
+
+import type { TorrentItem } from "./api/torrents";
+import { isActiveTorrentStatus, type TorrentSnapshot } from "./torrent-tracker";
+
+/**
+ * What the account's torrents are doing, from most to least urgent
+ */
+export type PollActivity =
+  | "progressing"
+  | "stalled"
+  | "awaiting_selection"
+  | "idle";
+
+export interface PollIntervalBounds {
+  minMs: number;
+  maxMs: number;
+}
+
+/**
+ * Limits for the user-configurable bounds, in seconds
+ */
+export const POLL_INTERVAL_LIMITS = {
+  minSeconds: 5,
+  maxSeconds: 3600,
+} as const;
+
+// Growth factor applied to the delay each poll nothing moves
+const BACKOFF_FACTOR = 2;
+
+/**
+ * Turn configured bounds (in seconds) into sane millisecond bounds
+ */
+export function getPollIntervalBounds(
+  minSeconds: number,
+  maxSeconds: number
+): PollIntervalBounds {
+  const clamp = (value: number) =>
+    Math.min(
+      Math.max(Math.round(value) || POLL_INTERVAL_LIMITS.minSeconds, POLL_INTERVAL_LIMITS.minSeconds),
+      POLL_INTERVAL_LIMITS.maxSeconds
+    );
+  const min = clamp(minSeconds);
+  const max = Math.max(clamp(maxSeconds), min);
+  return { minMs: min * 1000, maxMs: max * 1000 };
+}
+
+/**
+ * Classify a poll against the previous snapshot
+ * A download counts as progressing if it reports speed or its progress moved
+ */
+export function classifyPollActivity(
+  torrents: TorrentItem[],
+  previous: TorrentSnapshot | null
+): PollActivity {
+  const active = torrents.filter((t) => isActiveTorrentStatus(t.status));
+
+  const progressing = active.some((torrent) => {
+    if (torrent.status !== "downloading") return false;
+    if ((torrent.speed ?? 0) > 0) return true;
+    const tracked = previous?.torrents[torrent.id];
+    return !tracked || torrent.progress > tracked.progress;
+  });
+
+  if (progressing) return "progressing";
+  if (active.length > 0) return "stalled";
+  if (torrents.some((t) => t.status === "waiting_files_selection")) {
+    return "awaiting_selection";
+  }
+  return "idle";
+}
+
+/**
+ * Delay until the next poll, or null to stop polling
+ */
+export function getNextPollDelay(
+  activity: PollActivity,
+  previousDelayMs: number | null,
+  bounds: PollIntervalBounds
+): number | null {
+  switch (activity) {
+    case "progressing":
+      return bounds.minMs;
+    case "stalled": {
+      const next = (previousDelayMs ?? bounds.minMs) * BACKOFF_FACTOR;
+      return Math.min(Math.max(next, bounds.minMs), bounds.maxMs);
+    }
+    case "awaiting_selection":
+      return bounds.maxMs;
+    case "idle":
+      return null;
+  }
+}
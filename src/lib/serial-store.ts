@@ -0,0 +1,69 @@
+/**
+ * Serial stores
+ * Background state kept in extension storage is read, changed and written
+ * back whole. Polls, browser events and messages can change it at the same
+ * time, so changes run one after another and none overwrites another.
+ */
+
+export type SerialQueue = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Run tasks one after another; a failed task doesn't stop the ones after it
+ */
+export function createSerialQueue(): SerialQueue {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return (task) => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+}
+
+export interface SerialStoreOptions<S> {
+  load: () => Promise<S>;
+  save: (state: S) => Promise<void>;
+  // Called with the saved state after every change, outside the queue
+  onChange?: (state: S) => void;
+  // Prefix for logged listener failures, e.g. "[Transfers]"
+  label: string;
+}
+
+export interface SerialStore<S> {
+  /**
+   * Load, change and save the state
+   * `change` returns the state to save, or null when nothing changed;
+   * resolves to the saved state, or null.
+   */
+  update: (change: (state: S) => S | null | Promise<S | null>) => Promise<S | null>;
+  read: () => Promise<S>;
+  // Other work that has to run in order with the changes
+  enqueue: SerialQueue;
+}
+
+export function createSerialStore<S>(options: SerialStoreOptions<S>): SerialStore<S> {
+  const { load, save, onChange, label } = options;
+  const enqueue = createSerialQueue();
+
+  function notify(state: S): void {
+    try {
+      onChange?.(state);
+    } catch (err) {
+      console.error(`${label} Change listener failed:`, err);
+    }
+  }
+
+  const update: SerialStore<S>["update"] = async (change) => {
+    const next = await enqueue(async () => {
+      const next = await change(await load());
+      if (next !== null) await save(next);
+      return next;
+    });
+    if (next !== null) notify(next);
+    return next;
+  };
+
+  const read: SerialStore<S>["read"] = () => enqueue(load);
+
+  return { update, read, enqueue };
+}
@@ -6,7 +6,17 @@
 import { Storage } from "@plasmohq/storage";
 
 import type { UserProfile } from "./api/user";
-import type { AuthData } from "./auth";
+import type { AuthData, OAuthFlowState } from "./auth";
+import type { TorrentSnapshot } from "./torrent-tracker";
+import { DEFAULT_FILE_SELECTION_RULES, type FileSelectionRules } from "./file-rules";
+import type { CompletionRun, CompletionSetting } from "./completion";
+import { DEFAULT_DOWNLOAD_TEMPLATE, type DownloadConflictAction } from "./download-paths";
+import type { Transfer } from "./transfers";
+import { EMPTY_DOWNLOAD_QUEUE, type DownloadQueueState } from "./download-queue";
+import { trimPlaybackPositions, type PlaybackPosition } from "./player";
+import type { StreamingSupport } from "./streaming-support";
+import type { Job } from "./jobs";
+import { createSerialQueue } from "./serial-store";
 
 // Storage instances for different purposes
 // Use local storage for auth (more reliable than sync)
@@ -20,20 +30,83 @@ export const cacheStorage = new Storage({ area: "local" });
  * Storage keys
  */
 export const STORAGE_KEYS = {
+  // Single-account auth from before multi-account support; migrated on first read
   AUTH_DATA: "authData",
+  ACCOUNTS: "accounts",
+  ACTIVE_ACCOUNT_ID: "activeAccountId",
+  OAUTH_FLOW: "oauthFlow",
+  // Kept out of the synced preferences, like other credentials
+  ARIA2_SECRET: "aria2Secret",
   PREFERENCES: "preferences",
   CACHE: "cache",
+  RATE_LIMIT_WINDOW: "rateLimitWindow",
+  TORRENT_SNAPSHOTS: "torrentSnapshots",
+  COMPLETION_HISTORY: "completionHistory",
+  COMPLETION_OVERRIDES: "completionOverrides",
+  TRANSFERS: "transfers",
+  DOWNLOAD_QUEUE: "downloadQueue",
+  PLAYBACK_POSITIONS: "playbackPositions",
+  STREAMING_SUPPORT: "streamingSupport",
+  JOBS: "jobs",
 } as const;
 
+/**
+ * A signed-in Real-Debrid account
+ */
+export interface Account {
+  id: string;
+  // User-chosen name; falls back to the Real-Debrid username
+  label?: string;
+  auth: AuthData;
+  profile?: UserProfile;
+  profileTimestamp?: number;
+  addedAt: number;
+}
+
+/**
+ * Account details that are safe to hand to UI contexts
+ */
+export type AccountSummary = Omit<Account, "auth">;
+
+/**
+ * Display name for an account
+ */
+export function getAccountName(account: AccountSummary): string {
+  return account.label || account.profile?.username || "Real-Debrid account";
+}
+
 /**
  * User preferences stored in sync storage
  */
 export interface UserPreferences {
   notificationsEnabled: boolean;
   autoUnrestrict: boolean;
+  // Safeguards for auto-unrestrict: links per page and hosts it may touch
+  autoUnrestrictMaxPerPage: number;
+  autoUnrestrictHosts: string[];
   autoSelectFiles: boolean;
+  // Which files automatic selection picks
+  fileSelectionRules: FileSelectionRules;
+  // What to do with a torrent's links once it completes
+  completionAction: CompletionSetting;
+  // Where the "external" completion action sends links; {url} and
+  // {filename} are replaced with the link's values
+  externalDownloaderUrl: string;
+  // aria2 JSON-RPC target for "Send to aria2"; see Aria2Settings. Its
+  // secret is in local storage (storage.getAria2Secret)
+  aria2RpcUrl: string;
+  aria2Directory: string;
   autoScanEnabled: boolean;
+  // Subdirectory of the browser's download folder to save into
   downloadDirectory?: string;
+  // Path of each file below downloadDirectory; see DOWNLOAD_PATH_TOKENS
+  downloadFilenameTemplate: string;
+  downloadConflictAction: DownloadConflictAction;
+  // Queued files the browser downloads at the same time
+  maxConcurrentDownloads: number;
+  // Bounds for adaptive torrent polling
+  pollMinIntervalSeconds: number;
+  pollMaxIntervalSeconds: number;
   theme: "light" | "dark" | "system";
 }
 
@@ -41,8 +114,6 @@ export interface UserPreferences {
  * Cached data stored in local storage
  */
 export interface CachedData {
-  userProfile?: UserProfile;
-  userProfileTimestamp?: number;
   supportedDomains?: string[];
   supportedDomainsTimestamp?: number;
   hostsRegex?: string[];
@@ -55,8 +126,20 @@ export interface CachedData {
 export const DEFAULT_PREFERENCES: UserPreferences = {
   notificationsEnabled: true,
   autoUnrestrict: false,
+  autoUnrestrictMaxPerPage: 10,
+  autoUnrestrictHosts: [],
   autoSelectFiles: true,
+  fileSelectionRules: DEFAULT_FILE_SELECTION_RULES,
+  completionAction: "none",
+  externalDownloaderUrl: "",
+  aria2RpcUrl: "",
+  aria2Directory: "",
   autoScanEnabled: false,
+  downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
+  downloadConflictAction: "uniquify",
+  maxConcurrentDownloads: 3,
+  pollMinIntervalSeconds: 10,
+  pollMaxIntervalSeconds: 300,
   theme: "system",
 };
 
@@ -65,53 +148,246 @@ export const DEFAULT_PREFERENCES: UserPreferences = {
  */
 const CACHE_TTL = 5 * 60 * 1000;
 
+let legacyMigration: Promise<void> | null = null;
+
+/**
+ * Move single-account auth data into the accounts list (runs once per context)
+ */
+function migrateLegacyAuth(): Promise<void> {
+  legacyMigration ??= (async () => {
+    const legacy = await authStorage.get<AuthData>(STORAGE_KEYS.AUTH_DATA);
+    if (!legacy) return;
+
+    const accounts = await authStorage.get<Account[]>(STORAGE_KEYS.ACCOUNTS);
+    if (!accounts?.length && legacy.accessToken) {
+      const account = createAccount(legacy);
+      await authStorage.set(STORAGE_KEYS.ACCOUNTS, [account]);
+      await authStorage.set(STORAGE_KEYS.ACTIVE_ACCOUNT_ID, account.id);
+    }
+    await authStorage.remove(STORAGE_KEYS.AUTH_DATA);
+  })();
+  return legacyMigration;
+}
+
+// Account changes read the list, change it and write it back, so a token
+// refresh and a profile cache could otherwise drop each other's change
+const enqueueAccountsWrite = createSerialQueue();
+
+function createAccount(auth: AuthData, profile?: UserProfile): Account {
+  return {
+    id: crypto.randomUUID(),
+    auth,
+    profile,
+    profileTimestamp: profile ? Date.now() : undefined,
+    addedAt: Date.now(),
+  };
+}
+
 /**
  * Storage wrapper with type safety using @plasmohq/storage
  */
 export const storage = {
   // ============================================
-  // AUTH DATA (local storage - more reliable)
+  // ACCOUNTS (local storage - more reliable)
+  // ============================================
+
+  /**
+   * Get all signed-in accounts
+   */
+  async getAccounts(): Promise<Account[]> {
+    await migrateLegacyAuth();
+    const accounts = await authStorage.get<Account[]>(STORAGE_KEYS.ACCOUNTS);
+    return Array.isArray(accounts) ? accounts : [];
+  },
+
+  /**
+   * Replace the accounts list; changes to single accounts go through
+   * addAccount, updateAccount and removeAccount, which don't overlap
+   */
+  async setAccounts(accounts: Account[]): Promise<void> {
+    await authStorage.set(STORAGE_KEYS.ACCOUNTS, accounts);
+  },
+
+  /**
+   * Get the active account ID
+   * Falls back to the first account if the stored ID is missing or stale
+   */
+  async getActiveAccountId(): Promise<string | null> {
+    const accounts = await this.getAccounts();
+    const activeId = await authStorage.get<string>(STORAGE_KEYS.ACTIVE_ACCOUNT_ID);
+    if (activeId && accounts.some((a) => a.id === activeId)) return activeId;
+    return accounts[0]?.id ?? null;
+  },
+
+  async setActiveAccountId(accountId: string): Promise<void> {
+    await authStorage.set(STORAGE_KEYS.ACTIVE_ACCOUNT_ID, accountId);
+  },
+
+  /**
+   * Get an account by ID, or the active account when no ID is given
+   */
+  async getAccount(accountId?: string): Promise<Account | null> {
+    const accounts = await this.getAccounts();
+    const id = accountId ?? (await this.getActiveAccountId());
+    return accounts.find((a) => a.id === id) ?? null;
+  },
+
+  /**
+   * Add an account and make it active
+   * Signing in again as the same Real-Debrid user replaces that account's tokens
+   */
+  addAccount(auth: AuthData, profile?: UserProfile): Promise<Account> {
+    return enqueueAccountsWrite(async () => {
+      const accounts = await this.getAccounts();
+      const existing = profile
+        ? accounts.find((a) => a.profile?.id === profile.id)
+        : undefined;
+
+      let account: Account;
+      if (existing) {
+        account = { ...existing, auth, profile, profileTimestamp: Date.now() };
+        await this.setAccounts(accounts.map((a) => (a.id === existing.id ? account : a)));
+      } else {
+        account = createAccount(auth, profile);
+        await this.setAccounts([...accounts, account]);
+      }
+
+      await this.setActiveAccountId(account.id);
+      return account;
+    });
+  },
+
+  /**
+   * Update an account (partial update)
+   * Returns null if the account no longer exists
+   */
+  updateAccount(
+    accountId: string,
+    updates: Partial<Omit<Account, "id">>
+  ): Promise<Account | null> {
+    return enqueueAccountsWrite(async () => {
+      const accounts = await this.getAccounts();
+      const current = accounts.find((a) => a.id === accountId);
+      if (!current) return null;
+
+      const updated = { ...current, ...updates };
+      await this.setAccounts(accounts.map((a) => (a.id === accountId ? updated : a)));
+      return updated;
+    });
+  },
+
+  /**
+   * Remove an account
+   * If it was active, the next remaining account becomes active
+   */
+  async removeAccount(accountId: string): Promise<void> {
+    const remaining = await enqueueAccountsWrite(async () => {
+      const accounts = await this.getAccounts();
+      const remaining = accounts.filter((a) => a.id !== accountId);
+      await this.setAccounts(remaining);
+
+      const activeId = await authStorage.get<string>(STORAGE_KEYS.ACTIVE_ACCOUNT_ID);
+      if (activeId === accountId || !activeId) {
+        if (remaining.length > 0) {
+          await this.setActiveAccountId(remaining[0].id);
+        } else {
+          await authStorage.remove(STORAGE_KEYS.ACTIVE_ACCOUNT_ID);
+        }
+      }
+      return remaining;
+    });
+
+    await this.clearTorrentSnapshot(accountId);
+    await this.setStreamingSupport(accountId, null);
+
+    // Last account gone - full logout
+    if (remaining.length === 0) await this.clearCache();
+  },
+
+  // ============================================
+  // OAUTH DEVICE FLOW (local storage)
+  // ============================================
+
+  /**
+   * Get the device flow in progress (or its outcome)
+   */
+  async getOAuthFlow(): Promise<OAuthFlowState> {
+    const flow = await authStorage.get<OAuthFlowState>(STORAGE_KEYS.OAUTH_FLOW);
+    return flow ?? { status: "idle" };
+  },
+
+  async setOAuthFlow(flow: OAuthFlowState): Promise<void> {
+    await authStorage.set(STORAGE_KEYS.OAUTH_FLOW, flow);
+  },
+
+  async clearOAuthFlow(): Promise<void> {
+    await authStorage.remove(STORAGE_KEYS.OAUTH_FLOW);
+  },
+
+  // ============================================
+  // AUTH DATA (per account, defaults to active)
   // ============================================
 
   /**
    * Get the full auth data
    */
-  async getAuthData(): Promise<AuthData | null> {
-    const data = await authStorage.get<AuthData>(STORAGE_KEYS.AUTH_DATA);
-    return data ?? null;
+  async getAuthData(accountId?: string): Promise<AuthData | null> {
+    const account = await this.getAccount(accountId);
+    return account?.auth ?? null;
   },
 
   /**
    * Set the full auth data
+   * Adds a new account if there is no account to update
    */
-  async setAuthData(authData: AuthData): Promise<void> {
-    await authStorage.set(STORAGE_KEYS.AUTH_DATA, authData);
+  async setAuthData(authData: AuthData, accountId?: string): Promise<void> {
+    const account = await this.getAccount(accountId);
+    if (account) {
+      await this.updateAccount(account.id, { auth: authData });
+    } else {
+      await this.addAccount(authData);
+    }
   },
 
   /**
-   * Remove all auth data (full logout)
+   * Sign out of an account
    */
-  async removeAuthData(): Promise<void> {
-    await authStorage.remove(STORAGE_KEYS.AUTH_DATA);
-    await this.clearCache();
+  async removeAuthData(accountId?: string): Promise<void> {
+    const account = await this.getAccount(accountId);
+    if (account) await this.removeAccount(account.id);
   },
 
   /**
    * Get the API token from auth data
    */
-  async getToken(): Promise<string | null> {
-    const authData = await this.getAuthData();
+  async getToken(accountId?: string): Promise<string | null> {
+    const authData = await this.getAuthData(accountId);
     return authData?.accessToken ?? null;
   },
 
   /**
    * Check if user is authenticated
    */
-  async isAuthenticated(): Promise<boolean> {
-    const authData = await this.getAuthData();
+  async isAuthenticated(accountId?: string): Promise<boolean> {
+    const authData = await this.getAuthData(accountId);
     return authData !== null && !!authData.accessToken;
   },
 
+  // ============================================
+  // ARIA2 SECRET (local storage, not synced)
+  // ============================================
+
+  /**
+   * Get the --rpc-secret for aria2; empty when it has none
+   */
+  async getAria2Secret(): Promise<string> {
+    return (await authStorage.get<string>(STORAGE_KEYS.ARIA2_SECRET)) ?? "";
+  },
+
+  async setAria2Secret(secret: string): Promise<void> {
+    await authStorage.set(STORAGE_KEYS.ARIA2_SECRET, secret);
+  },
+
   // ============================================
   // PREFERENCES (sync storage)
   // ============================================
@@ -166,33 +442,35 @@ export const storage = {
   },
 
   // ============================================
-  // CACHED PROFILE
+  // CACHED PROFILE (per account)
   // ============================================
 
-  async getCachedUserProfile(): Promise<UserProfile | null> {
-    const cache = await this.getCache();
+  async getCachedUserProfile(accountId?: string): Promise<UserProfile | null> {
+    const account = await this.getAccount(accountId);
     if (
-      cache.userProfile &&
-      cache.userProfileTimestamp &&
-      Date.now() - cache.userProfileTimestamp < CACHE_TTL
+      account?.profile &&
+      account.profileTimestamp &&
+      Date.now() - account.profileTimestamp < CACHE_TTL
     ) {
-      return cache.userProfile;
+      return account.profile;
     }
     return null;
   },
 
-  async cacheUserProfile(profile: UserProfile): Promise<void> {
-    await this.setCache({
-      userProfile: profile,
-      userProfileTimestamp: Date.now(),
+  async cacheUserProfile(profile: UserProfile, accountId?: string): Promise<void> {
+    const account = await this.getAccount(accountId);
+    if (!account) return;
+    await this.updateAccount(account.id, {
+      profile,
+      profileTimestamp: Date.now(),
     });
   },
 
-  async clearUserProfileCache(): Promise<void> {
-    await this.setCache({
-      userProfile: undefined,
-      userProfileTimestamp: undefined,
-    });
+  async clearUserProfileCache(accountId?: string): Promise<void> {
+    const account = await this.getAccount(accountId);
+    if (!account) return;
+    // Keep the profile for display; only expire it
+    await this.updateAccount(account.id, { profileTimestamp: undefined });
   },
 
   // ============================================
@@ -237,19 +515,196 @@ export const storage = {
     });
   },
 
+  // ============================================
+  // RATE LIMIT WINDOW (local storage)
+  // ============================================
+
+  /**
+   * Get persisted request timestamps for the API rate limiter
+   */
+  async getRateLimitWindow(): Promise<number[]> {
+    const timestamps = await cacheStorage.get<number[]>(
+      STORAGE_KEYS.RATE_LIMIT_WINDOW
+    );
+    return Array.isArray(timestamps) ? timestamps : [];
+  },
+
+  /**
+   * Persist request timestamps so the window survives worker restarts
+   */
+  async setRateLimitWindow(timestamps: number[]): Promise<void> {
+    await cacheStorage.set(STORAGE_KEYS.RATE_LIMIT_WINDOW, timestamps);
+  },
+
+  // ============================================
+  // TORRENT SNAPSHOTS (local storage, per account)
+  // ============================================
+
+  /**
+   * Get the last-known torrent states for an account
+   * Returns null if the account's torrents have never been polled
+   */
+  async getTorrentSnapshot(accountId: string): Promise<TorrentSnapshot | null> {
+    const snapshots = await cacheStorage.get<Record<string, TorrentSnapshot>>(
+      STORAGE_KEYS.TORRENT_SNAPSHOTS
+    );
+    return snapshots?.[accountId] ?? null;
+  },
+
+  /**
+   * Persist torrent states so completions aren't missed across worker restarts
+   */
+  async setTorrentSnapshot(accountId: string, snapshot: TorrentSnapshot): Promise<void> {
+    const snapshots = await cacheStorage.get<Record<string, TorrentSnapshot>>(
+      STORAGE_KEYS.TORRENT_SNAPSHOTS
+    );
+    await cacheStorage.set(STORAGE_KEYS.TORRENT_SNAPSHOTS, {
+      ...snapshots,
+      [accountId]: snapshot,
+    });
+  },
+
+  async clearTorrentSnapshot(accountId: string): Promise<void> {
+    const snapshots = await cacheStorage.get<Record<string, TorrentSnapshot>>(
+      STORAGE_KEYS.TORRENT_SNAPSHOTS
+    );
+    if (!snapshots?.[accountId]) return;
+    const { [accountId]: _removed, ...rest } = snapshots;
+    await cacheStorage.set(STORAGE_KEYS.TORRENT_SNAPSHOTS, rest);
+  },
+
+  // ============================================
+  // COMPLETION PIPELINE (local storage)
+  // ============================================
+
+  /**
+   * Get completion pipeline runs, newest first
+   */
+  async getCompletionHistory(): Promise<CompletionRun[]> {
+    const runs = await cacheStorage.get<CompletionRun[]>(STORAGE_KEYS.COMPLETION_HISTORY);
+    return Array.isArray(runs) ? runs : [];
+  },
+
+  async setCompletionHistory(runs: CompletionRun[]): Promise<void> {
+    await cacheStorage.set(STORAGE_KEYS.COMPLETION_HISTORY, runs);
+  },
+
+  async clearCompletionHistory(): Promise<void> {
+    await cacheStorage.remove(STORAGE_KEYS.COMPLETION_HISTORY);
+  },
+
+  /**
+   * Get per-torrent completion settings, by torrent id
+   */
+  async getCompletionOverrides(): Promise<Record<string, CompletionSetting>> {
+    const overrides = await cacheStorage.get<Record<string, CompletionSetting>>(
+      STORAGE_KEYS.COMPLETION_OVERRIDES
+    );
+    return overrides ?? {};
+  },
+
+  /**
+   * Set what happens when one torrent completes; null follows the global setting
+   */
+  async setCompletionOverride(torrentId: string, setting: CompletionSetting | null): Promise<void> {
+    const { [torrentId]: _previous, ...rest } = await this.getCompletionOverrides();
+    await cacheStorage.set(
+      STORAGE_KEYS.COMPLETION_OVERRIDES,
+      setting === null ? rest : { ...rest, [torrentId]: setting }
+    );
+  },
+
+  /**
+   * Get files handed to the browser's download manager, newest first
+   */
+  async getTransfers(): Promise<Transfer[]> {
+    const transfers = await cacheStorage.get<Transfer[]>(STORAGE_KEYS.TRANSFERS);
+    return Array.isArray(transfers) ? transfers : [];
+  },
+
+  async setTransfers(transfers: Transfer[]): Promise<void> {
+    await cacheStorage.set(STORAGE_KEYS.TRANSFERS, transfers);
+  },
+
+  /**
+   * Get files waiting to be handed to the browser
+   */
+  async getDownloadQueue(): Promise<DownloadQueueState> {
+    const state = await cacheStorage.get<DownloadQueueState>(STORAGE_KEYS.DOWNLOAD_QUEUE);
+    return state && Array.isArray(state.items) ? state : { ...EMPTY_DOWNLOAD_QUEUE, items: [] };
+  },
+
+  async setDownloadQueue(state: DownloadQueueState): Promise<void> {
+    await cacheStorage.set(STORAGE_KEYS.DOWNLOAD_QUEUE, state);
+  },
+
+  /**
+   * Get bulk jobs and their reports, as of the last change
+   */
+  async getJobs(): Promise<Job[]> {
+    const jobs = await cacheStorage.get<Job[]>(STORAGE_KEYS.JOBS);
+    return Array.isArray(jobs) ? jobs : [];
+  },
+
+  async setJobs(jobs: Job[]): Promise<void> {
+    await cacheStorage.set(STORAGE_KEYS.JOBS, jobs);
+  },
+
+  /**
+   * Get where playback of a streamed file was left off
+   */
+  async getPlaybackPosition(fileId: string): Promise<PlaybackPosition | null> {
+    const positions = await cacheStorage.get<Record<string, PlaybackPosition>>(STORAGE_KEYS.PLAYBACK_POSITIONS);
+    return positions?.[fileId] ?? null;
+  },
+
+  /**
+   * Save where playback is; null forgets the file, e.g. once it's finished
+   */
+  async setPlaybackPosition(fileId: string, position: PlaybackPosition | null): Promise<void> {
+    const positions = await cacheStorage.get<Record<string, PlaybackPosition>>(STORAGE_KEYS.PLAYBACK_POSITIONS);
+    const { [fileId]: _previous, ...rest } = positions ?? {};
+    await cacheStorage.set(
+      STORAGE_KEYS.PLAYBACK_POSITIONS,
+      position === null ? rest : trimPlaybackPositions({ ...rest, [fileId]: position })
+    );
+  },
+
+  /**
+   * Get whether an account may use the streaming endpoints, as last probed
+   */
+  async getStreamingSupport(accountId: string): Promise<StreamingSupport | null> {
+    const support = await cacheStorage.get<Record<string, StreamingSupport>>(STORAGE_KEYS.STREAMING_SUPPORT);
+    return support?.[accountId] ?? null;
+  },
+
+  /**
+   * Cache a probe result; null forgets it so the next check probes again
+   */
+  async setStreamingSupport(accountId: string, support: StreamingSupport | null): Promise<void> {
+    const cached = await cacheStorage.get<Record<string, StreamingSupport>>(STORAGE_KEYS.STREAMING_SUPPORT);
+    if (support === null && !cached?.[accountId]) return;
+    const { [accountId]: _previous, ...rest } = cached ?? {};
+    await cacheStorage.set(STORAGE_KEYS.STREAMING_SUPPORT, support === null ? rest : { ...rest, [accountId]: support });
+  },
+
   // ============================================
   // WATCH FUNCTIONALITY (for cross-context sync)
   // ============================================
 
   /**
-   * Watch for auth data changes
+   * Watch for accounts being added, removed, updated or switched
    * Note: For React components, prefer using the useStorage hook instead
    */
-  watchAuthData(callback: (authData: AuthData | null) => void): void {
+  watchAccounts(
+    callback: (accounts: Account[], activeAccountId: string | null) => void
+  ): void {
+    const notify = async () => {
+      callback(await this.getAccounts(), await this.getActiveAccountId());
+    };
     authStorage.watch({
-      [STORAGE_KEYS.AUTH_DATA]: (change) => {
-        callback(change.newValue ?? null);
-      },
+      [STORAGE_KEYS.ACCOUNTS]: notify,
+      [STORAGE_KEYS.ACTIVE_ACCOUNT_ID]: notify,
     });
   },
 
@@ -0,0 +1,109 @@
+/**
+ * Streaming support
+ * Real-Debrid refuses /streaming/* for some sign-ins (OAuth tokens get
+ * "method_not_allowed") while the same account streams fine on the website.
+ * Each account is probed once and the answer cached, so views only offer
+ * transcoded playback where it works and fall back to the file itself when
+ * the browser can play it.
+ */
+
+import type { UnrestrictedLink } from "./api/unrestrict";
+
+export type StreamingStatus = "available" | "refused" | "unknown";
+
+export interface StreamingSupport {
+  // "unknown" when the probe couldn't reach Real-Debrid; never cached
+  status: StreamingStatus;
+  checkedAt: number;
+  // error_code Real-Debrid refused with
+  errorCode?: number;
+}
+
+// A working endpoint rarely goes away; re-check weekly
+const AVAILABLE_TTL = 7 * 24 * 60 * 60 * 1000;
+// Refusals are re-checked daily in case Real-Debrid opens the endpoint up
+const REFUSED_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Error codes meaning the account can't use the streaming endpoints at all:
+ * method_not_allowed, permission_denied and disabled_endpoint.
+ * Anything else (e.g. resource_not_found for the probe's file) means the
+ * endpoint answered, so it's available.
+ */
+const REFUSAL_CODES = new Set([4, 9, 37]);
+
+export function isStreamingRefusal(code: number | undefined): boolean {
+  return code !== undefined && REFUSAL_CODES.has(code);
+}
+
+/**
+ * What a streaming endpoint's error says about support
+ * Sign-in, rate limit, timeout, server and network errors say nothing either way.
+ */
+export function getStreamingStatus(code: number | undefined, status: number): StreamingStatus {
+  if (isStreamingRefusal(code)) return "refused";
+  const answered = status >= 400 && status < 500 && ![401, 408, 429, 499].includes(status);
+  return answered ? "available" : "unknown";
+}
+
+/**
+ * Whether a cached result can still be trusted
+ */
+export function isStreamingSupportFresh(support: StreamingSupport, now = Date.now()): boolean {
+  if (support.status === "unknown") return false;
+  const ttl = support.status === "available" ? AVAILABLE_TTL : REFUSED_TTL;
+  return now - support.checkedAt < ttl;
+}
+
+/**
+ * Shown in place of a streaming action the API refuses
+ */
+export const STREAMING_REFUSED_MESSAGE =
+  "Real-Debrid doesn't allow streaming through the API for this sign-in, though it works on their website.";
+
+// Formats Chrome plays natively, without transcoding
+const BROWSER_PLAYABLE_TYPES = new Set([
+  "video/mp4",
+  "video/webm",
+  "video/ogg",
+  "audio/mpeg",
+  "audio/mp4",
+  "audio/aac",
+  "audio/ogg",
+  "audio/webm",
+  "audio/flac",
+  "audio/wav",
+  "audio/x-wav",
+]);
+// For hosters that report a generic mime type
+const BROWSER_PLAYABLE_EXTENSIONS = /\.(mp4|m4v|webm|ogv|mp3|m4a|aac|ogg|oga|opus|flac|wav)$/i;
+
+export type StreamingFile = Pick<UnrestrictedLink, "filename" | "mimeType" | "streamable">;
+
+/**
+ * Whether the browser can play a file straight from its download URL
+ */
+export function isBrowserPlayable(file: Pick<StreamingFile, "filename" | "mimeType">): boolean {
+  const mimeType = file.mimeType?.split(";")[0].trim().toLowerCase();
+  if (mimeType && BROWSER_PLAYABLE_TYPES.has(mimeType)) return true;
+  return BROWSER_PLAYABLE_EXTENSIONS.test(file.filename);
+}
+
+/**
+ * What a view can offer for playing a file
+ * - transcode: Real-Debrid's HLS/MP4 streams
+ * - direct: the download URL, played as-is
+ * - refused: the file would stream, but the API won't; explain instead
+ * - none: nothing to offer
+ */
+export type StreamingAction = "transcode" | "direct" | "refused" | "none";
+
+/**
+ * @param status - The account's streaming support; undefined while loading
+ */
+export function getStreamingAction(file: StreamingFile, status: StreamingStatus | undefined): StreamingAction {
+  if (file.streamable === 1 && status === "available") return "transcode";
+  if (isBrowserPlayable(file)) return "direct";
+  if (file.streamable === 1 && status === "refused") return "refused";
+  return "none";
+}
@@ -0,0 +1,322 @@
+/**
+ * Torrent list queries
+ * Parses the torrent search box (free text plus conditions such as
+ * `size>10GB`, `added<7d` or `host:1fichier`), filters and sorts torrents with
+ * it, and round-trips the whole query through URL parameters so views can be
+ * bookmarked.
+ */
+
+import type { TorrentItem, TorrentStatus } from "./api/torrents";
+
+/**
+ * Coarse status groups shown as filter tabs
+ */
+export type TorrentStatusGroup = "all" | "downloading" | "ready" | "error";
+
+export const TORRENT_STATUS_GROUPS: TorrentStatusGroup[] = ["all", "downloading", "ready", "error"];
+
+export type TorrentSortKey = "added" | "size" | "progress" | "speed" | "seeders";
+
+export const TORRENT_SORT_KEYS: TorrentSortKey[] = ["added", "size", "progress", "speed", "seeders"];
+
+export type SortDirection = "asc" | "desc";
+
+export interface TorrentQuery {
+  status: TorrentStatusGroup;
+  search: string;
+  sort: TorrentSortKey;
+  direction: SortDirection;
+}
+
+// Newest first, matching the API's own order
+export const DEFAULT_TORRENT_QUERY: TorrentQuery = {
+  status: "all",
+  search: "",
+  sort: "added",
+  direction: "desc",
+};
+
+export type ConditionField = "size" | "added" | "host" | "progress" | "speed" | "seeders";
+
+export type ConditionOperator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+/**
+ * One condition from the search box
+ * Numeric values are in bytes (size), bytes/s (speed), percent (progress) or
+ * milliseconds of age (added)
+ */
+export interface TorrentCondition {
+  field: ConditionField;
+  operator: ConditionOperator;
+  value: number | string;
+  // Position among the search's tokens, so removing it drops only this one
+  index: number;
+  // For added, the age unit typed in ms; = and != match the whole unit, so
+  // added=7d means 7 to 8 days ago
+  unit?: number;
+}
+
+export interface ParsedTorrentSearch {
+  terms: string[];
+  conditions: TorrentCondition[];
+  // Tokens that name a field but whose value couldn't be read
+  invalid: string[];
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+  t: 1024 ** 4,
+  tb: 1024 ** 4,
+};
+
+const AGE_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const CONDITION_PATTERN = /^(size|added|host|progress|speed|seeders)(!=|>=|<=|=|:|>|<)(.+)$/i;
+
+/**
+ * Group a torrent's status for the filter tabs
+ */
+export function getStatusGroup(status: TorrentStatus): TorrentStatusGroup {
+  if (["error", "magnet_error", "virus", "dead"].includes(status)) return "error";
+  if (["downloaded"].includes(status)) return "ready";
+  if (["downloading", "queued", "magnet_conversion", "compressing", "uploading"].includes(status)) return "downloading";
+  return "all";
+}
+
+function parseAmount(
+  text: string,
+  units: Record<string, number>,
+  defaultUnit: string
+): { value: number; unit: number } | null {
+  const match = text.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/);
+  if (!match) return null;
+  const unit = units[match[2] || defaultUnit];
+  return unit === undefined ? null : { value: parseFloat(match[1]) * unit, unit };
+}
+
+// Words and quoted phrases
+function splitSearch(search: string): string[] {
+  return search.match(/"[^"]*"|\S+/g) ?? [];
+}
+
+function parseCondition(token: string, index: number): TorrentCondition | null | undefined {
+  const match = token.match(CONDITION_PATTERN);
+  // Not a condition at all; treat as free text
+  if (!match) return undefined;
+
+  const field = match[1].toLowerCase() as ConditionField;
+  const operator = (match[2] === ":" ? "=" : match[2]) as ConditionOperator;
+  const text = match[3];
+
+  if (field === "host") {
+    if (operator !== "=" && operator !== "!=") return null;
+    return { field, operator, value: text.toLowerCase(), index };
+  }
+
+  if (field === "added") {
+    const age = parseAmount(text, AGE_UNITS, "d");
+    return age && { field, operator, value: age.value, index, unit: age.unit };
+  }
+
+  const amount = field === "size" || field === "speed"
+    ? parseAmount(text, SIZE_UNITS, "b")
+    : parseAmount(text.replace(/%$/, ""), { "": 1 }, "");
+  return amount && { field, operator, value: amount.value, index };
+}
+
+/**
+ * Split search text into free-text terms and conditions
+ * Quoted phrases stay together, e.g. `"season 2" size>1GB`
+ */
+export function parseTorrentSearch(search: string): ParsedTorrentSearch {
+  const result: ParsedTorrentSearch = { terms: [], conditions: [], invalid: [] };
+
+  splitSearch(search).forEach((token, index) => {
+    if (token.startsWith('"')) {
+      const phrase = token.slice(1, -1).trim().toLowerCase();
+      if (phrase) result.terms.push(phrase);
+      return;
+    }
+
+    const condition = parseCondition(token, index);
+    if (condition) {
+      result.conditions.push(condition);
+    } else if (condition === null) {
+      result.invalid.push(token);
+    } else {
+      result.terms.push(token.toLowerCase());
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Search text without one token, by its position; the rest stay as typed
+ */
+export function removeSearchToken(search: string, index: number): string {
+  return splitSearch(search)
+    .filter((_, i) => i !== index)
+    .join(" ");
+}
+
+function compare(actual: number, operator: ConditionOperator, expected: number): boolean {
+  switch (operator) {
+    case "=":
+      return actual === expected;
+    case "!=":
+      return actual !== expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+  }
+}
+
+function matchesCondition(torrent: TorrentItem, condition: TorrentCondition, now: number): boolean {
+  const { field, operator, value } = condition;
+
+  if (field === "host") {
+    const matches = torrent.host.toLowerCase().includes(value as string);
+    return operator === "!=" ? !matches : matches;
+  }
+
+  const expected = value as number;
+  switch (field) {
+    case "size":
+      return compare(torrent.bytes, operator, expected);
+    case "speed":
+      return compare(torrent.speed ?? 0, operator, expected);
+    case "progress":
+      return compare(torrent.progress, operator, expected);
+    case "seeders":
+      return compare(torrent.seeders ?? 0, operator, expected);
+    case "added": {
+      // Compare ages: `added<7d` means added less than 7 days ago
+      const age = now - (Date.parse(torrent.added) || 0);
+      if (operator === "=" || operator === "!=") {
+        // Ages never land on the millisecond; match the whole typed unit
+        const within = age >= expected && age < expected + (condition.unit ?? AGE_UNITS.d);
+        return operator === "=" ? within : !within;
+      }
+      return compare(age, operator, expected);
+    }
+  }
+}
+
+/**
+ * Does a torrent match the status group and parsed search
+ */
+export function matchesTorrentQuery(
+  torrent: TorrentItem,
+  status: TorrentStatusGroup,
+  search: ParsedTorrentSearch,
+  now = Date.now()
+): boolean {
+  if (status !== "all" && getStatusGroup(torrent.status) !== status) return false;
+
+  const haystack = `${torrent.filename}\n${torrent.hash}`.toLowerCase();
+  if (!search.terms.every((term) => haystack.includes(term))) return false;
+
+  return search.conditions.every((condition) => matchesCondition(torrent, condition, now));
+}
+
+function getSortValue(torrent: TorrentItem, key: TorrentSortKey): number {
+  switch (key) {
+    case "added":
+      return Date.parse(torrent.added) || 0;
+    case "size":
+      return torrent.bytes;
+    case "progress":
+      return torrent.progress;
+    case "speed":
+      return torrent.speed ?? 0;
+    case "seeders":
+      return torrent.seeders ?? 0;
+  }
+}
+
+/**
+ * Sort a copy of the list; ties keep their current order
+ */
+export function sortTorrents(
+  torrents: TorrentItem[],
+  key: TorrentSortKey,
+  direction: SortDirection
+): TorrentItem[] {
+  const sign = direction === "asc" ? 1 : -1;
+  return torrents
+    .map((torrent, index) => ({ torrent, index, value: getSortValue(torrent, key) }))
+    .sort((a, b) => (a.value - b.value) * sign || a.index - b.index)
+    .map(({ torrent }) => torrent);
+}
+
+/**
+ * Describe a condition for display, e.g. "added in the last 7 days"
+ */
+export function describeCondition(condition: TorrentCondition): string {
+  const { field, operator, value } = condition;
+  if (field === "host") {
+    return `host ${operator === "!=" ? "is not" : "is"} ${value}`;
+  }
+  if (field === "added") {
+    const days = (value as number) / AGE_UNITS.d;
+    const amount = days >= 1 ? `${+days.toFixed(1)} days` : `${+((value as number) / AGE_UNITS.h).toFixed(1)} hours`;
+    if (operator === "<" || operator === "<=") return `added in the last ${amount}`;
+    if (operator === ">" || operator === ">=") return `added over ${amount} ago`;
+    return `added ${amount} ago`;
+  }
+  if (field === "size" || field === "speed") {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let amount = value as number;
+    let unit = 0;
+    while (amount >= 1024 && unit < units.length - 1) {
+      amount /= 1024;
+      unit++;
+    }
+    return `${field} ${operator} ${+amount.toFixed(2)} ${units[unit]}${field === "speed" ? "/s" : ""}`;
+  }
+  return `${field} ${operator} ${value}${field === "progress" ? "%" : ""}`;
+}
+
+/**
+ * Encode a query as URL parameters, leaving out defaults
+ */
+export function serializeTorrentQuery(query: TorrentQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.status !== DEFAULT_TORRENT_QUERY.status) params.set("status", query.status);
+  if (query.search.trim()) params.set("q", query.search);
+  if (query.sort !== DEFAULT_TORRENT_QUERY.sort) params.set("sort", query.sort);
+  if (query.direction !== DEFAULT_TORRENT_QUERY.direction) params.set("dir", query.direction);
+  return params;
+}
+
+/**
+ * Read a query from URL parameters; unknown values fall back to defaults
+ */
+export function parseTorrentQuery(params: URLSearchParams): TorrentQuery {
+  const status = params.get("status") as TorrentStatusGroup;
+  const sort = params.get("sort") as TorrentSortKey;
+  const direction = params.get("dir");
+
+  return {
+    status: TORRENT_STATUS_GROUPS.includes(status) ? status : DEFAULT_TORRENT_QUERY.status,
+    search: params.get("q") ?? DEFAULT_TORRENT_QUERY.search,
+    sort: TORRENT_SORT_KEYS.includes(sort) ? sort : DEFAULT_TORRENT_QUERY.sort,
+    direction: direction === "asc" || direction === "desc" ? direction : DEFAULT_TORRENT_QUERY.direction,
+  };
+}
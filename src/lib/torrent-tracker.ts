@@ -0,0 +1,283 @@
+/**
+ * Torrent state tracker
+ * Keeps the last-known state of every torrent per account and diffs each poll
+ * against it, emitting a transition for every status change. The snapshot can
+ * be persisted so changes that happen while the service worker is asleep are
+ * still reported when it wakes up.
+ */
+
+import type { TorrentItem, TorrentStatus } from "./api/torrents";
+import { createSerialQueue } from "./serial-store";
+
+/**
+ * Last-known state of a torrent
+ */
+export interface TrackedTorrent {
+  filename: string;
+  status: TorrentStatus;
+  progress: number;
+  // When the torrent was first seen by the tracker
+  firstSeenAt: number;
+  // When the status last changed
+  changedAt: number;
+  // When the torrent was last seen in a poll
+  seenAt: number;
+}
+
+/**
+ * Tracked torrents for one account
+ */
+export interface TorrentSnapshot {
+  // When tracking started; torrents added before this that weren't seen yet
+  // (e.g. beyond the pages a poll walked) are not reported as new
+  since: number;
+  torrents: Record<string, TrackedTorrent>;
+}
+
+/**
+ * What a status change means, for consumers that don't care about every status
+ */
+export type TorrentTransitionKind =
+  | "added"
+  | "started"
+  | "completed"
+  | "failed"
+  | "removed"
+  | "changed";
+
+/**
+ * A change in a torrent's status between two polls
+ * `from` is null for torrents that appeared, `to` is null for torrents that
+ * were deleted
+ */
+export interface TorrentTransition {
+  kind: TorrentTransitionKind;
+  accountId: string;
+  torrentId: string;
+  filename: string;
+  from: TorrentStatus | null;
+  to: TorrentStatus | null;
+  progress: number;
+  at: number;
+  // The torrent as returned by the API; absent for removals
+  torrent?: TorrentItem;
+}
+
+export type TorrentTransitionListener = (
+  transition: TorrentTransition
+) => void | Promise<void>;
+
+export const ACTIVE_TORRENT_STATUSES: TorrentStatus[] = [
+  "magnet_conversion",
+  "queued",
+  "downloading",
+  "compressing",
+  "uploading",
+];
+
+export const FAILED_TORRENT_STATUSES: TorrentStatus[] = [
+  "magnet_error",
+  "error",
+  "virus",
+  "dead",
+];
+
+export function isActiveTorrentStatus(status: TorrentStatus): boolean {
+  return ACTIVE_TORRENT_STATUSES.includes(status);
+}
+
+/**
+ * Classify a status change
+ */
+export function getTransitionKind(
+  from: TorrentStatus | null,
+  to: TorrentStatus | null
+): TorrentTransitionKind {
+  if (to === null) return "removed";
+  if (to === "downloaded") return "completed";
+  if (FAILED_TORRENT_STATUSES.includes(to)) return "failed";
+  if (to === "downloading") return "started";
+  if (from === null) return "added";
+  return "changed";
+}
+
+export interface TorrentDiffOptions {
+  accountId: string;
+  // Whether `torrents` is the full list; only then can missing torrents be
+  // reported as removed
+  complete: boolean;
+  now?: number;
+}
+
+/**
+ * Diff a poll against the previous snapshot
+ * Without a previous snapshot this only records a baseline. Torrents missing
+ * from a partial poll are kept as they were.
+ */
+export function diffTorrents(
+  previous: TorrentSnapshot | null,
+  torrents: TorrentItem[],
+  options: TorrentDiffOptions
+): { snapshot: TorrentSnapshot; transitions: TorrentTransition[] } {
+  const { accountId, complete } = options;
+  const now = options.now ?? Date.now();
+  const known = previous?.torrents ?? {};
+  const snapshot: TorrentSnapshot = {
+    since: previous?.since ?? now,
+    torrents: complete ? {} : { ...known },
+  };
+  const transitions: TorrentTransition[] = [];
+
+  const isNew = (torrent: TorrentItem) =>
+    previous !== null && Date.parse(torrent.added) >= previous.since;
+
+  for (const torrent of torrents) {
+    const tracked = known[torrent.id];
+    const from = tracked?.status ?? null;
+    const changed = from !== torrent.status;
+
+    snapshot.torrents[torrent.id] = {
+      filename: torrent.filename,
+      status: torrent.status,
+      progress: torrent.progress,
+      firstSeenAt: tracked?.firstSeenAt ?? now,
+      changedAt: changed || !tracked ? now : tracked.changedAt,
+      seenAt: now,
+    };
+
+    if (changed && (tracked || isNew(torrent))) {
+      transitions.push({
+        kind: getTransitionKind(from, torrent.status),
+        accountId,
+        torrentId: torrent.id,
+        filename: torrent.filename,
+        from,
+        to: torrent.status,
+        progress: torrent.progress,
+        at: now,
+        torrent,
+      });
+    }
+  }
+
+  if (complete) {
+    for (const [torrentId, tracked] of Object.entries(known)) {
+      if (snapshot.torrents[torrentId]) continue;
+      transitions.push({
+        kind: "removed",
+        accountId,
+        torrentId,
+        filename: tracked.filename,
+        from: tracked.status,
+        to: null,
+        progress: tracked.progress,
+        at: now,
+      });
+    }
+  }
+
+  return { snapshot, transitions };
+}
+
+export interface TorrentTrackerOptions {
+  // Restore an account's snapshot, e.g. from extension storage; null if the
+  // account has never been polled
+  load?: (accountId: string) => Promise<TorrentSnapshot | null>;
+  // Persist an account's snapshot after each poll
+  save?: (accountId: string, snapshot: TorrentSnapshot) => Promise<void>;
+}
+
+export interface TorrentTracker {
+  update: (
+    accountId: string,
+    torrents: TorrentItem[],
+    options: { complete: boolean }
+  ) => Promise<TorrentTransition[]>;
+  getSnapshot: (accountId: string) => Promise<TorrentSnapshot | null>;
+  getActiveIds: (accountId: string) => Promise<string[]>;
+  onTransition: (listener: TorrentTransitionListener) => () => void;
+}
+
+/**
+ * Create a torrent tracker
+ * Polls can overlap, so snapshot updates wait their turn
+ */
+export function createTorrentTracker(
+  options: TorrentTrackerOptions = {}
+): TorrentTracker {
+  const { load, save } = options;
+  const snapshots = new Map<string, TorrentSnapshot | null>();
+  const listeners = new Set<TorrentTransitionListener>();
+  const enqueue = createSerialQueue();
+
+  async function loadSnapshot(accountId: string): Promise<TorrentSnapshot | null> {
+    if (snapshots.has(accountId)) return snapshots.get(accountId) ?? null;
+
+    let snapshot: TorrentSnapshot | null = null;
+    if (load) {
+      try {
+        snapshot = await load(accountId);
+      } catch (err) {
+        console.error("[TorrentTracker] Failed to restore snapshot:", err);
+      }
+    }
+    snapshots.set(accountId, snapshot);
+    return snapshot;
+  }
+
+  async function emit(transitions: TorrentTransition[]): Promise<void> {
+    for (const transition of transitions) {
+      for (const listener of listeners) {
+        try {
+          await listener(transition);
+        } catch (err) {
+          console.error("[TorrentTracker] Transition listener failed:", err);
+        }
+      }
+    }
+  }
+
+  // Listeners run outside the queue so they can read the tracker themselves
+  const update: TorrentTracker["update"] = async (accountId, torrents, { complete }) => {
+    const transitions = await enqueue(async () => {
+      const previous = await loadSnapshot(accountId);
+      const { snapshot, transitions } = diffTorrents(previous, torrents, {
+        accountId,
+        complete,
+      });
+
+      snapshots.set(accountId, snapshot);
+      if (save) {
+        try {
+          await save(accountId, snapshot);
+        } catch (err) {
+          console.error("[TorrentTracker] Failed to persist snapshot:", err);
+        }
+      }
+
+      return transitions;
+    });
+
+    await emit(transitions);
+    return transitions;
+  };
+
+  const getSnapshot: TorrentTracker["getSnapshot"] = (accountId) =>
+    enqueue(() => loadSnapshot(accountId));
+
+  const getActiveIds: TorrentTracker["getActiveIds"] = async (accountId) => {
+    const snapshot = await getSnapshot(accountId);
+    return Object.entries(snapshot?.torrents ?? {})
+      .filter(([, torrent]) => isActiveTorrentStatus(torrent.status))
+      .map(([torrentId]) => torrentId);
+  };
+
+  const onTransition: TorrentTracker["onTransition"] = (listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { update, getSnapshot, getActiveIds, onTransition };
+}
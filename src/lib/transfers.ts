@@ -0,0 +1,230 @@
+/**
+ * Local transfers
+ * Tracks the files the extension hands to the browser's download manager,
+ * with progress, speed and where each file came from, so a transfer whose
+ * unrestricted link expired can be retried with a fresh one.
+ */
+
+import { createSerialStore } from "./serial-store";
+
+/**
+ * Where a transfer's file came from
+ */
+export interface TransferSource {
+  // Account that unrestricted the link
+  accountId?: string;
+  // The restricted hoster or torrent link, used to get a fresh download URL
+  link?: string;
+  host?: string;
+  torrentId?: string;
+  torrent?: string;
+}
+
+export type TransferState = "in_progress" | "interrupted" | "complete";
+
+export type TransferControl = "pause" | "resume" | "cancel";
+
+export interface Transfer {
+  // chrome.downloads id
+  downloadId: number;
+  url: string;
+  // Where the file is saved
+  filename: string;
+  source: TransferSource;
+  state: TransferState;
+  paused: boolean;
+  canResume: boolean;
+  bytesReceived: number;
+  // 0 when the server didn't send a size
+  totalBytes: number;
+  // Bytes per second, smoothed over recent samples
+  speed: number;
+  // Seconds left, null when unknown
+  eta: number | null;
+  // Browser's interrupt reason, e.g. "SERVER_FORBIDDEN"
+  error?: string;
+  // Downloads started for this file, counting retries
+  attempts: number;
+  startedAt: number;
+  endedAt?: number;
+  sampledAt: number;
+}
+
+/**
+ * Interrupt reasons that usually mean the unrestricted link stopped working
+ */
+const EXPIRED_LINK_ERRORS = [
+  "SERVER_BAD_CONTENT",
+  "SERVER_FORBIDDEN",
+  "SERVER_UNAUTHORIZED",
+  "SERVER_FAILED",
+  "SERVER_NO_RANGE",
+];
+
+// Weight of the newest sample in the speed average
+const SPEED_SMOOTHING = 0.5;
+const DEFAULT_KEEP = 100;
+
+/**
+ * Did the transfer fail because its download URL no longer works
+ */
+export function isLinkExpired(transfer: Transfer): boolean {
+  return transfer.state === "interrupted" && !!transfer.error && EXPIRED_LINK_ERRORS.includes(transfer.error);
+}
+
+/**
+ * Can the file be downloaded again from a freshly unrestricted link
+ */
+export function canRetryTransfer(transfer: Transfer): boolean {
+  return transfer.state === "interrupted" && !!transfer.source.link;
+}
+
+/**
+ * Make an interrupt reason readable, e.g. "NETWORK_FAILED" -> "Network failed"
+ */
+export function describeTransferError(error: string): string {
+  if (error === "USER_CANCELED") return "Cancelled";
+  const text = error.replace(/_/g, " ").toLowerCase();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Fold the browser's view of a download into a transfer
+ */
+export function applyDownloadItem(
+  transfer: Transfer,
+  item: chrome.downloads.DownloadItem,
+  now = Date.now()
+): Transfer {
+  const state = item.state as TransferState;
+  const active = state === "in_progress" && !item.paused;
+
+  let speed = 0;
+  if (active) {
+    const seconds = (now - transfer.sampledAt) / 1000;
+    const instant = seconds > 0 ? Math.max(0, item.bytesReceived - transfer.bytesReceived) / seconds : 0;
+    speed = transfer.speed > 0 ? transfer.speed * (1 - SPEED_SMOOTHING) + instant * SPEED_SMOOTHING : instant;
+  }
+
+  let eta: number | null = null;
+  if (active && item.totalBytes > 0) {
+    if (speed > 0) {
+      eta = Math.round((item.totalBytes - item.bytesReceived) / speed);
+    } else if (item.estimatedEndTime) {
+      eta = Math.max(0, Math.round((Date.parse(item.estimatedEndTime) - now) / 1000));
+    }
+  }
+
+  return {
+    ...transfer,
+    filename: item.filename || transfer.filename,
+    state,
+    paused: item.paused,
+    canResume: item.canResume,
+    bytesReceived: item.bytesReceived,
+    totalBytes: item.totalBytes,
+    speed,
+    eta,
+    error: item.error,
+    endedAt: item.endTime ? Date.parse(item.endTime) : undefined,
+    sampledAt: now,
+  };
+}
+
+export interface TransferTrackerOptions {
+  load: () => Promise<Transfer[]>;
+  save: (transfers: Transfer[]) => Promise<void>;
+  // The browser's current state of the given downloads
+  search: (downloadIds: number[]) => Promise<chrome.downloads.DownloadItem[]>;
+  // Called with the full list after every change
+  onChange?: (transfers: Transfer[]) => void;
+  // Transfers to keep; the oldest finished ones are dropped first
+  keep?: number;
+}
+
+export interface TransferTracker {
+  track: (downloadId: number, source: TransferSource, attempts?: number) => Promise<void>;
+  // Sync the given transfers with the browser, or every one in progress
+  refresh: (downloadIds?: number[]) => Promise<Transfer[]>;
+  remove: (downloadIds: number[]) => Promise<void>;
+  list: () => Promise<Transfer[]>;
+}
+
+/**
+ * Create the transfer tracker
+ * Browser download events often arrive together; see createSerialStore
+ */
+export function createTransferTracker(options: TransferTrackerOptions): TransferTracker {
+  const { load, save, search, onChange } = options;
+  const keep = options.keep ?? DEFAULT_KEEP;
+  const store = createSerialStore({ load, save, onChange, label: "[Transfers]" });
+
+  function trim(transfers: Transfer[]): Transfer[] {
+    if (transfers.length <= keep) return transfers;
+    const active = transfers.filter((t) => t.state === "in_progress");
+    const finished = transfers.filter((t) => t.state !== "in_progress");
+    const kept = new Set([...active, ...finished.slice(0, Math.max(0, keep - active.length))]);
+    return transfers.filter((t) => kept.has(t));
+  }
+
+  const track: TransferTracker["track"] = async (downloadId, source, attempts = 1) => {
+    await store.update(async (existing) => {
+      const [item] = await search([downloadId]);
+      if (!item) return null;
+
+      const now = Date.now();
+      const transfer = applyDownloadItem(
+        {
+          downloadId,
+          url: item.url,
+          filename: item.filename,
+          source,
+          state: "in_progress",
+          paused: false,
+          canResume: false,
+          bytesReceived: 0,
+          totalBytes: 0,
+          speed: 0,
+          eta: null,
+          attempts,
+          startedAt: now,
+          sampledAt: now,
+        },
+        item,
+        now
+      );
+      return trim([transfer, ...existing.filter((t) => t.downloadId !== downloadId)]);
+    });
+  };
+
+  const refresh: TransferTracker["refresh"] = async (downloadIds) => {
+    const result = await store.update(async (transfers) => {
+      const ids = new Set(
+        downloadIds ?? transfers.filter((t) => t.state === "in_progress").map((t) => t.downloadId)
+      );
+      const tracked = transfers.filter((t) => ids.has(t.downloadId));
+      if (tracked.length === 0) return null;
+
+      const items = new Map(
+        (await search(tracked.map((t) => t.downloadId))).map((item) => [item.id, item])
+      );
+      const now = Date.now();
+      return transfers.map((t) => {
+        const item = ids.has(t.downloadId) ? items.get(t.downloadId) : undefined;
+        return item ? applyDownloadItem(t, item, now) : t;
+      });
+    });
+    return result ?? (await list());
+  };
+
+  const remove: TransferTracker["remove"] = async (downloadIds) => {
+    await store.update((existing) => {
+      const next = existing.filter((t) => !downloadIds.includes(t.downloadId));
+      return next.length === existing.length ? null : next;
+    });
+  };
+
+  const list: TransferTracker["list"] = store.read;
+
+  return { track, refresh, remove, list };
+}
@@ -1,21 +1,20 @@
 import { Download, HardDrive, Settings, User, X } from "lucide-react"
 
-import { useStorage } from "@plasmohq/storage/hook"
-
-import logoImage from "data-base64:~assets/logo.png"
-import { useEffect, useRef, useState } from "react"
-
-import type { AuthData } from "~lib/auth"
-import { authStorage, STORAGE_KEYS } from "~lib/storage"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 
 import { AccountBar } from "~components/AccountBar"
 import { DetectedLinks } from "~components/DetectedLinks"
+import { LoginPrompt } from "~components/LoginPrompt"
 import { TorrentSummary } from "~components/TorrentSummary"
 import { UnrestrictInput } from "~components/UnrestrictInput"
 import type { TorrentItem, TorrentInfo } from "~lib/api/torrents"
+import { errorFromResponse } from "~lib/api/errors"
+import { applyFileSelectionRules } from "~lib/file-rules"
 import type { UnrestrictedLink } from "~lib/api/unrestrict"
 import type { UserProfile } from "~lib/api/user"
 import { messages, scanPageLinks, sendMessage, type DetectedLink } from "~lib/messaging"
+import { useLiveAuth, useLiveEvents, useLiveTorrents } from "~hooks/useLive"
+import { usePreferences } from "~hooks/usePreferences"
 
 import "~style.css"
 
@@ -37,12 +36,23 @@ interface FileSelectionModalProps {
 
 function FileSelectionModal({ isOpen, onClose, torrentInfo, onSelect, loading }: FileSelectionModalProps) {
   const [selectedFiles, setSelectedFiles] = useState<Set<number>>(new Set())
+  const { fileSelectionRules } = usePreferences()
+
+  const rulePicks = useMemo(
+    () => (torrentInfo?.files ? applyFileSelectionRules(torrentInfo.files, fileSelectionRules) : null),
+    [torrentInfo, fileSelectionRules]
+  )
+
+  // Pre-select what the selection rules pick, or everything if they pick nothing
+  const applyRulePicks = useCallback(() => {
+    if (!torrentInfo?.files || !rulePicks) return
+    const picked = rulePicks.selectedIds.length > 0 ? rulePicks.selectedIds : torrentInfo.files.map(f => f.id)
+    setSelectedFiles(new Set(picked))
+  }, [torrentInfo, rulePicks])
 
   useEffect(() => {
-    if (torrentInfo?.files) {
-      setSelectedFiles(new Set(torrentInfo.files.map(f => f.id)))
-    }
-  }, [torrentInfo])
+    applyRulePicks()
+  }, [applyRulePicks])
 
   if (!isOpen || !torrentInfo) return null
 
@@ -106,6 +116,24 @@ function FileSelectionModal({ isOpen, onClose, torrentInfo, onSelect, loading }:
           </span>
         </div>
 
+        {rulePicks && (
+          <div className="flex items-center justify-between px-3 py-1.5 border-b border-neutral-100 dark:border-neutral-800 text-[10px]">
+            <span className="text-neutral-500 dark:text-neutral-400">
+              {rulePicks.selectedIds.length > 0
+                ? `Rules pick ${rulePicks.selectedIds.length}/${torrentInfo.files.length}`
+                : "No files match your rules"}
+            </span>
+            {rulePicks.selectedIds.length > 0 && (
+              <button
+                onClick={applyRulePicks}
+                className="font-medium text-primary hover:text-primary/80 transition-colors"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="flex-1 overflow-y-auto max-h-[220px]">
           <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
             {torrentInfo.files.map((file) => (
@@ -123,6 +151,11 @@ function FileSelectionModal({ isOpen, onClose, torrentInfo, onSelect, loading }:
                   <p className="text-xs text-neutral-900 dark:text-neutral-100 truncate">
                     {file.path.split("/").pop()}
                   </p>
+                  {rulePicks?.reasons[file.id] && (
+                    <p className="text-[10px] text-amber-600 dark:text-amber-400 truncate">
+                      {rulePicks.reasons[file.id]}
+                    </p>
+                  )}
                 </div>
                 <span className="text-[10px] font-mono text-neutral-500 flex-shrink-0">
                   {formatBytes(file.bytes)}
@@ -157,147 +190,12 @@ function FileSelectionModal({ isOpen, onClose, torrentInfo, onSelect, loading }:
   )
 }
 
-type OAuthStatus = "idle" | "pending" | "success" | "error"
-
-function LoginPrompt({ onLoginComplete }: { onLoginComplete: () => void }) {
-  const [status, setStatus] = useState<OAuthStatus>("idle")
-  const [error, setError] = useState<string | null>(null)
-  const pollIntervalRef = useRef<number | null>(null)
-
-  // Cleanup polling on unmount
-  useEffect(() => {
-    return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current)
-      }
-    }
-  }, [])
-
-  const handleAuthorize = async () => {
-    setStatus("pending")
-    setError(null)
-
-    try {
-      // Start OAuth flow in background
-      const response = await chrome.runtime.sendMessage({ type: "START_OAUTH" })
-
-      if (response.error) {
-        setError(response.error)
-        setStatus("error")
-        return
-      }
-
-      if (response.deviceCode) {
-        // Open authorization URL in new tab
-        const authUrl = `https://real-debrid.com/authorize?client_id=X245A4XAIBGVM&device_id=${response.deviceCode.device_code}`
-        chrome.tabs.create({ url: authUrl })
-
-        // Poll for completion
-        pollIntervalRef.current = window.setInterval(async () => {
-          const statusResponse = await chrome.runtime.sendMessage({
-            type: "CHECK_OAUTH_STATUS",
-          })
-
-          if (statusResponse.status === "success") {
-            if (pollIntervalRef.current) {
-              clearInterval(pollIntervalRef.current)
-              pollIntervalRef.current = null
-            }
-            setStatus("success")
-            onLoginComplete()
-          } else if (statusResponse.status === "error") {
-            if (pollIntervalRef.current) {
-              clearInterval(pollIntervalRef.current)
-              pollIntervalRef.current = null
-            }
-            setError(statusResponse.error || "Authorization failed")
-            setStatus("error")
-          }
-        }, 1000)
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to start authorization")
-      setStatus("error")
-    }
-  }
-
-  const handleCancel = () => {
-    if (pollIntervalRef.current) {
-      clearInterval(pollIntervalRef.current)
-      pollIntervalRef.current = null
-    }
-    chrome.runtime.sendMessage({ type: "CANCEL_OAUTH" })
-    setStatus("idle")
-    setError(null)
-  }
-
-  return (
-    <div className="flex flex-col items-center justify-center h-full px-6 py-8">
-      {/* Logo */}
-      <div className="flex items-center justify-center w-12 h-12 mb-4">
-        <img src={logoImage} alt="Real-Debrid" className="w-12 h-12" />
-      </div>
-
-      <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-100 mb-1">
-        Real-Debrid Manager
-      </h2>
-
-      {status === "idle" || status === "error" ? (
-        <>
-          <p className="text-sm text-neutral-500 dark:text-neutral-400 text-center mb-4">
-            Connect your Real-Debrid account
-          </p>
-
-          {error && (
-            <p className="text-xs text-red-500 text-center mb-3">{error}</p>
-          )}
-
-          <button
-            onClick={handleAuthorize}
-            className="w-full h-10 px-4 text-sm font-medium rounded-lg bg-primary text-neutral-900 hover:bg-primary/90 transition-colors"
-          >
-            Authorize with Real-Debrid
-          </button>
-
-          <a
-            href="https://real-debrid.com/?id=8457529"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="mt-4 text-xs text-neutral-400 dark:text-neutral-500 hover:text-neutral-600 dark:hover:text-neutral-300 transition-colors"
-          >
-            No account? Sign up
-          </a>
-        </>
-      ) : (
-        <>
-          <p className="text-sm text-neutral-500 dark:text-neutral-400 text-center mb-4">
-            Complete authorization in the browser tab
-          </p>
-
-          <div className="flex items-center justify-center mb-4">
-            <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-            <span className="ml-2 text-sm text-neutral-600 dark:text-neutral-300">
-              Waiting for authorization...
-            </span>
-          </div>
-
-          <button
-            onClick={handleCancel}
-            className="w-full h-10 px-4 text-sm font-medium rounded-lg border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
-          >
-            Cancel
-          </button>
-        </>
-      )}
-    </div>
-  )
-}
-
 interface PopupState {
   isLoading: boolean
   isAuthenticated: boolean
+  isAddingAccount: boolean
+  accountId: string | null
   user: UserProfile | null
-  torrents: TorrentItem[]
   detectedLinks: DetectedLink[]
   isScanning: boolean
   torrentLoadingId: string | null
@@ -306,12 +204,15 @@ interface PopupState {
   selectedTorrentInfo: TorrentInfo | null
 }
 
+const POPUP_TORRENT_LIMIT = 10
+
 function IndexPopup() {
   const [state, setState] = useState<PopupState>({
     isLoading: true,
     isAuthenticated: false,
+    isAddingAccount: false,
+    accountId: null,
     user: null,
-    torrents: [],
     detectedLinks: [],
     isScanning: false,
     torrentLoadingId: null,
@@ -320,24 +221,30 @@ function IndexPopup() {
     selectedTorrentInfo: null,
   })
 
-  // Watch for auth changes from other contexts (e.g., signed out in dashboard)
-  const [authData] = useStorage<AuthData | null>({
-    key: STORAGE_KEYS.AUTH_DATA,
-    instance: authStorage,
-  })
+  // Torrents are pushed by the background poll, shared with the dashboard
+  const { torrents: liveTorrents, refresh: refreshTorrents } = useLiveTorrents()
+  const recentTorrents = (liveTorrents ?? []).slice(0, POPUP_TORRENT_LIMIT)
+
+  // Account changes from other contexts (e.g., signed out in dashboard)
+  const auth = useLiveAuth()
 
-  // Handle auth state changes from other contexts
+  // Handle account changes from other contexts
   useEffect(() => {
-    // If auth was removed while we thought we were authenticated, update state
-    if (authData === null && state.isAuthenticated && !state.isLoading) {
+    if (!state.isAuthenticated || state.isLoading) return
+
+    // If every account was removed while we thought we were authenticated, update state
+    if (auth?.accountIds.length === 0) {
       setState((prev) => ({
         ...prev,
         isAuthenticated: false,
+        accountId: null,
         user: null,
-        torrents: [],
       }))
+    } else if (auth?.activeAccountId && auth.activeAccountId !== state.accountId) {
+      // Switched accounts - reload everything for the new one
+      window.location.reload()
     }
-  }, [authData, state.isAuthenticated, state.isLoading])
+  }, [auth, state.accountId, state.isAuthenticated, state.isLoading])
 
   // Check auth status and load data on mount
   useEffect(() => {
@@ -346,17 +253,16 @@ function IndexPopup() {
         const authResponse = await messages.checkAuthStatus()
 
         if (authResponse.success && authResponse.data?.authenticated) {
-          const [torrentsResponse, cachedLinksResponse] = await Promise.all([
-            messages.listTorrents({ limit: 10 }),
-            messages.getDetectedLinks(),
-          ])
+          const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true })
+          activeTabIdRef.current = activeTab?.id ?? null
+          const cachedLinksResponse = await messages.getDetectedLinks()
 
           setState((prev) => ({
             ...prev,
             isLoading: false,
             isAuthenticated: true,
+            accountId: authResponse.data?.accountId ?? null,
             user: authResponse.data?.profile ?? null,
-            torrents: torrentsResponse.success ? torrentsResponse.data ?? [] : [],
             detectedLinks: cachedLinksResponse.success ? cachedLinksResponse.data ?? [] : [],
           }))
         } else {
@@ -379,15 +285,25 @@ function IndexPopup() {
     initialize()
   }, [])
 
+  // The tab the popup opened over; detected links belong to it
+  const activeTabIdRef = useRef<number | null>(null)
+
+  // Follow links the background is auto-unrestricting for this popup's tab
+  useLiveEvents(["links"], (event) => {
+    if (event.type === "DETECTED_LINKS" && event.tabId === activeTabIdRef.current) {
+      setState((prev) => ({ ...prev, detectedLinks: event.links }))
+    }
+  })
+
   const handleLoginComplete = () => {
     // Reload the popup state after successful login
     window.location.reload()
   }
 
-  const handleUnrestrict = async (link: string): Promise<UnrestrictedLink> => {
-    const response = await messages.unrestrictLink(link)
+  const handleUnrestrict = async (link: string, signal?: AbortSignal): Promise<UnrestrictedLink> => {
+    const response = await messages.unrestrictLink(link, undefined, undefined, { signal })
     if (!response.success || !response.data) {
-      throw new Error(response.error ?? "Failed to unrestrict link")
+      throw errorFromResponse(response, "Failed to unrestrict link")
     }
     return response.data
   }
@@ -424,13 +340,6 @@ function IndexPopup() {
     }
   }
 
-  const refreshTorrents = async () => {
-    const response = await messages.listTorrents({ limit: 10 })
-    if (response.success && response.data) {
-      setState((prev) => ({ ...prev, torrents: response.data ?? [] }))
-    }
-  }
-
   const handleCopyLink = async (torrent: TorrentItem) => {
     if (torrent.links.length === 0) return
 
@@ -448,24 +357,17 @@ function IndexPopup() {
     if (torrent.links.length === 0) return
 
     setState((prev) => ({ ...prev, torrentLoadingId: torrent.id }))
-    for (const link of torrent.links) {
-      const response = await messages.unrestrictLink(link)
-      if (response.success && response.data) {
-        window.open(response.data.download, "_blank")
-      }
-    }
+    // Links are unrestricted as the queue reaches them
+    await messages.queueDownloads(
+      torrent.links.map((link) => ({ link, torrent: torrent.filename, torrentId: torrent.id }))
+    )
     setState((prev) => ({ ...prev, torrentLoadingId: null }))
   }
 
   const handleDeleteTorrent = async (torrent: TorrentItem) => {
     setState((prev) => ({ ...prev, torrentLoadingId: torrent.id }))
-    const response = await messages.deleteTorrent(torrent.id)
-    if (response.success) {
-      setState((prev) => ({
-        ...prev,
-        torrents: prev.torrents.filter((t) => t.id !== torrent.id),
-      }))
-    }
+    // The background drops it from the live list once deleted
+    await messages.deleteTorrent(torrent.id)
     setState((prev) => ({ ...prev, torrentLoadingId: null }))
   }
 
@@ -518,11 +420,18 @@ function IndexPopup() {
     )
   }
 
-  // Unauthenticated state
-  if (!state.isAuthenticated) {
+  // Unauthenticated state, or signing in to another account
+  if (!state.isAuthenticated || state.isAddingAccount) {
     return (
       <div className="w-[350px] bg-white dark:bg-neutral-900">
-        <LoginPrompt onLoginComplete={handleLoginComplete} />
+        <LoginPrompt
+          onLoginComplete={handleLoginComplete}
+          onCancel={
+            state.isAddingAccount
+              ? () => setState((prev) => ({ ...prev, isAddingAccount: false }))
+              : undefined
+          }
+        />
       </div>
     )
   }
@@ -531,7 +440,12 @@ function IndexPopup() {
   return (
     <div className="w-[350px] bg-white dark:bg-neutral-900 overflow-hidden">
       {/* Account bar */}
-      {state.user && <AccountBar user={state.user} />}
+      {state.user && (
+        <AccountBar
+          user={state.user}
+          onAddAccount={() => setState((prev) => ({ ...prev, isAddingAccount: true }))}
+        />
+      )}
 
       {/* Unrestrict input */}
       <UnrestrictInput onUnrestrict={handleUnrestrict} />
@@ -546,7 +460,7 @@ function IndexPopup() {
 
       {/* Torrent summary */}
       <TorrentSummary
-        torrents={state.torrents}
+        torrents={recentTorrents}
         onCopyLink={handleCopyLink}
         onDownload={handleDownloadTorrent}
         onDelete={handleDeleteTorrent}
@@ -1,35 +1,39 @@
 import { useState, useEffect } from "react"
 
-import { useStorage } from "@plasmohq/storage/hook"
-
 import "~style.css"
 
 import { Sidebar, type Section } from "~components/dashboard/Sidebar"
 import { AccountSection } from "~components/dashboard/AccountSection"
 import { TorrentsSection } from "~components/dashboard/TorrentsSection"
 import { DownloadsSection } from "~components/dashboard/DownloadsSection"
+import { TransfersSection } from "~components/dashboard/TransfersSection"
 import { HostsSection } from "~components/dashboard/HostsSection"
 import { SettingsSection } from "~components/dashboard/SettingsSection"
+import { LoginPrompt } from "~components/LoginPrompt"
 import { messages } from "~lib/messaging"
-import type { AuthData } from "~lib/auth"
-import { authStorage, STORAGE_KEYS } from "~lib/storage"
+import { useLiveAuth } from "~hooks/useLive"
 
 function Dashboard() {
   const [activeSection, setActiveSection] = useState<Section>("account")
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null)
+  const [isAddingAccount, setIsAddingAccount] = useState(false)
 
-  // Watch for auth changes from other contexts (e.g., signed out in popup)
-  const [authData] = useStorage<AuthData | null>({
-    key: STORAGE_KEYS.AUTH_DATA,
-    instance: authStorage,
-  })
+  // Account changes from other contexts (e.g., signed out in popup)
+  const auth = useLiveAuth()
+  const activeAccountId = auth?.activeAccountId ?? undefined
 
-  // Read URL hash for initial section
+  // Read URL hash for the section, initially and when a link changes it
   useEffect(() => {
-    const hash = window.location.hash.slice(1) // Remove #
-    if (hash && ["account", "torrents", "downloads", "hosts", "settings"].includes(hash)) {
-      setActiveSection(hash as Section)
+    const readSection = () => {
+      // Remove # and any view parameters, e.g. #torrents?sort=size
+      const hash = window.location.hash.slice(1).split("?")[0]
+      if (hash && ["account", "torrents", "downloads", "transfers", "hosts", "settings"].includes(hash)) {
+        setActiveSection(hash as Section)
+      }
     }
+    readSection()
+    window.addEventListener("hashchange", readSection)
+    return () => window.removeEventListener("hashchange", readSection)
   }, [])
 
   useEffect(() => {
@@ -41,15 +45,22 @@ function Dashboard() {
     checkAuth()
   }, [])
 
-  // Handle auth state changes from other contexts
+  // Handle account changes from other contexts
   useEffect(() => {
-    if (authData === null && isAuthenticated === true) {
+    if (!auth) return
+    if (auth.accountIds.length === 0 && isAuthenticated === true) {
       setIsAuthenticated(false)
-    } else if (authData !== null && isAuthenticated === false) {
-      // Auth was restored, refresh auth status
+    } else if (auth.accountIds.length > 0 && isAuthenticated === false) {
+      // An account was added, refresh auth status
       setIsAuthenticated(true)
     }
-  }, [authData, isAuthenticated])
+  }, [auth, isAuthenticated])
+
+  // Keep the section in the URL so reloads and bookmarks return to it
+  const handleSectionChange = (section: Section) => {
+    setActiveSection(section)
+    window.history.replaceState(null, "", `#${section}`)
+  }
 
   // Show loading while checking auth
   if (isAuthenticated === null) {
@@ -95,6 +106,8 @@ function Dashboard() {
         return <TorrentsSection />
       case "downloads":
         return <DownloadsSection />
+      case "transfers":
+        return <TransfersSection />
       case "hosts":
         return <HostsSection />
       case "settings":
@@ -109,15 +122,29 @@ function Dashboard() {
       {/* Sidebar */}
       <Sidebar
         activeSection={activeSection}
-        onSectionChange={setActiveSection}
+        onSectionChange={handleSectionChange}
+        onAddAccount={() => setIsAddingAccount(true)}
       />
 
-      {/* Main Content */}
+      {/* Main Content - remounted per account so sections reload */}
       <main className="flex-1 overflow-auto">
-        <div className="max-w-4xl mx-auto p-6 lg:p-8">
+        <div key={activeAccountId} className="max-w-4xl mx-auto p-6 lg:p-8">
           {renderSection()}
         </div>
       </main>
+
+      {/* Add Account */}
+      {isAddingAccount && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/50" onClick={() => setIsAddingAccount(false)} />
+          <div className="relative w-full max-w-sm mx-4 bg-white dark:bg-neutral-900 rounded-xl shadow-xl border border-neutral-200 dark:border-neutral-800">
+            <LoginPrompt
+              onLoginComplete={() => setIsAddingAccount(false)}
+              onCancel={() => setIsAddingAccount(false)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,29 @@
+/**
+ * Offscreen document for work the background service worker can't do
+ * without a DOM; currently copying completed torrents' links
+ */
+
+interface OffscreenMessage {
+  target: "offscreen"
+  type: "COPY_TO_CLIPBOARD"
+  text: string
+}
+
+chrome.runtime.onMessage.addListener((message: OffscreenMessage, _sender, sendResponse) => {
+  if (message?.target !== "offscreen" || message.type !== "COPY_TO_CLIPBOARD") return
+
+  // navigator.clipboard needs a focused document, which this never is
+  const textArea = document.createElement("textarea")
+  textArea.value = message.text
+  document.body.appendChild(textArea)
+  textArea.select()
+  const copied = document.execCommand("copy")
+  document.body.removeChild(textArea)
+  sendResponse({ success: copied })
+})
+
+function Offscreen() {
+  return null
+}
+
+export default Offscreen
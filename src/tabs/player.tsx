@@ -0,0 +1,504 @@
+import Hls from "hls.js"
+import { Film, Keyboard, Loader2, X } from "lucide-react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+
+import "~style.css"
+
+import { describeError, type ErrorDetails } from "~lib/api/errors"
+import type { MediaInfo } from "~lib/api/streaming"
+import { messages } from "~lib/messaging"
+import {
+  getAudioTracks,
+  getDirectSource,
+  getPlayerSources,
+  getSubtitleTracks,
+  isResumable,
+  matchTrack,
+  PLAYER_SHORTCUTS,
+  type MediaTrack,
+  type PlayerSource
+} from "~lib/player"
+import { storage } from "~lib/storage"
+import { isStreamingRefusal, STREAMING_REFUSED_MESSAGE } from "~lib/streaming-support"
+import { ErrorNotice } from "~components/ErrorNotice"
+
+// Opened as tabs/player.html?id=<file id>&name=<file name>, plus src=<download
+// URL> for files the browser can play as-is and direct=1 to skip transcodes
+function getPlayerParams() {
+  const params = new URLSearchParams(window.location.search)
+  return {
+    fileId: params.get("id") ?? "",
+    filename: params.get("name") ?? "",
+    src: params.get("src") ?? "",
+    direct: params.get("direct") === "1"
+  }
+}
+
+// How often the position is saved while playing
+const SAVE_POSITION_INTERVAL_MS = 5000
+
+function formatTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = Math.floor(seconds % 60)
+  const mm = hours > 0 ? String(minutes).padStart(2, "0") : String(minutes)
+  return `${hours > 0 ? `${hours}:` : ""}${mm}:${String(secs).padStart(2, "0")}`
+}
+
+// A track the current source offers, as hls.js reports it
+interface SourceTrack {
+  lang?: string
+  name?: string
+}
+
+function toMediaTracks(tracks: SourceTrack[]): MediaTrack[] {
+  return tracks.map((track, index) => ({
+    lang: track.lang ?? "",
+    langIso: track.lang ?? "",
+    label: track.name || track.lang || `Track ${index + 1}`
+  }))
+}
+
+interface HlsLevel {
+  index: number
+  height: number
+}
+
+const selectClassName =
+  "px-2 py-1 rounded-md text-xs text-neutral-200 bg-neutral-800 border border-neutral-700 focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+
+function Player() {
+  const { fileId, filename, src, direct } = useMemo(getPlayerParams, [])
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const hlsRef = useRef<Hls | null>(null)
+  // Where to seek once the next source has loaded: a resume or source switch
+  const pendingSeekRef = useRef<number | null>(null)
+  const lastSavedRef = useRef(0)
+
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<ErrorDetails | null>(null)
+  const [playbackError, setPlaybackError] = useState<string | null>(null)
+  // Why the original file plays instead of a transcode
+  const [fallbackNotice, setFallbackNotice] = useState<string | null>(null)
+  const [sources, setSources] = useState<PlayerSource[]>([])
+  const [sourceKey, setSourceKey] = useState<string | null>(null)
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null)
+  const [hlsLevels, setHlsLevels] = useState<HlsLevel[]>([])
+  const [hlsLevel, setHlsLevel] = useState(-1)
+  const [sourceAudio, setSourceAudio] = useState<SourceTrack[]>([])
+  const [sourceSubtitles, setSourceSubtitles] = useState<SourceTrack[]>([])
+  const [audioIndex, setAudioIndex] = useState(0)
+  // -1 is off
+  const [subtitleIndex, setSubtitleIndex] = useState(-1)
+  const [resumedAt, setResumedAt] = useState<number | null>(null)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+
+  const source = sources.find((s) => s.key === sourceKey) ?? null
+
+  // MediaInfo describes the file; fall back to what the stream itself names
+  const audioTracks = mediaInfo && Object.keys(mediaInfo.audio ?? {}).length > 0
+    ? getAudioTracks(mediaInfo.audio)
+    : toMediaTracks(sourceAudio)
+  const subtitleTracks = mediaInfo && Object.keys(mediaInfo.subtitles ?? {}).length > 0
+    ? getSubtitleTracks(mediaInfo.subtitles)
+    : toMediaTracks(sourceSubtitles)
+
+  useEffect(() => {
+    document.title = filename || "Player"
+  }, [filename])
+
+  // Transcode links, media info and the saved position
+  useEffect(() => {
+    if (!fileId || (direct && !src)) {
+      setError(describeError("No file to play"))
+      setLoading(false)
+      return
+    }
+
+    const load = async () => {
+      const [transcodeResponse, mediaResponse, saved] = await Promise.all([
+        direct ? null : messages.getTranscodeLinks(fileId),
+        direct ? null : messages.getMediaInfo(fileId),
+        storage.getPlaybackPosition(fileId)
+      ])
+
+      let playable = transcodeResponse?.success && transcodeResponse.data
+        ? getPlayerSources(transcodeResponse.data)
+        : []
+      // The original file stays on offer, and stands in when transcoding fails
+      if (src) playable = [...playable, getDirectSource(src)]
+
+      if (playable.length === 0) {
+        setError(
+          transcodeResponse && !transcodeResponse.success
+            ? describeError(transcodeResponse, "Failed to get streaming links")
+            : describeError("Real-Debrid offers no HLS or MP4 stream for this file")
+        )
+        setLoading(false)
+        return
+      }
+
+      if (transcodeResponse && playable[0].kind === "direct") {
+        setFallbackNotice(
+          !transcodeResponse.success && isStreamingRefusal(transcodeResponse.errorCode)
+            ? `${STREAMING_REFUSED_MESSAGE} Playing the original file instead.`
+            : "Real-Debrid has no stream for this file. Playing the original file instead."
+        )
+      }
+      if (mediaResponse?.success && mediaResponse.data) setMediaInfo(mediaResponse.data)
+      if (saved && isResumable(saved.position, saved.duration)) {
+        pendingSeekRef.current = saved.position
+        setResumedAt(saved.position)
+      }
+      setSources(playable)
+      setSourceKey(playable[0].key)
+      setLoading(false)
+    }
+
+    load().catch((err) => {
+      setError(describeError(err, "Failed to load the player"))
+      setLoading(false)
+    })
+  }, [fileId, src, direct])
+
+  // Attach the chosen source; hls.js where the browser can't play HLS itself
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || !source) return
+
+    setPlaybackError(null)
+    setHlsLevels([])
+    setHlsLevel(-1)
+    setSourceAudio([])
+    setSourceSubtitles([])
+
+    if (source.kind === "hls" && Hls.isSupported()) {
+      // Extension pages' CSP doesn't allow the blob: worker hls.js would start
+      const hls = new Hls({ enableWorker: false })
+      hlsRef.current = hls
+      hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+        setHlsLevels(
+          data.levels
+            .map((level, index) => ({ index, height: level.height }))
+            .filter((level) => level.height > 0)
+            .sort((a, b) => b.height - a.height)
+        )
+      })
+      hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, (_event, data) => setSourceAudio(data.audioTracks))
+      hls.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, (_event, data) => setSourceSubtitles(data.subtitleTracks))
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (data.fatal) setPlaybackError(`Playback failed (${data.details}). Try an MP4 quality instead.`)
+      })
+      hls.loadSource(source.url)
+      hls.attachMedia(video)
+    } else {
+      video.src = source.url
+    }
+
+    return () => {
+      hlsRef.current?.destroy()
+      hlsRef.current = null
+      video.removeAttribute("src")
+      video.load()
+    }
+  }, [source])
+
+  const savePosition = useCallback(() => {
+    const video = videoRef.current
+    if (!video || !fileId || !Number.isFinite(video.duration)) return
+    lastSavedRef.current = Date.now()
+    storage
+      .setPlaybackPosition(
+        fileId,
+        isResumable(video.currentTime, video.duration)
+          ? { position: video.currentTime, duration: video.duration, updatedAt: Date.now() }
+          : null
+      )
+      .catch((err) => console.error("Failed to save playback position:", err))
+  }, [fileId])
+
+  // Save on the way out too; the write is queued before the page goes
+  useEffect(() => {
+    window.addEventListener("pagehide", savePosition)
+    return () => window.removeEventListener("pagehide", savePosition)
+  }, [savePosition])
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current
+    if (!video || pendingSeekRef.current === null) return
+    video.currentTime = pendingSeekRef.current
+    pendingSeekRef.current = null
+  }
+
+  const handleTimeUpdate = () => {
+    if (Date.now() - lastSavedRef.current >= SAVE_POSITION_INTERVAL_MS) savePosition()
+  }
+
+  // Switching between HLS and MP4 carries on from the same point
+  const handleQualityChange = (value: string) => {
+    if (value.startsWith("level:")) {
+      const level = Number(value.slice("level:".length))
+      if (hlsRef.current) hlsRef.current.currentLevel = level
+      setHlsLevel(level)
+      return
+    }
+    pendingSeekRef.current = videoRef.current?.currentTime ?? null
+    setSourceKey(value)
+  }
+
+  const selectAudio = (index: number) => {
+    setAudioIndex(index)
+    const hls = hlsRef.current
+    if (!hls || hls.audioTracks.length === 0) return
+    const match = matchTrack(hls.audioTracks, audioTracks[index], index)
+    if (match !== -1) hls.audioTrack = match
+  }
+
+  const selectSubtitle = useCallback(
+    (index: number) => {
+      setSubtitleIndex(index)
+      const hls = hlsRef.current
+      if (!hls) return
+      const match = index === -1 ? -1 : matchTrack(hls.subtitleTracks, subtitleTracks[index], index)
+      hls.subtitleTrack = match
+      hls.subtitleDisplay = match !== -1
+    },
+    [subtitleTracks]
+  )
+
+  // Only hls.js reports tracks; MP4 sources play their defaults
+  const canSwitchAudio = sourceAudio.length > 1
+  const canSwitchSubtitles = sourceSubtitles.length > 0
+
+  // Keyboard shortcuts; see PLAYER_SHORTCUTS
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const video = videoRef.current
+      if (!video || e.ctrlKey || e.metaKey || e.altKey) return
+      if (e.target instanceof HTMLSelectElement || e.target instanceof HTMLInputElement) return
+
+      const seek = (seconds: number) => {
+        video.currentTime = Math.min(Math.max(video.currentTime + seconds, 0), video.duration || Infinity)
+      }
+
+      switch (e.key) {
+        case " ":
+        case "k":
+          // Rejects before a source loads or while autoplay is blocked; the
+          // key press just does nothing then
+          if (video.paused) video.play().catch(() => undefined)
+          else video.pause()
+          break
+        case "ArrowLeft":
+          seek(-5)
+          break
+        case "ArrowRight":
+          seek(5)
+          break
+        case "j":
+          seek(-10)
+          break
+        case "l":
+          seek(10)
+          break
+        case "ArrowUp":
+          video.volume = Math.min(video.volume + 0.1, 1)
+          break
+        case "ArrowDown":
+          video.volume = Math.max(video.volume - 0.1, 0)
+          break
+        case "m":
+          video.muted = !video.muted
+          break
+        case "f":
+          if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined)
+          else video.requestFullscreen().catch(() => undefined)
+          break
+        case "c":
+          if (canSwitchSubtitles) {
+            // Off, then each track in turn
+            selectSubtitle(subtitleIndex + 1 < subtitleTracks.length ? subtitleIndex + 1 : -1)
+          }
+          break
+        case "?":
+          setShowShortcuts((shown) => !shown)
+          break
+        default:
+          if (/^[0-9]$/.test(e.key) && Number.isFinite(video.duration)) {
+            video.currentTime = (video.duration * Number(e.key)) / 10
+            break
+          }
+          return
+      }
+      e.preventDefault()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [canSwitchSubtitles, selectSubtitle, subtitleIndex, subtitleTracks.length])
+
+  const qualityValue = source?.kind === "hls" && hlsLevels.length > 0 ? `level:${hlsLevel}` : sourceKey ?? ""
+
+  return (
+    <div className="h-screen flex flex-col bg-neutral-950 text-neutral-200">
+      {/* Header */}
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-neutral-800">
+        <Film size={18} className="text-accent flex-shrink-0" />
+        <h1 className="flex-1 min-w-0 text-sm font-medium truncate" title={filename}>
+          {filename || "Player"}
+        </h1>
+
+        {sources.length > 0 && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <select
+              value={qualityValue}
+              onChange={(e) => handleQualityChange(e.target.value)}
+              className={selectClassName}
+              title="Quality"
+            >
+              {sources.map((s) =>
+                s.kind === "hls" && s.key === sourceKey && hlsLevels.length > 0 ? (
+                  <optgroup key={s.key} label="HLS">
+                    <option value="level:-1">Auto (HLS)</option>
+                    {hlsLevels.map((level) => (
+                      <option key={level.index} value={`level:${level.index}`}>
+                        {level.height}p (HLS)
+                      </option>
+                    ))}
+                  </optgroup>
+                ) : (
+                  <option key={s.key} value={s.key}>
+                    {s.label}
+                  </option>
+                )
+              )}
+            </select>
+
+            <select
+              value={audioIndex}
+              onChange={(e) => selectAudio(Number(e.target.value))}
+              disabled={!canSwitchAudio}
+              className={selectClassName}
+              title={canSwitchAudio ? "Audio track" : "This stream has a single audio track"}
+            >
+              {audioTracks.length === 0 && <option value={0}>Default audio</option>}
+              {audioTracks.map((track, index) => (
+                <option key={index} value={index}>
+                  {track.label}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={subtitleIndex}
+              onChange={(e) => selectSubtitle(Number(e.target.value))}
+              disabled={!canSwitchSubtitles}
+              className={selectClassName}
+              title={canSwitchSubtitles ? "Subtitles" : "This stream carries no subtitles"}
+            >
+              <option value={-1}>Subtitles off</option>
+              {subtitleTracks.map((track, index) => (
+                <option key={index} value={index}>
+                  {track.label}
+                </option>
+              ))}
+            </select>
+
+            <button
+              onClick={() => setShowShortcuts((shown) => !shown)}
+              className="p-1.5 rounded-md text-neutral-400 hover:text-neutral-200 hover:bg-neutral-800 transition-colors"
+              title="Keyboard shortcuts (?)"
+            >
+              <Keyboard size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Stage */}
+      <div className="relative flex-1 min-h-0 flex items-center justify-center bg-black">
+        {loading ? (
+          <Loader2 size={28} className="animate-spin text-neutral-500" />
+        ) : error ? (
+          <div className="w-full max-w-md p-4">
+            <ErrorNotice error={error} variant="page" onRetry={() => window.location.reload()} />
+          </div>
+        ) : null}
+
+        <video
+          ref={videoRef}
+          controls
+          autoPlay
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={handleTimeUpdate}
+          onPause={savePosition}
+          onEnded={savePosition}
+          className={loading || error ? "hidden" : "w-full h-full"}
+        />
+
+        {fallbackNotice && !playbackError && !loading && !error && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 flex items-center gap-3 max-w-lg px-3 py-1.5 rounded-md text-xs bg-neutral-900/90 border border-neutral-700">
+            <span>{fallbackNotice}</span>
+            <button
+              onClick={() => setFallbackNotice(null)}
+              className="text-neutral-500 hover:text-neutral-300 transition-colors"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
+        {playbackError && (
+          <p className="absolute top-3 left-1/2 -translate-x-1/2 px-3 py-1.5 rounded-md text-xs bg-red-900/80 text-red-100">
+            {playbackError}
+          </p>
+        )}
+
+        {resumedAt !== null && !loading && !error && (
+          <div className="absolute bottom-16 left-4 flex items-center gap-3 px-3 py-1.5 rounded-md text-xs bg-neutral-900/90 border border-neutral-700">
+            <span>Resumed at {formatTime(resumedAt)}</span>
+            <button
+              onClick={() => {
+                if (videoRef.current) videoRef.current.currentTime = 0
+                setResumedAt(null)
+              }}
+              className="font-medium text-primary hover:text-primary/80 transition-colors"
+            >
+              Start over
+            </button>
+            <button
+              onClick={() => setResumedAt(null)}
+              className="text-neutral-500 hover:text-neutral-300 transition-colors"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
+        {showShortcuts && (
+          <div className="absolute top-3 right-3 w-64 rounded-lg bg-neutral-900/95 border border-neutral-700 shadow-xl">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-800">
+              <h2 className="text-xs font-semibold">Keyboard Shortcuts</h2>
+              <button
+                onClick={() => setShowShortcuts(false)}
+                className="text-neutral-500 hover:text-neutral-300 transition-colors"
+              >
+                <X size={14} />
+              </button>
+            </div>
+            <dl className="px-3 py-2 space-y-1">
+              {PLAYER_SHORTCUTS.map((shortcut) => (
+                <div key={shortcut.keys} className="flex items-center justify-between gap-3 text-xs">
+                  <dt className="font-mono text-neutral-300">{shortcut.keys}</dt>
+                  <dd className="text-neutral-500 text-right">{shortcut.action}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Player